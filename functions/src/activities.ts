@@ -0,0 +1,92 @@
+// functions/src/activities.ts
+// Taking part in activities. Participants, the waitlist, RSVPs and invite answers are only written here,
+// so families cannot rewrite each other's entries or take more spots than the activity has.
+import { onCall, HttpsError } from "firebase-functions/v2/https";
+import { onDocumentUpdated } from "firebase-functions/v2/firestore";
+import * as logger from "firebase-functions/logger";
+import { FieldValue } from "firebase-admin/firestore";
+import type { SetRsvpRequest, SetRsvpResponse } from "@/lib/callables";
+import { applyRsvpToSpots, inviteStatusForRsvp, promoteFromWaitlist, RSVP_STATUSES } from "@/lib/participation";
+import { readChildren } from "@/lib/profile";
+import type { ActivityParticipant } from "@/lib/types";
+import { canViewActivity } from "@/lib/visibility";
+import { db, requireUid, toActivityClient } from "./admin";
+
+/**
+ * Records the caller's RSVP. "going" takes a spot or a waitlist place (or updates the children on the one the
+ * caller already has), "maybe" and "declined" release it and promote the first waitlisted
+ * family. Answering also answers the caller's invite, if they were invited.
+ */
+export const setRsvp = onCall<SetRsvpRequest, Promise<SetRsvpResponse>>(async (request) => {
+  const uid = requireUid(request);
+  const { activityId, status, childIds } = request.data ?? {};
+  if (typeof activityId !== "string" || !activityId || activityId.includes("/") ||
+      !RSVP_STATUSES.includes(status) || !Array.isArray(childIds)) {
+    throw new HttpsError("invalid-argument", "An activity id, a valid status and a list of children are required.");
+  }
+
+  // Name, photo and children come from the caller's profile, so nobody can answer on someone else's behalf
+  const profile = (await db.doc(`users/${uid}`).get()).data() ?? {};
+  const participant: ActivityParticipant = {
+    uid,
+    name: profile.displayName ?? request.auth?.token.name ?? null,
+    photoURL: profile.photoURL ?? null,
+    children: status === "going"
+      ? readChildren(profile).filter(child => childIds.includes(child.id)).map(child => ({ id: child.id, nickname: child.nickname }))
+      : [],
+  };
+  const activityRef = db.doc(`activities/${activityId}`);
+
+  const result = await db.runTransaction(async (transaction) => {
+    const activityData = (await transaction.get(activityRef)).data();
+    if (!activityData) {
+      throw new HttpsError("not-found", "Activity not found.");
+    }
+    const activity = toActivityClient(activityData);
+    const isFriendOfCreator = (await transaction.get(db.doc(`users/${activity.creatorId}/friends/${uid}`))).exists;
+    if (!canViewActivity(activity, uid, isFriendOfCreator ? [activity.creatorId] : [])) {
+      throw new HttpsError("permission-denied", "You cannot answer for this activity.");
+    }
+
+    const spots = applyRsvpToSpots(
+      { participants: activity.participants, waitlist: activity.waitlist ?? [], maxParticipants: activity.maxParticipants },
+      participant,
+      status
+    );
+    const update: { [key: string]: unknown } = {
+      [`rsvps.${uid}`]: { uid, name: participant.name, photoURL: participant.photoURL ?? null, status, respondedAt: FieldValue.serverTimestamp() },
+      participants: spots.participants,
+      participantUids: spots.participants.map(p => p.uid),
+      waitlist: spots.waitlist,
+    };
+    if (activity.invitees[uid]) {
+      update[`invitees.${uid}.status`] = inviteStatusForRsvp(status);
+      update[`invitees.${uid}.respondedAt`] = FieldValue.serverTimestamp();
+    }
+    transaction.update(activityRef, update);
+    return spots.result;
+  });
+  return { result };
+});
+
+// Moves waitlisted families into free spots after the creator raised or removed the capacity
+export const promoteWaitlist = onDocumentUpdated("activities/{activityId}", async (event) => {
+  const before = event.data?.before.data();
+  const after = event.data?.after.data();
+  if (!before || !after || (before.maxParticipants ?? null) === (after.maxParticipants ?? null)) return;
+
+  const activityRef = event.data!.after.ref;
+  await db.runTransaction(async (transaction) => {
+    const activity = (await transaction.get(activityRef)).data();
+    const waitlist = activity?.waitlist ?? [];
+    if (!activity || waitlist.length === 0) return;
+    const promoted = promoteFromWaitlist({ participants: activity.participants ?? [], waitlist, maxParticipants: activity.maxParticipants ?? null });
+    if (promoted.waitlist.length === waitlist.length) return;
+    transaction.update(activityRef, {
+      participants: promoted.participants,
+      participantUids: promoted.participants.map(p => p.uid),
+      waitlist: promoted.waitlist,
+    });
+    logger.info(`promoteWaitlist: Moved ${waitlist.length - promoted.waitlist.length} families off the waitlist of ${event.params.activityId}`);
+  });
+});
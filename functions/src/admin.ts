@@ -0,0 +1,45 @@
+// functions/src/admin.ts
+// Admin SDK setup and document conversions shared by all functions.
+import { initializeApp } from "firebase-admin/app";
+import { getFirestore, Timestamp, type DocumentData } from "firebase-admin/firestore";
+import { HttpsError, type CallableRequest } from "firebase-functions/v2/https";
+import type { CallableErrorDetails, CallableErrorReason } from "@/lib/callables";
+import type { ActivityClient } from "@/lib/types";
+
+initializeApp();
+export const db = getFirestore();
+
+export const toIsoString = (value: unknown): string =>
+  value instanceof Timestamp ? value.toDate().toISOString() : new Date(0).toISOString();
+
+// Mirrors toActivityClient in src/lib/firebase/services.ts for documents read with the Admin SDK
+export const toActivityClient = (data: DocumentData): ActivityClient => ({
+  ...(data as ActivityClient),
+  location: data.location ?? null,
+  participants: data.participants ?? [],
+  maxParticipants: data.maxParticipants ?? null,
+  waitlist: data.waitlist ?? [],
+  rsvps: Object.fromEntries(
+    Object.entries((data.rsvps ?? {}) as Record<string, DocumentData>).map(([uid, rsvp]) => [uid, { ...rsvp, respondedAt: toIsoString(rsvp.respondedAt) }])
+  ) as ActivityClient["rsvps"],
+  invitees: Object.fromEntries(
+    Object.entries((data.invitees ?? {}) as Record<string, DocumentData>).map(([uid, invitee]) => [
+      uid,
+      { ...invitee, invitedAt: toIsoString(invitee.invitedAt), respondedAt: invitee.respondedAt ? toIsoString(invitee.respondedAt) : null },
+    ])
+  ) as ActivityClient["invitees"],
+  date: toIsoString(data.date),
+  createdAt: toIsoString(data.createdAt),
+});
+
+// The Admin SDK bypasses the rules, so every callable checks the caller itself
+export const requireUid = (request: CallableRequest<unknown>): string => {
+  if (!request.auth) {
+    throw new HttpsError("unauthenticated", "Please sign in first.");
+  }
+  return request.auth.uid;
+};
+
+// A failure the app shows to the user; the reason lets it react to specific cases
+export const preconditionFailed = (message: string, reason: CallableErrorReason): HttpsError =>
+  new HttpsError("failed-precondition", message, { reason } satisfies CallableErrorDetails);
@@ -0,0 +1,182 @@
+// functions/src/friends.ts
+// Friendships and invite links. Both users' friends lists are written in one transaction here, so the
+// rules only let clients read them.
+import { onCall, HttpsError } from "firebase-functions/v2/https";
+import * as logger from "firebase-functions/logger";
+import { FieldValue, Timestamp, type DocumentData, type Transaction } from "firebase-admin/firestore";
+import type {
+  AcceptFriendRequestRequest,
+  AcceptInvitationRequest,
+  AcceptInvitationResponse,
+  RemoveFriendRequest,
+} from "@/lib/callables";
+import type { Friend, FriendRequestStatus } from "@/lib/types";
+import { db, preconditionFailed, requireUid } from "./admin";
+
+const INVITATION_ID_PATTERN = /^[0-9a-f]{64}$/;
+
+const friendRef = (userId: string, friendId: string) => db.doc(`users/${userId}/friends/${friendId}`);
+const requestRef = (ownerId: string, otherId: string) => db.doc(`users/${ownerId}/friendRequests/${otherId}`);
+
+const requireOtherUid = (value: unknown, uid: string): string => {
+  if (typeof value !== "string" || !value || value.includes("/")) {
+    throw new HttpsError("invalid-argument", "A valid user id is required.");
+  }
+  if (value === uid) {
+    throw preconditionFailed("You cannot add yourself as a friend.", "cannot-add-self");
+  }
+  return value;
+};
+
+// Name and photo as shown in friends lists and member entries, taken from the profile rather than the caller
+const readFriend = async (transaction: Transaction, uid: string): Promise<Friend> => {
+  const profileSnap = await transaction.get(db.doc(`users/${uid}`));
+  return { uid, displayName: profileSnap.get("displayName") ?? null, photoURL: profileSnap.get("photoURL") ?? null };
+};
+
+// Adds each user to the other's friends list and marks both copies of their request as accepted
+const writeFriendship = (transaction: Transaction, sender: Friend, recipient: Friend, invitationId: string | null) => {
+  const request = {
+    fromUid: sender.uid,
+    fromName: sender.displayName,
+    fromPhotoURL: sender.photoURL,
+    toUid: recipient.uid,
+    toName: recipient.displayName,
+    toPhotoURL: recipient.photoURL,
+    status: "accepted" satisfies FriendRequestStatus,
+    invitationId,
+    updatedAt: FieldValue.serverTimestamp(),
+  };
+  transaction.set(friendRef(sender.uid, recipient.uid), recipient);
+  transaction.set(friendRef(recipient.uid, sender.uid), sender);
+  transaction.set(requestRef(sender.uid, recipient.uid), request);
+  transaction.set(requestRef(recipient.uid, sender.uid), request);
+};
+
+const checkRedeemable = (invitation: DocumentData, uid: string) => {
+  const expiresAt = invitation.expiresAt instanceof Timestamp ? invitation.expiresAt : null;
+  if (expiresAt && expiresAt.toMillis() < Date.now()) {
+    throw preconditionFailed("This invite link has expired.", "invite-expired");
+  }
+  // Links created before usage limits count as single-use; re-using a link one redeemed before is allowed
+  const maxUses = invitation.maxUses === undefined ? 1 : invitation.maxUses;
+  if (maxUses != null && (invitation.useCount ?? 0) >= maxUses && !invitation.redemptions?.[uid]) {
+    throw preconditionFailed("This invite link has already been used by as many people as allowed.", "invite-used-up");
+  }
+  if (invitation.inviterId === uid) {
+    throw preconditionFailed("You cannot accept your own invitation.", "cannot-add-self");
+  }
+};
+
+// Counts a use of the link and records who used it, unless the user redeemed it before
+const addRedemption = (transaction: Transaction, invitationId: string, invitation: DocumentData, user: Friend) => {
+  if (invitation.redemptions?.[user.uid]) return;
+  transaction.update(db.doc(`invitations/${invitationId}`), {
+    useCount: FieldValue.increment(1),
+    [`redemptions.${user.uid}`]: { ...user, redeemedAt: FieldValue.serverTimestamp() },
+  });
+};
+
+/**
+ * Accepts an invite link: befriends the inviter, or joins the group of a group invite. Expiry and usage
+ * limits are checked against the latest state of the invitation inside the transaction.
+ */
+export const acceptInvitation = onCall<AcceptInvitationRequest, Promise<AcceptInvitationResponse>>(async (request) => {
+  const uid = requireUid(request);
+  const invitationId = request.data?.invitationId;
+  if (typeof invitationId !== "string" || !INVITATION_ID_PATTERN.test(invitationId)) {
+    throw new HttpsError("invalid-argument", "A valid invitation id is required.");
+  }
+
+  return db.runTransaction(async (transaction) => {
+    const invitationSnap = await transaction.get(db.doc(`invitations/${invitationId}`));
+    const invitation = invitationSnap.data();
+    if (!invitation) {
+      throw preconditionFailed("This invite link is invalid or has been revoked.", "invite-invalid");
+    }
+    checkRedeemable(invitation, uid);
+    const user = await readFriend(transaction, uid);
+
+    if (invitation.groupId) {
+      const groupRef = db.doc(`groups/${invitation.groupId}`);
+      const group = (await transaction.get(groupRef)).data();
+      // Group invites stay valid only while their creator is an admin of the group
+      if (!group || (invitation.inviterId !== group.ownerId && !(group.adminIds ?? []).includes(invitation.inviterId))) {
+        throw preconditionFailed("This group invite is no longer valid.", "invite-invalid");
+      }
+      if (!(group.memberIds ?? []).includes(uid)) {
+        transaction.update(groupRef, {
+          [`members.${uid}`]: { ...user, invitationId },
+          memberIds: FieldValue.arrayUnion(uid),
+        });
+        addRedemption(transaction, invitationId, invitation, user);
+      }
+      logger.info(`acceptInvitation: ${uid} joined group ${invitation.groupId}`);
+      return { kind: "group" };
+    }
+
+    if ((await transaction.get(friendRef(uid, invitation.inviterId))).exists) {
+      throw preconditionFailed("You are already connected with this user.", "already-friends");
+    }
+    const inviter = await readFriend(transaction, invitation.inviterId);
+    writeFriendship(transaction, inviter, user, invitationId);
+    addRedemption(transaction, invitationId, invitation, user);
+    logger.info(`acceptInvitation: ${uid} befriended ${invitation.inviterId}`);
+    return { kind: "friend" };
+  });
+});
+
+/**
+ * Accepts the other user's pending friend request. Also completes requests the other user accepted before
+ * friendships were written here, when only the accepting side had added the friend.
+ */
+export const acceptFriendRequest = onCall<AcceptFriendRequestRequest, Promise<void>>(async (request) => {
+  const uid = requireUid(request);
+  const otherUid = requireOtherUid(request.data?.otherUid, uid);
+
+  await db.runTransaction(async (transaction) => {
+    const [theirCopySnap, ownCopySnap] = await transaction.getAll(requestRef(otherUid, uid), requestRef(uid, otherUid));
+    const theirCopy = theirCopySnap.data();
+    const ownCopy = ownCopySnap.data();
+    const updatedAtMillis = (copy: DocumentData | undefined) =>
+      copy?.updatedAt instanceof Timestamp ? copy.updatedAt.toMillis() : 0;
+
+    const answersPendingRequest = theirCopy?.fromUid === otherUid && theirCopy.toUid === uid && theirCopy.status === "pending";
+    // Requests accepted through an invite link used to have no sender copy (`inviteCode` on older ones)
+    const acceptedInvitationId: string | null = theirCopy?.invitationId ?? theirCopy?.inviteCode ?? null;
+    const completesAcceptedRequest = theirCopy?.fromUid === uid && theirCopy.toUid === otherUid && theirCopy.status === "accepted" && (
+      ownCopy?.status === "pending" ||
+      (!!acceptedInvitationId && (!ownCopy || updatedAtMillis(ownCopy) < updatedAtMillis(theirCopy)))
+    );
+    if (!answersPendingRequest && !completesAcceptedRequest) {
+      throw preconditionFailed("There is no friend request to accept.", "no-friend-request");
+    }
+
+    const [caller, other] = await Promise.all([readFriend(transaction, uid), readFriend(transaction, otherUid)]);
+    if (answersPendingRequest) {
+      writeFriendship(transaction, other, caller, null);
+    } else {
+      writeFriendship(transaction, caller, other, acceptedInvitationId);
+    }
+  });
+  logger.info(`acceptFriendRequest: ${uid} and ${otherUid} are now friends`);
+});
+
+// Removes the friendship for both users and closes both copies of their request, so it cannot be used to restore it
+export const removeFriend = onCall<RemoveFriendRequest, Promise<void>>(async (request) => {
+  const uid = requireUid(request);
+  const friendId = requireOtherUid(request.data?.friendId, uid);
+
+  await db.runTransaction(async (transaction) => {
+    const copies = await transaction.getAll(requestRef(uid, friendId), requestRef(friendId, uid));
+    transaction.delete(friendRef(uid, friendId));
+    transaction.delete(friendRef(friendId, uid));
+    copies.forEach(copySnap => {
+      if (!copySnap.exists) return;
+      const ownerId = copySnap.ref.parent.parent!.id;
+      const closedStatus: FriendRequestStatus = copySnap.get("fromUid") === ownerId ? "cancelled" : "declined";
+      transaction.update(copySnap.ref, { status: closedStatus, updatedAt: FieldValue.serverTimestamp() });
+    });
+  });
+  logger.info(`removeFriend: ${uid} removed ${friendId}`);
+});
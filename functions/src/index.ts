@@ -0,0 +1,90 @@
+// functions/src/index.ts
+import { onRequest } from "firebase-functions/v2/https";
+import * as logger from "firebase-functions/logger";
+import { Timestamp } from "firebase-admin/firestore";
+import { activityToICalEvent, buildICalendar } from "@/lib/ical";
+import type { ActivityClient } from "@/lib/types";
+import { canViewActivity } from "@/lib/visibility";
+import { db, toActivityClient } from "./admin";
+
+export { acceptFriendRequest, acceptInvitation, removeFriend } from "./friends";
+export { promoteWaitlist, setRsvp } from "./activities";
+export { syncProfileCopies } from "./profiles";
+
+// How far back the feed reaches, so activities don't vanish from subscribed calendars the moment they start
+const FEED_LOOKBACK_DAYS = 30;
+const FIRESTORE_IN_LIMIT = 30;
+
+// Same selection as getDashboardActivities. The Admin SDK bypasses the rules, so visibility is checked here.
+const getFeedActivities = async (uid: string, since: Date): Promise<ActivityClient[]> => {
+  const friendsSnapshot = await db.collection(`users/${uid}/friends`).get();
+  const friendIds = friendsSnapshot.docs.map(docSnap => docSnap.data().uid as string);
+  const userAndFriendIds = Array.from(new Set([uid, ...friendIds]));
+  const sinceTimestamp = Timestamp.fromDate(since);
+  const activitiesRef = db.collection("activities");
+
+  const queries = [];
+  for (let i = 0; i < userAndFriendIds.length; i += FIRESTORE_IN_LIMIT) {
+    const chunk = userAndFriendIds.slice(i, i + FIRESTORE_IN_LIMIT);
+    queries.push(activitiesRef.where("creatorId", "in", chunk).where("date", ">=", sinceTimestamp).get());
+  }
+  queries.push(activitiesRef.where("audienceUids", "array-contains", uid).where("date", ">=", sinceTimestamp).get());
+  queries.push(activitiesRef.where("participantUids", "array-contains", uid).where("date", ">=", sinceTimestamp).get());
+  queries.push(activitiesRef.where("inviteeUids", "array-contains", uid).where("date", ">=", sinceTimestamp).get());
+
+  const snapshots = await Promise.all(queries);
+  const activities = snapshots.flatMap(snapshot => snapshot.docs.map(docSnap => toActivityClient(docSnap.data())));
+  const uniqueActivities = Array.from(new Map(activities.map(activity => [activity.id, activity])).values())
+    .filter(activity => canViewActivity(activity, uid, friendIds));
+  return uniqueActivities.sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+};
+
+// The token is the last path segment, with or without an .ics extension (e.g. /calendar-feed/<token>.ics),
+// or the `token` query parameter.
+const readToken = (path: string, queryToken: unknown): string | null => {
+  if (typeof queryToken === "string" && queryToken) return queryToken;
+  const lastSegment = path.split("/").filter(Boolean).pop();
+  return lastSegment ? decodeURIComponent(lastSegment).replace(/\.ics$/i, "") : null;
+};
+
+/**
+ * Serves a user's activities as a live iCalendar feed for calendar apps to subscribe to.
+ * Access is granted by the secret token from calendarFeeds/{token}; rotating the token on the
+ * profile page deletes the old document, which immediately revokes the old feed URL.
+ */
+export const calendarFeed = onRequest(async (req, res) => {
+  if (req.method !== "GET" && req.method !== "HEAD") {
+    res.set("Allow", "GET, HEAD").status(405).send("Method not allowed");
+    return;
+  }
+  const token = readToken(req.path, req.query.token);
+  if (!token || !/^[a-f0-9]{32,}$/.test(token)) {
+    res.status(404).send("Calendar feed not found");
+    return;
+  }
+
+  try {
+    const feedSnap = await db.doc(`calendarFeeds/${token}`).get();
+    if (!feedSnap.exists) {
+      res.status(404).send("Calendar feed not found");
+      return;
+    }
+    const uid = feedSnap.get("uid") as string;
+    const since = new Date(Date.now() - FEED_LOOKBACK_DAYS * 24 * 60 * 60 * 1000);
+    const activities = await getFeedActivities(uid, since);
+    const baseUrl = `${req.protocol}://${req.get("x-forwarded-host") ?? req.hostname}`;
+    const body = buildICalendar(
+      activities.map(activity => activityToICalEvent(activity, { baseUrl, viewerUid: uid })),
+      { calendarName: "Parent Activity Hub" }
+    );
+    res
+      .set("Content-Type", "text/calendar; charset=utf-8")
+      .set("Content-Disposition", 'inline; filename="parent-activity-hub.ics"')
+      .set("Cache-Control", "private, max-age=300")
+      .status(200)
+      .send(body);
+  } catch (error) {
+    logger.error("calendarFeed: Failed to build feed", error);
+    res.status(500).send("Failed to build calendar feed");
+  }
+});
@@ -0,0 +1,42 @@
+// functions/src/migrations/backfillVisibility.ts
+// One-off migration: stores the default visibility on activities saved before visibility settings existed.
+// The rules already treat those activities as visible to all friends, but the app's friends query filters on
+// `visibility` and would not find them. Run once per project with `npm --prefix functions run migrate:visibility`
+// (uses the Admin SDK with application default credentials; set GCLOUD_PROJECT to the project id).
+import { FieldValue } from "firebase-admin/firestore";
+import { DEFAULT_VISIBILITY } from "@/lib/visibility";
+import { db } from "../admin";
+
+const PAGE_SIZE = 500;
+
+const backfillVisibility = async (): Promise<number> => {
+  const writer = db.bulkWriter();
+  let updated = 0;
+  let lastId: string | null = null;
+  // Firestore cannot query for a missing field, so every activity is read once, page by page
+  for (;;) {
+    let page = db.collection("activities").orderBy("__name__").limit(PAGE_SIZE);
+    if (lastId) page = page.startAfter(lastId);
+    const snapshot = await page.get();
+    if (snapshot.empty) break;
+    snapshot.docs
+      .filter(docSnap => !docSnap.get("visibility"))
+      .forEach(docSnap => {
+        void writer.update(docSnap.ref, {
+          visibility: DEFAULT_VISIBILITY,
+          audienceUids: FieldValue.arrayUnion(docSnap.get("creatorId") as string),
+        });
+        updated++;
+      });
+    lastId = snapshot.docs[snapshot.docs.length - 1].id;
+  }
+  await writer.close();
+  return updated;
+};
+
+backfillVisibility()
+  .then(updated => console.log(`backfillVisibility: Stored the default visibility on ${updated} activities.`))
+  .catch(error => {
+    console.error("backfillVisibility: Migration failed", error);
+    process.exitCode = 1;
+  });
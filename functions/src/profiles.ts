@@ -0,0 +1,179 @@
+// functions/src/profiles.ts
+// Names and photos are copied into friends lists, groups, polls and activities when they are written, so pages can
+// show them without reading every profile. This keeps the copies in sync after a profile is edited.
+import { onDocumentUpdated } from "firebase-functions/v2/firestore";
+import * as logger from "firebase-functions/logger";
+import { FieldPath, type DocumentData, type DocumentReference } from "firebase-admin/firestore";
+import { readChildren } from "@/lib/profile";
+import type { ActivityParticipant, ChildProfile } from "@/lib/types";
+import { db } from "./admin";
+
+// Firestore rejects batches with more than 500 writes
+const MAX_BATCH_WRITES = 500;
+
+interface ProfileCopy {
+  displayName: string | null;
+  photoURL: string | null;
+  children: ChildProfile[];
+}
+
+const toProfileCopy = (data: DocumentData): ProfileCopy => ({
+  displayName: data.displayName ?? null,
+  photoURL: data.photoURL ?? null,
+  children: readChildren(data),
+});
+
+const commitUpdates = async (updates: { ref: DocumentReference; data: DocumentData }[]) => {
+  for (let i = 0; i < updates.length; i += MAX_BATCH_WRITES) {
+    const batch = db.batch();
+    updates.slice(i, i + MAX_BATCH_WRITES).forEach(({ ref, data }) => batch.update(ref, data));
+    await batch.commit();
+  }
+};
+
+// The user's entry in each friend's list. Entries missing on the friend's side are left alone, so no
+// friendship is recreated there.
+const syncFriendEntries = async (userId: string, profile: ProfileCopy): Promise<number> => {
+  const friendsSnapshot = await db.collection(`users/${userId}/friends`).get();
+  if (friendsSnapshot.empty) return 0;
+  const entries = await db.getAll(...friendsSnapshot.docs.map(docSnap => db.doc(`users/${docSnap.id}/friends/${userId}`)));
+  const updates = entries
+    .filter(entry => entry.exists)
+    .map(entry => ({ ref: entry.ref, data: { displayName: profile.displayName, photoURL: profile.photoURL } }));
+  await commitUpdates(updates);
+  return updates.length;
+};
+
+const syncGroupMemberships = async (userId: string, profile: ProfileCopy): Promise<number> => {
+  const groupsSnapshot = await db.collection("groups").where("memberIds", "array-contains", userId).get();
+  const updates = groupsSnapshot.docs
+    .filter(docSnap => docSnap.get(`members.${userId}`))
+    .map(docSnap => ({
+      ref: docSnap.ref,
+      data: { [`members.${userId}.displayName`]: profile.displayName, [`members.${userId}.photoURL`]: profile.photoURL },
+    }));
+  await commitUpdates(updates);
+  return updates.length;
+};
+
+// Polls the user created or was asked to vote in, including their vote
+const syncPolls = async (userId: string, profile: ProfileCopy): Promise<number> => {
+  const pollsRef = db.collection("polls");
+  const snapshots = await Promise.all([
+    pollsRef.where("creatorId", "==", userId).get(),
+    pollsRef.where("inviteeUids", "array-contains", userId).get(),
+  ]);
+  const polls = new Map(snapshots.flatMap(snapshot => snapshot.docs).map(docSnap => [docSnap.id, docSnap]));
+  const updates = Array.from(polls.values()).map(docSnap => {
+    const poll = docSnap.data();
+    const data: DocumentData = {};
+    if (poll.creatorId === userId) {
+      data.creatorName = profile.displayName ?? "Unknown User";
+      data.creatorPhotoURL = profile.photoURL;
+    }
+    if (poll.invitees?.[userId]) {
+      data[`invitees.${userId}.name`] = profile.displayName;
+      data[`invitees.${userId}.photoURL`] = profile.photoURL;
+    }
+    if (poll.votes?.[userId]) {
+      data[`votes.${userId}.name`] = profile.displayName;
+      data[`votes.${userId}.photoURL`] = profile.photoURL;
+    }
+    return { ref: docSnap.ref, data };
+  });
+  await commitUpdates(updates);
+  return updates.length;
+};
+
+// Participant and waitlist entries also list the children who come along; renamed children are updated by id
+const renameParticipant = (participant: ActivityParticipant, profile: ProfileCopy): ActivityParticipant => ({
+  ...participant,
+  name: profile.displayName,
+  photoURL: profile.photoURL,
+  ...(participant.children && {
+    children: participant.children.map(child => {
+      const current = profile.children.find(c => c.id === child.id);
+      return current ? { id: child.id, nickname: current.nickname } : child;
+    }),
+  }),
+});
+
+// Changes for every place the user appears in an activity: as creator, inviter, invitee, participant or RSVP
+const activityRenames = (activity: DocumentData, userId: string, profile: ProfileCopy): DocumentData => {
+  const update: DocumentData = {};
+  if (activity.creatorId === userId) {
+    update.creatorName = profile.displayName ?? "Unknown User";
+    update.creatorPhotoURL = profile.photoURL;
+    Object.entries((activity.invitees ?? {}) as Record<string, DocumentData>).forEach(([uid, invitee]) => {
+      if (invitee.invitedById === userId) update[`invitees.${uid}.invitedByName`] = profile.displayName;
+    });
+  }
+  if (activity.invitees?.[userId]) {
+    update[`invitees.${userId}.name`] = profile.displayName;
+    update[`invitees.${userId}.photoURL`] = profile.photoURL;
+  }
+  if (activity.rsvps?.[userId]) {
+    update[`rsvps.${userId}.name`] = profile.displayName;
+    update[`rsvps.${userId}.photoURL`] = profile.photoURL;
+  }
+  const participants: ActivityParticipant[] = activity.participants ?? [];
+  if (participants.some(p => p.uid === userId)) {
+    update.participants = participants.map(p => p.uid === userId ? renameParticipant(p, profile) : p);
+  }
+  const waitlist: ActivityParticipant[] = activity.waitlist ?? [];
+  if (waitlist.some(p => p.uid === userId)) {
+    update.waitlist = waitlist.map(p => p.uid === userId ? renameParticipant(p, profile) : p);
+  }
+  return update;
+};
+
+const syncActivities = async (userId: string, profile: ProfileCopy): Promise<number> => {
+  const activitiesRef = db.collection("activities");
+  const snapshots = await Promise.all([
+    activitiesRef.where("creatorId", "==", userId).get(),
+    activitiesRef.where("participantUids", "array-contains", userId).get(),
+    activitiesRef.where("inviteeUids", "array-contains", userId).get(),
+    // Also finds waitlist places, which are always backed by a "going" RSVP
+    activitiesRef.where(new FieldPath("rsvps", userId, "uid"), "==", userId).get(),
+  ]);
+  const refs = new Map<string, DocumentReference>();
+  snapshots.forEach(snapshot => snapshot.docs.forEach(docSnap => refs.set(docSnap.id, docSnap.ref)));
+
+  // Participants and the waitlist are rewritten as whole arrays, so each activity is updated in a transaction
+  // to not undo an RSVP that was saved in the meantime
+  for (const ref of refs.values()) {
+    await db.runTransaction(async (transaction) => {
+      const activity = (await transaction.get(ref)).data();
+      if (!activity) return;
+      const update = activityRenames(activity, userId, profile);
+      if (Object.keys(update).length > 0) transaction.update(ref, update);
+    });
+  }
+  return refs.size;
+};
+
+/**
+ * Updates the copies of a user's name and photo (and children's nicknames in activities) after they edit
+ * their profile. Edits that change neither leave the copies alone.
+ */
+export const syncProfileCopies = onDocumentUpdated("users/{userId}", async (event) => {
+  const beforeData = event.data?.before.data();
+  const afterData = event.data?.after.data();
+  if (!beforeData || !afterData) return;
+
+  const userId = event.params.userId;
+  const before = toProfileCopy(beforeData);
+  const profile = toProfileCopy(afterData);
+  const nameChanged = before.displayName !== profile.displayName || before.photoURL !== profile.photoURL;
+  const childrenRenamed = profile.children.some(child => {
+    const previous = before.children.find(c => c.id === child.id);
+    return previous && previous.nickname !== child.nickname;
+  });
+  if (!nameChanged && !childrenRenamed) return;
+
+  const [friendCount, groupCount, pollCount] = nameChanged
+    ? await Promise.all([syncFriendEntries(userId, profile), syncGroupMemberships(userId, profile), syncPolls(userId, profile)])
+    : [0, 0, 0];
+  const activityCount = await syncActivities(userId, profile);
+  logger.info(`syncProfileCopies: Updated ${friendCount} friend entries, ${groupCount} groups, ${pollCount} polls and ${activityCount} activities for ${userId}`);
+});
@@ -1,11 +1,21 @@
 // src/app/(app)/activities/create/page.tsx
 import { ActivityForm } from '@/components/activities/ActivityForm';
 import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { FileUp } from 'lucide-react';
+import Link from 'next/link';
 
 export default function CreateActivityPage() {
   return (
     <div className="container mx-auto py-6 px-4 md:px-6 max-w-2xl">
-       <h1 className="text-3xl font-bold mb-6">Schedule a New Activity</h1>
+       <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4 mb-6">
+            <h1 className="text-3xl font-bold">Schedule a New Activity</h1>
+            <Button variant="outline" size="sm" asChild>
+                <Link href="/activities/import">
+                    <FileUp className="mr-1 h-4 w-4" /> Import .ics File
+                </Link>
+            </Button>
+       </div>
        <Card>
             {/* <CardHeader>
                  <CardTitle>New Activity Details</CardTitle>
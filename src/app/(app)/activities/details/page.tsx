@@ -1,21 +1,36 @@
 // src/app/(app)/activities/details/page.tsx
 "use client";
 
-import React, { useEffect, useState, Suspense } from 'react';
+import React, { Suspense } from 'react';
 import { useSearchParams, useRouter } from 'next/navigation';
 import { useAuth } from '@/hooks/useAuth'; // Corrected import path
-import { getActivity, joinActivity, leaveActivity, deleteActivity } from '@/lib/firebase/services';
-import type { ActivityClient } from '@/lib/types'; // Use ActivityClient
+import { getActivitySeries } from '@/lib/firebase/services';
+import type { ActivityInviteeClient, Friend } from '@/lib/types';
+import { useActivity, useDeleteActivityMutation, useInviteToActivityMutation, useWithdrawActivityInviteMutation } from '@/hooks/useActivities';
+import { useFriends } from '@/hooks/useFriends';
+import { FriendRequestButton } from '@/components/friends/FriendRequestButton';
 import { Card, CardContent, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Skeleton } from '@/components/ui/skeleton';
+import { Badge } from '@/components/ui/badge';
 import { format } from 'date-fns';
 import { de } from 'date-fns/locale';
-import { MapPin, CalendarDays, Users, UserPlus, UserMinus, ArrowLeft, FilePenLine, Trash2 } from 'lucide-react';
+import { MapPin, CalendarDays, Users, ArrowLeft, FilePenLine, Trash2, Repeat, Hourglass, Globe, Lock, Eye, Link2, Mail, UserPlus, Backpack, Hash } from 'lucide-react';
 import Link from 'next/link';
 import { useToast } from "@/hooks/use-toast";
 import { ParticipantsList } from '@/components/activities/ParticipantsList';
+import { InviteeList } from '@/components/activities/InviteeList';
+import { InviteFriendsDialog } from '@/components/activities/InviteFriendsDialog';
+import { RsvpControls } from '@/components/activities/RsvpControls';
+import { MarkdownContent } from '@/components/activities/MarkdownContent';
+import { ActivityDetailFacts } from '@/components/activities/ActivityDetailFacts';
+import { CategoryIcon } from '@/components/activities/CategoryIcon';
+import { describeRecurrence } from '@/lib/recurrence';
+import { getCategoryLabel } from '@/lib/categories';
+import { formatActivityTime } from '@/lib/calendar';
+import { getVisibility, getVisibilityLabel } from '@/lib/visibility';
+import { ExportCalendarButton } from '@/components/calendar/ExportCalendarButton';
 import {
   AlertDialog,
   AlertDialogAction,
@@ -33,76 +48,51 @@ function ActivityDetailContent() {
   const router = useRouter();
   const activityId = searchParams.get('id');
   const { user, userProfile, loading: authLoading } = useAuth();
-  const [activity, setActivity] = useState<ActivityClient | null>(null); // Use ActivityClient
-  const [isLoading, setIsLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
+  // Live: RSVPs, waitlist moves and edits by the creator show up without reloading
+  const { activity, isLoading, error: loadError } = useActivity(activityId);
+  const error = !activityId ? "No activity ID provided." : loadError ? "Failed to load activity details." : null;
   const { toast } = useToast();
-  const [isJoining, setIsJoining] = React.useState(false);
-  const [isLeaving, setIsLeaving] = React.useState(false);
+  const deleteActivityMutation = useDeleteActivityMutation();
+  const inviteMutation = useInviteToActivityMutation();
+  const withdrawInviteMutation = useWithdrawActivityInviteMutation();
+  const { friends } = useFriends(activity && activity.creatorId === user?.uid ? user.uid : null);
   const [isDeleting, setIsDeleting] = React.useState(false);
+  const [isInviteOpen, setIsInviteOpen] = React.useState(false);
 
-  useEffect(() => {
-    if (activityId) {
-      setIsLoading(true);
-      setError(null);
-      getActivity(activityId) // This now returns ActivityClient
-        .then(data => {
-          if (data) {
-            setActivity(data);
-          } else {
-            setError("Activity not found.");
-          }
-        })
-        .catch(err => {
-          console.error("Error fetching activity details:", err);
-          setError("Failed to load activity details.");
-        })
-        .finally(() => {
-          setIsLoading(false);
-        });
-    } else {
-        setError("No activity ID provided.");
-        setIsLoading(false);
-    }
-  }, [activityId]);
-
-   const handleJoin = async () => {
-        if (!user || !userProfile || !activity) return;
-        setIsJoining(true);
+    const handleCopyLink = async () => {
         try {
-            const participantData = {
-                uid: user.uid,
-                name: userProfile.displayName ?? user.displayName,
-                photoURL: userProfile.photoURL ?? user.photoURL
-            };
-            await joinActivity(activity.id, participantData);
-            toast({ title: "Joined Activity!", description: `You have joined "${activity.title}".` });
-            const updatedActivity = await getActivity(activityId!);
-            setActivity(updatedActivity);
-        } catch (error) {
-            console.error("Error joining activity:", error);
-            toast({ title: "Error", description: "Could not join activity.", variant: "destructive" });
-        } finally {
-            setIsJoining(false);
+            await navigator.clipboard.writeText(window.location.href);
+            toast({ title: "Link Copied", description: "Anyone signed in can open this activity with the link." });
+        } catch (err) {
+            console.error("Error copying activity link:", err);
+            toast({ title: "Error", description: "Could not copy the link.", variant: "destructive" });
         }
     };
 
-    const handleLeave = async () => {
-        if (!user || !userProfile || !activity) return;
-        setIsLeaving(true);
-         try {
-             const participantToRemove = activity.participants.find(p => p.uid === user.uid);
-             if (!participantToRemove) return;
+    const handleInvite = async (selected: Friend[]) => {
+        if (!activity || !user) return;
+        try {
+            await inviteMutation.mutateAsync({
+                activity,
+                invitedBy: { uid: user.uid, displayName: userProfile?.displayName ?? user.displayName, photoURL: userProfile?.photoURL ?? user.photoURL },
+                friends: selected,
+            });
+            toast({ title: "Friends Invited", description: `${selected.length} ${selected.length === 1 ? 'friend was' : 'friends were'} invited to "${activity.title}".` });
+            setIsInviteOpen(false);
+        } catch (err) {
+            console.error("Error inviting friends:", err);
+            toast({ title: "Error", description: "Could not send the invites.", variant: "destructive" });
+        }
+    };
 
-            await leaveActivity(activity.id, participantToRemove);
-            toast({ title: "Left Activity", description: `You have left "${activity.title}".` });
-             const updatedActivity = await getActivity(activityId!);
-             setActivity(updatedActivity);
-        } catch (error) {
-            console.error("Error leaving activity:", error);
-            toast({ title: "Error", description: "Could not leave activity.", variant: "destructive" });
-        } finally {
-            setIsLeaving(false);
+    const handleWithdrawInvite = async (invitee: ActivityInviteeClient) => {
+        if (!activity) return;
+        try {
+            await withdrawInviteMutation.mutateAsync({ activityId: activity.id, uid: invitee.uid });
+            toast({ title: "Invite Withdrawn", description: `${invitee.name ?? 'Your friend'} is no longer invited.` });
+        } catch (err) {
+            console.error("Error withdrawing invite:", err);
+            toast({ title: "Error", description: "Could not withdraw the invite.", variant: "destructive" });
         }
     };
 
@@ -110,7 +100,7 @@ function ActivityDetailContent() {
         if (!activity) return;
         setIsDeleting(true);
         try {
-            await deleteActivity(activity.id);
+            await deleteActivityMutation.mutateAsync(activity.id);
             toast({ title: "Activity Deleted", description: `"${activity.title}" has been removed.` });
             router.push('/dashboard');
         } catch (err) {
@@ -156,10 +146,18 @@ function ActivityDetailContent() {
    // activity.date is now an ISO string, parse it to a Date object
    const activityDate = activity.date ? new Date(activity.date) : null;
    const formattedDate = activityDate && !isNaN(activityDate.getTime()) ? format(activityDate, "PPP", { locale: de }) : 'Date TBD';
-   const formattedTime = activityDate && !isNaN(activityDate.getTime()) ? format(activityDate, "HH:mm", { locale: de }) : 'Time TBD';
+   const formattedTime = activityDate && !isNaN(activityDate.getTime()) ? formatActivityTime(activity) : 'Time TBD';
 
    const isCreator = activity.creatorId === user?.uid;
-   const isParticipant = activity.participants.some(p => p.uid === user?.uid);
+   const waitlist = activity.waitlist ?? [];
+   const whatToBring = activity.whatToBring ?? [];
+   const waitlistPosition = waitlist.findIndex(p => p.uid === user?.uid) + 1; // 0 when not waitlisted
+   const visibility = getVisibility(activity);
+   const VisibilityIcon = visibility === 'public' ? Globe : visibility === 'private' ? Lock : Eye;
+   const invitees = Object.values(activity.invitees);
+   const ownInvite = user ? activity.invitees[user.uid] : undefined;
+   const participantIds = new Set([...activity.participants, ...waitlist].map(p => p.uid));
+   const inviteCandidates = friends.filter(friend => !activity.invitees[friend.uid] && !participantIds.has(friend.uid));
 
 
   return (
@@ -178,29 +176,116 @@ function ActivityDetailContent() {
                   <CalendarDays className="h-4 w-4" />
                   <span>{formattedDate} at {formattedTime}</span>
               </div>
+              {activity.recurrence && activityDate && (
+                  <div className="flex items-center gap-2">
+                      <Repeat className="h-4 w-4" />
+                      <span>{describeRecurrence(activity.recurrence, activityDate)}</span>
+                  </div>
+              )}
               {activity.location && (
                   <div className="flex items-center gap-2">
                       <MapPin className="h-4 w-4" />
                       <span>{activity.location}</span>
                   </div>
                )}
+              <div className="flex items-center gap-2">
+                  <VisibilityIcon className="h-4 w-4" />
+                  <span>{getVisibilityLabel(visibility)}</span>
+              </div>
           </div>
+          <ActivityDetailFacts activity={activity} className="flex flex-wrap gap-2 mt-3" />
+          {(activity.category || (activity.tags?.length ?? 0) > 0) && (
+              <div className="flex flex-wrap gap-2 mt-2">
+                  {activity.category && (
+                      <Badge variant="secondary">
+                          <CategoryIcon category={activity.category} className="mr-1 h-3 w-3" /> {getCategoryLabel(activity.category)}
+                      </Badge>
+                  )}
+                  {(activity.tags ?? []).map(tag => (
+                      <Badge key={tag} variant="outline" className="font-normal"><Hash className="mr-0.5 h-3 w-3" />{tag}</Badge>
+                  ))}
+              </div>
+          )}
            <div className="flex items-center gap-2 text-sm mt-3 pt-3 border-t">
              <Avatar className="h-8 w-8">
                 <AvatarImage src={activity.creatorPhotoURL ?? undefined} alt={activity.creatorName ?? 'Creator'} />
                 <AvatarFallback>{activity.creatorName ? activity.creatorName[0] : 'C'}</AvatarFallback>
              </Avatar>
              <span>Created by {isCreator ? 'You' : activity.creatorName ?? 'Unknown'}</span>
+             {ownInvite && (
+                <Badge variant="secondary"><Mail className="mr-1 h-3 w-3" /> Invited by {ownInvite.invitedByName ?? 'a friend'}</Badge>
+             )}
+             {!isCreator && (
+                <div className="ml-auto">
+                    <FriendRequestButton person={{ uid: activity.creatorId, displayName: activity.creatorName, photoURL: activity.creatorPhotoURL ?? null }} />
+                </div>
+             )}
          </div>
         </CardHeader>
         <CardContent className="p-6">
+            {(activity.description || whatToBring.length > 0) && (
+                <div className="mb-6 space-y-4">
+                    {activity.description && <MarkdownContent source={activity.description} />}
+                    {whatToBring.length > 0 && (
+                        <div>
+                            <h3 className="font-semibold mb-2 flex items-center gap-2">
+                                <Backpack className="h-4 w-4"/>
+                                What to bring
+                            </h3>
+                            <ul className="list-disc pl-5 text-sm space-y-1">
+                                {whatToBring.map((item, index) => <li key={index}>{item}</li>)}
+                            </ul>
+                        </div>
+                    )}
+                </div>
+            )}
             <div className="mb-6">
                 <h3 className="font-semibold mb-3 text-lg flex items-center gap-2">
                     <Users className="h-5 w-5"/>
-                    Participants ({activity.participants.length})
+                    Participants ({activity.maxParticipants != null
+                        ? `${activity.participants.length} of ${activity.maxParticipants} spots`
+                        : activity.participants.length})
                  </h3>
-                 <ParticipantsList participants={activity.participants} />
+                 <ParticipantsList participants={activity.participants} rsvps={activity.rsvps} />
             </div>
+            {waitlist.length > 0 && (
+                <div className="mb-6">
+                    <h3 className="font-semibold mb-1 text-lg flex items-center gap-2">
+                        <Hourglass className="h-5 w-5"/>
+                        Waitlist ({waitlist.length})
+                    </h3>
+                    {waitlistPosition > 0 && (
+                        <p className="text-sm text-muted-foreground mb-3">You are #{waitlistPosition} on the waitlist.</p>
+                    )}
+                    <ParticipantsList participants={waitlist} />
+                </div>
+            )}
+            {isCreator && (
+                <div className="mb-6">
+                    <div className="flex items-center justify-between gap-2 mb-3">
+                        <h3 className="font-semibold text-lg flex items-center gap-2">
+                            <Mail className="h-5 w-5"/>
+                            Invited ({invitees.length})
+                        </h3>
+                        <Button variant="outline" size="sm" onClick={() => setIsInviteOpen(true)}>
+                            <UserPlus className="mr-1 h-4 w-4" /> Invite Friends
+                        </Button>
+                    </div>
+                    <InviteeList
+                        invitees={invitees}
+                        onWithdraw={handleWithdrawInvite}
+                        withdrawingUid={withdrawInviteMutation.isPending ? withdrawInviteMutation.variables?.uid : null}
+                    />
+                    <InviteFriendsDialog
+                        open={isInviteOpen}
+                        onOpenChange={setIsInviteOpen}
+                        activityTitle={activity.title}
+                        candidates={inviteCandidates}
+                        onConfirm={handleInvite}
+                        isSubmitting={inviteMutation.isPending}
+                    />
+                </div>
+            )}
         </CardContent>
         <CardFooter className="p-6 bg-muted/30 dark:bg-muted/10 border-t flex flex-wrap items-center justify-end gap-2">
             {isCreator && (
@@ -233,17 +318,25 @@ function ActivityDetailContent() {
                     </AlertDialog>
                  </div>
             )}
-            {!isCreator && !isParticipant && (
-              <Button onClick={handleJoin} disabled={isJoining || isLeaving}>
-                <UserPlus className="mr-2 h-4 w-4" />
-                {isJoining ? 'Joining...' : 'Join'}
-              </Button>
-            )}
-            {!isCreator && isParticipant && (
-              <Button variant="outline" onClick={handleLeave} disabled={isJoining || isLeaving}>
-                <UserMinus className="mr-2 h-4 w-4" />
-                {isLeaving ? 'Leaving...' : 'Leave'}
-              </Button>
+            <div className="flex flex-wrap gap-2">
+                {visibility === 'public' && (
+                    <Button variant="outline" size="sm" onClick={handleCopyLink}>
+                        <Link2 className="mr-1 h-4 w-4" /> Copy Link
+                    </Button>
+                )}
+                <ExportCalendarButton activities={[activity]} fileName={activity.title} />
+                {activity.seriesId && (
+                    <ExportCalendarButton
+                        activities={() => getActivitySeries(activity, user!.uid)}
+                        fileName={`${activity.title} series`}
+                        calendarName={activity.title}
+                    >
+                        Add Series
+                    </ExportCalendarButton>
+                )}
+            </div>
+            {!isCreator && (
+              <RsvpControls activity={activity} />
             )}
         </CardFooter>
       </Card>
@@ -1,11 +1,10 @@
 // src/app/(app)/activities/edit/page.tsx
 "use client";
 
-import React, { useEffect, useState, Suspense } from 'react';
+import React, { useEffect, Suspense } from 'react';
 import { useSearchParams, useRouter } from 'next/navigation';
 import { useAuth } from '@/hooks/useAuth'; // Corrected import path
-import { getActivity } from '@/lib/firebase/services';
-import type { ActivityClient } from '@/lib/types'; // Use ActivityClient
+import { useActivity } from '@/hooks/useActivities';
 import { ActivityForm } from '@/components/activities/ActivityForm';
 import { Card, CardContent } from '@/components/ui/card';
 import { Skeleton } from '@/components/ui/skeleton';
@@ -18,42 +17,21 @@ function EditActivityContent() {
   const router = useRouter();
   const activityId = searchParams.get('id');
   const { user, loading: authLoading } = useAuth();
-  const [activity, setActivity] = useState<ActivityClient | null>(null); // Use ActivityClient
-  const [isLoading, setIsLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
+  const { activity: loadedActivity, isLoading: isActivityLoading, error: loadError } = useActivity(activityId && user ? activityId : null);
 
   useEffect(() => {
-    if (activityId && user) {
-      setIsLoading(true);
-      setError(null);
-      getActivity(activityId) // This now returns ActivityClient
-        .then(data => {
-          if (data) {
-            if (data.creatorId !== user.uid) {
-              setError("You are not authorized to edit this activity.");
-              setActivity(null);
-            } else {
-              setActivity(data);
-            }
-          } else {
-            setError("Activity not found.");
-          }
-        })
-        .catch(err => {
-          console.error("Error fetching activity for edit:", err);
-          setError("Failed to load activity details.");
-        })
-        .finally(() => {
-          setIsLoading(false);
-        });
-    } else if (!activityId) {
-        setError("No activity ID provided.");
-        setIsLoading(false);
-    } else if (!user && !authLoading) {
-        setError("Please sign in to edit activities.");
-        setIsLoading(false);
-    }
-  }, [activityId, user, authLoading, router]);
+    if (loadError) console.error("Error fetching activity for edit:", loadError);
+  }, [loadError]);
+
+  const isLoading = !!activityId && !!user && isActivityLoading;
+  const isCreator = !!loadedActivity && !!user && loadedActivity.creatorId === user.uid;
+  const activity = isCreator ? loadedActivity : null;
+  const error = !activityId ? "No activity ID provided."
+    : !user && !authLoading ? "Please sign in to edit activities."
+    : loadError ? "Failed to load activity details."
+    : loadedActivity && !isCreator ? "You are not authorized to edit this activity."
+    : !isLoading && !authLoading && !loadedActivity ? "Activity not found."
+    : null;
 
   const handleFormSubmit = (updatedActivityId: string) => {
     router.push(`/activities/details?id=${updatedActivityId}`);
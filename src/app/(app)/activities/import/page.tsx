@@ -0,0 +1,230 @@
+// src/app/(app)/activities/import/page.tsx
+"use client";
+
+import React, { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Timestamp } from 'firebase/firestore';
+import { format, isBefore, startOfDay } from 'date-fns';
+import { de } from 'date-fns/locale';
+import { useAuth } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/use-toast';
+import { getActivitiesInRange } from '@/lib/firebase/services';
+import { useCreateActivitiesMutation } from '@/hooks/useActivities';
+import { durationFromICalEvent, parseICalendar, recurrenceFromRRule, type ParsedICalEvent } from '@/lib/ical';
+import { describeRecurrence } from '@/lib/recurrence';
+import { MAX_DESCRIPTION_LENGTH } from '@/lib/activityDetails';
+import type { ActivityClient, CreateActivityData, RecurrenceRule } from '@/lib/types';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { ArrowLeft, FileUp, MapPin, Repeat } from 'lucide-react';
+import Link from 'next/link';
+
+// Same limits as ActivityForm
+const MAX_TITLE_LENGTH = 100;
+const MAX_LOCATION_LENGTH = 100;
+
+interface ImportCandidate {
+  key: string;
+  event: ParsedICalEvent;
+  recurrence: RecurrenceRule | null;
+  isDuplicate: boolean;
+  isPast: boolean;
+  isCancelled: boolean;
+}
+
+const normalizeTitle = (title: string) => title.trim().toLowerCase();
+
+// An event counts as already imported when an activity came from the same calendar UID,
+// or has the same title at the same start minute (e.g. entered by hand before).
+const isDuplicateOf = (event: ParsedICalEvent, activity: ActivityClient): boolean => {
+  if (event.uid && activity.externalUid === event.uid) return true;
+  return normalizeTitle(activity.title) === normalizeTitle(event.summary)
+    && Math.abs(new Date(activity.date).getTime() - event.start.getTime()) < 60 * 1000;
+};
+
+export default function ImportActivitiesPage() {
+  const router = useRouter();
+  const { user, userProfile } = useAuth();
+  const { toast } = useToast();
+  const createActivitiesMutation = useCreateActivitiesMutation();
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [candidates, setCandidates] = useState<ImportCandidate[]>([]);
+  const [selectedKeys, setSelectedKeys] = useState<string[]>([]);
+  const [isParsing, setIsParsing] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file || !user) return;
+    setIsParsing(true);
+    setFileName(file.name);
+    try {
+      const events = parseICalendar(await file.text());
+      if (events.length === 0) {
+        toast({ title: "No Events Found", description: "The file does not contain any calendar events.", variant: "destructive" });
+        setCandidates([]);
+        setSelectedKeys([]);
+        return;
+      }
+
+      const starts = events.map(e => e.start.getTime());
+      const existingActivities = await getActivitiesInRange(
+        user.uid,
+        new Date(Math.min(...starts) - 60 * 1000),
+        new Date(Math.max(...starts) + 60 * 1000)
+      );
+      const today = startOfDay(new Date());
+      const parsedCandidates: ImportCandidate[] = events.map((e, index) => ({
+        key: `${e.uid ?? 'event'}-${index}`,
+        event: e,
+        recurrence: e.rrule ? recurrenceFromRRule(e.rrule, e.start) : null,
+        isDuplicate: existingActivities.some(activity => isDuplicateOf(e, activity)),
+        isPast: isBefore(e.start, today),
+        isCancelled: e.status === 'CANCELLED',
+      }));
+      parsedCandidates.sort((a, b) => a.event.start.getTime() - b.event.start.getTime());
+      setCandidates(parsedCandidates);
+      // Preselect what is most likely wanted: upcoming, not yet imported, not cancelled
+      setSelectedKeys(parsedCandidates.filter(c => !c.isDuplicate && !c.isPast && !c.isCancelled).map(c => c.key));
+    } catch (error) {
+      console.error("Error reading calendar file:", error);
+      toast({ title: "Error", description: "Could not read the calendar file.", variant: "destructive" });
+    } finally {
+      setIsParsing(false);
+    }
+  };
+
+  const toggleCandidate = (key: string, checked: boolean) => {
+    setSelectedKeys(prev => checked ? [...prev, key] : prev.filter(k => k !== key));
+  };
+
+  const handleImport = async () => {
+    if (!user || !userProfile) return;
+    const selected = candidates.filter(c => selectedKeys.includes(c.key));
+    if (selected.length === 0) return;
+
+    const creatorName = userProfile.displayName ?? user.displayName ?? 'Unknown User';
+    const creatorPhotoURL = userProfile.photoURL ?? user.photoURL;
+    const activitiesData: CreateActivityData[] = selected.map(({ event, recurrence }) => ({
+      title: (event.summary || 'Untitled event').slice(0, MAX_TITLE_LENGTH),
+      date: Timestamp.fromDate(event.start),
+      durationMinutes: durationFromICalEvent(event),
+      location: event.location ? event.location.slice(0, MAX_LOCATION_LENGTH) : null,
+      description: event.description ? event.description.slice(0, MAX_DESCRIPTION_LENGTH) : null,
+      maxParticipants: null,
+      waitlist: [],
+      creatorId: user.uid,
+      creatorName,
+      creatorPhotoURL,
+      participants: [{ uid: user.uid, name: creatorName, photoURL: creatorPhotoURL }],
+      participantUids: [user.uid],
+      recurrence,
+      externalUid: event.uid,
+    }));
+
+    setIsImporting(true);
+    try {
+      await createActivitiesMutation.mutateAsync(activitiesData);
+      toast({ title: "Activities Imported", description: `${activitiesData.length} ${activitiesData.length === 1 ? 'activity was' : 'activities were'} added.` });
+      router.push('/dashboard');
+    } catch (error) {
+      console.error("Error importing activities:", error);
+      toast({ title: "Error", description: "Could not import the selected activities.", variant: "destructive" });
+      setIsImporting(false);
+    }
+  };
+
+  const allSelected = candidates.length > 0 && selectedKeys.length === candidates.length;
+
+  return (
+    <div className="container mx-auto py-6 px-4 md:px-6 max-w-3xl space-y-6">
+      <Button variant="link" asChild className="inline-flex items-center text-sm text-muted-foreground hover:text-foreground -ml-4">
+        <Link href="/activities/create">
+          <ArrowLeft className="mr-1 h-4 w-4" />
+          Back to New Activity
+        </Link>
+      </Button>
+      <h1 className="text-3xl font-bold">Import Activities</h1>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2"><FileUp className="h-5 w-5" /> Calendar File</CardTitle>
+          <CardDescription>Upload an .ics file, e.g. term dates from your kindergarten or school, and pick the events to add as activities.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Input type="file" accept=".ics,text/calendar" onChange={handleFileChange} disabled={isParsing || isImporting} aria-label="Calendar file" />
+          {isParsing && <p className="text-sm text-muted-foreground mt-2">Reading {fileName}...</p>}
+        </CardContent>
+      </Card>
+
+      {candidates.length > 0 && !isParsing && (
+        <Card>
+          <CardHeader>
+            <CardTitle>{candidates.length} {candidates.length === 1 ? 'Event' : 'Events'} Found</CardTitle>
+            <CardDescription>Events that already exist, lie in the past or were cancelled are not selected by default.</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <div className="flex items-center gap-3 pb-2 border-b">
+              <Checkbox
+                id="select-all"
+                checked={allSelected}
+                onCheckedChange={(checked) => setSelectedKeys(checked === true ? candidates.map(c => c.key) : [])}
+                disabled={isImporting}
+              />
+              <Label htmlFor="select-all">Select all</Label>
+            </div>
+            {candidates.map(candidate => {
+              const { event } = candidate;
+              return (
+                <div key={candidate.key} className="flex items-start gap-3 p-2 rounded-md hover:bg-muted/50">
+                  <Checkbox
+                    id={`import-${candidate.key}`}
+                    checked={selectedKeys.includes(candidate.key)}
+                    onCheckedChange={(checked) => toggleCandidate(candidate.key, checked === true)}
+                    disabled={isImporting}
+                    className="mt-1"
+                  />
+                  <Label htmlFor={`import-${candidate.key}`} className="flex-1 space-y-1 font-normal">
+                    <span className="flex flex-wrap items-center gap-2 font-medium">
+                      {event.summary || 'Untitled event'}
+                      {candidate.isDuplicate && <Badge variant="secondary">Already exists</Badge>}
+                      {candidate.isPast && <Badge variant="outline">Past</Badge>}
+                      {candidate.isCancelled && <Badge variant="destructive">Cancelled</Badge>}
+                    </span>
+                    <span className="block text-sm text-muted-foreground">
+                      {format(event.start, 'EEEE, PPP', { locale: de })}
+                      {event.allDay ? ' · All day' : ` · ${format(event.start, 'HH:mm', { locale: de })}`}
+                      {!event.allDay && event.end && ` – ${format(event.end, 'HH:mm', { locale: de })}`}
+                    </span>
+                    {event.location && (
+                      <span className="flex items-center gap-1 text-sm text-muted-foreground">
+                        <MapPin className="h-3 w-3" /> {event.location}
+                      </span>
+                    )}
+                    {event.rrule && (
+                      <span className="flex items-center gap-1 text-sm text-muted-foreground">
+                        <Repeat className="h-3 w-3" />
+                        {candidate.recurrence
+                          ? describeRecurrence(candidate.recurrence, event.start)
+                          : 'Repeats in a way that is not supported; only the first date is imported.'}
+                      </span>
+                    )}
+                  </Label>
+                </div>
+              );
+            })}
+          </CardContent>
+          <CardFooter className="flex justify-end gap-2 border-t pt-6">
+            <Button onClick={handleImport} disabled={isImporting || selectedKeys.length === 0}>
+              {isImporting ? 'Importing...' : `Import ${selectedKeys.length} ${selectedKeys.length === 1 ? 'Activity' : 'Activities'}`}
+            </Button>
+          </CardFooter>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,122 @@
+// src/app/(app)/calendar/page.tsx
+"use client";
+
+import React, { useMemo, useState } from 'react';
+import { addMonths, addWeeks, format, isSameDay, startOfDay } from 'date-fns';
+import { de } from 'date-fns/locale';
+import { useAuth } from '@/hooks/useAuth';
+import { useActivitiesInRange } from '@/hooks/useActivities';
+import { getViewRange, groupActivitiesByDay, toDayKey, type CalendarViewMode } from '@/lib/calendar';
+import { EMPTY_ACTIVITY_FILTER, filterActivities, type ActivityFilter } from '@/lib/categories';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { ActivityList } from '@/components/activities/ActivityList';
+import { MonthView } from '@/components/calendar/MonthView';
+import { WeekView } from '@/components/calendar/WeekView';
+import { AgendaView } from '@/components/calendar/AgendaView';
+import { ActivityFilterChips } from '@/components/activities/ActivityFilterChips';
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+import Link from 'next/link';
+
+export default function CalendarPage() {
+  const { user, loading: authLoading } = useAuth();
+  const [mode, setMode] = useState<CalendarViewMode>('month');
+  const [cursor, setCursor] = useState<Date>(() => startOfDay(new Date()));
+  const [selectedDay, setSelectedDay] = useState<Date | null>(() => startOfDay(new Date()));
+  const [filter, setFilter] = useState<ActivityFilter>(EMPTY_ACTIVITY_FILTER);
+
+  const range = useMemo(() => getViewRange(mode, cursor), [mode, cursor]);
+  const { activities, isLoading: activitiesLoading, error } = useActivitiesInRange(authLoading ? null : user?.uid ?? null, range.start, range.end);
+  const isLoading = authLoading || activitiesLoading;
+
+  const activitiesByDay = useMemo(() => groupActivitiesByDay(filterActivities(activities, filter)), [activities, filter]);
+  const selectedDayActivities = selectedDay ? activitiesByDay.get(toDayKey(selectedDay)) ?? [] : [];
+
+  const navigate = (direction: -1 | 1) => {
+    setCursor(prev => mode === 'week' ? addWeeks(prev, direction) : addMonths(prev, direction));
+  };
+
+  const goToToday = () => {
+    const today = startOfDay(new Date());
+    setCursor(today);
+    setSelectedDay(today);
+  };
+
+  const handleSelectDay = (day: Date | null) => {
+    setSelectedDay(day);
+    if (day && mode !== 'month') {
+      setMode('month');
+      setCursor(day);
+    }
+  };
+
+  const periodLabel = mode === 'week'
+    ? `${format(range.start, 'd. MMM', { locale: de })} – ${format(range.end.getTime() - 1, 'd. MMM yyyy', { locale: de })}`
+    : format(cursor, 'LLLL yyyy', { locale: de });
+
+  return (
+    <div className="container mx-auto py-6 px-4 md:px-6 space-y-6">
+      <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4">
+        <h1 className="text-3xl font-bold">Calendar</h1>
+        <Button asChild>
+          <Link href="/activities/create">Create New Activity</Link>
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader className="space-y-4">
+          <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+            <div className="flex items-center gap-2">
+              <Button variant="outline" size="icon" onClick={() => navigate(-1)} aria-label="Previous period">
+                <ChevronLeft className="h-4 w-4" />
+              </Button>
+              <Button variant="outline" size="icon" onClick={() => navigate(1)} aria-label="Next period">
+                <ChevronRight className="h-4 w-4" />
+              </Button>
+              <Button variant="ghost" size="sm" onClick={goToToday}>Today</Button>
+              <CardTitle className="text-xl capitalize">{periodLabel}</CardTitle>
+            </div>
+            <Tabs value={mode} onValueChange={(value) => setMode(value as CalendarViewMode)}>
+              <TabsList>
+                <TabsTrigger value="month">Month</TabsTrigger>
+                <TabsTrigger value="week">Week</TabsTrigger>
+                <TabsTrigger value="agenda">Agenda</TabsTrigger>
+              </TabsList>
+            </Tabs>
+          </div>
+          <CardDescription>Activities planned by you and your friends, including past ones.</CardDescription>
+          <ActivityFilterChips activities={activities} filter={filter} onChange={setFilter} />
+        </CardHeader>
+        <CardContent>
+          {error ? (
+            <p className="text-destructive text-center py-4">{error}</p>
+          ) : isLoading ? (
+            <Skeleton className="h-80 w-full rounded-lg" />
+          ) : mode === 'month' ? (
+            <MonthView month={cursor} selectedDay={selectedDay} onSelectDay={setSelectedDay} activitiesByDay={activitiesByDay} />
+          ) : mode === 'week' ? (
+            <WeekView weekOf={cursor} activitiesByDay={activitiesByDay} onSelectDay={handleSelectDay} />
+          ) : (
+            <AgendaView activitiesByDay={activitiesByDay} />
+          )}
+        </CardContent>
+      </Card>
+
+      {mode === 'month' && selectedDay && !isLoading && !error && (
+        <Card>
+          <CardHeader>
+            <CardTitle>{format(selectedDay, 'EEEE, PPP', { locale: de })}</CardTitle>
+            <CardDescription>
+              {isSameDay(selectedDay, new Date()) ? 'Today' : `${selectedDayActivities.length} ${selectedDayActivities.length === 1 ? 'activity' : 'activities'}`}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ActivityList activities={selectedDayActivities} currentUserId={user?.uid ?? ''} />
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -2,67 +2,42 @@
 // src/app/(app)/dashboard/page.tsx
 "use client";
 
-import React, { useEffect, useState } from 'react';
+import React, { useState } from 'react';
 import { useAuth } from '@/hooks/useAuth';
-import { getDashboardActivities } from '@/lib/firebase/services';
-import type { ActivityClient } from '@/lib/types';
+import { useDashboardActivities } from '@/hooks/useActivities';
+import { useGroups } from '@/hooks/useGroups';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import Link from 'next/link';
 import { ActivityList } from '@/components/activities/ActivityList';
 import { Skeleton } from '@/components/ui/skeleton';
+import { ExportCalendarButton } from '@/components/calendar/ExportCalendarButton';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ActivityFilterChips } from '@/components/activities/ActivityFilterChips';
+import { EMPTY_ACTIVITY_FILTER, filterActivities, isFilterActive, type ActivityFilter } from '@/lib/categories';
+
+const ALL_GROUPS = 'all';
 
 export default function DashboardPage() {
   const { user, userProfile, loading: authLoading } = useAuth(); // authLoading indicates if AuthContext is busy
-  const [activities, setActivities] = useState<ActivityClient[]>([]);
-  const [isLoading, setIsLoading] = useState(true); // Dashboard's own loading state for activities
-  const [error, setError] = useState<string | null>(null);
-
-  useEffect(() => {
-    // Wait until authentication status is resolved by AuthContext
-    if (authLoading) {
-      console.log("DashboardPage: Auth state is loading, waiting...");
-      setIsLoading(true); // Keep dashboard loading indicator active if auth is still loading
-      return;
-    }
-
-    console.log("DashboardPage: Auth state resolved. User:", user ? user.uid : 'null');
-
-    if (user) {
-      setIsLoading(true); // Set loading true for fetching activities
-      setError(null);
-      console.log("DashboardPage: User authenticated, fetching activities for user:", user.uid);
-
-      getDashboardActivities(user.uid)
-        .then(fetchedActivities => {
-          console.log("DashboardPage: Successfully fetched activities:", fetchedActivities.length, fetchedActivities);
-          setActivities(fetchedActivities);
-        })
-        .catch(err => {
-          console.error("DashboardPage: Error fetching dashboard activities:", err);
-          setError(err.message || "Failed to load activities. Please try again later.");
-          setActivities([]); // Clear activities on error
-        })
-        .finally(() => {
-          console.log("DashboardPage: Activity fetch process finished.");
-          setIsLoading(false); // Always set loading to false after attempt
-        });
-    } else {
-      // No user is authenticated, and authLoading is false
-      console.log("DashboardPage: No authenticated user. Clearing activities and stopping load.");
-      setActivities([]);
-      setError(null);
-      setIsLoading(false);
-    }
-  }, [user, authLoading]); // Rerun effect if user or authLoading state changes
+  // Live query: joins, leaves and new activities of friends show up without reloading
+  const { activities, isLoading: activitiesLoading, error } = useDashboardActivities(authLoading ? null : user?.uid ?? null);
+  const isLoading = authLoading || activitiesLoading;
+  const { groups } = useGroups(user?.uid ?? null);
+  const [selectedGroupId, setSelectedGroupId] = useState(ALL_GROUPS);
+  const selectedGroup = groups.find(group => group.id === selectedGroupId) ?? null;
+  // A group narrows the list down to activities created by its members
+  const groupActivities = selectedGroup
+    ? activities.filter(activity => selectedGroup.memberIds.includes(activity.creatorId))
+    : activities;
+  const [filter, setFilter] = useState<ActivityFilter>(EMPTY_ACTIVITY_FILTER);
+  const visibleActivities = filterActivities(groupActivities, filter);
 
   const welcomeMessage = userProfile?.displayName
     ? `Welcome back, ${userProfile.displayName}!`
     : "Welcome to Parent Activity Hub!";
 
-  // This loading state now combines auth loading (implicitly via effect dependencies) and activity loading
-  if (isLoading) { // Show skeleton if dashboard is loading its own data OR if auth is still loading (covered by initial effect state)
-    console.log("DashboardPage: Rendering loading skeleton.");
+  if (isLoading) { // Show skeleton while auth is resolving or the first activity snapshot is pending
     return (
       <div className="container mx-auto py-6 px-4 md:px-6">
         <div className="flex flex-col md:flex-row justify-between items-start md:items-center mb-6 gap-4">
@@ -90,21 +65,53 @@ export default function DashboardPage() {
     <div className="container mx-auto py-6 px-4 md:px-6">
       <div className="flex flex-col md:flex-row justify-between items-start md:items-center mb-6 gap-4">
          <h1 className="text-3xl font-bold">{welcomeMessage}</h1>
-        <Button asChild>
-            <Link href="/activities/create">Create New Activity</Link>
-        </Button>
+        <div className="flex flex-wrap gap-2">
+            {activities.length > 0 && (
+                <ExportCalendarButton activities={activities} fileName="parent-activity-hub" calendarName="Parent Activity Hub" size="default">
+                    Export All
+                </ExportCalendarButton>
+            )}
+            <Button variant="outline" asChild>
+                <Link href="/calendar">Open Calendar</Link>
+            </Button>
+            <Button asChild>
+                <Link href="/activities/create">Create New Activity</Link>
+            </Button>
+        </div>
       </div>
 
        <Card>
-            <CardHeader>
-                 <CardTitle>Upcoming Activities</CardTitle>
-                 <CardDescription>Activities planned by you and your friends.</CardDescription>
+            <CardHeader className="flex flex-col sm:flex-row sm:items-start justify-between gap-4 space-y-0">
+                 <div className="space-y-1.5">
+                     <CardTitle>Upcoming Activities</CardTitle>
+                     <CardDescription>
+                         {selectedGroup ? `Activities planned by members of "${selectedGroup.name}".` : 'Activities planned by you and your friends.'}
+                     </CardDescription>
+                 </div>
+                 {groups.length > 0 && (
+                     <Select value={selectedGroup ? selectedGroup.id : ALL_GROUPS} onValueChange={setSelectedGroupId}>
+                         <SelectTrigger className="w-full sm:w-56" aria-label="Filter by group">
+                             <SelectValue />
+                         </SelectTrigger>
+                         <SelectContent>
+                             <SelectItem value={ALL_GROUPS}>All friends</SelectItem>
+                             {groups.map(group => (
+                                 <SelectItem key={group.id} value={group.id}>{group.name}</SelectItem>
+                             ))}
+                         </SelectContent>
+                     </Select>
+                 )}
             </CardHeader>
             <CardContent>
+                <ActivityFilterChips activities={groupActivities} filter={filter} onChange={setFilter} className="mb-4" />
                 {error ? (
                     <p className="text-destructive text-center py-4">{error}</p>
-                ) : activities.length > 0 ? (
-                   <ActivityList activities={activities} currentUserId={user?.uid ?? ''} />
+                ) : visibleActivities.length > 0 ? (
+                   <ActivityList activities={visibleActivities} currentUserId={user?.uid ?? ''} />
+                 ) : isFilterActive(filter) ? (
+                     <p className="text-center text-muted-foreground py-10">No upcoming activities match the selected categories and tags.</p>
+                 ) : selectedGroup ? (
+                     <p className="text-center text-muted-foreground py-10">No upcoming activities from members of this group.</p>
                  ) : (
                      <div className="text-center py-10">
                          <p className="text-muted-foreground mb-4">No upcoming activities found.</p>
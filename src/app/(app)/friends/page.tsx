@@ -1,17 +1,36 @@
 // src/app/(app)/friends/page.tsx
 "use client";
 
-import React, { useEffect, useState, useCallback } from 'react';
+import React, { useEffect, useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
 import { useAuth } from '@/hooks/useAuth'; 
-import { getFriends, generateInviteCode, removeFriend, getInvitation, addFriend, deleteInvitation } from '@/lib/firebase/services';
-import type { Friend, InvitationClient } from '@/lib/types';
+import {
+  useAcceptInvitationMutation,
+  useCreateInviteLinkMutation,
+  useFriendRequests,
+  useFriends,
+  useInviteLinks,
+  useRemoveFriendMutation,
+  useRevokeInviteLinkMutation,
+} from '@/hooks/useFriends';
+import { useJoinGroupMutation } from '@/hooks/useGroups';
+import { FriendRequestList } from '@/components/friends/FriendRequestList';
+import { InviteLinkList } from '@/components/friends/InviteLinkList';
+import { InviteQrCode } from '@/components/friends/InviteQrCode';
+import { getInvitation, getInvitationState } from '@/lib/firebase/services';
+import { queryKeys } from '@/lib/queryKeys';
+import type { InvitationClient } from '@/lib/types';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle, CardFooter } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Skeleton } from '@/components/ui/skeleton';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { useToast } from '@/hooks/use-toast';
-import { Users, UserPlus, Copy, Trash2, RefreshCw, Send } from 'lucide-react';
+import { Users, UserPlus, Copy, Trash2, RefreshCw, Send, Inbox, Link as LinkIcon, QrCode } from 'lucide-react';
+import Link from 'next/link';
 import {
   AlertDialog,
   AlertDialogAction,
@@ -24,48 +43,67 @@ import {
   AlertDialogTrigger,
 } from "@/components/ui/alert-dialog"
 
+// Select values are strings; 'unlimited' maps to maxUses null
+const MAX_USES_OPTIONS = [
+  { value: '1', label: '1 person' },
+  { value: '5', label: '5 people' },
+  { value: '10', label: '10 people' },
+  { value: '25', label: '25 people' },
+  { value: 'unlimited', label: 'No limit' },
+];
+const EXPIRY_OPTIONS = [
+  { value: '1', label: '1 day' },
+  { value: '7', label: '7 days' },
+  { value: '30', label: '30 days' },
+];
+
 
 export default function FriendsPage() {
   const { user, userProfile, loading: authLoading } = useAuth();
   const { toast } = useToast();
-  const [friends, setFriends] = useState<Friend[]>([]);
+  const queryClient = useQueryClient();
   const [generatedInviteLink, setGeneratedInviteLink] = useState<string | null>(null);
-  const [isLoadingFriends, setIsLoadingFriends] = useState(true);
+  const [generatedInvitationId, setGeneratedInvitationId] = useState<string | null>(null);
   const [isGeneratingCode, setIsGeneratingCode] = useState(false);
+  const [maxUsesOption, setMaxUsesOption] = useState('1');
+  const [expiryOption, setExpiryOption] = useState('7');
   const [isRemovingFriend, setIsRemovingFriend] = useState<string | null>(null); 
   
   const [enteredInviteCode, setEnteredInviteCode] = useState('');
   const [isAcceptingEnteredInvite, setIsAcceptingEnteredInvite] = useState(false);
 
 
-   const fetchFriends = useCallback(async () => {
-        if (user) {
-             setIsLoadingFriends(true);
-             try {
-                 const fetchedFriends = await getFriends(user.uid);
-                 setFriends(fetchedFriends);
-             } catch (error) {
-                 console.error("Error fetching friends:", error);
-                 toast({ title: "Error", description: "Could not load friends list.", variant: "destructive" });
-             } finally {
-                 setIsLoadingFriends(false);
-             }
-        }
-   }, [user, toast]);
-
+  const { friends, isLoading: isLoadingFriends, error: friendsError } = useFriends(user?.uid ?? null);
+  const acceptInvitationMutation = useAcceptInvitationMutation();
+  const joinGroupMutation = useJoinGroupMutation();
+  const removeFriendMutation = useRemoveFriendMutation();
+  const { incoming, outgoing, isLoading: isLoadingRequests } = useFriendRequests(user?.uid ?? null);
+  const { inviteLinks, isLoading: isLoadingInviteLinks } = useInviteLinks(user?.uid ?? null);
+  const createInviteLinkMutation = useCreateInviteLinkMutation();
+  const revokeInviteLinkMutation = useRevokeInviteLinkMutation();
 
   useEffect(() => {
-    fetchFriends();
-  }, [fetchFriends]);
+    if (friendsError) {
+      console.error("Error fetching friends:", friendsError);
+      toast({ title: "Error", description: "Could not load friends list.", variant: "destructive" });
+    }
+  }, [friendsError, toast]);
 
 
   const handleGenerateInvite = async () => {
     if (!user || !userProfile) return;
     setIsGeneratingCode(true);
     try {
-      const code = await generateInviteCode(user.uid, userProfile.displayName ?? user.displayName);
+      const { code, invitationId } = await createInviteLinkMutation.mutateAsync({
+        inviter: { uid: user.uid, displayName: userProfile.displayName ?? user.displayName, photoURL: userProfile.photoURL ?? user.photoURL },
+        options: {
+          maxUses: maxUsesOption === 'unlimited' ? null : Number(maxUsesOption),
+          expiresInDays: Number(expiryOption),
+        },
+      });
       const link = `${window.location.origin}/invite?code=${code}`;
       setGeneratedInviteLink(link);
+      setGeneratedInvitationId(invitationId);
       toast({ title: "Invite Link Generated!", description: "Share this link with a friend." });
     } catch (error) {
       console.error("Error generating invite code:", error);
@@ -87,13 +125,27 @@ export default function FriendsPage() {
       });
   };
 
+  const handleRevokeInviteLink = async (link: InvitationClient) => {
+    if (!user) return;
+    try {
+      await revokeInviteLinkMutation.mutateAsync({ inviterId: user.uid, invitationId: link.id });
+      if (generatedInvitationId === link.id) {
+        setGeneratedInviteLink(null);
+        setGeneratedInvitationId(null);
+      }
+      toast({ title: "Invite Link Revoked", description: "The link can no longer be used." });
+    } catch (error) {
+      console.error("Error revoking invite link:", error);
+      toast({ title: "Error", description: "Could not revoke the invite link.", variant: "destructive" });
+    }
+  };
+
    const handleRemoveFriend = async (friendId: string) => {
        if (!user) return;
        setIsRemovingFriend(friendId);
        try {
-           await removeFriend(user.uid, friendId);
+           await removeFriendMutation.mutateAsync({ userId: user.uid, friendId });
            toast({ title: "Friend Removed", description: "Friendship connection has been removed." });
-           fetchFriends();
        } catch (error) {
            console.error("Error removing friend:", error);
            toast({ title: "Error", description: "Could not remove friend.", variant: "destructive" });
@@ -114,16 +166,25 @@ export default function FriendsPage() {
 
     setIsAcceptingEnteredInvite(true);
     try {
-        const invitation: InvitationClient | null = await getInvitation(enteredInviteCode.trim());
+        const invitation: InvitationClient | null = await queryClient.fetchQuery({
+            queryKey: queryKeys.invitation(enteredInviteCode.trim()),
+            queryFn: () => getInvitation(enteredInviteCode.trim()),
+            staleTime: 0,
+        });
 
         if (!invitation) {
             toast({ title: "Invite Not Found", description: "The invite code is invalid or expired.", variant: "destructive" });
             setIsAcceptingEnteredInvite(false);
             return;
         }
-        if (invitation.expiresAt && new Date(invitation.expiresAt) < new Date()) {
+        const invitationState = getInvitationState(invitation);
+        if (invitationState === 'expired') {
             toast({ title: "Invite Expired", description: "This invitation link has expired.", variant: "destructive" });
-            try { await deleteInvitation(enteredInviteCode.trim()); } catch { console.warn("Failed to delete expired invite."); }
+            setIsAcceptingEnteredInvite(false);
+            return;
+        }
+        if (invitationState === 'used-up' && !invitation.redemptions[user.uid]) {
+            toast({ title: "Invite Used Up", description: "This invitation link has already been used by as many people as allowed.", variant: "destructive" });
             setIsAcceptingEnteredInvite(false);
             return;
         }
@@ -134,18 +195,21 @@ export default function FriendsPage() {
         }
         
         console.log(`[FriendsPage] handleAcceptEnteredInvite: Current user UID: ${user.uid}, Inviter ID from code ${invitation.inviterId}`);
-        await addFriend(user.uid, invitation.inviterId);
-        await deleteInvitation(enteredInviteCode.trim()); // Delete invitation after successful friend add attempt
+        const currentUser = { uid: user.uid, displayName: userProfile?.displayName ?? user.displayName, photoURL: userProfile?.photoURL ?? user.photoURL };
+        if (invitation.groupId) {
+            await joinGroupMutation.mutateAsync({ user: currentUser, invitation });
+            toast({ title: "Group Joined!", description: `You are now a member of "${invitation.groupName || 'the group'}".` });
+            setEnteredInviteCode('');
+            return;
+        }
+        await acceptInvitationMutation.mutateAsync({ user: currentUser, invitation });
         toast({ title: "Friend Added!", description: `You are now connected with ${invitation.inviterName || 'your friend'}.` });
         setEnteredInviteCode(''); 
-        fetchFriends(); 
 
     } catch (error: any) {
         console.error("[FriendsPage] Error accepting entered invite code:", error);
         if (error.code === 'already-friends') {
              toast({ title: "Already Friends", description: "You are already connected with this user." });
-             try { await deleteInvitation(enteredInviteCode.trim()); } catch { /* ignore */ }
-             fetchFriends(); // Refresh friends list even if already friends
         } else {
             toast({ title: "Invite Error", description: `Could not process the invite code. ${error.message || 'An unexpected error occurred.'}`, variant: "destructive" });
         }
@@ -180,34 +244,75 @@ export default function FriendsPage() {
        <Card>
            <CardHeader>
              <CardTitle className="flex items-center gap-2"><UserPlus className="h-5 w-5"/> Create Invite Link</CardTitle>
-             <CardDescription>Share your unique link with other parents to connect.</CardDescription>
+             <CardDescription>Share a link with other parents to connect. A link for several people can be posted in a group chat.</CardDescription>
            </CardHeader>
-           <CardContent className="flex flex-col sm:flex-row items-center gap-4">
+           <CardContent className="space-y-4">
              {generatedInviteLink ? (
                  <>
-                     <Input value={generatedInviteLink} readOnly className="flex-1" aria-label="Generated invite link"/>
-                     <Button onClick={handleCopyInviteLink} variant="outline" size="icon" aria-label="Copy invite link">
-                       <Copy className="h-4 w-4" />
-                     </Button>
+                     <div className="flex items-center gap-4">
+                         <Input value={generatedInviteLink} readOnly className="flex-1" aria-label="Generated invite link"/>
+                         <Button onClick={handleCopyInviteLink} variant="outline" size="icon" aria-label="Copy invite link">
+                           <Copy className="h-4 w-4" />
+                         </Button>
+                     </div>
+                     <div className="flex flex-col items-center gap-2">
+                         <InviteQrCode value={generatedInviteLink} />
+                         <p className="text-xs text-muted-foreground text-center">Meeting in person? Let the other parent scan this code with their phone camera or the scanner in the app.</p>
+                     </div>
                  </>
              ) : (
-                <p className="text-sm text-muted-foreground flex-1">Click &quot;Generate&quot; to create a shareable invite link.</p>
+                <p className="text-sm text-muted-foreground">Click &quot;Generate&quot; to create a shareable invite link and QR code.</p>
              )}
-              <Button onClick={handleGenerateInvite} disabled={isGeneratingCode} className="w-full sm:w-auto">
+           </CardContent>
+           <CardFooter className="flex flex-col sm:flex-row sm:items-end gap-4">
+              <div className="grid grid-cols-2 gap-4 w-full sm:w-auto">
+                 <div className="space-y-1">
+                    <Label htmlFor="invite-max-uses" className="text-xs">Can be used by</Label>
+                    <Select value={maxUsesOption} onValueChange={setMaxUsesOption} disabled={isGeneratingCode}>
+                       <SelectTrigger id="invite-max-uses" className="sm:w-36"><SelectValue /></SelectTrigger>
+                       <SelectContent>
+                          {MAX_USES_OPTIONS.map(option => <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>)}
+                       </SelectContent>
+                    </Select>
+                 </div>
+                 <div className="space-y-1">
+                    <Label htmlFor="invite-expiry" className="text-xs">Valid for</Label>
+                    <Select value={expiryOption} onValueChange={setExpiryOption} disabled={isGeneratingCode}>
+                       <SelectTrigger id="invite-expiry" className="sm:w-36"><SelectValue /></SelectTrigger>
+                       <SelectContent>
+                          {EXPIRY_OPTIONS.map(option => <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>)}
+                       </SelectContent>
+                    </Select>
+                 </div>
+              </div>
+              <Button onClick={handleGenerateInvite} disabled={isGeneratingCode} className="w-full sm:w-auto sm:ml-auto">
                  {isGeneratingCode ? <><RefreshCw className="mr-2 h-4 w-4 animate-spin"/> Generating...</> : <><UserPlus className="mr-2 h-4 w-4"/>Generate Invite Link</>}
               </Button>
+           </CardFooter>
+       </Card>
+
+       <Card>
+           <CardHeader>
+             <CardTitle className="flex items-center gap-2"><LinkIcon className="h-5 w-5"/> My Invite Links</CardTitle>
+             <CardDescription>See who used your links and revoke the ones you no longer want to be used. A link can only be copied right after it is created, so create a new one if you need it again.</CardDescription>
+           </CardHeader>
+           <CardContent>
+               {isLoadingInviteLinks ? (
+                 <FriendsListSkeleton />
+               ) : (
+                 <InviteLinkList
+                   inviteLinks={inviteLinks}
+                   onRevoke={handleRevokeInviteLink}
+                   revokingId={revokeInviteLinkMutation.isPending ? revokeInviteLinkMutation.variables?.invitationId : null}
+                 />
+               )}
            </CardContent>
-           {generatedInviteLink && (
-            <CardFooter>
-                    <p className="text-xs text-muted-foreground">This link is valid for 7 days. Anyone with this link can add you as a friend.</p>
-            </CardFooter>
-           )}
        </Card>
 
         <Card>
             <CardHeader>
                 <CardTitle className="flex items-center gap-2"><Send className="h-5 w-5 transform -rotate-45"/> Accept an Invite Code</CardTitle>
-                <CardDescription>Received an invite code from a friend? Enter it here.</CardDescription>
+                <CardDescription>Received an invite code from a friend? Enter it here, or scan the QR code on their phone.</CardDescription>
             </CardHeader>
             <CardContent className="flex flex-col sm:flex-row items-stretch gap-2">
                 <Input 
@@ -225,9 +330,25 @@ export default function FriendsPage() {
                 >
                     {isAcceptingEnteredInvite ? <><RefreshCw className="mr-2 h-4 w-4 animate-spin"/>Accepting...</> : 'Accept Invite'}
                 </Button>
+                <Button variant="outline" asChild className="w-full sm:w-auto">
+                    <Link href="/friends/scan"><QrCode className="mr-2 h-4 w-4"/>Scan QR Code</Link>
+                </Button>
             </CardContent>
         </Card>
 
+       <Card>
+           <CardHeader>
+             <CardTitle className="flex items-center gap-2">
+               <Inbox className="h-5 w-5"/> Friend Requests
+               {incoming.length > 0 && <Badge>{incoming.length}</Badge>}
+             </CardTitle>
+             <CardDescription>Requests from other parents and the ones you sent. You become friends once a request is accepted.</CardDescription>
+           </CardHeader>
+           <CardContent>
+               {isLoadingRequests ? <FriendsListSkeleton /> : <FriendRequestList incoming={incoming} outgoing={outgoing} />}
+           </CardContent>
+       </Card>
+
        <Card>
            <CardHeader>
              <CardTitle className="flex items-center gap-2"><Users className="h-5 w-5"/> Your Friends</CardTitle>
@@ -0,0 +1,217 @@
+// src/app/(app)/friends/scan/page.tsx
+"use client";
+
+import React, { useEffect, useRef, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { useToast } from '@/hooks/use-toast';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { ArrowLeft, CameraOff, RefreshCw, ScanQrCode } from 'lucide-react';
+import Link from 'next/link';
+import { decodeQrCode } from '@/lib/qrdecode';
+
+// The Barcode Detection API is not part of the TypeScript DOM typings yet
+interface DetectedBarcode {
+  rawValue: string;
+}
+
+interface BarcodeDetectorInstance {
+  detect(source: HTMLVideoElement): Promise<DetectedBarcode[]>;
+}
+
+interface BarcodeDetectorConstructor {
+  new (options?: { formats: string[] }): BarcodeDetectorInstance;
+  getSupportedFormats(): Promise<string[]>;
+}
+
+type ScannerStatus = 'starting' | 'scanning' | 'unsupported' | 'denied' | 'error';
+
+// Returns the text of every QR code found in the current video frame
+type FrameReader = (video: HTMLVideoElement) => Promise<string[]>;
+
+const SCAN_INTERVAL_MS = 250;
+const MAX_FRAME_SIZE = 640; // Frames are scaled down before decoding them in JavaScript
+
+// Uses the browser's Barcode Detection API where it reads QR codes, and the bundled decoder everywhere else
+const createFrameReader = async (): Promise<FrameReader | null> => {
+  const BarcodeDetector = (window as unknown as { BarcodeDetector?: BarcodeDetectorConstructor }).BarcodeDetector;
+  if (BarcodeDetector && (await BarcodeDetector.getSupportedFormats()).includes('qr_code')) {
+    const detector = new BarcodeDetector({ formats: ['qr_code'] });
+    return async video => (await detector.detect(video)).map(barcode => barcode.rawValue);
+  }
+
+  const canvas = document.createElement('canvas');
+  const context = canvas.getContext('2d', { willReadFrequently: true });
+  if (!context) return null;
+  return async video => {
+    if (!video.videoWidth || !video.videoHeight) return [];
+    const scale = Math.min(1, MAX_FRAME_SIZE / Math.max(video.videoWidth, video.videoHeight));
+    canvas.width = Math.round(video.videoWidth * scale);
+    canvas.height = Math.round(video.videoHeight * scale);
+    context.drawImage(video, 0, 0, canvas.width, canvas.height);
+    const text = decodeQrCode(context.getImageData(0, 0, canvas.width, canvas.height));
+    return text === null ? [] : [text];
+  };
+};
+
+const STATUS_MESSAGES: Partial<Record<ScannerStatus, string>> = {
+  unsupported: 'This browser cannot use the camera. Scan the code with your phone camera app instead, or enter the link or code below.',
+  denied: 'Camera access was blocked. Allow camera access for this site in your browser settings, or enter the link or code below.',
+  error: 'The camera could not be started. Enter the link or code below instead.',
+};
+
+// Accepts a full invite link (from any host the app runs on) or a bare invite code
+const getInviteCodeFromScan = (value: string): string | null => {
+  const trimmed = value.trim();
+  if (!trimmed) return null;
+  try {
+    const url = new URL(trimmed);
+    return url.pathname.replace(/\/$/, '').endsWith('/invite') ? url.searchParams.get('code') : null;
+  } catch {
+    return /^[A-Za-z0-9_-]+$/.test(trimmed) ? trimmed : null;
+  }
+};
+
+// Reads an invite QR code with the camera and hands the code to the regular invite page.
+export default function ScanInvitePage() {
+  const router = useRouter();
+  const { toast } = useToast();
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [status, setStatus] = useState<ScannerStatus>('starting');
+  const [manualValue, setManualValue] = useState('');
+
+  useEffect(() => {
+    let stream: MediaStream | null = null;
+    let timeoutId: ReturnType<typeof setTimeout> | null = null;
+    let isCancelled = false;
+    let lastRejectedValue: string | null = null;
+
+    const stopCamera = () => {
+      if (timeoutId) clearTimeout(timeoutId);
+      stream?.getTracks().forEach(track => track.stop());
+      stream = null;
+    };
+
+    const startScanner = async () => {
+      if (!navigator.mediaDevices?.getUserMedia) {
+        setStatus('unsupported');
+        return;
+      }
+
+      try {
+        const readFrame = await createFrameReader();
+        if (!readFrame) {
+          setStatus('unsupported');
+          return;
+        }
+
+        stream = await navigator.mediaDevices.getUserMedia({ video: { facingMode: 'environment' }, audio: false });
+        if (isCancelled || !videoRef.current) {
+          stopCamera();
+          return;
+        }
+        videoRef.current.srcObject = stream;
+        await videoRef.current.play();
+        setStatus('scanning');
+
+        const scanFrame = async () => {
+          if (isCancelled || !videoRef.current) return;
+          try {
+            const values = await readFrame(videoRef.current);
+            for (const value of values) {
+              const code = getInviteCodeFromScan(value);
+              if (code) {
+                stopCamera();
+                router.replace(`/invite?code=${encodeURIComponent(code)}`);
+                return;
+              }
+              if (value !== lastRejectedValue) {
+                lastRejectedValue = value;
+                toast({ title: "Not an Invite", description: "This QR code is not a Parent Activity Hub invite.", variant: "destructive" });
+              }
+            }
+          } catch (error) {
+            console.error("Error reading QR code from camera frame:", error);
+          }
+          timeoutId = setTimeout(scanFrame, SCAN_INTERVAL_MS);
+        };
+        scanFrame();
+      } catch (error) {
+        console.error("Error starting QR code scanner:", error);
+        stopCamera();
+        if (!isCancelled) {
+          setStatus(error instanceof DOMException && error.name === 'NotAllowedError' ? 'denied' : 'error');
+        }
+      }
+    };
+
+    startScanner();
+
+    return () => {
+      isCancelled = true;
+      stopCamera();
+    };
+  }, [router, toast]);
+
+  const handleManualSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    const code = getInviteCodeFromScan(manualValue);
+    if (!code) {
+      toast({ title: "Invalid Invite", description: "Enter an invite link or the code from it.", variant: "destructive" });
+      return;
+    }
+    router.push(`/invite?code=${encodeURIComponent(code)}`);
+  };
+
+  const statusMessage = STATUS_MESSAGES[status];
+
+  return (
+    <div className="container mx-auto py-6 px-4 md:px-6 space-y-6 max-w-xl">
+      <Button variant="link" asChild className="inline-flex items-center text-sm text-muted-foreground hover:text-foreground -ml-4">
+        <Link href="/friends">
+          <ArrowLeft className="mr-1 h-4 w-4" />
+          Back to Friends
+        </Link>
+      </Button>
+      <h1 className="text-3xl font-bold">Scan Invite Code</h1>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2"><ScanQrCode className="h-5 w-5"/> Camera</CardTitle>
+          <CardDescription>Point the camera at the QR code on the other parent&apos;s Friends page.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {statusMessage ? (
+            <div className="flex flex-col items-center gap-3 py-6 text-center">
+              <CameraOff className="h-10 w-10 text-muted-foreground" />
+              <p className="text-sm text-muted-foreground">{statusMessage}</p>
+            </div>
+          ) : (
+            <div className="relative aspect-square w-full overflow-hidden rounded-lg bg-muted">
+              <video ref={videoRef} className="h-full w-full object-cover" muted playsInline aria-label="Camera preview" />
+              <div className="pointer-events-none absolute inset-[15%] rounded-lg border-4 border-primary/80" />
+              {status === 'starting' && (
+                <div className="absolute inset-0 flex items-center justify-center text-sm text-muted-foreground">
+                  <RefreshCw className="mr-2 h-4 w-4 animate-spin" /> Starting camera...
+                </div>
+              )}
+            </div>
+          )}
+        </CardContent>
+        <CardFooter>
+          <form onSubmit={handleManualSubmit} className="flex w-full flex-col sm:flex-row gap-2">
+            <Input
+              placeholder="Invite link or code"
+              value={manualValue}
+              onChange={(e) => setManualValue(e.target.value)}
+              className="flex-1"
+              aria-label="Invite link or code"
+            />
+            <Button type="submit" variant="outline" disabled={!manualValue.trim()}>Open Invite</Button>
+          </form>
+        </CardFooter>
+      </Card>
+    </div>
+  );
+}
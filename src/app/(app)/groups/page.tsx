@@ -0,0 +1,111 @@
+// src/app/(app)/groups/page.tsx
+"use client";
+
+import React, { useEffect, useState } from 'react';
+import { useAuth } from '@/hooks/useAuth';
+import { useFriends } from '@/hooks/useFriends';
+import { useCreateGroupMutation, useGroups } from '@/hooks/useGroups';
+import { useToast } from '@/hooks/use-toast';
+import type { Friend } from '@/lib/types';
+import { Card, CardContent, CardHeader } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import { GroupCard } from '@/components/groups/GroupCard';
+import { GroupFormDialog, type GroupFormValues } from '@/components/groups/GroupFormDialog';
+import { Plus, UsersRound } from 'lucide-react';
+
+export default function GroupsPage() {
+  const { user, userProfile, loading: authLoading } = useAuth();
+  const { toast } = useToast();
+  const { groups, isLoading: isLoadingGroups, error } = useGroups(user?.uid ?? null);
+  const { friends } = useFriends(user?.uid ?? null);
+  const createGroupMutation = useCreateGroupMutation();
+  const [isCreateOpen, setIsCreateOpen] = useState(false);
+
+  useEffect(() => {
+    if (error) {
+      console.error("Error fetching groups:", error);
+      toast({ title: "Error", description: "Could not load your groups.", variant: "destructive" });
+    }
+  }, [error, toast]);
+
+  if (authLoading || isLoadingGroups) {
+    return <GroupsPageSkeleton />;
+  }
+
+  if (!user) {
+    return <p>Please sign in to manage groups.</p>;
+  }
+
+  const currentUser: Friend = {
+    uid: user.uid,
+    displayName: userProfile?.displayName ?? user.displayName,
+    photoURL: userProfile?.photoURL ?? user.photoURL,
+  };
+
+  const handleCreate = async (values: GroupFormValues) => {
+    try {
+      await createGroupMutation.mutateAsync({ owner: currentUser, ...values });
+      toast({ title: "Group Created", description: `"${values.name}" is ready. Add friends or share an invite link.` });
+      setIsCreateOpen(false);
+    } catch (err) {
+      console.error("Error creating group:", err);
+      toast({ title: "Error", description: "Could not create the group.", variant: "destructive" });
+    }
+  };
+
+  return (
+    <div className="container mx-auto py-6 px-4 md:px-6 space-y-8">
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+        <h1 className="text-3xl font-bold">Groups</h1>
+        <Button onClick={() => setIsCreateOpen(true)}>
+          <Plus className="mr-2 h-4 w-4" /> New Group
+        </Button>
+      </div>
+
+      {groups.length > 0 ? (
+        <div className="grid gap-6 lg:grid-cols-2">
+          {groups.map(group => (
+            <GroupCard key={group.id} group={group} currentUser={currentUser} friends={friends} />
+          ))}
+        </div>
+      ) : (
+        <Card>
+          <CardContent className="text-center py-10 space-y-2">
+            <UsersRound className="h-10 w-10 mx-auto text-muted-foreground" />
+            <p className="text-muted-foreground">
+              You are not in any group yet. Create one for your kindergarten class, sports team or neighbors.
+            </p>
+          </CardContent>
+        </Card>
+      )}
+
+      <GroupFormDialog open={isCreateOpen} onOpenChange={setIsCreateOpen} onSubmit={handleCreate} />
+    </div>
+  );
+}
+
+function GroupsPageSkeleton() {
+  return (
+    <div className="container mx-auto py-6 px-4 md:px-6 space-y-8">
+      <div className="flex justify-between items-center">
+        <Skeleton className="h-9 w-32" />
+        <Skeleton className="h-10 w-32" />
+      </div>
+      <div className="grid gap-6 lg:grid-cols-2">
+        {[1, 2].map(i => (
+          <Card key={i}>
+            <CardHeader>
+              <Skeleton className="h-6 w-1/2" />
+              <Skeleton className="h-4 w-1/3 mt-1" />
+            </CardHeader>
+            <CardContent className="space-y-3">
+              <Skeleton className="h-8 w-full" />
+              <Skeleton className="h-8 w-full" />
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+    </div>
+  );
+}
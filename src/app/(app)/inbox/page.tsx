@@ -0,0 +1,89 @@
+// src/app/(app)/inbox/page.tsx
+"use client";
+
+import React, { useEffect } from 'react';
+import { useAuth } from '@/hooks/useAuth';
+import { useActivityInvites } from '@/hooks/useActivities';
+import { useToast } from '@/hooks/use-toast';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Skeleton } from '@/components/ui/skeleton';
+import { ActivityList } from '@/components/activities/ActivityList';
+import { Inbox } from 'lucide-react';
+
+// Activity invites from friends. Answering with Going or Maybe accepts an invite, Can't declines it.
+export default function InboxPage() {
+  const { user, loading: authLoading } = useAuth();
+  const { toast } = useToast();
+  const { activities: invites, isLoading, error } = useActivityInvites(user?.uid ?? null);
+
+  useEffect(() => {
+    if (error) {
+      console.error("Error fetching activity invites:", error);
+      toast({ title: "Error", description: "Could not load your invites.", variant: "destructive" });
+    }
+  }, [error, toast]);
+
+  if (authLoading || isLoading) {
+    return <InboxPageSkeleton />;
+  }
+
+  if (!user) {
+    return <p>Please sign in to see your invites.</p>;
+  }
+
+  const openInvites = invites.filter(activity => activity.invitees[user.uid]?.status === 'pending');
+  const answeredInvites = invites.filter(activity => activity.invitees[user.uid]?.status !== 'pending');
+
+  return (
+    <div className="container mx-auto py-6 px-4 md:px-6 space-y-8">
+      <h1 className="text-3xl font-bold">Inbox</h1>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Waiting for Your Answer ({openInvites.length})</CardTitle>
+          <CardDescription>Friends invited you to these activities. Going or Maybe accepts, Can&apos;t declines.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {openInvites.length > 0 ? (
+            <ActivityList activities={openInvites} currentUserId={user.uid} />
+          ) : (
+            <div className="text-center py-6 space-y-2">
+              <Inbox className="h-10 w-10 mx-auto text-muted-foreground" />
+              <p className="text-muted-foreground">You have answered all your invites.</p>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {answeredInvites.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Answered ({answeredInvites.length})</CardTitle>
+            <CardDescription>You can still change your answer until the activity starts.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ActivityList activities={answeredInvites} currentUserId={user.uid} />
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
+
+function InboxPageSkeleton() {
+  return (
+    <div className="container mx-auto py-6 px-4 md:px-6 space-y-8">
+      <Skeleton className="h-9 w-32" />
+      <Card>
+        <CardHeader>
+          <Skeleton className="h-6 w-1/2" />
+          <Skeleton className="h-4 w-2/3 mt-1" />
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <Skeleton className="h-40 w-full" />
+          <Skeleton className="h-40 w-full" />
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
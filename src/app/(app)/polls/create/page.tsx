@@ -0,0 +1,20 @@
+// src/app/(app)/polls/create/page.tsx
+import { PollForm } from '@/components/polls/PollForm';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+
+export default function CreatePollPage() {
+  return (
+    <div className="container mx-auto py-6 px-4 md:px-6 max-w-2xl">
+      <h1 className="text-3xl font-bold mb-6">Find a Date</h1>
+      <Card>
+        <CardHeader>
+          <CardTitle>New Date Poll</CardTitle>
+          <CardDescription>Propose a few dates, and your friends answer yes, if needed or no for each of them.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <PollForm />
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,238 @@
+// src/app/(app)/polls/details/page.tsx
+"use client";
+
+import React, { Suspense } from 'react';
+import Link from 'next/link';
+import { useRouter, useSearchParams } from 'next/navigation';
+import { format } from 'date-fns';
+import { de } from 'date-fns/locale';
+import { useAuth } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/use-toast';
+import { useDeletePollMutation, useFinalizePollMutation, usePoll, useVotePollMutation } from '@/hooks/usePolls';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { ArrowLeft, CalendarCheck, MapPin, Trash2 } from 'lucide-react';
+import { MarkdownContent } from '@/components/activities/MarkdownContent';
+import { PollTallyGrid } from '@/components/polls/PollTallyGrid';
+import { formatActivityTime } from '@/lib/calendar';
+import type { PollAnswer } from '@/lib/types';
+
+function PollDetailContent() {
+  const searchParams = useSearchParams();
+  const router = useRouter();
+  const pollId = searchParams.get('id');
+  const { user, userProfile, loading: authLoading } = useAuth();
+  // Live: votes of friends show up in the tally without reloading
+  const { poll, isLoading, error: loadError } = usePoll(pollId);
+  const error = !pollId ? "No poll ID provided." : loadError ? "Failed to load the poll." : null;
+  const { toast } = useToast();
+  const voteMutation = useVotePollMutation();
+  const finalizeMutation = useFinalizePollMutation();
+  const deleteMutation = useDeletePollMutation();
+  const [slotToFinalize, setSlotToFinalize] = React.useState<string | null>(null);
+
+  const handleAnswer = async (slotId: string, answer: PollAnswer) => {
+    if (!poll || !user) return;
+    try {
+      await voteMutation.mutateAsync({
+        pollId: poll.id,
+        voter: { uid: user.uid, displayName: userProfile?.displayName ?? user.displayName, photoURL: userProfile?.photoURL ?? user.photoURL },
+        answers: { ...(poll.votes[user.uid]?.answers ?? {}), [slotId]: answer },
+      });
+    } catch (err) {
+      console.error("Error saving vote:", err);
+      toast({ title: "Error", description: "Could not save your vote.", variant: "destructive" });
+    }
+  };
+
+  const handleFinalize = async () => {
+    if (!poll || !slotToFinalize) return;
+    try {
+      const activityId = await finalizeMutation.mutateAsync({ poll, slotId: slotToFinalize });
+      toast({ title: "Date Picked", description: `"${poll.title}" is now an activity and everyone you asked has been invited.` });
+      router.push(`/activities/details?id=${activityId}`);
+    } catch (err) {
+      console.error("Error finalizing poll:", err);
+      toast({ title: "Error", description: "Could not create the activity for this date.", variant: "destructive" });
+    } finally {
+      setSlotToFinalize(null);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!poll) return;
+    try {
+      await deleteMutation.mutateAsync(poll.id);
+      toast({ title: "Poll Deleted", description: `"${poll.title}" has been removed.` });
+      router.push('/polls');
+    } catch (err) {
+      console.error("Error deleting poll:", err);
+      toast({ title: "Error", description: "Could not delete the poll.", variant: "destructive" });
+    }
+  };
+
+  if (isLoading || authLoading) {
+    return <PollDetailSkeleton />;
+  }
+
+  if (error || !poll || !user) {
+    return (
+      <div className="container mx-auto py-6 px-4 md:px-6 text-center max-w-3xl">
+        <Button variant="link" asChild className="mb-4">
+          <Link href="/polls">
+            <ArrowLeft className="mr-1 h-4 w-4" />
+            Back to Polls
+          </Link>
+        </Button>
+        <p className={error ? "text-destructive mt-4" : "mt-10"}>{error ?? "Poll not found."}</p>
+      </div>
+    );
+  }
+
+  const isCreator = poll.creatorId === user.uid;
+  const isOpen = poll.status === 'open';
+  const finalizedSlot = poll.slots.find(slot => slot.id === poll.finalizedSlotId) ?? null;
+  const pendingSlot = poll.slots.find(slot => slot.id === slotToFinalize) ?? null;
+  const isBusy = finalizeMutation.isPending || deleteMutation.isPending;
+
+  return (
+    <div className="container mx-auto py-6 px-4 md:px-6 max-w-5xl">
+      <Button variant="link" asChild className="mb-4 px-0">
+        <Link href="/polls">
+          <ArrowLeft className="mr-1 h-4 w-4" />
+          Back to Polls
+        </Link>
+      </Button>
+
+      <Card>
+        <CardHeader className="space-y-2">
+          <div className="flex items-start justify-between gap-4">
+            <CardTitle className="text-2xl">{poll.title}</CardTitle>
+            <Badge variant={isOpen ? 'outline' : 'secondary'}>{isOpen ? 'Open' : 'Date picked'}</Badge>
+          </div>
+          <CardDescription>
+            {isCreator ? 'Your poll' : `${poll.creatorName} asks which dates suit you.`}
+          </CardDescription>
+          {poll.location && (
+            <p className="flex items-center gap-1 text-sm text-muted-foreground">
+              <MapPin className="h-4 w-4" /> {poll.location}
+            </p>
+          )}
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {poll.description && <MarkdownContent source={poll.description} />}
+
+          {finalizedSlot && (
+            <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 rounded-md border bg-primary/5 p-4">
+              <p className="flex items-center gap-2 text-sm">
+                <CalendarCheck className="h-4 w-4 text-primary" />
+                <span>
+                  Picked: <span className="font-medium">{format(new Date(finalizedSlot.date), 'EEEE, PPP', { locale: de })}, {formatActivityTime(finalizedSlot)}</span>
+                </span>
+              </p>
+              {poll.activityId && (
+                <Button size="sm" asChild>
+                  <Link href={`/activities/details?id=${poll.activityId}`}>Open Activity</Link>
+                </Button>
+              )}
+            </div>
+          )}
+
+          <div className="overflow-x-auto rounded-md border">
+            <PollTallyGrid
+              poll={poll}
+              currentUserId={user.uid}
+              onAnswer={isOpen ? handleAnswer : undefined}
+              onFinalize={isOpen && isCreator ? setSlotToFinalize : undefined}
+              disabled={isBusy}
+            />
+          </div>
+          {isOpen && (
+            <p className="text-xs text-muted-foreground">
+              Answer each date in your row. Your answers are saved right away and can be changed until a date is picked.
+            </p>
+          )}
+        </CardContent>
+        {isCreator && (
+          <CardFooter className="justify-end border-t pt-6">
+            <AlertDialog>
+              <AlertDialogTrigger asChild>
+                <Button variant="destructive" size="sm" disabled={isBusy}>
+                  <Trash2 className="mr-1 h-4 w-4" /> Delete Poll
+                </Button>
+              </AlertDialogTrigger>
+              <AlertDialogContent>
+                <AlertDialogHeader>
+                  <AlertDialogTitle>Delete Poll</AlertDialogTitle>
+                  <AlertDialogDescription>
+                    Delete the poll &quot;{poll.title}&quot; and all votes?{finalizedSlot ? ' The activity created from it stays.' : ''}
+                  </AlertDialogDescription>
+                </AlertDialogHeader>
+                <AlertDialogFooter>
+                  <AlertDialogCancel>Cancel</AlertDialogCancel>
+                  <AlertDialogAction onClick={handleDelete} className="bg-destructive hover:bg-destructive/90">Delete Poll</AlertDialogAction>
+                </AlertDialogFooter>
+              </AlertDialogContent>
+            </AlertDialog>
+          </CardFooter>
+        )}
+      </Card>
+
+      <AlertDialog open={!!pendingSlot} onOpenChange={(open) => { if (!open && !finalizeMutation.isPending) setSlotToFinalize(null); }}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Pick This Date?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {pendingSlot && `"${poll.title}" will be scheduled for ${format(new Date(pendingSlot.date), 'EEEE, PPP', { locale: de })}, ${formatActivityTime(pendingSlot)}. `}
+              Everyone you asked is invited to the activity, and voting closes.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={finalizeMutation.isPending}>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleFinalize} disabled={finalizeMutation.isPending}>
+              {finalizeMutation.isPending ? 'Creating...' : 'Create Activity'}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
+
+function PollDetailSkeleton() {
+  return (
+    <div className="container mx-auto py-6 px-4 md:px-6 max-w-5xl">
+      <Skeleton className="h-5 w-32 mb-4" />
+      <Card>
+        <CardHeader className="space-y-3">
+          <Skeleton className="h-8 w-2/3" />
+          <Skeleton className="h-4 w-1/3" />
+        </CardHeader>
+        <CardContent>
+          <Skeleton className="h-48 w-full" />
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+export default function PollDetailPage() {
+  return (
+    <Suspense fallback={<PollDetailSkeleton />}>
+      <PollDetailContent />
+    </Suspense>
+  );
+}
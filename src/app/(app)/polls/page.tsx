@@ -0,0 +1,118 @@
+// src/app/(app)/polls/page.tsx
+"use client";
+
+import React, { useEffect } from 'react';
+import Link from 'next/link';
+import { format } from 'date-fns';
+import { de } from 'date-fns/locale';
+import { useAuth } from '@/hooks/useAuth';
+import { usePolls } from '@/hooks/usePolls';
+import { useToast } from '@/hooks/use-toast';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import { CalendarCheck, Vote } from 'lucide-react';
+import { isAwaitingVote } from '@/lib/polls';
+import type { PollClient } from '@/lib/types';
+
+// Date polls the user created or was asked to vote in
+export default function PollsPage() {
+  const { user, loading: authLoading } = useAuth();
+  const { toast } = useToast();
+  const { polls, isLoading, error } = usePolls(user?.uid ?? null);
+
+  useEffect(() => {
+    if (error) {
+      console.error("Error fetching polls:", error);
+      toast({ title: "Error", description: "Could not load your polls.", variant: "destructive" });
+    }
+  }, [error, toast]);
+
+  if (authLoading || isLoading) {
+    return (
+      <div className="container mx-auto py-6 px-4 md:px-6 space-y-6">
+        <Skeleton className="h-9 w-40" />
+        <Skeleton className="h-32 w-full" />
+        <Skeleton className="h-32 w-full" />
+      </div>
+    );
+  }
+
+  if (!user) {
+    return <p>Please sign in to see your polls.</p>;
+  }
+
+  const awaitingVote = polls.filter(poll => isAwaitingVote(poll, user.uid));
+  const otherPolls = polls.filter(poll => !awaitingVote.includes(poll));
+
+  return (
+    <div className="container mx-auto py-6 px-4 md:px-6 space-y-8">
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+        <h1 className="text-3xl font-bold">Date Polls</h1>
+        <Button asChild>
+          <Link href="/polls/create">New Poll</Link>
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Waiting for Your Vote ({awaitingVote.length})</CardTitle>
+          <CardDescription>Tell the organizer which of the proposed dates work for your family.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {awaitingVote.length > 0 ? (
+            <PollList polls={awaitingVote} currentUserId={user.uid} />
+          ) : (
+            <div className="text-center py-6 space-y-2">
+              <Vote className="h-10 w-10 mx-auto text-muted-foreground" />
+              <p className="text-muted-foreground">You have voted in all open polls.</p>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {otherPolls.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>All Polls ({otherPolls.length})</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <PollList polls={otherPolls} currentUserId={user.uid} />
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
+
+function PollList({ polls, currentUserId }: { polls: PollClient[]; currentUserId: string }) {
+  return (
+    <ul className="divide-y">
+      {polls.map(poll => {
+        const voteCount = Object.keys(poll.votes).length;
+        const askedCount = poll.inviteeUids.length + 1; // Plus the creator
+        const finalizedSlot = poll.slots.find(slot => slot.id === poll.finalizedSlotId);
+        return (
+          <li key={poll.id}>
+            <Link href={`/polls/details?id=${poll.id}`} className="flex items-center justify-between gap-4 py-3 hover:bg-muted/50 rounded-md px-2">
+              <div className="space-y-1">
+                <p className="font-medium">{poll.title}</p>
+                <p className="text-xs text-muted-foreground">
+                  {poll.creatorId === currentUserId ? 'Your poll' : `By ${poll.creatorName}`} · {poll.slots.length} dates · {voteCount} of {askedCount} voted
+                </p>
+              </div>
+              {finalizedSlot ? (
+                <Badge variant="secondary" className="shrink-0">
+                  <CalendarCheck className="mr-1 h-3 w-3" /> {format(new Date(finalizedSlot.date), 'PP', { locale: de })}
+                </Badge>
+              ) : (
+                <Badge variant="outline" className="shrink-0">Open</Badge>
+              )}
+            </Link>
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
@@ -3,10 +3,10 @@
 
 import React, { useEffect, useState } from 'react';
 import { useAuth } from '@/hooks/useAuth'; // Corrected import path
-import { useForm } from 'react-hook-form';
+import { useForm, useFieldArray } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import * as z from 'zod';
-import { updateUserProfile } from '@/lib/firebase/services';
+import { useUpdateUserProfileMutation } from '@/hooks/useUserProfile';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -15,11 +15,27 @@ import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage, FormDes
 import { useToast } from "@/hooks/use-toast";
 import { Skeleton } from '@/components/ui/skeleton';
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Textarea } from "@/components/ui/textarea";
+import { Baby, Plus, Trash2 } from 'lucide-react';
+import { v4 as uuidv4 } from 'uuid';
+import { CalendarFeedSettings } from '@/components/profile/CalendarFeedSettings';
+
+const currentYear = new Date().getFullYear();
+
+const childSchema = z.object({
+  id: z.string(),
+  nickname: z.string().min(1, { message: "Nickname is required." }).max(50),
+  birthYear: z.string().optional().refine(
+    (value) => !value || (/^\d{4}$/.test(value) && Number(value) >= currentYear - 18 && Number(value) <= currentYear),
+    { message: `Enter a year between ${currentYear - 18} and ${currentYear}.` }
+  ),
+  notes: z.string().max(300).optional(),
+});
 
 // Form data does not include 'createdAt' or 'uid' or 'email' as they are not directly editable here.
 const profileSchema = z.object({
   displayName: z.string().min(2, { message: "Name must be at least 2 characters." }).max(50),
-  childNickname: z.string().max(50).optional(),
+  children: z.array(childSchema).max(10),
   // photoURL can be part of UserProfile, but typically handled via file upload separately
 });
 
@@ -28,26 +44,37 @@ type ProfileFormData = z.infer<typeof profileSchema>;
 export default function ProfilePage() {
   const { user, userProfile, loading: authLoading } = useAuth(); // userProfile is UserProfileClient
   const { toast } = useToast();
+  const updateProfileMutation = useUpdateUserProfileMutation();
   const [isLoading, setIsLoading] = useState(false);
 
   const form = useForm<ProfileFormData>({
     resolver: zodResolver(profileSchema),
     defaultValues: {
       displayName: "",
-      childNickname: "",
+      children: [],
     },
   });
 
+  const { fields: childFields, append: appendChild, remove: removeChild } = useFieldArray({
+    control: form.control,
+    name: "children",
+  });
+
   useEffect(() => {
     if (userProfile) { // userProfile.createdAt is already an ISO string
       form.reset({
         displayName: userProfile.displayName ?? '',
-        childNickname: userProfile.childNickname ?? '',
+        children: userProfile.children.map(child => ({
+          id: child.id,
+          nickname: child.nickname,
+          birthYear: child.birthYear ? String(child.birthYear) : '',
+          notes: child.notes ?? '',
+        })),
       });
     } else if (user && !authLoading) {
          form.reset({
              displayName: user.displayName ?? '',
-             childNickname: '',
+             children: [],
          });
          console.warn("User profile data is missing, using auth display name as default.");
      }
@@ -58,18 +85,20 @@ export default function ProfilePage() {
     if (!user) return;
     setIsLoading(true);
     try {
-      // updateUserProfile expects data that matches parts of UserProfile (Firestore version)
-      // but only specific fields like displayName, childNickname.
-      // The service function is already adapted to handle Omit<UserProfile, 'createdAt' | 'uid' | 'email'>
-      await updateUserProfile(user.uid, {
+      // Only displayName and children are editable here; the mutation updates the cached profile used by AuthContext
+      await updateProfileMutation.mutateAsync({ uid: user.uid, data: {
           displayName: data.displayName,
-          childNickname: data.childNickname
-      });
+          children: data.children.map(child => ({
+              id: child.id,
+              nickname: child.nickname.trim(),
+              birthYear: child.birthYear ? Number(child.birthYear) : null,
+              notes: child.notes?.trim() ? child.notes.trim() : null,
+          })),
+      } });
       toast({
         title: "Profile Updated",
         description: "Your profile information has been saved.",
       });
-      // AuthContext will re-fetch or update userProfile if needed, or rely on Firebase's onAuthStateChanged
     } catch (error) {
       console.error("Error updating profile:", error);
       toast({
@@ -153,22 +182,82 @@ export default function ProfilePage() {
                   </FormItem>
                 )}
               />
-              <FormField
-                control={form.control}
-                name="childNickname"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel>Child&apos;s Nickname (Optional)</FormLabel>
-                    <FormControl>
-                      <Input placeholder="e.g., Little Adventurer" {...field} value={field.value ?? ""} onChange={field.onChange} disabled={isLoading} />
-                    </FormControl>
-                     <FormDescription>
-                        This helps identify your child in activities (visible to friends).
-                     </FormDescription>
-                    <FormMessage />
-                  </FormItem>
+              <div className="space-y-3">
+                <div className="flex items-center justify-between">
+                  <FormLabel className="flex items-center gap-2"><Baby className="h-4 w-4" /> Children</FormLabel>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={() => appendChild({ id: uuidv4(), nickname: '', birthYear: '', notes: '' })}
+                    disabled={isLoading || childFields.length >= 10}
+                  >
+                    <Plus className="mr-1 h-4 w-4" /> Add Child
+                  </Button>
+                </div>
+                <FormDescription>
+                  Nicknames help identify your children in activities. Everything here is visible to your friends.
+                </FormDescription>
+                {childFields.length === 0 && (
+                  <p className="text-sm text-muted-foreground">No children added yet.</p>
                 )}
-              />
+                {childFields.map((childField, index) => (
+                  <div key={childField.id} className="space-y-3 rounded-md border p-3">
+                    <div className="grid grid-cols-1 sm:grid-cols-[1fr_8rem_auto] gap-3 items-start">
+                      <FormField
+                        control={form.control}
+                        name={`children.${index}.nickname`}
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Nickname</FormLabel>
+                            <FormControl>
+                              <Input placeholder="e.g., Little Adventurer" {...field} disabled={isLoading} />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      <FormField
+                        control={form.control}
+                        name={`children.${index}.birthYear`}
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Birth Year</FormLabel>
+                            <FormControl>
+                              <Input type="number" placeholder={String(currentYear - 4)} {...field} value={field.value ?? ""} disabled={isLoading} />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        className="sm:mt-8 text-destructive hover:bg-destructive/10"
+                        onClick={() => removeChild(index)}
+                        disabled={isLoading}
+                        aria-label="Remove child"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                    <FormField
+                      control={form.control}
+                      name={`children.${index}.notes`}
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Allergies / Notes (Optional)</FormLabel>
+                          <FormControl>
+                            <Textarea placeholder="e.g., Peanut allergy" rows={2} {...field} value={field.value ?? ""} disabled={isLoading} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  </div>
+                ))}
+              </div>
               <FormItem>
                   <FormLabel>Email</FormLabel>
                   <FormControl>
@@ -185,6 +274,10 @@ export default function ProfilePage() {
           </Form>
         </CardContent>
       </Card>
+
+      <div className="mt-6">
+        <CalendarFeedSettings uid={user.uid} />
+      </div>
     </div>
   );
 }
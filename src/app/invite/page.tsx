@@ -5,61 +5,50 @@
 import React, { useEffect, useState, Suspense } from 'react';
 import { useSearchParams, useRouter } from 'next/navigation';
 import { useAuth } from '@/hooks/useAuth'; 
-import { getInvitation, addFriend, deleteInvitation } from '@/lib/firebase/services';
-import type { InvitationClient } from '@/lib/types'; 
+import { useAcceptInvitationMutation, useInvitation } from '@/hooks/useFriends';
+import { useJoinGroupMutation } from '@/hooks/useGroups';
+import { getInvitationState } from '@/lib/firebase/services';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle, CardFooter } from '@/components/ui/card';
 import { Skeleton } from '@/components/ui/skeleton';
 import { useToast } from '@/hooks/use-toast';
 import Link from 'next/link';
-import { UserPlus, AlertTriangle, Home } from 'lucide-react'; 
+import { UserPlus, UsersRound, AlertTriangle, Home } from 'lucide-react'; 
 
 function InvitePageContent() {
   const searchParams = useSearchParams();
   const inviteCode = searchParams.get('code');
   const router = useRouter();
-  const { user, loading: authLoading } = useAuth();
+  const { user, userProfile, loading: authLoading } = useAuth();
   const { toast } = useToast();
 
-  const [invitation, setInvitation] = useState<InvitationClient | null>(null); 
-  const [isLoading, setIsLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
+  const { invitation: loadedInvitation, isLoading: isInvitationLoading, error: invitationError } = useInvitation(inviteCode);
+  const acceptInvitationMutation = useAcceptInvitationMutation();
+  const joinGroupMutation = useJoinGroupMutation();
+  const [acceptError, setAcceptError] = useState<string | null>(null);
   const [isAccepting, setIsAccepting] = useState(false);
 
+  const invitationState = loadedInvitation ? getInvitationState(loadedInvitation) : null;
+  const isExpired = invitationState === 'expired';
+  // Someone who already used the link (e.g. before removing the friend again) may use it once more
+  const isUsedUp = invitationState === 'used-up' && !(user && loadedInvitation?.redemptions[user.uid]);
+  const invitation = isExpired || isUsedUp ? null : loadedInvitation;
+  const isLoading = !!inviteCode && isInvitationLoading;
+  const error = acceptError
+    ?? (!inviteCode ? "No invitation code provided."
+      : invitationError ? "Could not retrieve invitation details."
+      : isExpired ? "This invitation has expired."
+      : isUsedUp ? "This invitation has already been used by as many people as allowed."
+      : !isLoading && !loadedInvitation ? "Invalid or expired invitation code."
+      : null);
+
   useEffect(() => {
-    if (inviteCode) {
-      setIsLoading(true);
-      setError(null);
-      getInvitation(inviteCode) 
-        .then(data => {
-          if (data) {
-            if (data.expiresAt && new Date(data.expiresAt) < new Date()) {
-                setError("This invitation has expired.");
-                setInvitation(null);
-                deleteInvitation(inviteCode).catch(err => console.warn("Failed to delete expired invitation:", err));
-            } else {
-                setInvitation(data);
-            }
-          } else {
-            setError("Invalid or expired invitation code.");
-          }
-        })
-        .catch(err => {
-          console.error("Error fetching invitation:", err);
-          setError("Could not retrieve invitation details.");
-        })
-        .finally(() => {
-          setIsLoading(false);
-        });
-    } else {
-        setError("No invitation code provided.");
-        setIsLoading(false);
-    }
-  }, [inviteCode]);
+    if (invitationError) console.error("Error fetching invitation:", invitationError);
+  }, [invitationError]);
 
    const handleAcceptInvite = async () => {
         if (!inviteCode) {
-            setError("Invitation code is missing.");
+            setAcceptError("Invitation code is missing.");
             return;
         }
 
@@ -79,23 +68,24 @@ function InvitePageContent() {
         }
 
         setIsAccepting(true);
+        const currentUser = { uid: user.uid, displayName: userProfile?.displayName ?? user.displayName, photoURL: userProfile?.photoURL ?? user.photoURL };
         try {
-            await addFriend(user.uid, invitation.inviterId);
-            await deleteInvitation(inviteCode); 
+            if (invitation.groupId) {
+                await joinGroupMutation.mutateAsync({ user: currentUser, invitation });
+                toast({ title: "Group Joined!", description: `You are now a member of "${invitation.groupName || 'the group'}".` });
+                router.push('/groups');
+                return;
+            }
+            await acceptInvitationMutation.mutateAsync({ user: currentUser, invitation });
             toast({ title: "Friend Added!", description: `You are now connected with ${invitation.inviterName || 'your friend'}.` });
             router.push('/friends'); 
         } catch (error: any) {
             console.error("Error accepting invite:", error);
             if (error.code === 'already-friends') {
                  toast({ title: "Already Friends", description: "You are already connected with this user." });
-                 try { 
-                     await deleteInvitation(inviteCode); 
-                 } catch (delErr) { 
-                     console.error("Failed to delete already-friends invite", delErr); 
-                 }
                  router.push('/friends');
             } else {
-                // Generic error message if addFriend fails for other reasons (e.g. network, unexpected Firestore issue)
+                // Generic error message if acceptInvitation fails for other reasons (e.g. network, unexpected Firestore issue)
                 toast({ title: "Accept Failed", description: `Could not connect with friend. ${error.message || 'The invite might be invalid or an unexpected error occurred.'}`, variant: "destructive" });
             }
         } finally {
@@ -129,14 +119,16 @@ function InvitePageContent() {
                   </span>
              ) : invitation ? (
                   <span className="flex items-center justify-center gap-2 text-primary">
-                     <UserPlus/> You&apos;re Invited!
+                     {invitation.groupId ? <UsersRound/> : <UserPlus/>} You&apos;re Invited!
                   </span>
              ) : (
                  'Loading Invitation...'
              )}
           </CardTitle>
            {invitation && !error && <CardDescription className="pt-2">
-                {invitation.inviterName || 'A friend'} wants to connect with you on Parent Activity Hub.
+                {invitation.groupId
+                    ? `${invitation.inviterName || 'A parent'} invites you to join the group "${invitation.groupName || 'Unnamed group'}" on Parent Activity Hub.`
+                    : `${invitation.inviterName || 'A friend'} wants to connect with you on Parent Activity Hub.`}
             </CardDescription>}
         </CardHeader>
         <CardContent>
@@ -144,7 +136,7 @@ function InvitePageContent() {
             <p className="text-destructive">{error}</p>
           ) : invitation ? (
             <Button onClick={handleAcceptInvite} disabled={isAccepting || !inviteCode} className="w-full">
-              {isAccepting ? 'Connecting...' : (user ? 'Accept Invitation' : 'Sign Up/In to Accept')}
+              {isAccepting ? (invitation.groupId ? 'Joining...' : 'Connecting...') : (user ? (invitation.groupId ? 'Join Group' : 'Accept Invitation') : 'Sign Up/In to Accept')}
             </Button>
           ) : (
              <p className="text-muted-foreground">Loading invitation details...</p>
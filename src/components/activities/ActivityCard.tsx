@@ -6,12 +6,16 @@ import type { ActivityClient } from '@/lib/types'; // Use ActivityClient
 import { Card, CardContent, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
 import { format } from 'date-fns';
 import { de } from 'date-fns/locale';
-import { MapPin, CalendarDays, Users, UserPlus, UserMinus, ExternalLink } from 'lucide-react';
-import { useAuth } from '@/hooks/useAuth'; // Corrected import path
-import { joinActivity, leaveActivity } from '@/lib/firebase/services';
-import { useToast } from '@/hooks/use-toast';
+import { MapPin, CalendarDays, Users, ExternalLink, Repeat, Hourglass, Mail, Hash } from 'lucide-react';
+import { describeRecurrence } from '@/lib/recurrence';
+import { formatActivityTime } from '@/lib/calendar';
+import { markdownToPlainText } from '@/lib/markdown';
+import { ActivityDetailFacts } from './ActivityDetailFacts';
+import { CategoryIcon } from './CategoryIcon';
+import { RsvpControls } from './RsvpControls';
 import Link from 'next/link';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
 
@@ -21,60 +25,23 @@ interface ActivityCardProps {
 }
 
 export function ActivityCard({ activity, currentUserId }: ActivityCardProps) {
-    const { user, userProfile } = useAuth();
-    const { toast } = useToast();
-    const [isJoining, setIsJoining] = React.useState(false);
-    const [isLeaving, setIsLeaving] = React.useState(false);
-
     const isCreator = activity.creatorId === currentUserId;
-    const isParticipant = activity.participants.some(p => p.uid === currentUserId);
+    const waitlist = activity.waitlist ?? [];
+    const waitlistPosition = waitlist.findIndex(p => p.uid === currentUserId) + 1; // 0 when not waitlisted
 
     // activity.date is an ISO string, parse it to a Date object
     const activityDate = activity.date ? new Date(activity.date) : null;
 
     const formattedDate = activityDate && !isNaN(activityDate.getTime()) ? format(activityDate, "PPP", { locale: de }) : 'Date TBD';
-    const formattedTime = activityDate && !isNaN(activityDate.getTime()) ? format(activityDate, "HH:mm", { locale: de }) : 'Time TBD';
+    const formattedTime = activityDate && !isNaN(activityDate.getTime()) ? formatActivityTime(activity) : 'Time TBD';
 
-    const handleJoin = async () => {
-        if (!user || !userProfile) return;
-        setIsJoining(true);
-        try {
-            const participantData = {
-                uid: user.uid,
-                name: userProfile.displayName ?? user.displayName,
-                photoURL: userProfile.photoURL ?? user.photoURL
-            };
-            await joinActivity(activity.id, participantData);
-            toast({ title: "Joined Activity!", description: `You have joined "${activity.title}".` });
-            window.location.reload(); // Consider a more targeted refresh
-        } catch (error) {
-            console.error("Error joining activity:", error);
-            toast({ title: "Error", description: "Could not join activity.", variant: "destructive" });
-        } finally {
-            setIsJoining(false);
-        }
-    };
+    const rsvps = Object.values(activity.rsvps);
+    const maybeCount = rsvps.filter(r => r.status === 'maybe').length;
+    const declinedCount = rsvps.filter(r => r.status === 'declined').length;
 
-    const handleLeave = async () => {
-        if (!user || !userProfile) return;
-        setIsLeaving(true);
-         try {
-             const participantToRemove = activity.participants.find(p => p.uid === user.uid);
-             if (!participantToRemove) {
-                 console.warn("Current user not found in participant list for removal.");
-                 setIsLeaving(false);
-                 return;
-             }
-            await leaveActivity(activity.id, participantToRemove);
-            toast({ title: "Left Activity", description: `You have left "${activity.title}".` });
-            window.location.reload(); // Consider a more targeted refresh
-        } catch (error) {
-            console.error("Error leaving activity:", error);
-            toast({ title: "Error", description: "Could not leave activity.", variant: "destructive" });
-        } finally {
-            setIsLeaving(false);
-        }
-    };
+    const ownInvite = activity.invitees[currentUserId];
+    const invitees = Object.values(activity.invitees);
+    const unansweredCount = invitees.filter(invitee => invitee.status === 'pending').length;
 
 
   return (
@@ -82,7 +49,10 @@ export function ActivityCard({ activity, currentUserId }: ActivityCardProps) {
     <Card className="overflow-hidden shadow-md hover:shadow-lg transition-shadow duration-200">
       <CardHeader className="p-4 bg-muted/30 dark:bg-muted/10 border-b">
          <div className="flex items-center justify-between gap-4">
-             <CardTitle className="text-lg">{activity.title}</CardTitle>
+             <CardTitle className="flex items-center gap-2 text-lg">
+                {activity.category && <CategoryIcon category={activity.category} className="h-5 w-5 shrink-0 text-primary" />}
+                {activity.title}
+             </CardTitle>
               <Link href={`/activities/details?id=${activity.id}`} passHref>
                 <Button variant="ghost" size="sm" className="text-xs h-7">
                     Details
@@ -96,6 +66,11 @@ export function ActivityCard({ activity, currentUserId }: ActivityCardProps) {
                 <AvatarFallback>{activity.creatorName ? activity.creatorName[0] : 'C'}</AvatarFallback>
              </Avatar>
             <span>Created by {isCreator ? 'You' : activity.creatorName ?? 'Unknown'}</span>
+            {ownInvite && (
+                <Badge variant="secondary" className="ml-auto">
+                    <Mail className="mr-1 h-3 w-3" /> Invited by {ownInvite.invitedByName ?? 'a friend'}
+                </Badge>
+            )}
         </div>
       </CardHeader>
       <CardContent className="p-4 space-y-3">
@@ -103,15 +78,40 @@ export function ActivityCard({ activity, currentUserId }: ActivityCardProps) {
           <CalendarDays className="h-4 w-4 text-muted-foreground" />
           <span>{formattedDate} at {formattedTime}</span>
         </div>
+        {activity.recurrence && activityDate && (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Repeat className="h-4 w-4" />
+            <span>{describeRecurrence(activity.recurrence, activityDate)}</span>
+          </div>
+        )}
         {activity.location && (
           <div className="flex items-center gap-2 text-sm">
             <MapPin className="h-4 w-4 text-muted-foreground" />
             <span>{activity.location}</span>
           </div>
+        )}
+        {activity.description && (
+          <p className="text-sm text-muted-foreground line-clamp-2 whitespace-pre-line">{markdownToPlainText(activity.description)}</p>
+        )}
+        <ActivityDetailFacts activity={activity} />
+        {activity.tags && activity.tags.length > 0 && (
+          <div className="flex flex-wrap gap-1">
+            {activity.tags.map(tag => (
+              <Badge key={tag} variant="outline" className="font-normal">
+                <Hash className="mr-0.5 h-3 w-3" />{tag}
+              </Badge>
+            ))}
+          </div>
         )}
          <div className="flex items-center gap-2 text-sm pt-2">
             <Users className="h-4 w-4 text-muted-foreground" />
-            <span className="mr-2">{activity.participants.length} {activity.participants.length === 1 ? 'participant' : 'participants'}</span>
+            <span className="mr-2">
+                {activity.maxParticipants != null
+                    ? `${activity.participants.length} of ${activity.maxParticipants} spots`
+                    : `${activity.participants.length} going`}
+                {maybeCount > 0 && ` · ${maybeCount} maybe`}
+                {declinedCount > 0 && ` · ${declinedCount} can't`}
+            </span>
              <div className="flex -space-x-2 overflow-hidden">
                 {activity.participants.slice(0, 5).map((p) => (
                      <Tooltip key={p.uid}>
@@ -140,19 +140,29 @@ export function ActivityCard({ activity, currentUserId }: ActivityCardProps) {
                  )}
             </div>
         </div>
+        {isCreator && invitees.length > 0 && (
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                <Mail className="h-4 w-4" />
+                <span>
+                    {invitees.length} invited
+                    {unansweredCount > 0 && ` · ${unansweredCount} not answered yet`}
+                </span>
+            </div>
+        )}
+        {(waitlistPosition > 0 || waitlist.length > 0) && (
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                <Hourglass className="h-4 w-4" />
+                <span>
+                    {waitlistPosition > 0
+                        ? `You are #${waitlistPosition} on the waitlist`
+                        : `${waitlist.length} on the waitlist`}
+                </span>
+            </div>
+        )}
       </CardContent>
       <CardFooter className="p-4 bg-muted/30 dark:bg-muted/10 border-t">
-        {!isCreator && !isParticipant && (
-          <Button size="sm" onClick={handleJoin} disabled={isJoining || isLeaving}>
-            <UserPlus className="mr-1 h-4 w-4" />
-            {isJoining ? 'Joining...' : 'Join'}
-          </Button>
-        )}
-        {!isCreator && isParticipant && (
-          <Button variant="outline" size="sm" onClick={handleLeave} disabled={isJoining || isLeaving}>
-            <UserMinus className="mr-1 h-4 w-4" />
-            {isLeaving ? 'Leaving...' : 'Leave'}
-          </Button>
+        {!isCreator && (
+          <RsvpControls activity={activity} size="sm" />
         )}
          {isCreator && (
              <p className="text-sm text-muted-foreground italic">You created this activity.</p>
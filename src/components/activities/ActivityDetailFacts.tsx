@@ -0,0 +1,42 @@
+// src/components/activities/ActivityDetailFacts.tsx
+"use client";
+
+import React from 'react';
+import type { ActivityClient, ActivitySetting } from '@/lib/types';
+import { Badge } from '@/components/ui/badge';
+import { Baby, CloudSun, Euro, House, Trees, type LucideIcon } from 'lucide-react';
+import { formatAgeRange, formatCostPerChild, getSettingLabel } from '@/lib/activityDetails';
+
+const SETTING_ICONS: Record<ActivitySetting, LucideIcon> = {
+  indoor: House,
+  outdoor: Trees,
+  mixed: CloudSun,
+};
+
+interface ActivityDetailFactsProps {
+  activity: Pick<ActivityClient, 'ageRange' | 'costPerChild' | 'setting'>;
+  className?: string;
+}
+
+// Age range, cost and setting as small badges; renders nothing when none of them is set
+export function ActivityDetailFacts({ activity, className }: ActivityDetailFactsProps) {
+  const ageRange = formatAgeRange(activity.ageRange);
+  const cost = formatCostPerChild(activity.costPerChild);
+  const SettingIcon = activity.setting ? SETTING_ICONS[activity.setting] : null;
+
+  if (!ageRange && !cost && !activity.setting) return null;
+
+  return (
+    <div className={className ?? "flex flex-wrap gap-2"}>
+      {ageRange && (
+        <Badge variant="outline" className="font-normal"><Baby className="mr-1 h-3 w-3" /> {ageRange}</Badge>
+      )}
+      {cost && (
+        <Badge variant="outline" className="font-normal"><Euro className="mr-1 h-3 w-3" /> {cost}</Badge>
+      )}
+      {activity.setting && SettingIcon && (
+        <Badge variant="outline" className="font-normal"><SettingIcon className="mr-1 h-3 w-3" /> {getSettingLabel(activity.setting)}</Badge>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,74 @@
+// src/components/activities/ActivityFilterChips.tsx
+"use client";
+
+import React, { useMemo } from 'react';
+import type { ActivityClient } from '@/lib/types';
+import { Button } from '@/components/ui/button';
+import { Hash, X } from 'lucide-react';
+import { collectFilterOptions, getCategoryLabel, isFilterActive, EMPTY_ACTIVITY_FILTER, type ActivityFilter } from '@/lib/categories';
+import { cn } from '@/lib/utils';
+import { CategoryIcon } from './CategoryIcon';
+
+interface ActivityFilterChipsProps {
+  activities: ActivityClient[]; // The unfiltered list; only categories and tags occurring in it are offered
+  filter: ActivityFilter;
+  onChange: (filter: ActivityFilter) => void;
+  className?: string;
+}
+
+const toggle = <T,>(values: T[], value: T): T[] =>
+  values.includes(value) ? values.filter(v => v !== value) : [...values, value];
+
+// Toggleable category and tag chips; renders nothing when the activities have neither
+export function ActivityFilterChips({ activities, filter, onChange, className }: ActivityFilterChipsProps) {
+  const options = useMemo(() => collectFilterOptions(activities), [activities]);
+  // Chosen filters stay visible even when the loaded activities no longer contain them
+  const categories = Array.from(new Set([...options.categories, ...filter.categories]));
+  const tags = Array.from(new Set([...options.tags, ...filter.tags]));
+
+  if (categories.length === 0 && tags.length === 0) return null;
+
+  const chipClass = (isSelected: boolean) => cn("h-7 rounded-full px-3 text-xs", !isSelected && "text-muted-foreground");
+
+  return (
+    <div className={cn("flex flex-wrap items-center gap-2", className)}>
+      {categories.map(category => {
+        const isSelected = filter.categories.includes(category);
+        return (
+          <Button
+            key={category}
+            type="button"
+            size="sm"
+            variant={isSelected ? 'default' : 'outline'}
+            className={chipClass(isSelected)}
+            aria-pressed={isSelected}
+            onClick={() => onChange({ ...filter, categories: toggle(filter.categories, category) })}
+          >
+            <CategoryIcon category={category} className="mr-1 h-3 w-3" /> {getCategoryLabel(category)}
+          </Button>
+        );
+      })}
+      {tags.map(tag => {
+        const isSelected = filter.tags.includes(tag);
+        return (
+          <Button
+            key={tag}
+            type="button"
+            size="sm"
+            variant={isSelected ? 'secondary' : 'outline'}
+            className={chipClass(isSelected)}
+            aria-pressed={isSelected}
+            onClick={() => onChange({ ...filter, tags: toggle(filter.tags, tag) })}
+          >
+            <Hash className="mr-0.5 h-3 w-3" />{tag}
+          </Button>
+        );
+      })}
+      {isFilterActive(filter) && (
+        <Button type="button" size="sm" variant="ghost" className="h-7 text-xs" onClick={() => onChange(EMPTY_ACTIVITY_FILTER)}>
+          <X className="mr-1 h-3 w-3" /> Clear
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -7,33 +7,126 @@ import { zodResolver } from '@hookform/resolvers/zod';
 import * as z from 'zod';
 import { useRouter } from 'next/navigation';
 import { Timestamp } from "firebase/firestore";
-import { format, setHours, setMinutes, setSeconds, setMilliseconds } from 'date-fns';
+import { format, setHours, setMinutes, setSeconds, setMilliseconds, startOfDay } from 'date-fns';
 import { de } from 'date-fns/locale';
 
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 // import { Label } from "@/components/ui/label"; // Not directly used, FormLabel is
-// import { Textarea } from "@/components/ui/textarea"; // Keep if you plan to add a description field
+import { Textarea } from "@/components/ui/textarea";
 import { Calendar } from "@/components/ui/calendar";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
-import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Checkbox } from "@/components/ui/checkbox";
 import { useToast } from "@/hooks/use-toast";
-import { Calendar as CalendarIcon } from "lucide-react";
+import { Calendar as CalendarIcon, Eye, ListChecks, Repeat } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { useAuth } from '@/hooks/useAuth'; // Corrected import path
-import { createActivity, updateActivity } from '@/lib/firebase/services';
-import type { ActivityClient, CreateActivityData, UpdateActivityData } from '@/lib/types';
+import { useCreateActivityMutation, useScheduleConflictCheck, useUpdateActivityMutation } from '@/hooks/useActivities';
+import { useFriends } from '@/hooks/useFriends';
+import { useGroups } from '@/hooks/useGroups';
+import { ScheduleConflictDialog } from './ScheduleConflictDialog';
+import { describeRecurrence, MAX_RECURRENCE_OCCURRENCES } from '@/lib/recurrence';
+import { getActivityEnd } from '@/lib/calendar';
+import {
+  MAX_CHILD_AGE, MAX_DESCRIPTION_LENGTH, MAX_WHAT_TO_BRING_ITEMS, MAX_WHAT_TO_BRING_ITEM_LENGTH, SETTING_OPTIONS, parseWhatToBring,
+} from '@/lib/activityDetails';
+import { CATEGORY_OPTIONS, MAX_TAG_LENGTH, MAX_TAGS, parseTags } from '@/lib/categories';
+import { getVisibility, resolveAudienceUids, VISIBILITY_OPTIONS } from '@/lib/visibility';
+import type { ActivityClient, CreateActivityData, RecurrenceRule, UpdateActivityData } from '@/lib/types';
+
+const optionalAge = z.string().optional().refine(
+  (value) => !value || (/^\d+$/.test(value) && Number(value) <= MAX_CHILD_AGE),
+  { message: `Enter an age between 0 and ${MAX_CHILD_AGE}.` }
+);
+
+// Accepts "5", "5.50" and "5,50"
+const parseCost = (value: string): number => Number(value.replace(',', '.'));
+
+// "HH:mm" as minutes since midnight
+const toMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
 
 
 const formSchema = z.object({
   title: z.string().min(3, { message: "Title must be at least 3 characters." }).max(100),
   date: z.date({ required_error: "A date is required." }), // This is a Date object from the Calendar
   time: z.string().regex(/^([01]\d|2[0-3]):([0-5]\d)$/, { message: "Invalid time format (HH:mm)."}),
+  endTime: z.string().regex(/^(([01]\d|2[0-3]):([0-5]\d))?$/, { message: "Invalid time format (HH:mm)."}).optional(),
   location: z.string().max(100).optional().nullable(),
+  description: z.string().max(MAX_DESCRIPTION_LENGTH, { message: `Keep the description under ${MAX_DESCRIPTION_LENGTH} characters.` }).optional(),
+  ageMin: optionalAge,
+  ageMax: optionalAge,
+  costPerChild: z.string().optional().refine(
+    (value) => !value || (/^\d+([.,]\d{1,2})?$/.test(value.trim()) && parseCost(value.trim()) <= 1000),
+    { message: "Enter an amount in euros, e.g. 5 or 7,50. Use 0 for free activities." }
+  ),
+  setting: z.enum(['none', 'indoor', 'outdoor', 'mixed']),
+  category: z.enum(['none', 'playground', 'sports', 'museum', 'birthday', 'playdate', 'outdoor', 'crafts', 'other']),
+  tags: z.string().optional().refine(
+    (value) => {
+      const tags = parseTags(value ?? '');
+      return tags.length <= MAX_TAGS && tags.every(tag => tag.length <= MAX_TAG_LENGTH);
+    },
+    { message: `Up to ${MAX_TAGS} tags of at most ${MAX_TAG_LENGTH} characters each.` }
+  ),
+  whatToBring: z.string().optional().refine(
+    (value) => {
+      const items = parseWhatToBring(value ?? '');
+      return items.length <= MAX_WHAT_TO_BRING_ITEMS && items.every(item => item.length <= MAX_WHAT_TO_BRING_ITEM_LENGTH);
+    },
+    { message: `Up to ${MAX_WHAT_TO_BRING_ITEMS} items of at most ${MAX_WHAT_TO_BRING_ITEM_LENGTH} characters each.` }
+  ),
+  maxParticipants: z.string().optional().refine(
+    (value) => !value || (/^\d+$/.test(value) && Number(value) >= 2 && Number(value) <= 100),
+    { message: "Enter a number between 2 and 100, or leave empty for no limit." }
+  ),
+  repeat: z.enum(['none', 'daily', 'weekly', 'monthly']),
+  repeatInterval: z.coerce.number().int().min(1, { message: "Must be at least 1." }).max(12),
+  repeatEnd: z.enum(['count', 'until']),
+  repeatCount: z.coerce.number().int().min(2, { message: "A series needs at least 2 occurrences." }).max(MAX_RECURRENCE_OCCURRENCES),
+  repeatUntil: z.date().optional().nullable(),
+  editScope: z.enum(['this', 'following', 'all']),
+  visibility: z.enum(['private', 'selectedFriends', 'groups', 'friends', 'public']),
+  audienceFriendIds: z.array(z.string()),
+  audienceGroupIds: z.array(z.string()),
+}).superRefine((values, ctx) => {
+  if (values.endTime && toMinutes(values.endTime) <= toMinutes(values.time)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['endTime'], message: "Must be after the start time." });
+  }
+  if (values.ageMin && values.ageMax && Number(values.ageMin) > Number(values.ageMax)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['ageMax'], message: "Must not be lower than the minimum age." });
+  }
+  if (values.visibility === 'selectedFriends' && values.audienceFriendIds.length === 0) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['audienceFriendIds'], message: "Pick at least one friend." });
+  }
+  if (values.visibility === 'groups' && values.audienceGroupIds.length === 0) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['audienceGroupIds'], message: "Pick at least one group." });
+  }
+  if (values.repeat !== 'none' && values.repeatEnd === 'until') {
+    if (!values.repeatUntil) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['repeatUntil'], message: "Pick an end date for the series." });
+    } else if (values.repeatUntil < startOfDay(values.date)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['repeatUntil'], message: "The series must end after it starts." });
+    }
+  }
 });
 
 type ActivityFormData = z.infer<typeof formSchema>;
 
+// The chosen day at the chosen start time
+const toStartDate = (values: ActivityFormData): Date => {
+  const [hours, minutes] = values.time.split(':').map(Number);
+  return setMilliseconds(setSeconds(setMinutes(setHours(values.date, hours), minutes), 0), 0);
+};
+
+const toDurationMinutes = (values: ActivityFormData): number | null =>
+  values.endTime ? toMinutes(values.endTime) - toMinutes(values.time) : null;
+
 interface ActivityFormProps {
   activity?: ActivityClient | null; // Expects ActivityClient with date as string
   onFormSubmit?: (activityId: string) => void;
@@ -43,13 +136,21 @@ export function ActivityForm({ activity, onFormSubmit }: ActivityFormProps) {
   const router = useRouter();
   const { user, userProfile } = useAuth();
   const { toast } = useToast();
+  const createActivityMutation = useCreateActivityMutation();
+  const updateActivityMutation = useUpdateActivityMutation();
+  const { friends } = useFriends(user?.uid ?? null);
+  const { groups } = useGroups(user?.uid ?? null);
   const [isLoading, setIsLoading] = React.useState(false);
+  const checkConflicts = useScheduleConflictCheck(user?.uid ?? null);
+  const [conflicts, setConflicts] = React.useState<ActivityClient[]>([]);
+  const [pendingValues, setPendingValues] = React.useState<ActivityFormData | null>(null);
 
   const isEditing = !!activity;
 
   // Parse ISO string from activity.date (if editing) to Date object for the form
   const initialDate = activity?.date ? new Date(activity.date) : new Date();
   const initialTime = activity?.date ? format(new Date(activity.date), 'HH:mm', { locale: de }) : format(new Date(), 'HH:mm', { locale: de });
+  const initialEndTime = activity?.durationMinutes ? format(getActivityEnd(activity), 'HH:mm', { locale: de }) : "";
 
   const form = useForm<ActivityFormData>({
     resolver: zodResolver(formSchema),
@@ -57,11 +158,75 @@ export function ActivityForm({ activity, onFormSubmit }: ActivityFormProps) {
       title: activity?.title ?? "",
       date: initialDate, // This is a Date object
       time: initialTime,
+      endTime: initialEndTime,
       location: activity?.location ?? "",
+      description: activity?.description ?? "",
+      ageMin: activity?.ageRange?.min != null ? String(activity.ageRange.min) : "",
+      ageMax: activity?.ageRange?.max != null ? String(activity.ageRange.max) : "",
+      costPerChild: activity?.costPerChild != null ? String(activity.costPerChild).replace('.', ',') : "",
+      setting: activity?.setting ?? 'none',
+      whatToBring: (activity?.whatToBring ?? []).join('\n'),
+      category: activity?.category ?? 'none',
+      tags: (activity?.tags ?? []).join(', '),
+      maxParticipants: activity?.maxParticipants ? String(activity.maxParticipants) : "",
+      repeat: 'none',
+      repeatInterval: 1,
+      repeatEnd: 'count',
+      repeatCount: 10,
+      repeatUntil: null,
+      editScope: 'this',
+      visibility: activity ? getVisibility(activity) : 'friends',
+      audienceFriendIds: activity?.visibility === 'selectedFriends'
+        ? (activity.audienceUids ?? []).filter(uid => uid !== activity.creatorId)
+        : [],
+      audienceGroupIds: activity?.audienceGroupIds ?? [],
     },
   });
 
+  const repeat = form.watch('repeat');
+  const repeatEnd = form.watch('repeatEnd');
+  const visibility = form.watch('visibility');
+  const isSeriesOccurrence = isEditing && !!activity?.seriesId;
+
+  // Warns about overlapping activities before saving. Edits that keep the time window are not checked again,
+  // and a new series is checked at its first occurrence only.
   async function onSubmit(values: ActivityFormData) {
+    const start = toStartDate(values);
+    const durationMinutes = toDurationMinutes(values);
+    const timeChanged = !activity
+      || new Date(activity.date).getTime() !== start.getTime()
+      || (activity.durationMinutes ?? null) !== durationMinutes;
+    if (user && timeChanged) {
+      setIsLoading(true);
+      try {
+        const overlapping = await checkConflicts({ id: activity?.id, date: start.toISOString(), durationMinutes });
+        if (overlapping.length > 0) {
+          setConflicts(overlapping);
+          setPendingValues(values);
+          return;
+        }
+      } catch (error) {
+        // The check is only a warning, so a failed lookup does not block saving
+        console.error("Error checking for scheduling conflicts:", error);
+      } finally {
+        setIsLoading(false);
+      }
+    }
+    await saveActivity(values);
+  }
+
+  const closeConflictDialog = () => {
+    setConflicts([]);
+    setPendingValues(null);
+  };
+
+  const saveAnyway = () => {
+    const values = pendingValues;
+    closeConflictDialog();
+    if (values) saveActivity(values);
+  };
+
+  async function saveActivity(values: ActivityFormData) {
      if (!user || !userProfile) {
         toast({ title: "Authentication Error", description: "You must be signed in to manage activities.", variant: "destructive"});
         return;
@@ -69,33 +234,61 @@ export function ActivityForm({ activity, onFormSubmit }: ActivityFormProps) {
     setIsLoading(true);
 
     try {
-        const [hours, minutes] = values.time.split(':').map(Number);
-        let combinedDateTime = setHours(values.date, hours); // values.date is a Date object
-        combinedDateTime = setMinutes(combinedDateTime, minutes);
-        combinedDateTime = setSeconds(combinedDateTime, 0);
-        combinedDateTime = setMilliseconds(combinedDateTime, 0);
-
+        const combinedDateTime = toStartDate(values);
+        const durationMinutes = toDurationMinutes(values);
         const locationValue = values.location === "" ? null : values.location;
+        const maxParticipantsValue = values.maxParticipants ? Number(values.maxParticipants) : null;
+        const details = {
+            description: values.description?.trim() || null,
+            ageRange: values.ageMin || values.ageMax
+                ? { min: values.ageMin ? Number(values.ageMin) : null, max: values.ageMax ? Number(values.ageMax) : null }
+                : null,
+            costPerChild: values.costPerChild ? parseCost(values.costPerChild.trim()) : null,
+            setting: values.setting === 'none' ? null : values.setting,
+            whatToBring: parseWhatToBring(values.whatToBring ?? ''),
+            category: values.category === 'none' ? null : values.category,
+            tags: parseTags(values.tags ?? ''),
+        };
 
         // Data for Firestore (date as Timestamp)
         const firestoreDate = Timestamp.fromDate(combinedDateTime);
 
+        // Group members are resolved now; people joining a group later do not see existing activities
+        const audienceGroupIds = values.visibility === 'groups' ? values.audienceGroupIds : [];
+        const audienceUids = resolveAudienceUids(user.uid, values.visibility, {
+            friendIds: values.audienceFriendIds,
+            groups: groups.filter(group => audienceGroupIds.includes(group.id)),
+        });
+
         let activityId: string;
 
         if (isEditing && activity) {
             const updateData: UpdateActivityData = {
                  title: values.title,
                  date: firestoreDate,
+                 durationMinutes,
                  location: locationValue,
+                 ...details,
+                 maxParticipants: maxParticipantsValue,
+                 visibility: values.visibility,
+                 audienceUids,
+                 audienceGroupIds,
              };
-            await updateActivity(activity.id, updateData);
+            await updateActivityMutation.mutateAsync({ activity, data: updateData, scope: values.editScope });
             activityId = activity.id;
             toast({ title: "Activity Updated", description: `"${values.title}" has been updated.` });
         } else {
             const creationData: CreateActivityData = {
                 title: values.title,
                 date: firestoreDate,
+                durationMinutes,
                 location: locationValue,
+                ...details,
+                maxParticipants: maxParticipantsValue,
+                visibility: values.visibility,
+                audienceUids,
+                audienceGroupIds,
+                waitlist: [],
                 creatorId: user.uid,
                 creatorName: userProfile.displayName ?? user.displayName ?? 'Unknown User',
                 creatorPhotoURL: userProfile.photoURL ?? user.photoURL,
@@ -108,7 +301,16 @@ export function ActivityForm({ activity, onFormSubmit }: ActivityFormProps) {
                 ],
                 participantUids: [user.uid], // Initialize with creator's UID
             };
-            activityId = await createActivity(creationData);
+            if (values.repeat !== 'none') {
+                const recurrence: RecurrenceRule = {
+                    frequency: values.repeat,
+                    interval: values.repeatInterval,
+                    until: values.repeatEnd === 'until' && values.repeatUntil ? format(values.repeatUntil, 'yyyy-MM-dd') : null,
+                    count: values.repeatEnd === 'count' ? values.repeatCount : null,
+                };
+                creationData.recurrence = recurrence;
+            }
+            activityId = await createActivityMutation.mutateAsync(creationData);
             toast({ title: "Activity Created", description: `"${values.title}" has been scheduled.` });
         }
 
@@ -147,7 +349,47 @@ export function ActivityForm({ activity, onFormSubmit }: ActivityFormProps) {
           )}
         />
 
-         <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <FormField
+            control={form.control}
+            name="category"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Category</FormLabel>
+                <Select onValueChange={field.onChange} value={field.value} disabled={isLoading}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    <SelectItem value="none">No category</SelectItem>
+                    {CATEGORY_OPTIONS.map(option => (
+                      <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="tags"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Tags (Optional)</FormLabel>
+                <FormControl>
+                  <Input placeholder="e.g., rainy day, free, toddlers" {...field} value={field.value ?? ""} disabled={isLoading} />
+                </FormControl>
+                <FormDescription>Separate tags with commas.</FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+         <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
              <FormField
                 control={form.control}
                 name="date"
@@ -196,7 +438,7 @@ export function ActivityForm({ activity, onFormSubmit }: ActivityFormProps) {
                   name="time"
                   render={({ field }) => (
                     <FormItem>
-                      <FormLabel>Time</FormLabel>
+                      <FormLabel>Start Time</FormLabel>
                       <FormControl>
                         <Input type="time" {...field} disabled={isLoading} className="w-full" step="900" />
                       </FormControl>
@@ -204,6 +446,20 @@ export function ActivityForm({ activity, onFormSubmit }: ActivityFormProps) {
                     </FormItem>
                 )}
                 />
+
+              <FormField
+                  control={form.control}
+                  name="endTime"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>End Time (Optional)</FormLabel>
+                      <FormControl>
+                        <Input type="time" {...field} value={field.value ?? ""} disabled={isLoading} className="w-full" step="900" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                )}
+                />
          </div>
 
 
@@ -221,10 +477,394 @@ export function ActivityForm({ activity, onFormSubmit }: ActivityFormProps) {
           )}
         />
 
+        <FormField
+          control={form.control}
+          name="description"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Description (Optional)</FormLabel>
+              <FormControl>
+                <Textarea
+                  placeholder="What are you planning? Meeting point, schedule, links..."
+                  rows={5}
+                  {...field}
+                  value={field.value ?? ""}
+                  disabled={isLoading}
+                />
+              </FormControl>
+              <FormDescription>
+                Supports **bold**, *italic*, lists (lines starting with - or 1.) and links like [tickets](https://example.com).
+              </FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <div className="space-y-4 rounded-md border p-4">
+          <p className="text-sm font-medium flex items-center gap-2"><ListChecks className="h-4 w-4" /> Details for parents (Optional)</p>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <FormField
+              control={form.control}
+              name="ageMin"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Age from</FormLabel>
+                  <FormControl>
+                    <Input type="number" min={0} max={MAX_CHILD_AGE} placeholder="Any" {...field} value={field.value ?? ""} disabled={isLoading} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="ageMax"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Age to</FormLabel>
+                  <FormControl>
+                    <Input type="number" min={0} max={MAX_CHILD_AGE} placeholder="Any" {...field} value={field.value ?? ""} disabled={isLoading} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="costPerChild"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Cost per child (€)</FormLabel>
+                  <FormControl>
+                    <Input inputMode="decimal" placeholder="e.g. 0 or 7,50" {...field} value={field.value ?? ""} disabled={isLoading} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="setting"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Setting</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value} disabled={isLoading}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value="none">Not specified</SelectItem>
+                      {SETTING_OPTIONS.map(option => (
+                        <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </div>
+          <FormField
+            control={form.control}
+            name="whatToBring"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>What to bring</FormLabel>
+                <FormControl>
+                  <Textarea placeholder={"Rain jacket\nSnacks\nSwimwear"} rows={3} {...field} value={field.value ?? ""} disabled={isLoading} />
+                </FormControl>
+                <FormDescription>One item per line.</FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        <FormField
+          control={form.control}
+          name="maxParticipants"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Maximum Families (Optional)</FormLabel>
+              <FormControl>
+                <Input type="number" min={2} max={100} placeholder="No limit" {...field} value={field.value ?? ""} disabled={isLoading} className="w-full md:w-1/2" />
+              </FormControl>
+              <FormDescription>Including you. Further families are put on a waitlist and move up automatically when a spot frees up.</FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <div className="space-y-4 rounded-md border p-4">
+          <FormField
+            control={form.control}
+            name="visibility"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel className="flex items-center gap-2"><Eye className="h-4 w-4" /> Who can see this</FormLabel>
+                <Select onValueChange={field.onChange} value={field.value} disabled={isLoading}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {VISIBILITY_OPTIONS.map(option => (
+                      <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormDescription>{VISIBILITY_OPTIONS.find(option => option.value === field.value)?.description}</FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          {visibility === 'selectedFriends' && (
+            <FormField
+              control={form.control}
+              name="audienceFriendIds"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Friends</FormLabel>
+                  <AudienceCheckboxList
+                    options={friends.map(friend => ({ id: friend.uid, label: friend.displayName ?? 'Friend' }))}
+                    selectedIds={field.value}
+                    onChange={field.onChange}
+                    emptyMessage="You have no friends to share with yet."
+                    disabled={isLoading}
+                  />
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          )}
+
+          {visibility === 'groups' && (
+            <FormField
+              control={form.control}
+              name="audienceGroupIds"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Groups</FormLabel>
+                  <AudienceCheckboxList
+                    options={groups.map(group => ({ id: group.id, label: `${group.name} (${group.memberIds.length})` }))}
+                    selectedIds={field.value}
+                    onChange={field.onChange}
+                    emptyMessage="You are not in any group yet."
+                    disabled={isLoading}
+                  />
+                  <FormDescription>Members who join a group later will not see this activity unless you save it again.</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          )}
+        </div>
+
+        {!isEditing && (
+          <div className="space-y-4 rounded-md border p-4">
+            <FormField
+              control={form.control}
+              name="repeat"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="flex items-center gap-2"><Repeat className="h-4 w-4" /> Repeat</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value} disabled={isLoading}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value="none">Does not repeat</SelectItem>
+                      <SelectItem value="daily">Daily</SelectItem>
+                      <SelectItem value="weekly">Weekly</SelectItem>
+                      <SelectItem value="monthly">Monthly (same weekday)</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            {repeat !== 'none' && (
+              <>
+                <FormField
+                  control={form.control}
+                  name="repeatInterval"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Every</FormLabel>
+                      <div className="flex items-center gap-2">
+                        <FormControl>
+                          <Input type="number" min={1} max={12} {...field} disabled={isLoading} className="w-24" />
+                        </FormControl>
+                        <span className="text-sm text-muted-foreground">
+                          {repeat === 'daily' ? 'day(s)' : repeat === 'weekly' ? 'week(s)' : 'month(s)'}
+                        </span>
+                      </div>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="repeatEnd"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Ends</FormLabel>
+                      <FormControl>
+                        <RadioGroup onValueChange={field.onChange} value={field.value} className="flex gap-6" disabled={isLoading}>
+                          <FormItem className="flex items-center gap-2 space-y-0">
+                            <FormControl><RadioGroupItem value="count" /></FormControl>
+                            <FormLabel className="font-normal">After a number of times</FormLabel>
+                          </FormItem>
+                          <FormItem className="flex items-center gap-2 space-y-0">
+                            <FormControl><RadioGroupItem value="until" /></FormControl>
+                            <FormLabel className="font-normal">On a date</FormLabel>
+                          </FormItem>
+                        </RadioGroup>
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                {repeatEnd === 'count' ? (
+                  <FormField
+                    control={form.control}
+                    name="repeatCount"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Number of occurrences</FormLabel>
+                        <FormControl>
+                          <Input type="number" min={2} max={MAX_RECURRENCE_OCCURRENCES} {...field} disabled={isLoading} className="w-24" />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                ) : (
+                  <FormField
+                    control={form.control}
+                    name="repeatUntil"
+                    render={({ field }) => (
+                      <FormItem className="flex flex-col">
+                        <FormLabel>End date</FormLabel>
+                        <Popover>
+                          <PopoverTrigger asChild>
+                            <FormControl>
+                              <Button
+                                variant={"outline"}
+                                className={cn("w-full md:w-1/2 pl-3 text-left font-normal", !field.value && "text-muted-foreground")}
+                                disabled={isLoading}
+                              >
+                                {field.value ? format(field.value, "PPP", { locale: de }) : <span>Pick an end date</span>}
+                                <CalendarIcon className="ml-auto h-4 w-4 opacity-50" />
+                              </Button>
+                            </FormControl>
+                          </PopoverTrigger>
+                          <PopoverContent className="w-auto p-0" align="start">
+                            <Calendar
+                              locale={de}
+                              weekStartsOn={1}
+                              mode="single"
+                              selected={field.value ?? undefined}
+                              onSelect={field.onChange}
+                              disabled={(date) => date < startOfDay(form.getValues('date')) || isLoading}
+                              initialFocus
+                            />
+                          </PopoverContent>
+                        </Popover>
+                        <FormDescription>Series are limited to {MAX_RECURRENCE_OCCURRENCES} occurrences.</FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                )}
+              </>
+            )}
+          </div>
+        )}
+
+        {isSeriesOccurrence && activity && (
+          <FormField
+            control={form.control}
+            name="editScope"
+            render={({ field }) => (
+              <FormItem className="space-y-3 rounded-md border p-4">
+                <FormLabel className="flex items-center gap-2"><Repeat className="h-4 w-4" /> Apply changes to</FormLabel>
+                {activity.recurrence && (
+                  <FormDescription>{describeRecurrence(activity.recurrence, new Date(activity.date))}</FormDescription>
+                )}
+                <FormControl>
+                  <RadioGroup onValueChange={field.onChange} value={field.value} disabled={isLoading}>
+                    <FormItem className="flex items-center gap-2 space-y-0">
+                      <FormControl><RadioGroupItem value="this" /></FormControl>
+                      <FormLabel className="font-normal">This occurrence</FormLabel>
+                    </FormItem>
+                    <FormItem className="flex items-center gap-2 space-y-0">
+                      <FormControl><RadioGroupItem value="following" /></FormControl>
+                      <FormLabel className="font-normal">This and following occurrences</FormLabel>
+                    </FormItem>
+                    <FormItem className="flex items-center gap-2 space-y-0">
+                      <FormControl><RadioGroupItem value="all" /></FormControl>
+                      <FormLabel className="font-normal">All occurrences in the series</FormLabel>
+                    </FormItem>
+                  </RadioGroup>
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        )}
+
         <Button type="submit" disabled={isLoading} className="w-full md:w-auto">
           {isLoading ? (isEditing ? 'Updating...' : 'Creating...') : (isEditing ? 'Update Activity' : 'Create Activity')}
         </Button>
       </form>
+      <ScheduleConflictDialog
+        open={conflicts.length > 0}
+        onOpenChange={(open) => { if (!open) closeConflictDialog(); }}
+        conflicts={conflicts}
+        onConfirm={saveAnyway}
+        confirmLabel={isEditing ? 'Save Anyway' : 'Create Anyway'}
+      />
     </Form>
   );
 }
+
+interface AudienceCheckboxListProps {
+  options: { id: string; label: string }[];
+  selectedIds: string[];
+  onChange: (selectedIds: string[]) => void;
+  emptyMessage: string;
+  disabled?: boolean;
+}
+
+function AudienceCheckboxList({ options, selectedIds, onChange, emptyMessage, disabled }: AudienceCheckboxListProps) {
+  if (options.length === 0) {
+    return <p className="text-sm text-muted-foreground">{emptyMessage}</p>;
+  }
+  return (
+    <div className="grid gap-2 sm:grid-cols-2 max-h-48 overflow-y-auto">
+      {options.map(option => (
+        <div key={option.id} className="flex items-center gap-2">
+          <Checkbox
+            id={`audience-${option.id}`}
+            checked={selectedIds.includes(option.id)}
+            onCheckedChange={(checked) => onChange(checked === true
+              ? [...selectedIds, option.id]
+              : selectedIds.filter(id => id !== option.id))}
+            disabled={disabled}
+          />
+          <label htmlFor={`audience-${option.id}`} className="text-sm">{option.label}</label>
+        </div>
+      ))}
+    </div>
+  );
+}
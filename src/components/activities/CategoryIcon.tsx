@@ -0,0 +1,28 @@
+// src/components/activities/CategoryIcon.tsx
+import React from 'react';
+import { Cake, FerrisWheel, Landmark, Palette, Sparkles, ToyBrick, TreePine, Trophy, type LucideIcon } from 'lucide-react';
+import type { ActivityCategory } from '@/lib/types';
+import { getCategoryLabel } from '@/lib/categories';
+import { cn } from '@/lib/utils';
+
+export const CATEGORY_ICONS: Record<ActivityCategory, LucideIcon> = {
+  playground: FerrisWheel,
+  sports: Trophy,
+  museum: Landmark,
+  birthday: Cake,
+  playdate: ToyBrick,
+  outdoor: TreePine,
+  crafts: Palette,
+  other: Sparkles,
+};
+
+interface CategoryIconProps {
+  category: ActivityCategory;
+  className?: string;
+}
+
+// The icon of an activity's category, labelled for screen readers
+export function CategoryIcon({ category, className }: CategoryIconProps) {
+  const Icon = CATEGORY_ICONS[category];
+  return <Icon className={cn("h-4 w-4", className)} aria-label={getCategoryLabel(category)} role="img" />;
+}
@@ -0,0 +1,80 @@
+// src/components/activities/ChildSelectionDialog.tsx
+"use client";
+
+import React from 'react';
+import type { ChildProfile } from '@/lib/types';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+
+interface ChildSelectionDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  activityTitle: string;
+  childProfiles: ChildProfile[];
+  onConfirm: (selectedChildren: ChildProfile[]) => void;
+  isSubmitting?: boolean;
+  initialSelectedIds?: string[]; // Children already coming along, when a parent who is going changes the selection
+}
+
+// Lets a parent pick which of their children come along when joining an activity, or change that choice later.
+export function ChildSelectionDialog({ open, onOpenChange, activityTitle, childProfiles, onConfirm, isSubmitting, initialSelectedIds }: ChildSelectionDialogProps) {
+  const [selectedIds, setSelectedIds] = React.useState<string[]>([]);
+
+  // Preselect the current choice (or all children when joining) each time the dialog opens
+  React.useEffect(() => {
+    if (open) {
+      setSelectedIds(initialSelectedIds ?? childProfiles.map(child => child.id));
+    }
+  }, [open, childProfiles, initialSelectedIds]);
+
+  const toggleChild = (childId: string, checked: boolean) => {
+    setSelectedIds(prev => checked ? [...prev, childId] : prev.filter(id => id !== childId));
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Who is coming?</DialogTitle>
+          <DialogDescription>Choose which children join you at &quot;{activityTitle}&quot;.</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-3 py-2">
+          {childProfiles.map(child => (
+            <div key={child.id} className="flex items-center gap-3">
+              <Checkbox
+                id={`child-${child.id}`}
+                checked={selectedIds.includes(child.id)}
+                onCheckedChange={(checked) => toggleChild(child.id, checked === true)}
+                disabled={isSubmitting}
+              />
+              <Label htmlFor={`child-${child.id}`} className="font-normal">
+                {child.nickname}
+                {child.birthYear && <span className="text-muted-foreground"> (born {child.birthYear})</span>}
+              </Label>
+            </div>
+          ))}
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSubmitting}>Cancel</Button>
+          <Button
+            onClick={() => onConfirm(childProfiles.filter(child => selectedIds.includes(child.id)))}
+            disabled={isSubmitting}
+          >
+            {initialSelectedIds
+              ? isSubmitting ? 'Saving...' : 'Save'
+              : isSubmitting ? 'Joining...' : 'Join'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
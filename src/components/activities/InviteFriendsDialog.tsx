@@ -0,0 +1,77 @@
+// src/components/activities/InviteFriendsDialog.tsx
+"use client";
+
+import React from 'react';
+import type { Friend } from '@/lib/types';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+
+interface InviteFriendsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  activityTitle: string;
+  candidates: Friend[]; // Friends who are neither invited nor taking part yet
+  onConfirm: (selected: Friend[]) => void;
+  isSubmitting?: boolean;
+}
+
+// Lets the creator invite several friends to an activity at once.
+export function InviteFriendsDialog({ open, onOpenChange, activityTitle, candidates, onConfirm, isSubmitting }: InviteFriendsDialogProps) {
+  const [selectedIds, setSelectedIds] = React.useState<string[]>([]);
+
+  React.useEffect(() => {
+    if (open) {
+      setSelectedIds([]);
+    }
+  }, [open]);
+
+  const toggleFriend = (uid: string, checked: boolean) => {
+    setSelectedIds(prev => checked ? [...prev, uid] : prev.filter(id => id !== uid));
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Invite Friends</DialogTitle>
+          <DialogDescription>Invited friends find &quot;{activityTitle}&quot; in their inbox and can accept or decline.</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-3 py-2 max-h-72 overflow-y-auto">
+          {candidates.length === 0 ? (
+            <p className="text-sm text-muted-foreground">All your friends are already invited or taking part.</p>
+          ) : candidates.map(friend => (
+            <div key={friend.uid} className="flex items-center gap-3">
+              <Checkbox
+                id={`invite-${friend.uid}`}
+                checked={selectedIds.includes(friend.uid)}
+                onCheckedChange={(checked) => toggleFriend(friend.uid, checked === true)}
+                disabled={isSubmitting}
+              />
+              <Label htmlFor={`invite-${friend.uid}`} className="font-normal">{friend.displayName ?? 'Friend'}</Label>
+            </div>
+          ))}
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSubmitting}>Cancel</Button>
+          <Button
+            onClick={() => onConfirm(candidates.filter(friend => selectedIds.includes(friend.uid)))}
+            disabled={isSubmitting || selectedIds.length === 0}
+          >
+            {isSubmitting
+              ? 'Inviting...'
+              : selectedIds.length === 0 ? 'Invite' : `Invite ${selectedIds.length} ${selectedIds.length === 1 ? 'Friend' : 'Friends'}`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,72 @@
+// src/components/activities/InviteeList.tsx
+"use client";
+
+import React from 'react';
+import type { ActivityInviteeClient, ActivityInviteStatus } from '@/lib/types';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { X } from 'lucide-react';
+
+interface InviteeListProps {
+  invitees: ActivityInviteeClient[];
+  onWithdraw?: (invitee: ActivityInviteeClient) => void; // Creator only; offered while the invite is unanswered
+  withdrawingUid?: string | null;
+}
+
+const getInitials = (name: string | null | undefined) => {
+  if (!name) return '?';
+  const names = name.split(' ');
+  if (names.length > 1) {
+    return names[0][0] + names[names.length - 1][0];
+  }
+  return name[0];
+};
+
+const STATUS_ORDER: ActivityInviteStatus[] = ['pending', 'accepted', 'declined'];
+
+const STATUS_BADGES: Record<ActivityInviteStatus, { label: string; variant: 'outline' | 'default' | 'secondary' }> = {
+  pending: { label: 'No answer yet', variant: 'outline' },
+  accepted: { label: 'Accepted', variant: 'default' },
+  declined: { label: 'Declined', variant: 'secondary' },
+};
+
+// Invited friends with the state of their invite; unanswered invites are listed first.
+export function InviteeList({ invitees, onWithdraw, withdrawingUid }: InviteeListProps) {
+  if (invitees.length === 0) {
+    return <p className="text-sm text-muted-foreground">Nobody has been invited yet.</p>;
+  }
+
+  const sortedInvitees = [...invitees].sort((a, b) =>
+    STATUS_ORDER.indexOf(a.status) - STATUS_ORDER.indexOf(b.status) || (a.name ?? '').localeCompare(b.name ?? '')
+  );
+
+  return (
+    <div className="space-y-2">
+      {sortedInvitees.map(invitee => (
+        <div key={invitee.uid} className="flex items-center gap-3 p-2 rounded-md hover:bg-muted/50">
+          <Avatar className="h-8 w-8 border">
+            <AvatarImage src={invitee.photoURL ?? undefined} alt={invitee.name ?? 'Friend'} />
+            <AvatarFallback>{getInitials(invitee.name)}</AvatarFallback>
+          </Avatar>
+          <span className="text-sm font-medium">{invitee.name ?? 'Friend'}</span>
+          <div className="ml-auto flex items-center gap-2">
+            <Badge variant={STATUS_BADGES[invitee.status].variant}>{STATUS_BADGES[invitee.status].label}</Badge>
+            {onWithdraw && invitee.status === 'pending' && (
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7"
+                onClick={() => onWithdraw(invitee)}
+                disabled={withdrawingUid === invitee.uid}
+                aria-label={`Withdraw invite for ${invitee.name ?? 'friend'}`}
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            )}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
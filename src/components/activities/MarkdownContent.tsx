@@ -0,0 +1,59 @@
+// src/components/activities/MarkdownContent.tsx
+"use client";
+
+import React, { useMemo } from 'react';
+import { parseMarkdown, type MarkdownInline } from '@/lib/markdown';
+import { cn } from '@/lib/utils';
+
+interface MarkdownContentProps {
+  source: string;
+  className?: string;
+}
+
+function InlineNodes({ nodes }: { nodes: MarkdownInline[] }) {
+  return (
+    <>
+      {nodes.map((node, index) => {
+        switch (node.type) {
+          case 'text':
+            return <React.Fragment key={index}>{node.text}</React.Fragment>;
+          case 'break':
+            return <br key={index} />;
+          case 'strong':
+            return <strong key={index}><InlineNodes nodes={node.children} /></strong>;
+          case 'emphasis':
+            return <em key={index}><InlineNodes nodes={node.children} /></em>;
+          case 'link':
+            return (
+              <a key={index} href={node.href} target="_blank" rel="noopener noreferrer nofollow" className="text-primary underline underline-offset-2 break-words">
+                <InlineNodes nodes={node.children} />
+              </a>
+            );
+        }
+      })}
+    </>
+  );
+}
+
+// Renders an activity description (see src/lib/markdown.ts). Only React elements are created, no raw HTML.
+export function MarkdownContent({ source, className }: MarkdownContentProps) {
+  const blocks = useMemo(() => parseMarkdown(source), [source]);
+
+  return (
+    <div className={cn("space-y-3 text-sm leading-relaxed", className)}>
+      {blocks.map((block, index) => {
+        if (block.type === 'paragraph') {
+          return <p key={index}><InlineNodes nodes={block.children} /></p>;
+        }
+        const ListTag = block.ordered ? 'ol' : 'ul';
+        return (
+          <ListTag key={index} className={cn("space-y-1 pl-5", block.ordered ? "list-decimal" : "list-disc")}>
+            {block.items.map((item, itemIndex) => (
+              <li key={itemIndex}><InlineNodes nodes={item} /></li>
+            ))}
+          </ListTag>
+        );
+      })}
+    </div>
+  );
+}
@@ -1,44 +1,67 @@
 // src/components/activities/ParticipantsList.tsx
 import React from 'react';
-import type { Activity } from '@/lib/types'; // Get participant type from Activity
+import type { ActivityParticipant, ActivityRsvpClient } from '@/lib/types';
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { ScrollArea } from "@/components/ui/scroll-area";
 
-type Participant = Activity['participants'][0]; // Extract participant type
-
 interface ParticipantsListProps {
-  participants: Participant[];
+  participants: ActivityParticipant[];
+  rsvps?: Record<string, ActivityRsvpClient>; // When given, "maybe" and "can't" answers are listed below the participants
 }
 
-export function ParticipantsList({ participants }: ParticipantsListProps) {
+const getInitials = (name: string | null | undefined) => {
+  if (!name) return '?';
+  const names = name.split(' ');
+  if (names.length > 1) {
+    return names[0][0] + names[names.length - 1][0];
+  }
+  return name[0];
+};
 
-   const getInitials = (name: string | null | undefined) => {
-    if (!name) return '?';
-    const names = name.split(' ');
-    if (names.length > 1) {
-      return names[0][0] + names[names.length - 1][0];
-    }
-    return name[0];
-  };
+function ParticipantRow({ participant }: { participant: ActivityParticipant }) {
+  return (
+    <div className="flex items-center gap-3 p-2 rounded-md hover:bg-muted/50">
+      <Avatar className="h-10 w-10 border">
+          <AvatarImage src={participant.photoURL ?? undefined} alt={participant.name ?? 'Participant'} />
+          <AvatarFallback>{getInitials(participant.name)}</AvatarFallback>
+      </Avatar>
+      <div className="flex flex-col">
+          <span className="text-sm font-medium">{participant.name ?? 'Participant'}</span>
+          {participant.children && participant.children.length > 0 && (
+              <span className="text-xs text-muted-foreground">
+                  with {participant.children.map(child => child.nickname).join(', ')}
+              </span>
+          )}
+      </div>
+    </div>
+  );
+}
 
+export function ParticipantsList({ participants, rsvps }: ParticipantsListProps) {
+  const responses = Object.values(rsvps ?? {});
+  const maybe = responses.filter(r => r.status === 'maybe');
+  const declined = responses.filter(r => r.status === 'declined');
 
-  if (!participants || participants.length === 0) {
+  if ((!participants || participants.length === 0) && maybe.length === 0 && declined.length === 0) {
     return <p className="text-sm text-muted-foreground">No participants have joined yet.</p>;
   }
 
+  const groups = [
+    { label: 'Going', entries: participants },
+    { label: 'Maybe', entries: maybe },
+    { label: "Can't make it", entries: declined },
+  ].filter(group => group.entries.length > 0);
+
   return (
     <ScrollArea className="h-[150px] w-full"> {/* Adjust height as needed */}
         <div className="space-y-3 pr-4">
-        {participants.map((participant) => (
-            <div key={participant.uid} className="flex items-center gap-3 p-2 rounded-md hover:bg-muted/50">
-            <Avatar className="h-10 w-10 border">
-                <AvatarImage src={participant.photoURL ?? undefined} alt={participant.name ?? 'Participant'} />
-                <AvatarFallback>{getInitials(participant.name)}</AvatarFallback>
-            </Avatar>
-            <span className="text-sm font-medium">{participant.name ?? 'Participant'}</span>
-            {/* Optionally add child nickname if stored in participant data */}
-            {/* {participant.childNickname && <span className="text-xs text-muted-foreground">({participant.childNickname})</span>} */}
+        {rsvps ? groups.map(group => (
+            <div key={group.label} className="space-y-1">
+                <p className="text-xs font-semibold uppercase text-muted-foreground">{group.label} ({group.entries.length})</p>
+                {group.entries.map(entry => <ParticipantRow key={entry.uid} participant={entry} />)}
             </div>
+        )) : participants.map((participant) => (
+            <ParticipantRow key={participant.uid} participant={participant} />
         ))}
         </div>
     </ScrollArea>
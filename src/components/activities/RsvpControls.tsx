@@ -0,0 +1,148 @@
+// src/components/activities/RsvpControls.tsx
+"use client";
+
+import React from 'react';
+import type { ActivityClient, ChildProfile, RsvpStatus } from '@/lib/types';
+import { Button } from '@/components/ui/button';
+import { useAuth } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/use-toast';
+import { useScheduleConflictCheck, useSetRsvpMutation } from '@/hooks/useActivities';
+import { Check, HelpCircle, X } from 'lucide-react';
+import { ChildSelectionDialog } from './ChildSelectionDialog';
+import { ScheduleConflictDialog } from './ScheduleConflictDialog';
+
+interface RsvpControlsProps {
+  activity: ActivityClient;
+  size?: 'sm' | 'default';
+  onRsvpChange?: () => void; // Called after the RSVP was saved
+}
+
+// Going / Maybe / Can't buttons for an activity. "Going" first warns about overlapping activities the user created or
+// joined, then asks which children come along when the profile has any. Pressing it again while going changes
+// which children come along.
+export function RsvpControls({ activity, size = 'default', onRsvpChange }: RsvpControlsProps) {
+  const { user, userProfile } = useAuth();
+  const { toast } = useToast();
+  const rsvpMutation = useSetRsvpMutation();
+  const [pendingStatus, setPendingStatus] = React.useState<RsvpStatus | null>(null);
+  const [isChildDialogOpen, setIsChildDialogOpen] = React.useState(false);
+  const checkConflicts = useScheduleConflictCheck(user?.uid ?? null);
+  const [conflicts, setConflicts] = React.useState<ActivityClient[]>([]);
+  const [isCheckingConflicts, setIsCheckingConflicts] = React.useState(false);
+
+  const currentStatus = user ? activity.rsvps[user.uid]?.status ?? null : null;
+  const isParticipant = !!user && activity.participants.some(p => p.uid === user.uid);
+  const waitlistPosition = user ? (activity.waitlist ?? []).findIndex(p => p.uid === user.uid) + 1 : 0; // 0 when not waitlisted
+  const isFull = activity.maxParticipants != null && activity.participants.length >= activity.maxParticipants;
+  // Activities created before RSVPs existed only know about participants
+  const effectiveStatus: RsvpStatus | null = isParticipant || waitlistPosition > 0 ? 'going' : currentStatus === 'going' ? null : currentStatus;
+  const ownEntry = user ? [...activity.participants, ...(activity.waitlist ?? [])].find(p => p.uid === user.uid) : undefined;
+  const ownChildIds = React.useMemo(() => ownEntry?.children?.map(child => child.id) ?? [], [ownEntry]);
+  const isChangingChildren = effectiveStatus === 'going';
+
+  const submitRsvp = async (status: RsvpStatus, children: ChildProfile[] = []) => {
+    if (!user || !userProfile) return;
+    setPendingStatus(status);
+    try {
+      const result = await rsvpMutation.mutateAsync({
+        activityId: activity.id,
+        user: {
+          uid: user.uid,
+          name: userProfile.displayName ?? user.displayName,
+          photoURL: userProfile.photoURL ?? user.photoURL,
+          children,
+        },
+        status,
+      });
+      if (isChangingChildren && status === 'going') {
+        toast({ title: "Children Updated", description: `Your RSVP for "${activity.title}" was updated.` });
+      } else if (result === 'waitlisted') {
+        toast({ title: "Added to Waitlist", description: `"${activity.title}" is full. You will move up automatically when a spot opens.` });
+      } else if (result === 'joined') {
+        toast({ title: "Joined Activity!", description: `You have joined "${activity.title}".` });
+      } else {
+        toast({ title: "RSVP Saved", description: status === 'maybe' ? `You might join "${activity.title}".` : `You can't make it to "${activity.title}".` });
+      }
+      setIsChildDialogOpen(false);
+      onRsvpChange?.();
+    } catch (error) {
+      console.error("Error updating RSVP:", error);
+      toast({ title: "Error", description: "Could not save your RSVP.", variant: "destructive" });
+    } finally {
+      setPendingStatus(null);
+    }
+  };
+
+  const continueGoing = () => {
+    setConflicts([]);
+    if (userProfile && userProfile.children.length > 0) {
+      setIsChildDialogOpen(true);
+    } else {
+      submitRsvp('going');
+    }
+  };
+
+  const handleGoing = async () => {
+    if (!userProfile) return;
+    if (isChangingChildren) {
+      // Already going, so the schedule was checked when joining
+      if (userProfile.children.length > 0) setIsChildDialogOpen(true);
+      return;
+    }
+    setIsCheckingConflicts(true);
+    let overlapping: ActivityClient[] = [];
+    try {
+      overlapping = await checkConflicts(activity);
+    } catch (error) {
+      // The check is only a warning, so a failed lookup does not stop anyone from joining
+      console.error("Error checking for scheduling conflicts:", error);
+    } finally {
+      setIsCheckingConflicts(false);
+    }
+    if (overlapping.length > 0) {
+      setConflicts(overlapping);
+    } else {
+      continueGoing();
+    }
+  };
+
+  const isBusy = pendingStatus !== null || isCheckingConflicts;
+  const iconClass = size === 'sm' ? 'mr-1 h-4 w-4' : 'mr-2 h-4 w-4';
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <Button size={size} variant={effectiveStatus === 'going' ? 'default' : 'outline'} onClick={handleGoing} disabled={isBusy}>
+        <Check className={iconClass} />
+        {pendingStatus === 'going' || isCheckingConflicts
+          ? isChangingChildren ? 'Saving...' : 'Joining...'
+          : waitlistPosition > 0
+            ? `Waitlist #${waitlistPosition}`
+            : effectiveStatus === 'going' ? 'Going' : isFull ? 'Join Waitlist' : 'Going'}
+      </Button>
+      <Button size={size} variant={effectiveStatus === 'maybe' ? 'secondary' : 'outline'} onClick={() => submitRsvp('maybe')} disabled={isBusy || effectiveStatus === 'maybe'}>
+        <HelpCircle className={iconClass} />
+        {pendingStatus === 'maybe' ? 'Saving...' : 'Maybe'}
+      </Button>
+      <Button size={size} variant={effectiveStatus === 'declined' ? 'secondary' : 'outline'} onClick={() => submitRsvp('declined')} disabled={isBusy || effectiveStatus === 'declined'}>
+        <X className={iconClass} />
+        {pendingStatus === 'declined' ? 'Saving...' : "Can't"}
+      </Button>
+      <ChildSelectionDialog
+        open={isChildDialogOpen}
+        onOpenChange={setIsChildDialogOpen}
+        activityTitle={activity.title}
+        childProfiles={userProfile?.children ?? []}
+        onConfirm={(children) => submitRsvp('going', children)}
+        isSubmitting={pendingStatus === 'going'}
+        initialSelectedIds={isChangingChildren ? ownChildIds : undefined}
+      />
+      <ScheduleConflictDialog
+        open={conflicts.length > 0}
+        onOpenChange={(open) => { if (!open) setConflicts([]); }}
+        conflicts={conflicts}
+        onConfirm={continueGoing}
+        confirmLabel={isFull ? 'Join Waitlist Anyway' : 'Join Anyway'}
+      />
+    </div>
+  );
+}
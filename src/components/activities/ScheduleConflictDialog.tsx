@@ -0,0 +1,67 @@
+// src/components/activities/ScheduleConflictDialog.tsx
+"use client";
+
+import React from 'react';
+import Link from 'next/link';
+import { format } from 'date-fns';
+import { de } from 'date-fns/locale';
+import { CalendarClock } from 'lucide-react';
+import type { ActivityClient } from '@/lib/types';
+import { formatActivityTime } from '@/lib/calendar';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+
+interface ScheduleConflictDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  conflicts: ActivityClient[];
+  onConfirm: () => void;
+  confirmLabel: string; // e.g. "Join anyway"
+}
+
+// Warns that the user already has activities at the same time; they can go back or continue anyway.
+export function ScheduleConflictDialog({ open, onOpenChange, conflicts, onConfirm, confirmLabel }: ScheduleConflictDialogProps) {
+  return (
+    <AlertDialog open={open} onOpenChange={onOpenChange}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Scheduling Conflict</AlertDialogTitle>
+          <AlertDialogDescription>
+            You already have {conflicts.length === 1 ? 'an activity' : `${conflicts.length} activities`} at this time.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <ul className="space-y-2">
+          {conflicts.map(conflict => (
+            <li key={conflict.id}>
+              <Link
+                href={`/activities/details?id=${conflict.id}`}
+                target="_blank"
+                className="flex items-start gap-2 rounded-md border p-2 text-sm hover:bg-muted/50"
+              >
+                <CalendarClock className="mt-0.5 h-4 w-4 shrink-0 text-muted-foreground" />
+                <span className="flex flex-col">
+                  <span className="font-medium">{conflict.title}</span>
+                  <span className="text-xs text-muted-foreground">
+                    {format(new Date(conflict.date), 'EEEE, PPP', { locale: de })} · {formatActivityTime(conflict)}
+                  </span>
+                </span>
+              </Link>
+            </li>
+          ))}
+        </ul>
+        <AlertDialogFooter>
+          <AlertDialogCancel>Go Back</AlertDialogCancel>
+          <AlertDialogAction onClick={onConfirm}>{confirmLabel}</AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
@@ -17,9 +17,11 @@ import { Input } from "@/components/ui/input";
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { useToast } from "@/hooks/use-toast";
+import { useQueryClient } from '@tanstack/react-query';
+import { queryKeys } from '@/lib/queryKeys';
 import { Separator } from '@/components/ui/separator';
 import type { UserProfile as FirestoreUserProfile, InvitationClient } from '@/lib/types'; 
-import { createUserProfile, addFriend, deleteInvitation, getInvitation } from '@/lib/firebase/services'; 
+import { createUserProfile, acceptInvitation, getInvitation, getInvitationState, joinGroupWithInvitation } from '@/lib/firebase/services'; 
 
 const formSchema = z.object({
   email: z.string().email({ message: "Invalid email address." }),
@@ -31,6 +33,7 @@ export function SignInForm() {
   const searchParams = useSearchParams();
   const inviteCode = searchParams.get('invite');
   const { toast } = useToast();
+  const queryClient = useQueryClient();
   const [isLoading, setIsLoading] = React.useState(false);
   const [isGoogleLoading, setIsGoogleLoading] = React.useState(false);
 
@@ -55,9 +58,13 @@ export function SignInForm() {
             toast({ title: "Invite Not Found", description: "The invite code is invalid or expired.", variant: "destructive" });
             return;
         }
-        if (invitation.expiresAt && new Date(invitation.expiresAt) < new Date()) {
+        const invitationState = getInvitationState(invitation);
+        if (invitationState === 'expired') {
             toast({ title: "Invite Expired", description: "This invitation link has expired.", variant: "destructive" });
-            try { await deleteInvitation(code); } catch { console.warn("Failed to delete expired invite."); }
+            return;
+        }
+        if (invitationState === 'used-up' && !invitation.redemptions[signedInUser.uid]) {
+            toast({ title: "Invite Used Up", description: "This invitation link has already been used by as many people as allowed.", variant: "destructive" });
             return;
         }
         if (signedInUser.uid === invitation.inviterId) {
@@ -65,14 +72,20 @@ export function SignInForm() {
             return;
         }
 
-        await addFriend(signedInUser.uid, invitation.inviterId);
-        await deleteInvitation(code);
+        const invitee = { uid: signedInUser.uid, displayName: signedInUser.displayName, photoURL: signedInUser.photoURL };
+        if (invitation.groupId) {
+            await joinGroupWithInvitation(invitee, invitation);
+            queryClient.invalidateQueries({ queryKey: queryKeys.groups.all });
+            toast({ title: "Group Joined!", description: `You are now a member of "${invitation.groupName || 'the group'}".` });
+            return;
+        }
+        await acceptInvitation(invitee, invitation);
+        queryClient.invalidateQueries({ queryKey: queryKeys.friends(signedInUser.uid) });
         toast({ title: "Friend Added!", description: `You are now connected with ${invitation.inviterName || 'your friend'}.` });
     } catch (error: any) {
         console.error("Error handling invite code after sign-in:", error);
         if (error.code === 'already-friends') {
              toast({ title: "Already Friends", description: "You are already connected with this user." });
-             try { await deleteInvitation(code); } catch { /* ignore */ }
         } else {
             toast({ title: "Invite Error", description: `Could not process the invite code. ${error.message || 'An unexpected error occurred.'}`, variant: "destructive" });
         }
@@ -132,9 +145,10 @@ export function SignInForm() {
           email: user.email,
           displayName: user.displayName,
           photoURL: user.photoURL,
-          childNickname: '', 
+          children: [],
         };
         await createUserProfile(newUserProfileData); 
+        queryClient.invalidateQueries({ queryKey: queryKeys.userProfile(user.uid) });
         console.log("Created new user profile for Google Sign-In user:", user.uid);
       } else {
           console.log("User profile already exists for Google Sign-In user:", user.uid);
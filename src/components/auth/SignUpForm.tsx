@@ -6,7 +6,7 @@ import React from 'react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import * as z from 'zod';
-import { createUserWithEmailAndPassword, updateProfile, GoogleAuthProvider, signInWithPopup } from 'firebase/auth'; // Removed FirebaseUser
+import { createUserWithEmailAndPassword, updateProfile, GoogleAuthProvider, signInWithPopup, type User as FirebaseUser } from 'firebase/auth';
 import { auth, db } from '@/lib/firebase/config';
 import { doc, getDoc } from "firebase/firestore"; // Removed serverTimestamp, Timestamp
 import { useRouter, useSearchParams } from 'next/navigation';
@@ -17,16 +17,19 @@ import { Input } from "@/components/ui/input";
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { useToast } from "@/hooks/use-toast";
+import { useQueryClient } from '@tanstack/react-query';
+import { queryKeys } from '@/lib/queryKeys';
 import { Separator } from '@/components/ui/separator';
 import type { UserProfile as FirestoreUserProfile, InvitationClient } from '@/lib/types'; 
-import { addFriend, deleteInvitation, getInvitation, createUserProfile } from '@/lib/firebase/services';
+import { acceptInvitation, getInvitation, getInvitationState, joinGroupWithInvitation, createUserProfile } from '@/lib/firebase/services';
+import { v4 as uuidv4 } from 'uuid';
 
 
 const formSchema = z.object({
-  displayName: z.string().min(2, { message: "Name must be at least 2 characters." }),
+  displayName: z.string().min(2, { message: "Name must be at least 2 characters." }).max(50),
   email: z.string().email({ message: "Invalid email address." }),
   password: z.string().min(6, { message: "Password must be at least 6 characters." }),
-  childNickname: z.string().optional(),
+  childNickname: z.string().max(50).optional(),
 });
 
 export function SignUpForm() {
@@ -34,6 +37,7 @@ export function SignUpForm() {
   const searchParams = useSearchParams();
   const inviteCode = searchParams.get('invite');
   const { toast } = useToast();
+  const queryClient = useQueryClient();
   const [isLoading, setIsLoading] = React.useState(false);
   const [isGoogleLoading, setIsGoogleLoading] = React.useState(false);
 
@@ -47,7 +51,7 @@ export function SignUpForm() {
     },
   });
 
-  const handleInvite = async (userId: string, code: string) => {
+  const handleInvite = async (newUser: FirebaseUser, code: string) => {
       if (!db) {
           console.error("Firestore (db) is not initialized. Cannot handle invite.");
           toast({ title: "Invite Error", description: "Database service unavailable.", variant: "destructive" });
@@ -60,24 +64,34 @@ export function SignUpForm() {
           toast({ title: "Invite Not Found", description: "The invite code is invalid or expired.", variant: "destructive" });
           return;
       }
-       if (invitation.expiresAt && new Date(invitation.expiresAt) < new Date()) {
+      const invitationState = getInvitationState(invitation);
+      if (invitationState === 'expired') {
         toast({ title: "Invite Expired", description: "This invitation link has expired.", variant: "destructive" });
-        try { await deleteInvitation(code); } catch { console.warn("Failed to delete expired invite."); }
+        return;
+      }
+      if (invitationState === 'used-up') {
+        toast({ title: "Invite Used Up", description: "This invitation link has already been used by as many people as allowed.", variant: "destructive" });
         return;
       }
 
-      if (userId === invitation.inviterId) {
+      if (newUser.uid === invitation.inviterId) {
            toast({ title: "Cannot Add Self", description: "You cannot accept your own invitation.", variant: "destructive" });
            return;
       }
-        await addFriend(userId, invitation.inviterId);
-        await deleteInvitation(code);
+        const invitee = { uid: newUser.uid, displayName: newUser.displayName, photoURL: newUser.photoURL };
+        if (invitation.groupId) {
+            await joinGroupWithInvitation(invitee, invitation);
+            queryClient.invalidateQueries({ queryKey: queryKeys.groups.all });
+            toast({ title: "Group Joined!", description: `You are now a member of "${invitation.groupName || 'the group'}".` });
+            return;
+        }
+        await acceptInvitation(invitee, invitation);
+        queryClient.invalidateQueries({ queryKey: queryKeys.friends(newUser.uid) });
         toast({ title: "Friend Added!", description: `You are now connected with ${invitation.inviterName || 'your friend'}.` });
     } catch (error: any) {
       console.error("Error handling invite code after sign-up:", error);
         if (error.code === 'already-friends') {
              toast({ title: "Already Friends", description: "You are already connected with this user." });
-             try { await deleteInvitation(code); } catch { /* ignore */ }
         } else {
             toast({ title: "Invite Error", description: `Could not process the invite code. ${error.message || 'An unexpected error occurred.'}`, variant: "destructive" });
         }
@@ -101,14 +115,17 @@ export function SignUpForm() {
         email: user.email,
         displayName: values.displayName,
         photoURL: user.photoURL, 
-        childNickname: values.childNickname || null, // Ensure null if empty string
+        // The optional nickname becomes the first child; more children can be added on the profile page
+        children: values.childNickname ? [{ id: uuidv4(), nickname: values.childNickname, birthYear: null, notes: null }] : [],
       };
       await createUserProfile(newUserProfileData); 
+      // AuthContext may already have cached "no profile" for the new account while the document was being written
+      queryClient.invalidateQueries({ queryKey: queryKeys.userProfile(user.uid) });
 
       toast({ title: "Sign Up Successful", description: "Your account has been created." });
 
       if (inviteCode) {
-          await handleInvite(user.uid, inviteCode);
+          await handleInvite(user, inviteCode);
       }
       router.push('/dashboard');
     } catch (error: any) {
@@ -151,9 +168,10 @@ export function SignUpForm() {
            email: user.email,
            displayName: user.displayName,
            photoURL: user.photoURL,
-           childNickname: null, // Initialize as null
+           children: [],
          };
          await createUserProfile(newUserProfileData);
+         queryClient.invalidateQueries({ queryKey: queryKeys.userProfile(user.uid) });
          console.log("Created new user profile for Google Sign-In user:", user.uid);
       } else {
           console.log("User profile already exists for Google Sign-In user:", user.uid);
@@ -162,7 +180,7 @@ export function SignUpForm() {
       toast({ title: "Google Sign In Successful", description: `Welcome, ${user.displayName}!` });
 
       if (inviteCode) {
-          await handleInvite(user.uid, inviteCode);
+          await handleInvite(user, inviteCode);
       }
       router.push('/dashboard');
     } catch (error: any) {
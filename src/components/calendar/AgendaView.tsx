@@ -0,0 +1,46 @@
+// src/components/calendar/AgendaView.tsx
+import React from 'react';
+import Link from 'next/link';
+import { format, parseISO } from 'date-fns';
+import { de } from 'date-fns/locale';
+import { MapPin } from 'lucide-react';
+import type { ActivityClient } from '@/lib/types';
+import { formatActivityTime } from '@/lib/calendar';
+
+interface AgendaViewProps {
+  activitiesByDay: Map<string, ActivityClient[]>;
+}
+
+// Chronological list of the loaded activities, grouped by day.
+export function AgendaView({ activitiesByDay }: AgendaViewProps) {
+  if (activitiesByDay.size === 0) {
+    return <p className="text-center text-muted-foreground py-4">No activities in this period.</p>;
+  }
+
+  return (
+    <div className="space-y-6">
+      {Array.from(activitiesByDay.entries()).map(([dayKey, dayActivities]) => (
+        <section key={dayKey}>
+          <h3 className="mb-2 border-b pb-1 font-semibold">{format(parseISO(dayKey), 'EEEE, PPP', { locale: de })}</h3>
+          <ul className="space-y-2">
+            {dayActivities.map(activity => (
+              <li key={activity.id}>
+                <Link href={`/activities/details?id=${activity.id}`} className="flex items-start gap-3 rounded-md p-2 hover:bg-muted/50">
+                  <span className="w-24 shrink-0 text-sm font-medium">{formatActivityTime(activity)}</span>
+                  <span className="flex flex-col">
+                    <span className="text-sm">{activity.title}</span>
+                    {activity.location && (
+                      <span className="flex items-center gap-1 text-xs text-muted-foreground">
+                        <MapPin className="h-3 w-3" /> {activity.location}
+                      </span>
+                    )}
+                  </span>
+                </Link>
+              </li>
+            ))}
+          </ul>
+        </section>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,63 @@
+// src/components/calendar/ExportCalendarButton.tsx
+"use client";
+
+import React from 'react';
+import type { ActivityClient } from '@/lib/types';
+import { Button, type ButtonProps } from '@/components/ui/button';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/useAuth';
+import { activityToICalEvent, buildICalendar } from '@/lib/ical';
+import { CalendarPlus } from 'lucide-react';
+
+interface ExportCalendarButtonProps extends Pick<ButtonProps, 'variant' | 'size' | 'className'> {
+  // Activities to export, or a loader for exports that need extra data (e.g. a whole series)
+  activities: ActivityClient[] | (() => Promise<ActivityClient[]>);
+  fileName: string; // Without the .ics extension
+  calendarName?: string;
+  children?: React.ReactNode;
+}
+
+const toFileName = (name: string): string =>
+  name.trim().toLowerCase().replace(/[^a-z0-9äöüß]+/g, '-').replace(/^-+|-+$/g, '') || 'activities';
+
+// Downloads the given activities as an .ics file that phone and desktop calendars can import.
+export function ExportCalendarButton({ activities, fileName, calendarName, children, variant = 'outline', size = 'sm', className }: ExportCalendarButtonProps) {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const [isExporting, setIsExporting] = React.useState(false);
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      const toExport = typeof activities === 'function' ? await activities() : activities;
+      if (toExport.length === 0) {
+        toast({ title: "Nothing to Export", description: "There are no activities to add to your calendar." });
+        return;
+      }
+      const content = buildICalendar(
+        toExport.map(activity => activityToICalEvent(activity, { baseUrl: window.location.origin, viewerUid: user?.uid })),
+        { calendarName }
+      );
+      const url = URL.createObjectURL(new Blob([content], { type: 'text/calendar;charset=utf-8' }));
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `${toFileName(fileName)}.ics`;
+      document.body.appendChild(link);
+      link.click();
+      link.remove();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error("Error exporting calendar file:", error);
+      toast({ title: "Error", description: "Could not create the calendar file.", variant: "destructive" });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <Button variant={variant} size={size} className={className} onClick={handleExport} disabled={isExporting}>
+      <CalendarPlus className="mr-1 h-4 w-4" />
+      {isExporting ? 'Exporting...' : children ?? 'Add to Calendar'}
+    </Button>
+  );
+}
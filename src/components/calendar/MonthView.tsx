@@ -0,0 +1,60 @@
+// src/components/calendar/MonthView.tsx
+"use client";
+
+import React from 'react';
+import type { DayContentProps } from 'react-day-picker';
+import { de } from 'date-fns/locale';
+import { Calendar } from '@/components/ui/calendar';
+import type { ActivityClient } from '@/lib/types';
+import { toDayKey, WEEK_STARTS_ON } from '@/lib/calendar';
+
+interface MonthViewProps {
+  month: Date;
+  selectedDay: Date | null;
+  onSelectDay: (day: Date | null) => void;
+  activitiesByDay: Map<string, ActivityClient[]>;
+}
+
+const MAX_DOTS = 3;
+
+// Month grid built on the shared react-day-picker Calendar, with one dot per activity on each day.
+export function MonthView({ month, selectedDay, onSelectDay, activitiesByDay }: MonthViewProps) {
+  const DayWithDots = React.useCallback(({ date }: DayContentProps) => {
+    const count = activitiesByDay.get(toDayKey(date))?.length ?? 0;
+    return (
+      <div className="flex flex-col items-center gap-1">
+        <span>{date.getDate()}</span>
+        <span className="flex h-1.5 gap-0.5" aria-label={count > 0 ? `${count} activities` : undefined}>
+          {Array.from({ length: Math.min(count, MAX_DOTS) }).map((_, index) => (
+            <span key={index} className="h-1.5 w-1.5 rounded-full bg-primary" />
+          ))}
+        </span>
+      </div>
+    );
+  }, [activitiesByDay]);
+
+  return (
+    <Calendar
+      locale={de}
+      weekStartsOn={WEEK_STARTS_ON}
+      mode="single"
+      month={month}
+      disableNavigation // Navigation is handled by the calendar page header for all views
+      selected={selectedDay ?? undefined}
+      onSelect={(day) => onSelectDay(day ?? null)}
+      components={{ DayContent: DayWithDots }}
+      className="w-full p-0"
+      classNames={{
+        months: "w-full",
+        caption: "hidden",
+        month: "w-full space-y-4",
+        table: "w-full border-collapse",
+        head_row: "flex w-full",
+        head_cell: "text-muted-foreground rounded-md flex-1 font-normal text-[0.8rem]",
+        row: "flex w-full mt-1",
+        cell: "flex-1 h-14 text-center text-sm p-0 relative",
+        day: "h-14 w-full rounded-md p-0 font-normal hover:bg-accent hover:text-accent-foreground aria-selected:opacity-100",
+      }}
+    />
+  );
+}
@@ -0,0 +1,88 @@
+// src/components/calendar/WeekView.tsx
+"use client";
+
+import React from 'react';
+import Link from 'next/link';
+import { addDays, format, isSameDay, startOfWeek } from 'date-fns';
+import { de } from 'date-fns/locale';
+import type { ActivityClient } from '@/lib/types';
+import { cn } from '@/lib/utils';
+import { formatActivityTime, getActivityEnd, toDayKey, WEEK_STARTS_ON } from '@/lib/calendar';
+
+interface WeekViewProps {
+  weekOf: Date;
+  activitiesByDay: Map<string, ActivityClient[]>;
+  onSelectDay: (day: Date) => void;
+}
+
+const FIRST_HOUR = 6;
+const LAST_HOUR = 22;
+const HOUR_HEIGHT_PX = 48;
+
+// Minutes since FIRST_HOUR, clamped to the visible part of the day
+const minutesIntoTimeline = (date: Date): number => {
+  const minutes = (date.getHours() - FIRST_HOUR) * 60 + date.getMinutes();
+  return Math.min(Math.max(minutes, 0), (LAST_HOUR - FIRST_HOUR) * 60);
+};
+
+// Seven day columns with activities placed on an hourly timeline.
+export function WeekView({ weekOf, activitiesByDay, onSelectDay }: WeekViewProps) {
+  const weekStart = startOfWeek(weekOf, { weekStartsOn: WEEK_STARTS_ON });
+  const days = Array.from({ length: 7 }, (_, index) => addDays(weekStart, index));
+  const hours = Array.from({ length: LAST_HOUR - FIRST_HOUR }, (_, index) => FIRST_HOUR + index);
+  const today = new Date();
+
+  return (
+    <div className="overflow-x-auto">
+      <div className="grid min-w-[720px] grid-cols-[3rem_repeat(7,minmax(0,1fr))]">
+        <div />
+        {days.map(day => (
+          <button
+            key={toDayKey(day)}
+            type="button"
+            onClick={() => onSelectDay(day)}
+            className={cn(
+              "border-b p-2 text-center text-sm hover:bg-muted/50",
+              isSameDay(day, today) && "font-semibold text-primary"
+            )}
+          >
+            <div>{format(day, 'EEE', { locale: de })}</div>
+            <div>{format(day, 'd. MMM', { locale: de })}</div>
+          </button>
+        ))}
+
+        <div className="relative" style={{ height: hours.length * HOUR_HEIGHT_PX }}>
+          {hours.map(hour => (
+            <div key={hour} className="absolute right-1 text-xs text-muted-foreground" style={{ top: (hour - FIRST_HOUR) * HOUR_HEIGHT_PX }}>
+              {String(hour).padStart(2, '0')}:00
+            </div>
+          ))}
+        </div>
+        {days.map(day => (
+          <div key={toDayKey(day)} className="relative border-l" style={{ height: hours.length * HOUR_HEIGHT_PX }}>
+            {hours.map(hour => (
+              <div key={hour} className="absolute inset-x-0 border-t border-dashed border-muted" style={{ top: (hour - FIRST_HOUR) * HOUR_HEIGHT_PX }} />
+            ))}
+            {(activitiesByDay.get(toDayKey(day)) ?? []).map(activity => {
+              const start = new Date(activity.date);
+              const top = (minutesIntoTimeline(start) / 60) * HOUR_HEIGHT_PX;
+              const end = getActivityEnd(activity);
+              const height = Math.max(((minutesIntoTimeline(end) - minutesIntoTimeline(start)) / 60) * HOUR_HEIGHT_PX, 24);
+              return (
+                <Link
+                  key={activity.id}
+                  href={`/activities/details?id=${activity.id}`}
+                  className="absolute inset-x-1 overflow-hidden rounded-md bg-primary/20 px-1 py-0.5 text-xs hover:bg-primary/30"
+                  style={{ top, height }}
+                  title={activity.title}
+                >
+                  <span className="font-medium">{formatActivityTime(activity)}</span> {activity.title}
+                </Link>
+              );
+            })}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,59 @@
+// src/components/friends/FriendRequestButton.tsx
+"use client";
+
+import React from 'react';
+import type { Friend } from '@/lib/types';
+import { Button } from '@/components/ui/button';
+import { useAuth } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/use-toast';
+import { useFriendRequests, useFriends, useSendFriendRequestMutation } from '@/hooks/useFriends';
+import { UserPlus, UserCheck } from 'lucide-react';
+
+interface FriendRequestButtonProps {
+  person: Friend;
+  size?: 'sm' | 'default';
+}
+
+// "Add Friend" for parents met through an activity. Renders nothing for the user themselves and for existing friends.
+export function FriendRequestButton({ person, size = 'sm' }: FriendRequestButtonProps) {
+  const { user, userProfile } = useAuth();
+  const { toast } = useToast();
+  const { friends, isLoading: isLoadingFriends } = useFriends(user?.uid ?? null);
+  const { outgoing } = useFriendRequests(user?.uid ?? null);
+  const sendMutation = useSendFriendRequestMutation();
+
+  if (!user || !userProfile || isLoadingFriends || person.uid === user.uid || friends.some(f => f.uid === person.uid)) {
+    return null;
+  }
+  const isPending = outgoing.some(request => request.toUid === person.uid && request.status === 'pending');
+
+  const handleClick = async () => {
+    try {
+      const status = await sendMutation.mutateAsync({
+        from: { uid: user.uid, displayName: userProfile.displayName ?? user.displayName, photoURL: userProfile.photoURL ?? user.photoURL },
+        to: person,
+      });
+      toast(status === 'accepted'
+        ? { title: "Friend Added!", description: `${person.displayName || 'This parent'} had already asked to connect with you.` }
+        : { title: "Friend Request Sent", description: `${person.displayName || 'The parent'} can accept it on their friends page.` });
+    } catch (error) {
+      console.error("Error sending friend request:", error);
+      // Failures with a reason carry it as `code` (see friendError in services.ts)
+      const isAlreadyFriends = error instanceof Error && (error as Error & { code?: string }).code === 'already-friends';
+      toast({ title: "Error", description: isAlreadyFriends ? error.message : "Could not send the friend request.", variant: "destructive" });
+    }
+  };
+
+  if (isPending) {
+    return (
+      <Button size={size} variant="outline" disabled>
+        <UserCheck className="mr-1 h-4 w-4" /> Request Sent
+      </Button>
+    );
+  }
+  return (
+    <Button size={size} variant="outline" onClick={handleClick} disabled={sendMutation.isPending}>
+      <UserPlus className="mr-1 h-4 w-4" /> {sendMutation.isPending ? 'Sending...' : 'Add Friend'}
+    </Button>
+  );
+}
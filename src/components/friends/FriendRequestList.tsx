@@ -0,0 +1,119 @@
+// src/components/friends/FriendRequestList.tsx
+"use client";
+
+import React from 'react';
+import type { FriendRequestClient } from '@/lib/types';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/hooks/use-toast';
+import { useCancelFriendRequestMutation, useRespondToFriendRequestMutation } from '@/hooks/useFriends';
+import { Check, X } from 'lucide-react';
+
+interface FriendRequestListProps {
+  incoming: FriendRequestClient[];
+  outgoing: FriendRequestClient[];
+}
+
+const getInitials = (name: string | null | undefined) => {
+  if (!name) return '?';
+  const names = name.split(' ');
+  if (names.length > 1) {
+    return names[0][0] + names[names.length - 1][0];
+  }
+  return name[0];
+};
+
+function RequestRow({ name, photoURL, children }: { name: string | null; photoURL: string | null; children: React.ReactNode }) {
+  return (
+    <div className="flex flex-wrap items-center justify-between gap-3 p-3 rounded-lg border">
+      <div className="flex items-center gap-3">
+        <Avatar className="h-10 w-10 border">
+          <AvatarImage src={photoURL ?? undefined} alt={name ?? 'Parent'} />
+          <AvatarFallback>{getInitials(name)}</AvatarFallback>
+        </Avatar>
+        <span className="font-medium">{name ?? 'Parent'}</span>
+      </div>
+      <div className="flex items-center gap-2">{children}</div>
+    </div>
+  );
+}
+
+// Incoming requests can be accepted or declined; pending outgoing ones can be withdrawn.
+export function FriendRequestList({ incoming, outgoing }: FriendRequestListProps) {
+  const { toast } = useToast();
+  const respondMutation = useRespondToFriendRequestMutation();
+  const cancelMutation = useCancelFriendRequestMutation();
+  const [busyId, setBusyId] = React.useState<string | null>(null);
+
+  const handleRespond = async (request: FriendRequestClient, response: 'accepted' | 'declined') => {
+    setBusyId(request.id);
+    try {
+      await respondMutation.mutateAsync({ request, response });
+      toast(response === 'accepted'
+        ? { title: "Friend Added!", description: `You are now connected with ${request.fromName || 'your friend'}.` }
+        : { title: "Request Declined", description: `${request.fromName || 'The sender'} will see that you declined.` });
+    } catch (error) {
+      console.error("Error responding to friend request:", error);
+      toast({ title: "Error", description: "Could not answer the friend request.", variant: "destructive" });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleCancel = async (request: FriendRequestClient) => {
+    setBusyId(request.id);
+    try {
+      await cancelMutation.mutateAsync(request);
+      toast({ title: "Request Withdrawn", description: `Your friend request to ${request.toName || 'this parent'} was cancelled.` });
+    } catch (error) {
+      console.error("Error cancelling friend request:", error);
+      toast({ title: "Error", description: "Could not cancel the friend request.", variant: "destructive" });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  if (incoming.length === 0 && outgoing.length === 0) {
+    return <p className="text-sm text-muted-foreground text-center py-4">No open friend requests.</p>;
+  }
+
+  return (
+    <div className="space-y-6">
+      {incoming.length > 0 && (
+        <div className="space-y-3">
+          <h3 className="text-sm font-semibold text-muted-foreground">Received</h3>
+          {incoming.map(request => (
+            <RequestRow key={request.id} name={request.fromName} photoURL={request.fromPhotoURL}>
+              <Button size="sm" onClick={() => handleRespond(request, 'accepted')} disabled={busyId === request.id}>
+                <Check className="mr-1 h-4 w-4" /> Accept
+              </Button>
+              <Button size="sm" variant="outline" onClick={() => handleRespond(request, 'declined')} disabled={busyId === request.id}>
+                <X className="mr-1 h-4 w-4" /> Decline
+              </Button>
+            </RequestRow>
+          ))}
+        </div>
+      )}
+      {outgoing.length > 0 && (
+        <div className="space-y-3">
+          <h3 className="text-sm font-semibold text-muted-foreground">Sent</h3>
+          {outgoing.map(request => (
+            <RequestRow key={request.id} name={request.toName} photoURL={request.toPhotoURL}>
+              {request.status === 'declined' ? (
+                <Badge variant="secondary">Declined</Badge>
+              ) : (
+                <>
+                  <Badge variant="outline">Pending</Badge>
+                  <Button size="sm" variant="ghost" onClick={() => handleCancel(request)} disabled={busyId === request.id}>
+                    Cancel
+                  </Button>
+                </>
+              )}
+            </RequestRow>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
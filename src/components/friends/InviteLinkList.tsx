@@ -0,0 +1,145 @@
+// src/components/friends/InviteLinkList.tsx
+"use client";
+
+import React from 'react';
+import { format } from 'date-fns';
+import { de } from 'date-fns/locale';
+import type { InvitationClient, InvitationState } from '@/lib/types';
+import { getInvitationState } from '@/lib/firebase/services';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
+import { Trash2, UserPlus, UsersRound } from 'lucide-react';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+
+interface InviteLinkListProps {
+  inviteLinks: InvitationClient[];
+  onRevoke: (link: InvitationClient) => void;
+  revokingId?: string | null;
+}
+
+const getInitials = (name: string | null | undefined) => {
+  if (!name) return '?';
+  const names = name.split(' ');
+  if (names.length > 1) {
+    return names[0][0] + names[names.length - 1][0];
+  }
+  return name[0];
+};
+
+const STATE_BADGES: Record<InvitationState, { label: string; variant: 'default' | 'secondary' | 'outline' }> = {
+  active: { label: 'Active', variant: 'default' },
+  'used-up': { label: 'Used up', variant: 'secondary' },
+  expired: { label: 'Expired', variant: 'outline' },
+};
+
+const describeUsage = (link: InvitationClient) =>
+  link.maxUses == null
+    ? `Used ${link.useCount} ${link.useCount === 1 ? 'time' : 'times'}, no limit`
+    : `Used ${link.useCount} of ${link.maxUses} ${link.maxUses === 1 ? 'time' : 'times'}`;
+
+// The user's invite links with usage, expiry and who accepted them. Active links are listed first.
+// Only a hash of each code is stored, so the links themselves cannot be shown again here.
+export function InviteLinkList({ inviteLinks, onRevoke, revokingId }: InviteLinkListProps) {
+  if (inviteLinks.length === 0) {
+    return <p className="text-sm text-muted-foreground text-center py-4">You have not created any invite links yet.</p>;
+  }
+
+  const sortedLinks = [...inviteLinks].sort((a, b) =>
+    Number(getInvitationState(a) !== 'active') - Number(getInvitationState(b) !== 'active')
+  );
+
+  return (
+    <TooltipProvider>
+      <div className="space-y-3">
+        {sortedLinks.map(link => {
+          const state = getInvitationState(link);
+          const redemptions = Object.values(link.redemptions)
+            .sort((a, b) => new Date(a.redeemedAt).getTime() - new Date(b.redeemedAt).getTime());
+          return (
+            <div key={link.id} className="p-3 rounded-lg border space-y-2">
+              <div className="flex flex-wrap items-center gap-2">
+                {link.groupId ? (
+                  <span className="flex items-center gap-1 text-sm font-semibold"><UsersRound className="h-4 w-4" /> {link.groupName ?? 'Group'} invite</span>
+                ) : (
+                  <span className="flex items-center gap-1 text-sm font-semibold"><UserPlus className="h-4 w-4" /> Friend invite</span>
+                )}
+                <Badge variant={STATE_BADGES[state].variant}>{STATE_BADGES[state].label}</Badge>
+                <div className="ml-auto flex items-center gap-1">
+                  <AlertDialog>
+                    <AlertDialogTrigger asChild>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="text-destructive hover:bg-destructive/10"
+                        disabled={revokingId === link.id}
+                        aria-label={state === 'active' ? 'Revoke invite link' : 'Remove invite link'}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </AlertDialogTrigger>
+                    <AlertDialogContent>
+                      <AlertDialogHeader>
+                        <AlertDialogTitle>{state === 'active' ? 'Revoke Invite Link?' : 'Remove Invite Link?'}</AlertDialogTitle>
+                        <AlertDialogDescription>
+                          {state === 'active'
+                            ? 'Nobody will be able to use this link anymore. People who already accepted it stay connected.'
+                            : 'The link and the list of people who used it will be removed.'}
+                        </AlertDialogDescription>
+                      </AlertDialogHeader>
+                      <AlertDialogFooter>
+                        <AlertDialogCancel>Cancel</AlertDialogCancel>
+                        <AlertDialogAction
+                          onClick={() => onRevoke(link)}
+                          className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                        >
+                          {state === 'active' ? 'Revoke Link' : 'Remove Link'}
+                        </AlertDialogAction>
+                      </AlertDialogFooter>
+                    </AlertDialogContent>
+                  </AlertDialog>
+                </div>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Created {format(new Date(link.createdAt), "PP", { locale: de })}
+                {link.expiresAt && ` · ${state === 'expired' ? 'Expired' : 'Expires'} ${format(new Date(link.expiresAt), "PP", { locale: de })}`}
+                {` · ${describeUsage(link)}`}
+              </p>
+              {redemptions.length > 0 && (
+                <div className="flex items-center gap-2">
+                  <span className="text-xs text-muted-foreground">Accepted by</span>
+                  <div className="flex -space-x-2 overflow-hidden">
+                    {redemptions.map(redemption => (
+                      <Tooltip key={redemption.uid}>
+                        <TooltipTrigger asChild>
+                          <Avatar className="inline-block h-6 w-6 rounded-full ring-2 ring-background">
+                            <AvatarImage src={redemption.photoURL ?? undefined} alt={redemption.displayName ?? 'Parent'} />
+                            <AvatarFallback className="text-[10px]">{getInitials(redemption.displayName)}</AvatarFallback>
+                          </Avatar>
+                        </TooltipTrigger>
+                        <TooltipContent>
+                          <p>{redemption.displayName ?? 'Parent'} · {format(new Date(redemption.redeemedAt), "PP", { locale: de })}</p>
+                        </TooltipContent>
+                      </Tooltip>
+                    ))}
+                  </div>
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </TooltipProvider>
+  );
+}
@@ -0,0 +1,45 @@
+// src/components/friends/InviteQrCode.tsx
+"use client";
+
+import React, { useMemo } from 'react';
+import { encodeQrCode } from '@/lib/qrcode';
+
+interface InviteQrCodeProps {
+  value: string;
+  size?: number; // Rendered width and height in pixels
+}
+
+const QUIET_ZONE_MODULES = 4;
+
+// Invite link as a QR code, drawn as a single SVG path so it stays sharp at any size and works offline.
+export function InviteQrCode({ value, size = 224 }: InviteQrCodeProps) {
+  const qrCode = useMemo(() => encodeQrCode(value, 'M'), [value]);
+
+  const path = useMemo(() => {
+    const segments: string[] = [];
+    qrCode.modules.forEach((row, y) => {
+      row.forEach((dark, x) => {
+        if (dark) segments.push(`M${x + QUIET_ZONE_MODULES} ${y + QUIET_ZONE_MODULES}h1v1h-1z`);
+      });
+    });
+    return segments.join('');
+  }, [qrCode]);
+
+  const viewBoxSize = qrCode.size + QUIET_ZONE_MODULES * 2;
+
+  return (
+    <svg
+      role="img"
+      aria-label="Invite link QR code"
+      width={size}
+      height={size}
+      viewBox={`0 0 ${viewBoxSize} ${viewBoxSize}`}
+      shapeRendering="crispEdges"
+      className="rounded-md border"
+    >
+      {/* Fixed colors: scanners need dark modules on a light background, also in dark mode */}
+      <rect width={viewBoxSize} height={viewBoxSize} fill="#ffffff" />
+      <path d={path} fill="#000000" />
+    </svg>
+  );
+}
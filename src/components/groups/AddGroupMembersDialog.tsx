@@ -0,0 +1,77 @@
+// src/components/groups/AddGroupMembersDialog.tsx
+"use client";
+
+import React from 'react';
+import type { Friend } from '@/lib/types';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+
+interface AddGroupMembersDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  groupName: string;
+  candidates: Friend[]; // Friends who are not in the group yet
+  onConfirm: (selected: Friend[]) => void;
+  isSubmitting?: boolean;
+}
+
+// Lets a group admin add several friends to the group at once.
+export function AddGroupMembersDialog({ open, onOpenChange, groupName, candidates, onConfirm, isSubmitting }: AddGroupMembersDialogProps) {
+  const [selectedIds, setSelectedIds] = React.useState<string[]>([]);
+
+  React.useEffect(() => {
+    if (open) {
+      setSelectedIds([]);
+    }
+  }, [open]);
+
+  const toggleFriend = (uid: string, checked: boolean) => {
+    setSelectedIds(prev => checked ? [...prev, uid] : prev.filter(id => id !== uid));
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Add Members</DialogTitle>
+          <DialogDescription>Choose friends to add to &quot;{groupName}&quot;. Others can join with a group invite link.</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-3 py-2 max-h-72 overflow-y-auto">
+          {candidates.length === 0 ? (
+            <p className="text-sm text-muted-foreground">All your friends are already in this group.</p>
+          ) : candidates.map(friend => (
+            <div key={friend.uid} className="flex items-center gap-3">
+              <Checkbox
+                id={`member-${friend.uid}`}
+                checked={selectedIds.includes(friend.uid)}
+                onCheckedChange={(checked) => toggleFriend(friend.uid, checked === true)}
+                disabled={isSubmitting}
+              />
+              <Label htmlFor={`member-${friend.uid}`} className="font-normal">{friend.displayName ?? 'Friend'}</Label>
+            </div>
+          ))}
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSubmitting}>Cancel</Button>
+          <Button
+            onClick={() => onConfirm(candidates.filter(friend => selectedIds.includes(friend.uid)))}
+            disabled={isSubmitting || selectedIds.length === 0}
+          >
+            {isSubmitting
+              ? 'Adding...'
+              : selectedIds.length === 0 ? 'Add Members' : `Add ${selectedIds.length} ${selectedIds.length === 1 ? 'Member' : 'Members'}`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,291 @@
+// src/components/groups/GroupCard.tsx
+"use client";
+
+import React from 'react';
+import type { Friend, GroupClient, GroupMember } from '@/lib/types';
+import { generateInviteCode, isGroupAdmin } from '@/lib/firebase/services';
+import {
+  useAddGroupMembersMutation,
+  useDeleteGroupMutation,
+  useRemoveGroupMemberMutation,
+  useSetGroupAdminMutation,
+  useUpdateGroupMutation,
+} from '@/hooks/useGroups';
+import { useToast } from '@/hooks/use-toast';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { Copy, Crown, FilePenLine, Link as LinkIcon, LogOut, MoreVertical, ShieldCheck, Trash2, UserPlus } from 'lucide-react';
+import { GroupFormDialog, type GroupFormValues } from './GroupFormDialog';
+import { AddGroupMembersDialog } from './AddGroupMembersDialog';
+
+interface GroupCardProps {
+  group: GroupClient;
+  currentUser: Friend;
+  friends: Friend[];
+}
+
+const getInitials = (name: string | null | undefined) => {
+  if (!name) return '?';
+  const names = name.split(' ');
+  if (names.length > 1) {
+    return names[0][0] + names[names.length - 1][0];
+  }
+  return name[0];
+};
+
+// Owner first, then co-admins, then everyone else by name
+const sortMembers = (group: GroupClient): GroupMember[] => {
+  const rank = (member: GroupMember) => member.uid === group.ownerId ? 0 : group.adminIds.includes(member.uid) ? 1 : 2;
+  return Object.values(group.members).sort((a, b) => rank(a) - rank(b) || (a.displayName ?? '').localeCompare(b.displayName ?? ''));
+};
+
+export function GroupCard({ group, currentUser, friends }: GroupCardProps) {
+  const { toast } = useToast();
+  const updateMutation = useUpdateGroupMutation();
+  const addMembersMutation = useAddGroupMembersMutation();
+  const removeMemberMutation = useRemoveGroupMemberMutation();
+  const setAdminMutation = useSetGroupAdminMutation();
+  const deleteMutation = useDeleteGroupMutation();
+  const [isEditOpen, setIsEditOpen] = React.useState(false);
+  const [isAddOpen, setIsAddOpen] = React.useState(false);
+  const [inviteLink, setInviteLink] = React.useState<string | null>(null);
+  const [isGeneratingInvite, setIsGeneratingInvite] = React.useState(false);
+
+  const isOwner = group.ownerId === currentUser.uid;
+  const isAdmin = isGroupAdmin(group, currentUser.uid);
+  const members = sortMembers(group);
+  const addCandidates = friends.filter(friend => !group.memberIds.includes(friend.uid));
+
+  const handleUpdate = async (values: GroupFormValues) => {
+    try {
+      await updateMutation.mutateAsync({ groupId: group.id, ...values });
+      toast({ title: "Group Updated", description: `"${values.name}" has been saved.` });
+      setIsEditOpen(false);
+    } catch (error) {
+      console.error("Error updating group:", error);
+      toast({ title: "Error", description: "Could not update the group.", variant: "destructive" });
+    }
+  };
+
+  const handleAddMembers = async (people: Friend[]) => {
+    try {
+      await addMembersMutation.mutateAsync({ groupId: group.id, people });
+      toast({ title: "Members Added", description: `${people.length} ${people.length === 1 ? 'friend was' : 'friends were'} added to "${group.name}".` });
+      setIsAddOpen(false);
+    } catch (error) {
+      console.error("Error adding group members:", error);
+      toast({ title: "Error", description: "Could not add the members.", variant: "destructive" });
+    }
+  };
+
+  const handleRemoveMember = async (member: GroupMember) => {
+    const isLeaving = member.uid === currentUser.uid;
+    try {
+      await removeMemberMutation.mutateAsync({ groupId: group.id, uid: member.uid, currentUserId: currentUser.uid });
+      toast(isLeaving
+        ? { title: "Group Left", description: `You are no longer a member of "${group.name}".` }
+        : { title: "Member Removed", description: `${member.displayName ?? 'The member'} was removed from "${group.name}".` });
+    } catch (error) {
+      console.error("Error removing group member:", error);
+      toast({ title: "Error", description: isLeaving ? "Could not leave the group." : "Could not remove the member.", variant: "destructive" });
+    }
+  };
+
+  const handleSetAdmin = async (member: GroupMember, makeAdmin: boolean) => {
+    try {
+      await setAdminMutation.mutateAsync({ groupId: group.id, uid: member.uid, isAdmin: makeAdmin });
+      toast({
+        title: makeAdmin ? "Co-Admin Added" : "Co-Admin Removed",
+        description: makeAdmin
+          ? `${member.displayName ?? 'The member'} can now manage "${group.name}".`
+          : `${member.displayName ?? 'The member'} can no longer manage "${group.name}".`,
+      });
+    } catch (error) {
+      console.error("Error changing group admins:", error);
+      toast({ title: "Error", description: "Could not change the co-admins.", variant: "destructive" });
+    }
+  };
+
+  const handleDelete = async () => {
+    try {
+      await deleteMutation.mutateAsync({ groupId: group.id });
+      toast({ title: "Group Deleted", description: `"${group.name}" has been deleted.` });
+    } catch (error) {
+      console.error("Error deleting group:", error);
+      toast({ title: "Error", description: "Could not delete the group.", variant: "destructive" });
+    }
+  };
+
+  const handleGenerateInvite = async () => {
+    setIsGeneratingInvite(true);
+    try {
+      const { code } = await generateInviteCode(currentUser.uid, currentUser.displayName, { group, maxUses: null });
+      setInviteLink(`${window.location.origin}/invite?code=${code}`);
+      toast({ title: "Group Invite Link Generated!", description: "Anyone with this link can join the group for 7 days." });
+    } catch (error) {
+      console.error("Error generating group invite:", error);
+      toast({ title: "Error", description: "Could not generate an invite link.", variant: "destructive" });
+    } finally {
+      setIsGeneratingInvite(false);
+    }
+  };
+
+  const handleCopyInvite = () => {
+    if (!inviteLink) return;
+    navigator.clipboard.writeText(inviteLink)
+      .then(() => {
+        toast({ title: "Invite Link Copied!", description: "Link ready to be shared." });
+      })
+      .catch(err => {
+        console.error('Failed to copy group invite link: ', err);
+        toast({ title: "Copy Failed", description: "Could not copy the link automatically.", variant: "destructive" });
+      });
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle className="flex items-center gap-2">
+            {group.name}
+            {isOwner ? <Badge variant="secondary">Owner</Badge> : isAdmin && <Badge variant="secondary">Co-Admin</Badge>}
+          </CardTitle>
+          <CardDescription>
+            {group.description ? `${group.description} · ` : ''}{group.memberIds.length} {group.memberIds.length === 1 ? 'member' : 'members'}
+          </CardDescription>
+        </div>
+        {isAdmin && (
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" onClick={() => setIsAddOpen(true)}>
+              <UserPlus className="mr-1 h-4 w-4" /> Add
+            </Button>
+            <Button variant="ghost" size="icon" onClick={() => setIsEditOpen(true)} aria-label={`Edit ${group.name}`}>
+              <FilePenLine className="h-4 w-4" />
+            </Button>
+          </div>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          {members.map(member => {
+            const memberIsOwner = member.uid === group.ownerId;
+            const memberIsAdmin = group.adminIds.includes(member.uid);
+            // Admins manage ordinary members; only the owner manages co-admins
+            const canManage = member.uid !== currentUser.uid && !memberIsOwner && (isOwner || (isAdmin && !memberIsAdmin));
+            return (
+              <div key={member.uid} className="flex items-center justify-between gap-3 p-2 rounded-md hover:bg-muted/50">
+                <div className="flex items-center gap-3">
+                  <Avatar className="h-8 w-8 border">
+                    <AvatarImage src={member.photoURL ?? undefined} alt={member.displayName ?? 'Member'} />
+                    <AvatarFallback>{getInitials(member.displayName)}</AvatarFallback>
+                  </Avatar>
+                  <span className="text-sm font-medium">
+                    {member.uid === currentUser.uid ? 'You' : member.displayName ?? 'Member'}
+                  </span>
+                  {memberIsOwner && <Crown className="h-4 w-4 text-muted-foreground" aria-label="Owner" />}
+                  {memberIsAdmin && <ShieldCheck className="h-4 w-4 text-muted-foreground" aria-label="Co-admin" />}
+                </div>
+                {canManage && (
+                  <DropdownMenu>
+                    <DropdownMenuTrigger asChild>
+                      <Button variant="ghost" size="icon" className="h-8 w-8" aria-label={`Manage ${member.displayName ?? 'member'}`}>
+                        <MoreVertical className="h-4 w-4" />
+                      </Button>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent align="end">
+                      {isOwner && (
+                        <DropdownMenuItem onClick={() => handleSetAdmin(member, !memberIsAdmin)}>
+                          {memberIsAdmin ? 'Remove as Co-Admin' : 'Make Co-Admin'}
+                        </DropdownMenuItem>
+                      )}
+                      <DropdownMenuItem onClick={() => handleRemoveMember(member)} className="text-destructive focus:text-destructive">
+                        Remove from Group
+                      </DropdownMenuItem>
+                    </DropdownMenuContent>
+                  </DropdownMenu>
+                )}
+              </div>
+            );
+          })}
+        </div>
+
+        {isAdmin && (
+          <div className="flex flex-col sm:flex-row items-center gap-2 pt-2 border-t">
+            {inviteLink ? (
+              <>
+                <Input value={inviteLink} readOnly className="flex-1" aria-label="Group invite link" />
+                <Button onClick={handleCopyInvite} variant="outline" size="icon" aria-label="Copy group invite link">
+                  <Copy className="h-4 w-4" />
+                </Button>
+              </>
+            ) : (
+              <p className="text-sm text-muted-foreground flex-1">Invite parents who are not your friends yet with a group link.</p>
+            )}
+            <Button variant="secondary" size="sm" onClick={handleGenerateInvite} disabled={isGeneratingInvite} className="w-full sm:w-auto">
+              <LinkIcon className="mr-1 h-4 w-4" /> {isGeneratingInvite ? 'Generating...' : 'Invite Link'}
+            </Button>
+          </div>
+        )}
+      </CardContent>
+      <CardFooter className="flex justify-end">
+        {isOwner ? (
+          <AlertDialog>
+            <AlertDialogTrigger asChild>
+              <Button variant="ghost" size="sm" className="text-destructive hover:text-destructive" disabled={deleteMutation.isPending}>
+                <Trash2 className="mr-1 h-4 w-4" /> Delete Group
+              </Button>
+            </AlertDialogTrigger>
+            <AlertDialogContent>
+              <AlertDialogHeader>
+                <AlertDialogTitle>Delete &quot;{group.name}&quot;?</AlertDialogTitle>
+                <AlertDialogDescription>
+                  The group is removed for all members. Friendships are not affected. This cannot be undone.
+                </AlertDialogDescription>
+              </AlertDialogHeader>
+              <AlertDialogFooter>
+                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                <AlertDialogAction onClick={handleDelete} className="bg-destructive text-destructive-foreground hover:bg-destructive/90">
+                  Delete Group
+                </AlertDialogAction>
+              </AlertDialogFooter>
+            </AlertDialogContent>
+          </AlertDialog>
+        ) : (
+          <Button variant="ghost" size="sm" onClick={() => handleRemoveMember(group.members[currentUser.uid] ?? { ...currentUser })}>
+            <LogOut className="mr-1 h-4 w-4" /> Leave Group
+          </Button>
+        )}
+      </CardFooter>
+
+      <GroupFormDialog open={isEditOpen} onOpenChange={setIsEditOpen} group={group} onSubmit={handleUpdate} />
+      <AddGroupMembersDialog
+        open={isAddOpen}
+        onOpenChange={setIsAddOpen}
+        groupName={group.name}
+        candidates={addCandidates}
+        onConfirm={handleAddMembers}
+        isSubmitting={addMembersMutation.isPending}
+      />
+    </Card>
+  );
+}
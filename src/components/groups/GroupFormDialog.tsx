@@ -0,0 +1,106 @@
+// src/components/groups/GroupFormDialog.tsx
+"use client";
+
+import React from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import * as z from 'zod';
+import type { GroupClient } from '@/lib/types';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+
+const MAX_NAME_LENGTH = 60;
+const MAX_DESCRIPTION_LENGTH = 200;
+
+const formSchema = z.object({
+  name: z.string().trim().min(2, { message: "Name must be at least 2 characters." }).max(MAX_NAME_LENGTH, { message: `Name must be at most ${MAX_NAME_LENGTH} characters.` }),
+  description: z.string().trim().max(MAX_DESCRIPTION_LENGTH, { message: `Description must be at most ${MAX_DESCRIPTION_LENGTH} characters.` }).optional(),
+});
+
+export type GroupFormValues = { name: string; description: string | null };
+
+interface GroupFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  group?: GroupClient | null; // Edit mode when given
+  onSubmit: (values: GroupFormValues) => Promise<void>;
+}
+
+// Name and description of a new or existing group
+export function GroupFormDialog({ open, onOpenChange, group, onSubmit }: GroupFormDialogProps) {
+  const form = useForm<z.infer<typeof formSchema>>({
+    resolver: zodResolver(formSchema),
+    defaultValues: { name: '', description: '' },
+  });
+
+  React.useEffect(() => {
+    if (open) {
+      form.reset({ name: group?.name ?? '', description: group?.description ?? '' });
+    }
+  }, [open, group, form]);
+
+  const handleSubmit = async (values: z.infer<typeof formSchema>) => {
+    await onSubmit({ name: values.name, description: values.description ? values.description : null });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{group ? 'Edit Group' : 'New Group'}</DialogTitle>
+          <DialogDescription>
+            {group ? 'Change how the group is shown to its members.' : 'Groups such as "Kindergarten Sunflowers" or "Football parents" keep your contacts apart.'}
+          </DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Name</FormLabel>
+                  <FormControl>
+                    <Input placeholder="e.g. Kindergarten Sunflowers" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="description"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Description (optional)</FormLabel>
+                  <FormControl>
+                    <Textarea placeholder="Who is in this group?" rows={3} {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={form.formState.isSubmitting}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={form.formState.isSubmitting}>
+                {form.formState.isSubmitting ? 'Saving...' : group ? 'Save Changes' : 'Create Group'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -12,11 +12,16 @@ import {
   SidebarMenu,
   SidebarMenuItem,
   SidebarMenuButton,
+  SidebarMenuBadge,
   // SidebarTrigger // You might need this if you want a trigger inside the sidebar itself - Removed as unused
 } from "@/components/ui/sidebar";
 // import { Button } from '@/components/ui/button'; // Removed as unused
-import { Mountain, LayoutDashboard, User, CalendarPlus, Users, LogOut } from 'lucide-react'; // Removed Settings
-// import { useAuth } from '@/hooks/useAuth'; // Corrected import path - Removed as unused
+import { Mountain, LayoutDashboard, User, CalendarPlus, CalendarDays, Inbox, Users, UsersRound, LogOut, Vote } from 'lucide-react'; // Removed Settings
+import { useAuth } from '@/hooks/useAuth';
+import { useFriendRequests } from '@/hooks/useFriends';
+import { useActivityInvites } from '@/hooks/useActivities';
+import { usePolls } from '@/hooks/usePolls';
+import { isAwaitingVote } from '@/lib/polls';
 import { handleSignOut } from '@/lib/firebase/services';
 import { useRouter } from 'next/navigation';
 
@@ -24,6 +29,13 @@ import { useRouter } from 'next/navigation';
 export function AppSidebar() {
     const pathname = usePathname();
     const router = useRouter();
+    const { user } = useAuth();
+    // Mounted on every app page, so accepted requests are completed wherever the sender is
+    const { incoming } = useFriendRequests(user?.uid ?? null);
+    const { activities: invites } = useActivityInvites(user?.uid ?? null);
+    const openInviteCount = invites.filter(activity => activity.invitees[user?.uid ?? '']?.status === 'pending').length;
+    const { polls } = usePolls(user?.uid ?? null);
+    const awaitingVoteCount = user ? polls.filter(poll => isAwaitingVote(poll, user.uid)).length : 0;
 
     const isActive = (path: string) => pathname === path;
 
@@ -69,6 +81,44 @@ export function AppSidebar() {
                             <span className="group-data-[collapsible=icon]:hidden">Dashboard</span>
                         </Link>
                     </SidebarMenuButton>
+                </SidebarMenuItem>
+                <SidebarMenuItem>
+                     <SidebarMenuButton
+                        asChild
+                        isActive={isActive('/calendar')}
+                        tooltip={{children: "Calendar", side: "right", align: "center"}}
+                    >
+                        <Link href="/calendar">
+                            <CalendarDays />
+                            <span className="group-data-[collapsible=icon]:hidden">Calendar</span>
+                        </Link>
+                    </SidebarMenuButton>
+                </SidebarMenuItem>
+                <SidebarMenuItem>
+                     <SidebarMenuButton
+                        asChild
+                        isActive={isActive('/inbox')}
+                        tooltip={{children: "Inbox", side: "right", align: "center"}}
+                    >
+                        <Link href="/inbox">
+                            <Inbox />
+                            <span className="group-data-[collapsible=icon]:hidden">Inbox</span>
+                        </Link>
+                    </SidebarMenuButton>
+                    {openInviteCount > 0 && <SidebarMenuBadge>{openInviteCount}</SidebarMenuBadge>}
+                </SidebarMenuItem>
+                <SidebarMenuItem>
+                     <SidebarMenuButton
+                        asChild
+                        isActive={pathname.startsWith('/polls')}
+                        tooltip={{children: "Date Polls", side: "right", align: "center"}}
+                    >
+                        <Link href="/polls">
+                            <Vote />
+                            <span className="group-data-[collapsible=icon]:hidden">Date Polls</span>
+                        </Link>
+                    </SidebarMenuButton>
+                    {awaitingVoteCount > 0 && <SidebarMenuBadge>{awaitingVoteCount}</SidebarMenuBadge>}
                 </SidebarMenuItem>
                  <SidebarMenuItem>
                     <SidebarMenuButton
@@ -93,6 +143,19 @@ export function AppSidebar() {
                             <span className="group-data-[collapsible=icon]:hidden">Friends</span>
                         </Link>
                     </SidebarMenuButton>
+                    {incoming.length > 0 && <SidebarMenuBadge>{incoming.length}</SidebarMenuBadge>}
+                 </SidebarMenuItem>
+                 <SidebarMenuItem>
+                     <SidebarMenuButton
+                        asChild
+                        isActive={isActive('/groups')}
+                        tooltip={{children: "Groups", side: "right", align: "center"}}
+                    >
+                        <Link href="/groups">
+                            <UsersRound />
+                            <span className="group-data-[collapsible=icon]:hidden">Groups</span>
+                        </Link>
+                    </SidebarMenuButton>
                  </SidebarMenuItem>
                  <SidebarMenuItem>
                     <SidebarMenuButton
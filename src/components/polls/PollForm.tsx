@@ -0,0 +1,320 @@
+// src/components/polls/PollForm.tsx
+"use client";
+
+import React from 'react';
+import { useFieldArray, useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import * as z from 'zod';
+import { useRouter } from 'next/navigation';
+import { Timestamp } from 'firebase/firestore';
+import { format, setHours, setMilliseconds, setMinutes, setSeconds } from 'date-fns';
+import { de } from 'date-fns/locale';
+import { v4 as uuidv4 } from 'uuid';
+
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Calendar } from '@/components/ui/calendar';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/useAuth';
+import { useFriends } from '@/hooks/useFriends';
+import { useCreatePollMutation } from '@/hooks/usePolls';
+import { Calendar as CalendarIcon, Plus, Trash2 } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { MAX_DESCRIPTION_LENGTH } from '@/lib/activityDetails';
+import { MAX_POLL_INVITEES, MAX_POLL_SLOTS, MIN_POLL_SLOTS } from '@/lib/polls';
+import type { CreatePollData, PollInvitee, PollSlot } from '@/lib/types';
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+
+// "HH:mm" as minutes since midnight
+const toMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+const slotSchema = z.object({
+  id: z.string(),
+  date: z.date({ required_error: "A date is required." }),
+  time: z.string().regex(TIME_PATTERN, { message: "Invalid time format (HH:mm)." }),
+  endTime: z.string().regex(/^(([01]\d|2[0-3]):([0-5]\d))?$/, { message: "Invalid time format (HH:mm)." }),
+}).superRefine((slot, ctx) => {
+  if (slot.endTime && toMinutes(slot.endTime) <= toMinutes(slot.time)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['endTime'], message: "Must be after the start time." });
+  }
+});
+
+type SlotFormData = z.infer<typeof slotSchema>;
+
+// The slot's day at its start time
+const toStartDate = (slot: SlotFormData): Date => {
+  const [hours, minutes] = slot.time.split(':').map(Number);
+  return setMilliseconds(setSeconds(setMinutes(setHours(slot.date, hours), minutes), 0), 0);
+};
+
+const formSchema = z.object({
+  title: z.string().min(3, { message: "Title must be at least 3 characters." }).max(100),
+  location: z.string().max(100).optional(),
+  description: z.string().max(MAX_DESCRIPTION_LENGTH, { message: `Keep the description under ${MAX_DESCRIPTION_LENGTH} characters.` }).optional(),
+  slots: z.array(slotSchema)
+    .min(MIN_POLL_SLOTS, { message: `Propose at least ${MIN_POLL_SLOTS} dates.` })
+    .max(MAX_POLL_SLOTS),
+  inviteeIds: z.array(z.string())
+    .min(1, { message: "Pick at least one friend to ask." })
+    .max(MAX_POLL_INVITEES, { message: `You can ask up to ${MAX_POLL_INVITEES} friends.` }),
+}).superRefine((values, ctx) => {
+  const starts = values.slots.map(slot => (TIME_PATTERN.test(slot.time) ? toStartDate(slot).getTime() : null));
+  starts.forEach((start, index) => {
+    if (start !== null && starts.indexOf(start) !== index) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['slots', index, 'time'], message: "This date and time is already proposed." });
+    }
+  });
+});
+
+type PollFormData = z.infer<typeof formSchema>;
+
+const newSlot = (): SlotFormData => ({ id: uuidv4(), date: new Date(), time: '15:00', endTime: '' });
+
+// Proposes several dates for an activity and asks friends which of them suit them
+export function PollForm() {
+  const router = useRouter();
+  const { user, userProfile } = useAuth();
+  const { toast } = useToast();
+  const { friends } = useFriends(user?.uid ?? null);
+  const createPollMutation = useCreatePollMutation();
+  const [isLoading, setIsLoading] = React.useState(false);
+
+  const form = useForm<PollFormData>({
+    resolver: zodResolver(formSchema),
+    defaultValues: {
+      title: "",
+      location: "",
+      description: "",
+      slots: [newSlot(), newSlot()],
+      inviteeIds: [],
+    },
+  });
+  const { fields: slotFields, append: appendSlot, remove: removeSlot } = useFieldArray({ control: form.control, name: 'slots' });
+
+  async function onSubmit(values: PollFormData) {
+    if (!user || !userProfile) {
+      toast({ title: "Authentication Error", description: "You must be signed in to create polls.", variant: "destructive" });
+      return;
+    }
+    setIsLoading(true);
+    try {
+      const slots: PollSlot[] = values.slots
+        .map(slot => ({
+          id: slot.id,
+          date: Timestamp.fromDate(toStartDate(slot)),
+          durationMinutes: slot.endTime ? toMinutes(slot.endTime) - toMinutes(slot.time) : null,
+        }))
+        .sort((a, b) => a.date.toMillis() - b.date.toMillis());
+      const invitees: PollInvitee[] = friends
+        .filter(friend => values.inviteeIds.includes(friend.uid))
+        .map(friend => ({ uid: friend.uid, name: friend.displayName, photoURL: friend.photoURL }));
+      const pollData: CreatePollData = {
+        title: values.title,
+        location: values.location?.trim() || null,
+        description: values.description?.trim() || null,
+        creatorId: user.uid,
+        creatorName: userProfile.displayName ?? user.displayName ?? 'Unknown User',
+        creatorPhotoURL: userProfile.photoURL ?? user.photoURL,
+        slots,
+        invitees: Object.fromEntries(invitees.map(invitee => [invitee.uid, invitee])),
+        inviteeUids: invitees.map(invitee => invitee.uid),
+      };
+      const pollId = await createPollMutation.mutateAsync(pollData);
+      toast({ title: "Poll Created", description: `Your friends can now vote on dates for "${values.title}".` });
+      router.push(`/polls/details?id=${pollId}`);
+    } catch (error) {
+      console.error("Error creating poll:", error);
+      toast({
+        title: "Creation Failed",
+        description: `Could not create the poll. ${error instanceof Error ? error.message : ''}`,
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+        <FormField
+          control={form.control}
+          name="title"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>What are you planning?</FormLabel>
+              <FormControl>
+                <Input placeholder="e.g., Mia's 5th birthday party" {...field} disabled={isLoading} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="location"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Location (Optional)</FormLabel>
+              <FormControl>
+                <Input placeholder="e.g., Our place, Indoor playground" {...field} disabled={isLoading} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="description"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Description (Optional)</FormLabel>
+              <FormControl>
+                <Textarea rows={3} {...field} disabled={isLoading} />
+              </FormControl>
+              <FormDescription>Copied to the activity once you pick a date. Supports **bold**, *italic*, lists and links.</FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <div className="space-y-3">
+          <div className="flex items-center justify-between">
+            <FormLabel>Proposed Dates</FormLabel>
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => appendSlot(newSlot())}
+              disabled={isLoading || slotFields.length >= MAX_POLL_SLOTS}
+            >
+              <Plus className="mr-1 h-4 w-4" /> Add Date
+            </Button>
+          </div>
+          {slotFields.map((slotField, index) => (
+            <div key={slotField.id} className="grid grid-cols-1 sm:grid-cols-[1fr_7rem_7rem_auto] gap-3 items-start rounded-md border p-3">
+              <FormField
+                control={form.control}
+                name={`slots.${index}.date`}
+                render={({ field }) => (
+                  <FormItem className="flex flex-col">
+                    <FormLabel>Date</FormLabel>
+                    <Popover>
+                      <PopoverTrigger asChild>
+                        <FormControl>
+                          <Button variant="outline" className="w-full pl-3 text-left font-normal" disabled={isLoading}>
+                            {format(field.value, "PPP", { locale: de })}
+                            <CalendarIcon className="ml-auto h-4 w-4 opacity-50" />
+                          </Button>
+                        </FormControl>
+                      </PopoverTrigger>
+                      <PopoverContent className="w-auto p-0" align="start">
+                        <Calendar
+                          locale={de}
+                          weekStartsOn={1}
+                          mode="single"
+                          selected={field.value}
+                          onSelect={(date) => date && field.onChange(date)}
+                          disabled={(date) => date < new Date(new Date().setHours(0, 0, 0, 0))}
+                          initialFocus
+                        />
+                      </PopoverContent>
+                    </Popover>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name={`slots.${index}.time`}
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Start</FormLabel>
+                    <FormControl>
+                      <Input type="time" step="900" {...field} disabled={isLoading} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name={`slots.${index}.endTime`}
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>End</FormLabel>
+                    <FormControl>
+                      <Input type="time" step="900" {...field} disabled={isLoading} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                className={cn("sm:mt-8", slotFields.length <= MIN_POLL_SLOTS && "invisible")}
+                onClick={() => removeSlot(index)}
+                disabled={isLoading || slotFields.length <= MIN_POLL_SLOTS}
+                aria-label="Remove date"
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+          {(form.formState.errors.slots?.root?.message ?? form.formState.errors.slots?.message) && (
+            <p className="text-sm font-medium text-destructive">
+              {form.formState.errors.slots?.root?.message ?? form.formState.errors.slots?.message}
+            </p>
+          )}
+        </div>
+
+        <FormField
+          control={form.control}
+          name="inviteeIds"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Ask Friends</FormLabel>
+              {friends.length === 0 ? (
+                <p className="text-sm text-muted-foreground">Add friends first to ask them about dates.</p>
+              ) : (
+                <div className="grid gap-2 sm:grid-cols-2 max-h-48 overflow-y-auto">
+                  {friends.map(friend => (
+                    <div key={friend.uid} className="flex items-center gap-2">
+                      <Checkbox
+                        id={`poll-invitee-${friend.uid}`}
+                        checked={field.value.includes(friend.uid)}
+                        onCheckedChange={(checked) => field.onChange(checked === true
+                          ? [...field.value, friend.uid]
+                          : field.value.filter(uid => uid !== friend.uid))}
+                        disabled={isLoading}
+                      />
+                      <label htmlFor={`poll-invitee-${friend.uid}`} className="text-sm">{friend.displayName ?? 'Friend'}</label>
+                    </div>
+                  ))}
+                </div>
+              )}
+              <FormDescription>Everyone you ask is invited to the activity once you pick a date.</FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <Button type="submit" className="w-full" disabled={isLoading}>
+          {isLoading ? 'Creating...' : 'Create Poll'}
+        </Button>
+      </form>
+    </Form>
+  );
+}
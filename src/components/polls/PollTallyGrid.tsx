@@ -0,0 +1,147 @@
+// src/components/polls/PollTallyGrid.tsx
+"use client";
+
+import React from 'react';
+import { format } from 'date-fns';
+import { de } from 'date-fns/locale';
+import { Check, HelpCircle, Star, X, type LucideIcon } from 'lucide-react';
+import type { PollAnswer, PollClient } from '@/lib/types';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Button } from '@/components/ui/button';
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { formatActivityTime } from '@/lib/calendar';
+import { getBestSlotIds, getPollAnswerLabel, getPollVoters, POLL_ANSWER_OPTIONS, tallyPoll } from '@/lib/polls';
+import { cn } from '@/lib/utils';
+
+const ANSWER_ICONS: Record<PollAnswer, LucideIcon> = {
+  yes: Check,
+  ifNeeded: HelpCircle,
+  no: X,
+};
+
+const ANSWER_COLORS: Record<PollAnswer, string> = {
+  yes: 'text-green-600 dark:text-green-500',
+  ifNeeded: 'text-amber-600 dark:text-amber-500',
+  no: 'text-muted-foreground',
+};
+
+interface PollTallyGridProps {
+  poll: PollClient;
+  currentUserId: string;
+  onAnswer?: (slotId: string, answer: PollAnswer) => void; // Omitted once the poll is closed
+  onFinalize?: (slotId: string) => void; // Only passed to the creator of an open poll
+  disabled?: boolean;
+}
+
+// One column per proposed slot and one row per person asked. The current user answers in their own row;
+// the footer sums up the answers and marks the best slots.
+export function PollTallyGrid({ poll, currentUserId, onAnswer, onFinalize, disabled }: PollTallyGridProps) {
+  const voters = getPollVoters(poll);
+  const tallies = tallyPoll(poll);
+  const bestSlotIds = getBestSlotIds(tallies);
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead className="min-w-[10rem]">Family</TableHead>
+          {poll.slots.map(slot => (
+            <TableHead
+              key={slot.id}
+              className={cn(
+                "min-w-[7.5rem] text-center align-bottom py-2",
+                poll.finalizedSlotId === slot.id && "bg-primary/10",
+              )}
+            >
+              <div className="font-medium text-foreground">{format(new Date(slot.date), 'EEE d. MMM', { locale: de })}</div>
+              <div className="text-xs">{formatActivityTime(slot)}</div>
+            </TableHead>
+          ))}
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {voters.map(voter => {
+          const isCurrentUser = voter.uid === currentUserId;
+          const answers = poll.votes[voter.uid]?.answers ?? {};
+          return (
+            <TableRow key={voter.uid} className={cn(isCurrentUser && "bg-muted/40")}>
+              <TableCell>
+                <div className="flex items-center gap-2">
+                  <Avatar className="h-6 w-6">
+                    <AvatarImage src={voter.photoURL ?? undefined} alt={voter.name ?? 'Parent'} />
+                    <AvatarFallback className="text-xs">{voter.name?.charAt(0).toUpperCase() ?? '?'}</AvatarFallback>
+                  </Avatar>
+                  <span className="text-sm">{isCurrentUser ? 'You' : voter.name ?? 'Unknown'}</span>
+                </div>
+              </TableCell>
+              {poll.slots.map(slot => {
+                const answer = answers[slot.id];
+                if (isCurrentUser && onAnswer) {
+                  return (
+                    <TableCell key={slot.id} className="text-center">
+                      <div className="inline-flex gap-1">
+                        {POLL_ANSWER_OPTIONS.map(option => {
+                          const Icon = ANSWER_ICONS[option.value];
+                          const isSelected = answer === option.value;
+                          return (
+                            <Button
+                              key={option.value}
+                              type="button"
+                              size="icon"
+                              variant={isSelected ? 'secondary' : 'ghost'}
+                              className={cn("h-7 w-7", isSelected ? ANSWER_COLORS[option.value] : "text-muted-foreground/50")}
+                              onClick={() => onAnswer(slot.id, option.value)}
+                              disabled={disabled}
+                              aria-pressed={isSelected}
+                              aria-label={option.label}
+                              title={option.label}
+                            >
+                              <Icon className="h-4 w-4" />
+                            </Button>
+                          );
+                        })}
+                      </div>
+                    </TableCell>
+                  );
+                }
+                const Icon = answer ? ANSWER_ICONS[answer] : null;
+                return (
+                  <TableCell key={slot.id} className="text-center">
+                    {answer && Icon ? (
+                      <Icon className={cn("mx-auto h-4 w-4", ANSWER_COLORS[answer])} aria-label={getPollAnswerLabel(answer)} />
+                    ) : (
+                      <span className="text-xs text-muted-foreground">–</span>
+                    )}
+                  </TableCell>
+                );
+              })}
+            </TableRow>
+          );
+        })}
+      </TableBody>
+      <TableFooter>
+        <TableRow>
+          <TableCell className="text-sm font-medium">Total</TableCell>
+          {tallies.map(tally => (
+            <TableCell key={tally.slotId} className="text-center align-top">
+              <div className="flex flex-col items-center gap-1">
+                <span className={cn("flex items-center gap-1 font-semibold", bestSlotIds.includes(tally.slotId) && "text-primary")}>
+                  {bestSlotIds.includes(tally.slotId) && <Star className="h-3 w-3 fill-current" aria-label="Best date" />}
+                  <Check className="h-3 w-3" /> {tally.yes}
+                </span>
+                <span className="flex items-center gap-1 text-xs text-muted-foreground">
+                  <HelpCircle className="h-3 w-3" /> {tally.ifNeeded} · <X className="h-3 w-3" /> {tally.no}
+                </span>
+                {onFinalize && (
+                  <Button type="button" size="sm" variant="outline" className="mt-1 h-7 text-xs" onClick={() => onFinalize(tally.slotId)} disabled={disabled}>
+                    Pick
+                  </Button>
+                )}
+              </div>
+            </TableCell>
+          ))}
+        </TableRow>
+      </TableFooter>
+    </Table>
+  );
+}
@@ -0,0 +1,148 @@
+// src/components/profile/CalendarFeedSettings.tsx
+"use client";
+
+import React, { useEffect } from 'react';
+import { useCalendarFeed, useRevokeCalendarFeedMutation, useRotateCalendarFeedMutation } from '@/hooks/useCalendarFeed';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Skeleton } from '@/components/ui/skeleton';
+import { useToast } from '@/hooks/use-toast';
+import { CalendarSync, Copy, RefreshCw, Trash2 } from 'lucide-react';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+
+// The feed is served by the calendarFeed function, which Firebase Hosting exposes under /calendar-feed.
+// NEXT_PUBLIC_CALENDAR_FEED_URL overrides this, e.g. to point at the functions emulator during development.
+const getFeedUrl = (token: string): string => {
+  const baseUrl = process.env.NEXT_PUBLIC_CALENDAR_FEED_URL ?? `${window.location.origin}/calendar-feed`;
+  return `${baseUrl.replace(/\/$/, '')}/${token}.ics`;
+};
+
+interface CalendarFeedSettingsProps {
+  uid: string;
+}
+
+// Lets users create, copy, rotate and revoke the secret URL of their subscribable calendar feed.
+export function CalendarFeedSettings({ uid }: CalendarFeedSettingsProps) {
+  const { toast } = useToast();
+  const { feed, isLoading, error } = useCalendarFeed(uid);
+  const rotateMutation = useRotateCalendarFeedMutation();
+  const revokeMutation = useRevokeCalendarFeedMutation();
+  const isUpdating = rotateMutation.isPending || revokeMutation.isPending;
+
+  useEffect(() => {
+    if (error) {
+      console.error("Error loading calendar feed:", error);
+      toast({ title: "Error", description: "Could not load your calendar feed settings.", variant: "destructive" });
+    }
+  }, [error, toast]);
+
+  const feedUrl = feed ? getFeedUrl(feed.token) : null;
+
+  const handleRotate = async () => {
+    const isRotation = feed !== null;
+    try {
+      await rotateMutation.mutateAsync(uid);
+      toast({
+        title: isRotation ? "Feed URL Replaced" : "Feed URL Created",
+        description: isRotation ? "The old URL no longer works. Update your calendar subscriptions." : "Add this URL to your calendar app to subscribe.",
+      });
+    } catch (error) {
+      console.error("Error creating calendar feed:", error);
+      toast({ title: "Error", description: "Could not create a calendar feed URL.", variant: "destructive" });
+    }
+  };
+
+  const handleRevoke = async () => {
+    try {
+      await revokeMutation.mutateAsync(uid);
+      toast({ title: "Feed Disabled", description: "Subscribed calendars will stop receiving updates." });
+    } catch (error) {
+      console.error("Error revoking calendar feed:", error);
+      toast({ title: "Error", description: "Could not disable the calendar feed.", variant: "destructive" });
+    }
+  };
+
+  const handleCopy = () => {
+    if (!feedUrl) return;
+    navigator.clipboard.writeText(feedUrl)
+      .then(() => {
+        toast({ title: "Feed URL Copied!", description: "Paste it into your calendar app's subscription settings." });
+      })
+      .catch(err => {
+        console.error('Failed to copy feed URL: ', err);
+        toast({ title: "Copy Failed", description: "Could not copy the URL automatically.", variant: "destructive" });
+      });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2"><CalendarSync className="h-5 w-5" /> Calendar Subscription</CardTitle>
+        <CardDescription>
+          Subscribe to your activities from Apple, Google or Outlook calendar. The feed stays up to date with your and your friends&apos; activities.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <Skeleton className="h-10 w-full" />
+        ) : feedUrl ? (
+          <>
+            <div className="flex items-center gap-2">
+              <Input value={feedUrl} readOnly className="flex-1 font-mono text-xs" aria-label="Calendar feed URL" />
+              <Button onClick={handleCopy} variant="outline" size="icon" aria-label="Copy feed URL">
+                <Copy className="h-4 w-4" />
+              </Button>
+            </div>
+            <div className="flex flex-wrap gap-2">
+              <Button variant="secondary" size="sm" asChild>
+                <a href={feedUrl.replace(/^https?:\/\//, 'webcal://')}>Open in Calendar App</a>
+              </Button>
+              <AlertDialog>
+                <AlertDialogTrigger asChild>
+                  <Button variant="outline" size="sm" disabled={isUpdating}>
+                    <RefreshCw className="mr-1 h-4 w-4" /> Replace URL
+                  </Button>
+                </AlertDialogTrigger>
+                <AlertDialogContent>
+                  <AlertDialogHeader>
+                    <AlertDialogTitle>Replace Feed URL?</AlertDialogTitle>
+                    <AlertDialogDescription>
+                      The current URL stops working immediately. Calendars subscribed to it need to be set up again with the new URL.
+                    </AlertDialogDescription>
+                  </AlertDialogHeader>
+                  <AlertDialogFooter>
+                    <AlertDialogCancel disabled={isUpdating}>Cancel</AlertDialogCancel>
+                    <AlertDialogAction onClick={handleRotate} disabled={isUpdating}>Replace URL</AlertDialogAction>
+                  </AlertDialogFooter>
+                </AlertDialogContent>
+              </AlertDialog>
+              <Button variant="ghost" size="sm" onClick={handleRevoke} disabled={isUpdating} className="text-destructive hover:text-destructive">
+                <Trash2 className="mr-1 h-4 w-4" /> Disable Feed
+              </Button>
+            </div>
+          </>
+        ) : (
+          <Button onClick={handleRotate} disabled={isUpdating}>
+            {isUpdating ? 'Creating...' : 'Create Feed URL'}
+          </Button>
+        )}
+      </CardContent>
+      {feedUrl && (
+        <CardFooter>
+          <p className="text-xs text-muted-foreground">Keep this URL private. Anyone who has it can see the activities in your feed.</p>
+        </CardFooter>
+      )}
+    </Card>
+  );
+}
@@ -4,9 +4,10 @@
 import React, { createContext, useState, useEffect, ReactNode } from 'react';
 import type { User as FirebaseUser } from 'firebase/auth';
 import { onAuthStateChanged } from 'firebase/auth';
+import { useQueryClient } from '@tanstack/react-query';
 // Import auth, and also the error status from config
 import { auth, firebaseInitializationError as configInitializationError, isFirebaseConfigured } from '@/lib/firebase/config';
-import { fetchUserProfileForClient } from '@/lib/firebase/services';
+import { useUserProfile } from '@/hooks/useUserProfile';
 import type { UserProfileClient } from '@/lib/types';
 
 export interface AuthContextType {
@@ -22,11 +23,11 @@ export const AuthContext = createContext<AuthContextType | undefined>(undefined)
 
 export const AuthProvider = ({ children }: { children: ReactNode }) => {
   const [user, setUser] = useState<FirebaseUser | null>(null);
-  const [userProfile, setUserProfile] = useState<UserProfileClient | null>(null);
-  const [loading, setLoading] = useState(true); // Start true until first auth check completes
+  const [authStateLoading, setAuthStateLoading] = useState(true); // Start true until first auth check completes
   const [isFirebaseSetupAttempted, setIsFirebaseSetupAttempted] = useState(false);
   const [firebaseAuthError, setFirebaseAuthError] = useState<Error | null>(null);
   // configInitializationError is imported and directly used
+  const queryClient = useQueryClient();
 
   useEffect(() => {
     setIsFirebaseSetupAttempted(true); // Mark that setup has been attempted
@@ -35,42 +36,35 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
     // do not proceed with onAuthStateChanged.
     if (configInitializationError || !isFirebaseConfigured() || !auth) {
       setUser(null);
-      setUserProfile(null);
-      setLoading(false);
+      setAuthStateLoading(false);
       // firebaseConfigError is already set from the import, so AuthProviderComponent can display it.
       return; // Exit early
     }
 
-    // If Firebase is configured and auth object exists, proceed with auth state listener
-    const unsubscribe = onAuthStateChanged(auth, async (currentUser) => {
-      setLoading(true); // Set loading true at the start of auth state change processing
+    // If Firebase is configured and auth object exists, proceed with auth state listener.
+    // The profile itself is loaded (and cached) by the useUserProfile query below.
+    const unsubscribe = onAuthStateChanged(auth, (currentUser) => {
       setFirebaseAuthError(null); // Reset auth error
-      if (currentUser) {
-        setUser(currentUser);
-        try {
-          const profile = await fetchUserProfileForClient(currentUser.uid);
-          setUserProfile(profile);
-        } catch (error) {
-          console.error("AuthContext: Error fetching user profile:", error);
-          const fetchError = error instanceof Error ? error : new Error("Failed to fetch user profile");
-          setFirebaseAuthError(fetchError);
-          setUserProfile(null); // Clear profile on error
-        }
-      } else {
-        setUser(null);
-        setUserProfile(null);
+      if (!currentUser) {
+        queryClient.clear(); // Don't let cached data of the previous user survive a sign-out
       }
-      setLoading(false); // Set loading false after processing auth state and profile
+      setUser(currentUser);
+      setAuthStateLoading(false);
     }, (error) => {
         console.error("AuthContext: Firebase onAuthStateChanged error:", error);
         setFirebaseAuthError(error);
         setUser(null);
-        setUserProfile(null);
-        setLoading(false);
+        setAuthStateLoading(false);
     });
 
     return () => unsubscribe();
-  }, []); // Empty dependency array: runs once on mount. configInitializationError is stable.
+  }, [queryClient]); // Runs once on mount: the query client and configInitializationError are stable.
+
+  const { userProfile, isLoading: profileLoading, error: profileError } = useUserProfile(user?.uid ?? null);
+  useEffect(() => {
+    if (profileError) console.error("AuthContext: Error fetching user profile:", profileError);
+  }, [profileError]);
+  const loading = authStateLoading || profileLoading;
 
   return (
     <AuthContext.Provider value={{
@@ -79,7 +73,7 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
       loading,
       isFirebaseSetupAttempted,
       firebaseConfigError: configInitializationError, // Use the error from firebase/config
-      firebaseAuthError
+      firebaseAuthError: firebaseAuthError ?? profileError
     }}>
       {children}
     </AuthContext.Provider>
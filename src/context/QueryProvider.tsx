@@ -0,0 +1,19 @@
+"use client";
+
+import React, { useState, type ReactNode } from 'react';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+
+export const QueryProvider = ({ children }: { children: ReactNode }) => {
+  // One client per browser session; created in state so it survives re-renders but not page reloads
+  const [queryClient] = useState(() => new QueryClient({
+    defaultOptions: {
+      queries: {
+        staleTime: 60 * 1000, // Live listeners keep activity data fresh; everything else is refetched after a minute
+        retry: 1,
+        refetchOnWindowFocus: false,
+      },
+    },
+  }));
+
+  return <QueryClientProvider client={queryClient}>{children}</QueryClientProvider>;
+};
@@ -0,0 +1,312 @@
+// src/hooks/useActivities.ts
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { useMutation, useQuery, useQueryClient, type QueryClient, type QueryKey } from '@tanstack/react-query';
+import {
+  createActivities,
+  createActivity,
+  deleteActivity,
+  getActivitiesInRange,
+  getActivity,
+  getActivityInvites,
+  getDashboardActivities,
+  inviteToActivity,
+  setRsvp,
+  subscribeToActivitiesInRange,
+  subscribeToActivity,
+  subscribeToActivityInvites,
+  subscribeToDashboardActivities,
+  updateActivitySeries,
+  withdrawActivityInvite,
+} from '@/lib/firebase/services';
+import { applyRsvpToSpots, inviteStatusForRsvp } from '@/lib/participation';
+import { queryKeys } from '@/lib/queryKeys';
+import { isActivityCurrent } from '@/lib/calendar';
+import { findConflicts, getConflictSearchRange, type ConflictCandidate } from '@/lib/conflicts';
+import type { ActivityClient, ActivityParticipant, CreateActivityData, Friend, RsvpStatus, SeriesEditScope, UpdateActivityData } from '@/lib/types';
+
+// Cached activity data is either a single activity (detail queries) or a list (dashboard/range queries)
+type CachedActivities = ActivityClient | ActivityClient[] | null | undefined;
+type ActivitiesSnapshot = [QueryKey, CachedActivities][];
+
+// Applies `update` to the activity wherever it is cached and returns the previous cache entries for rollback.
+const updateCachedActivity = (queryClient: QueryClient, activityId: string, update: (activity: ActivityClient) => ActivityClient): ActivitiesSnapshot => {
+  const snapshot = queryClient.getQueriesData<CachedActivities>({ queryKey: queryKeys.activities.all });
+  queryClient.setQueriesData<CachedActivities>({ queryKey: queryKeys.activities.all }, cached => {
+    if (Array.isArray(cached)) {
+      return cached.map(activity => activity.id === activityId ? update(activity) : activity);
+    }
+    return cached && cached.id === activityId ? update(cached) : cached;
+  });
+  return snapshot;
+};
+
+const restoreSnapshot = (queryClient: QueryClient, snapshot: ActivitiesSnapshot | undefined) => {
+  snapshot?.forEach(([queryKey, data]) => queryClient.setQueryData(queryKey, data));
+};
+
+// Mirrors what the setRsvp function does in its transaction (the live listener delivers the final state).
+const applyRsvp = (activity: ActivityClient, user: ActivityParticipant, status: RsvpStatus): ActivityClient => {
+  const rsvps = {
+    ...activity.rsvps,
+    [user.uid]: { uid: user.uid, name: user.name, photoURL: user.photoURL ?? null, status, respondedAt: new Date().toISOString() },
+  };
+  const invitee = activity.invitees[user.uid];
+  if (invitee) {
+    activity = {
+      ...activity,
+      invitees: { ...activity.invitees, [user.uid]: { ...invitee, status: inviteStatusForRsvp(status), respondedAt: new Date().toISOString() } },
+    };
+  }
+  const { participants, waitlist } = applyRsvpToSpots(
+    { participants: activity.participants, waitlist: activity.waitlist ?? [], maxParticipants: activity.maxParticipants },
+    user,
+    status
+  );
+  return { ...activity, rsvps, participants, participantUids: participants.map(p => p.uid), waitlist };
+};
+
+// Live activity document; `activity` is null while loading and when the activity does not exist.
+export const useActivity = (activityId: string | null) => {
+  const queryClient = useQueryClient();
+  const query = useQuery({
+    queryKey: queryKeys.activities.detail(activityId ?? ''),
+    queryFn: () => getActivity(activityId!),
+    enabled: !!activityId,
+  });
+
+  // Keep the cached document in sync with Firestore while the component is mounted
+  useEffect(() => {
+    if (!activityId) return;
+    try {
+      return subscribeToActivity(
+        activityId,
+        activity => queryClient.setQueryData(queryKeys.activities.detail(activityId), activity),
+        err => console.error("useActivity: Live updates stopped:", err)
+      );
+    } catch (err) {
+      console.error("useActivity: Could not listen for live updates:", err);
+    }
+  }, [activityId, queryClient]);
+
+  return { activity: query.data ?? null, isLoading: query.isLoading, error: query.error ? query.error.message : null };
+};
+
+type SubscribeToActivities = (onChange: (activities: ActivityClient[]) => void, onError: (error: Error) => void) => () => void;
+
+// Shared by the dashboard and range hooks: a cached list query kept current by a Firestore listener.
+// `queryKey` and `subscribe` must be memoized by the caller; the listener is recreated when either changes.
+const useLiveActivityList = (
+  queryKey: QueryKey,
+  uid: string | null,
+  fetchActivities: () => Promise<ActivityClient[]>,
+  subscribe: SubscribeToActivities
+) => {
+  const queryClient = useQueryClient();
+  const query = useQuery({ queryKey, queryFn: fetchActivities, enabled: !!uid });
+
+  useEffect(() => {
+    if (!uid) return;
+    try {
+      return subscribe(
+        activities => queryClient.setQueryData(queryKey, activities),
+        err => console.error("useLiveActivityList: Live updates stopped:", err)
+      );
+    } catch (err) {
+      console.error("useLiveActivityList: Could not listen for live updates:", err);
+    }
+  }, [uid, queryKey, subscribe, queryClient]);
+
+  return { activities: query.data ?? [], isLoading: query.isLoading, error: query.error ? query.error.message : null };
+};
+
+// Live activities of the user and their friends starting in [start, end); an open end means "from start onwards".
+// Pass a null uid while the user is unknown (e.g. auth still loading). The dates are compared by value, so
+// callers may pass new Date objects on every render.
+export const useActivitiesInRange = (uid: string | null, start: Date, end: Date | null) => {
+  const startTime = start.getTime();
+  const endTime = end?.getTime() ?? null;
+  const range = useMemo(
+    () => ({ start: new Date(startTime), end: endTime === null ? null : new Date(endTime) }),
+    [startTime, endTime]
+  );
+  const queryKey = useMemo(() => queryKeys.activities.range(uid ?? '', range.start, range.end), [uid, range]);
+  const subscribe = useCallback<SubscribeToActivities>(
+    (onChange, onError) => subscribeToActivitiesInRange(uid!, range.start, range.end, onChange, onError),
+    [uid, range]
+  );
+  return useLiveActivityList(queryKey, uid, () => getActivitiesInRange(uid!, range.start, range.end), subscribe);
+};
+
+// Upcoming and in-progress activities for the dashboard. `now` is fixed when the component mounts, so
+// activities that end while the page is open stay visible until the next visit.
+export const useDashboardActivities = (uid: string | null) => {
+  const [now] = useState(() => new Date());
+  const queryKey = useMemo(() => queryKeys.activities.dashboard(uid ?? ''), [uid]);
+  const subscribe = useCallback<SubscribeToActivities>(
+    (onChange, onError) => subscribeToDashboardActivities(uid!, now, onChange, onError),
+    [uid, now]
+  );
+  return useLiveActivityList(queryKey, uid, () => getDashboardActivities(uid!, now), subscribe);
+};
+
+// Upcoming activities the user was invited to, for the inbox
+export const useActivityInvites = (uid: string | null) => {
+  const [now] = useState(() => new Date());
+  const queryKey = useMemo(() => queryKeys.activities.invites(uid ?? ''), [uid]);
+  const subscribe = useCallback<SubscribeToActivities>(
+    (onChange, onError) => subscribeToActivityInvites(uid!, now, onChange, onError),
+    [uid, now]
+  );
+  return useLiveActivityList(queryKey, uid, () => getActivityInvites(uid!), subscribe);
+};
+
+// Returns a function that looks up the user's created and joined activities overlapping a planned time window.
+// Lookups reuse cached range queries for a short while, so repeated checks in one form session stay cheap.
+export const useScheduleConflictCheck = (uid: string | null) => {
+  const queryClient = useQueryClient();
+  return useCallback(async (candidate: ConflictCandidate): Promise<ActivityClient[]> => {
+    if (!uid) return [];
+    const { start, end } = getConflictSearchRange(candidate);
+    const activities = await queryClient.fetchQuery({
+      queryKey: queryKeys.activities.range(uid, start, end),
+      queryFn: () => getActivitiesInRange(uid, start, end),
+      staleTime: 30 * 1000,
+    });
+    return findConflicts(candidate, activities, uid);
+  }, [uid, queryClient]);
+};
+
+interface SetRsvpVariables {
+  activityId: string;
+  user: ActivityParticipant;
+  status: RsvpStatus;
+}
+
+// Going / maybe / can't (joining and leaving included). The answer shows up immediately in every cached copy of the activity and is rolled back on failure.
+export const useSetRsvpMutation = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ activityId, user, status }: SetRsvpVariables) => setRsvp(activityId, user, status),
+    onMutate: async ({ activityId, user, status }) => {
+      await queryClient.cancelQueries({ queryKey: queryKeys.activities.all });
+      return { snapshot: updateCachedActivity(queryClient, activityId, activity => applyRsvp(activity, user, status)) };
+    },
+    onError: (_error, _variables, context) => restoreSnapshot(queryClient, context?.snapshot),
+    onSettled: () => queryClient.invalidateQueries({ queryKey: queryKeys.activities.all }),
+  });
+};
+
+const OPTIMISTIC_ID_PREFIX = 'optimistic-';
+
+// Creates an activity and shows it on the creator's dashboard right away; the placeholder is replaced once Firestore confirms.
+export const useCreateActivityMutation = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (activityData: CreateActivityData) => createActivity(activityData),
+    onMutate: async (activityData) => {
+      const dashboardKey = queryKeys.activities.dashboard(activityData.creatorId);
+      await queryClient.cancelQueries({ queryKey: dashboardKey });
+      const previous = queryClient.getQueryData<ActivityClient[]>(dashboardKey);
+      const date = activityData.date.toDate();
+      if (previous && isActivityCurrent({ date: date.toISOString(), durationMinutes: activityData.durationMinutes }, new Date())) {
+        const { participantUids, ...rest } = activityData;
+        const placeholder: ActivityClient = {
+          ...rest,
+          id: `${OPTIMISTIC_ID_PREFIX}${Date.now()}`,
+          participantUids,
+          location: activityData.location ?? null,
+          date: date.toISOString(),
+          createdAt: new Date().toISOString(),
+          rsvps: {},
+          invitees: {},
+        };
+        queryClient.setQueryData<ActivityClient[]>(dashboardKey, [...previous, placeholder]
+          .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime()));
+      }
+      return { dashboardKey, previous };
+    },
+    onError: (_error, _variables, context) => {
+      if (context?.previous) queryClient.setQueryData(context.dashboardKey, context.previous);
+    },
+    onSettled: () => queryClient.invalidateQueries({ queryKey: queryKeys.activities.all }),
+  });
+};
+
+// Imports several activities at once (e.g. from an .ics file); the lists are refetched afterwards.
+export const useCreateActivitiesMutation = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (activitiesData: CreateActivityData[]) => createActivities(activitiesData),
+    onSettled: () => queryClient.invalidateQueries({ queryKey: queryKeys.activities.all }),
+  });
+};
+
+interface UpdateActivityVariables {
+  activity: ActivityClient;
+  data: UpdateActivityData;
+  scope: SeriesEditScope;
+}
+
+// Edits of a whole series touch many cached entries, so everything is refetched instead of patched.
+export const useUpdateActivityMutation = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ activity, data, scope }: UpdateActivityVariables) => updateActivitySeries(activity, data, scope),
+    onSettled: () => queryClient.invalidateQueries({ queryKey: queryKeys.activities.all }),
+  });
+};
+
+// Removes the activity from every cached list right away and restores it if the delete fails.
+export const useDeleteActivityMutation = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (activityId: string) => deleteActivity(activityId),
+    onMutate: async (activityId) => {
+      await queryClient.cancelQueries({ queryKey: queryKeys.activities.all });
+      const snapshot = queryClient.getQueriesData<CachedActivities>({ queryKey: queryKeys.activities.all });
+      queryClient.setQueriesData<CachedActivities>({ queryKey: queryKeys.activities.all }, cached =>
+        Array.isArray(cached) ? cached.filter(activity => activity.id !== activityId) : cached
+      );
+      return { snapshot };
+    },
+    onError: (_error, _variables, context) => restoreSnapshot(queryClient, context?.snapshot),
+    onSettled: (_data, _error, activityId) => {
+      queryClient.removeQueries({ queryKey: queryKeys.activities.detail(activityId) });
+      queryClient.invalidateQueries({ queryKey: queryKeys.activities.all });
+    },
+  });
+};
+
+interface InviteToActivityVariables {
+  activity: ActivityClient;
+  invitedBy: Friend;
+  friends: Friend[];
+}
+
+export const useInviteToActivityMutation = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ activity, invitedBy, friends }: InviteToActivityVariables) => inviteToActivity(activity, invitedBy, friends),
+    onSettled: () => queryClient.invalidateQueries({ queryKey: queryKeys.activities.all }),
+  });
+};
+
+// The invitee disappears from the invited list right away and comes back if withdrawing fails.
+export const useWithdrawActivityInviteMutation = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ activityId, uid }: { activityId: string; uid: string }) => withdrawActivityInvite(activityId, uid),
+    onMutate: async ({ activityId, uid }) => {
+      await queryClient.cancelQueries({ queryKey: queryKeys.activities.all });
+      return {
+        snapshot: updateCachedActivity(queryClient, activityId, activity => {
+          const invitees = { ...activity.invitees };
+          delete invitees[uid];
+          return { ...activity, invitees, inviteeUids: (activity.inviteeUids ?? []).filter(inviteeUid => inviteeUid !== uid) };
+        }),
+      };
+    },
+    onError: (_error, _variables, context) => restoreSnapshot(queryClient, context?.snapshot),
+    onSettled: () => queryClient.invalidateQueries({ queryKey: queryKeys.activities.all }),
+  });
+};
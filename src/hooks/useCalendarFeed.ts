@@ -0,0 +1,29 @@
+// src/hooks/useCalendarFeed.ts
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { getCalendarFeed, revokeCalendarFeed, rotateCalendarFeed } from '@/lib/firebase/services';
+import { queryKeys } from '@/lib/queryKeys';
+
+export const useCalendarFeed = (uid: string) => {
+  const query = useQuery({
+    queryKey: queryKeys.calendarFeed(uid),
+    queryFn: () => getCalendarFeed(uid),
+  });
+  return { feed: query.data ?? null, isLoading: query.isLoading, error: query.error ? query.error.message : null };
+};
+
+// Creates the feed URL, or replaces the current one (which revokes it).
+export const useRotateCalendarFeedMutation = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (uid: string) => rotateCalendarFeed(uid),
+    onSuccess: (feed, uid) => queryClient.setQueryData(queryKeys.calendarFeed(uid), feed),
+  });
+};
+
+export const useRevokeCalendarFeedMutation = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (uid: string) => revokeCalendarFeed(uid),
+    onSuccess: (_data, uid) => queryClient.setQueryData(queryKeys.calendarFeed(uid), null),
+  });
+};
@@ -0,0 +1,249 @@
+// src/hooks/useFriends.ts
+import { useEffect, useRef } from 'react';
+import { useMutation, useQuery, useQueryClient, type QueryClient } from '@tanstack/react-query';
+import {
+  acceptInvitation,
+  cancelFriendRequest,
+  completeFriendRequest,
+  deleteInvitation,
+  generateInviteCode,
+  getFriendRequests,
+  getFriends,
+  getInvitation,
+  getInviteLinks,
+  removeFriend,
+  respondToFriendRequest,
+  sendFriendRequest,
+  subscribeToFriendRequests,
+  type InviteLinkOptions,
+} from '@/lib/firebase/services';
+import { queryKeys } from '@/lib/queryKeys';
+import type { Friend, FriendRequestClient, InvitationClient } from '@/lib/types';
+
+const sortByName = (friends: Friend[]) =>
+  [...friends].sort((a, b) => (a.displayName ?? '').localeCompare(b.displayName ?? ''));
+
+export const useFriends = (uid: string | null) => {
+  const query = useQuery({
+    queryKey: queryKeys.friends(uid ?? ''),
+    queryFn: () => getFriends(uid!),
+    enabled: !!uid,
+  });
+  return { friends: query.data ?? [], isLoading: query.isLoading, error: query.error ? query.error.message : null };
+};
+
+export const useInvitation = (code: string | null) => {
+  const query = useQuery({
+    queryKey: queryKeys.invitation(code ?? ''),
+    queryFn: () => getInvitation(code!),
+    enabled: !!code,
+    staleTime: 0, // Links can be used up or revoked at any time; always check the current state
+  });
+  return { invitation: query.data ?? null, isLoading: query.isLoading, error: query.error ? query.error.message : null };
+};
+
+// Friend changes also change which activities the dashboard and calendar show, so both are refreshed afterwards.
+const invalidateFriendData = (queryClient: QueryClient, uid: string) => {
+  queryClient.invalidateQueries({ queryKey: queryKeys.friends(uid) });
+  queryClient.invalidateQueries({ queryKey: queryKeys.friendRequests(uid) });
+  queryClient.invalidateQueries({ queryKey: queryKeys.activities.all });
+};
+
+/**
+ * Live list of the user's incoming and outgoing friend requests. Requests the other side accepted
+ * are completed here, i.e. on whichever page the sender has open next.
+ */
+export const useFriendRequests = (uid: string | null) => {
+  const queryClient = useQueryClient();
+  const query = useQuery({
+    queryKey: queryKeys.friendRequests(uid ?? ''),
+    queryFn: () => getFriendRequests(uid!),
+    enabled: !!uid,
+  });
+  const completingIds = useRef(new Set<string>());
+
+  useEffect(() => {
+    if (!uid) return;
+    try {
+      return subscribeToFriendRequests(
+        uid,
+        requests => queryClient.setQueryData(queryKeys.friendRequests(uid), requests),
+        err => console.error("useFriendRequests: Live updates stopped:", err)
+      );
+    } catch (err) {
+      console.error("useFriendRequests: Could not listen for live updates:", err);
+    }
+  }, [uid, queryClient]);
+
+  const requests = query.data;
+  // Completes requests accepted before friendships were written server-side, where only the recipient had added the friend
+  useEffect(() => {
+    if (!uid || !requests) return;
+    requests
+      .filter(request => request.fromUid === uid && request.awaitingCompletion && !completingIds.current.has(request.id))
+      .forEach(request => {
+        completingIds.current.add(request.id);
+        completeFriendRequest(request)
+          .then(() => invalidateFriendData(queryClient, uid))
+          .catch(err => console.error(`useFriendRequests: Could not complete friend request ${request.id}:`, err));
+      });
+  }, [uid, requests, queryClient]);
+
+  const all = requests ?? [];
+  return {
+    incoming: all.filter(request => request.toUid === uid && request.status === 'pending'),
+    // Declined requests stay visible to the sender until they send a new one
+    outgoing: all.filter(request => request.fromUid === uid && (request.status === 'pending' || request.status === 'declined')),
+    isLoading: query.isLoading,
+    error: query.error ? query.error.message : null,
+  };
+};
+
+export const useSendFriendRequestMutation = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ from, to }: { from: Friend; to: Friend }) => sendFriendRequest(from, to),
+    onSettled: (_data, _error, { from }) => invalidateFriendData(queryClient, from.uid),
+  });
+};
+
+export const useRespondToFriendRequestMutation = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ request, response }: { request: FriendRequestClient; response: 'accepted' | 'declined' }) =>
+      respondToFriendRequest(request, response),
+    onMutate: async ({ request, response }) => {
+      const requestsKey = queryKeys.friendRequests(request.toUid);
+      const friendsKey = queryKeys.friends(request.toUid);
+      await Promise.all([queryClient.cancelQueries({ queryKey: requestsKey }), queryClient.cancelQueries({ queryKey: friendsKey })]);
+      const previousRequests = queryClient.getQueryData<FriendRequestClient[]>(requestsKey);
+      const previousFriends = queryClient.getQueryData<Friend[]>(friendsKey);
+      if (previousRequests) {
+        queryClient.setQueryData<FriendRequestClient[]>(requestsKey, previousRequests.map(r => r.id === request.id ? { ...r, status: response } : r));
+      }
+      if (previousFriends && response === 'accepted') {
+        const sender: Friend = { uid: request.fromUid, displayName: request.fromName, photoURL: request.fromPhotoURL };
+        queryClient.setQueryData<Friend[]>(friendsKey, sortByName([...previousFriends.filter(f => f.uid !== sender.uid), sender]));
+      }
+      return { requestsKey, previousRequests, friendsKey, previousFriends };
+    },
+    onError: (_error, _variables, context) => {
+      if (context?.previousRequests) queryClient.setQueryData(context.requestsKey, context.previousRequests);
+      if (context?.previousFriends) queryClient.setQueryData(context.friendsKey, context.previousFriends);
+    },
+    onSettled: (_data, _error, { request }) => invalidateFriendData(queryClient, request.toUid),
+  });
+};
+
+export const useCancelFriendRequestMutation = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (request: FriendRequestClient) => cancelFriendRequest(request),
+    onMutate: async (request) => {
+      const requestsKey = queryKeys.friendRequests(request.fromUid);
+      await queryClient.cancelQueries({ queryKey: requestsKey });
+      const previous = queryClient.getQueryData<FriendRequestClient[]>(requestsKey);
+      if (previous) {
+        queryClient.setQueryData<FriendRequestClient[]>(requestsKey, previous.map(r => r.id === request.id ? { ...r, status: 'cancelled' } : r));
+      }
+      return { requestsKey, previous };
+    },
+    onError: (_error, _variables, context) => {
+      if (context?.previous) queryClient.setQueryData(context.requestsKey, context.previous);
+    },
+    onSettled: (_data, _error, request) => queryClient.invalidateQueries({ queryKey: queryKeys.friendRequests(request.fromUid) }),
+  });
+};
+
+interface AcceptInvitationVariables {
+  user: Friend;
+  invitation: InvitationClient;
+}
+
+// The inviter shows up in the friends list right away; the stored entry is read back afterwards.
+export const useAcceptInvitationMutation = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ user, invitation }: AcceptInvitationVariables) => acceptInvitation(user, invitation),
+    onMutate: async ({ user, invitation }) => {
+      const friendsKey = queryKeys.friends(user.uid);
+      await queryClient.cancelQueries({ queryKey: friendsKey });
+      const previous = queryClient.getQueryData<Friend[]>(friendsKey);
+      if (previous && !previous.some(f => f.uid === invitation.inviterId)) {
+        const inviter: Friend = { uid: invitation.inviterId, displayName: invitation.inviterName, photoURL: null };
+        queryClient.setQueryData<Friend[]>(friendsKey, sortByName([...previous, inviter]));
+      }
+      return { friendsKey, previous };
+    },
+    onError: (_error, _variables, context) => {
+      if (context?.previous) queryClient.setQueryData(context.friendsKey, context.previous);
+    },
+    onSettled: (_data, _error, { user }) => invalidateFriendData(queryClient, user.uid),
+  });
+};
+
+export const useRemoveFriendMutation = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ userId, friendId }: { userId: string; friendId: string }) => removeFriend(userId, friendId),
+    onMutate: async ({ userId, friendId }) => {
+      const friendsKey = queryKeys.friends(userId);
+      await queryClient.cancelQueries({ queryKey: friendsKey });
+      const previous = queryClient.getQueryData<Friend[]>(friendsKey);
+      if (previous) {
+        queryClient.setQueryData<Friend[]>(friendsKey, previous.filter(f => f.uid !== friendId));
+      }
+      return { friendsKey, previous };
+    },
+    onError: (_error, _variables, context) => {
+      if (context?.previous) queryClient.setQueryData(context.friendsKey, context.previous);
+    },
+    onSettled: (_data, _error, { userId }) => invalidateFriendData(queryClient, userId),
+  });
+};
+
+// Invite links the user created, with their usage
+export const useInviteLinks = (uid: string | null) => {
+  const query = useQuery({
+    queryKey: queryKeys.inviteLinks(uid ?? ''),
+    queryFn: () => getInviteLinks(uid!),
+    enabled: !!uid,
+  });
+  return { inviteLinks: query.data ?? [], isLoading: query.isLoading, error: query.error ? query.error.message : null };
+};
+
+interface CreateInviteLinkVariables {
+  inviter: Friend;
+  options?: InviteLinkOptions;
+}
+
+// Resolves with the new invite code and the id of its invitation
+export const useCreateInviteLinkMutation = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ inviter, options }: CreateInviteLinkVariables) => generateInviteCode(inviter.uid, inviter.displayName, options),
+    onSettled: (_link, _error, { inviter }) => queryClient.invalidateQueries({ queryKey: queryKeys.inviteLinks(inviter.uid) }),
+  });
+};
+
+// Revoking deletes the link, so it cannot be accepted anymore. It disappears from the list right away.
+export const useRevokeInviteLinkMutation = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ invitationId }: { inviterId: string; invitationId: string }) => deleteInvitation(invitationId),
+    onMutate: async ({ inviterId, invitationId }) => {
+      const key = queryKeys.inviteLinks(inviterId);
+      await queryClient.cancelQueries({ queryKey: key });
+      const previous = queryClient.getQueryData<InvitationClient[]>(key);
+      queryClient.setQueryData<InvitationClient[]>(key, links => links?.filter(link => link.id !== invitationId));
+      return { key, previous };
+    },
+    onError: (_error, _variables, context) => {
+      if (context?.previous) queryClient.setQueryData(context.key, context.previous);
+    },
+    onSettled: (_data, _error, { inviterId }) => {
+      queryClient.removeQueries({ queryKey: queryKeys.invitations });
+      queryClient.invalidateQueries({ queryKey: queryKeys.inviteLinks(inviterId) });
+    },
+  });
+};
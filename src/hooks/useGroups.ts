@@ -0,0 +1,116 @@
+// src/hooks/useGroups.ts
+import { useMutation, useQuery, useQueryClient, type QueryClient } from '@tanstack/react-query';
+import {
+  addGroupMembers,
+  createGroup,
+  deleteGroup,
+  getGroupsForUser,
+  joinGroupWithInvitation,
+  removeGroupMember,
+  setGroupAdmin,
+  updateGroup,
+} from '@/lib/firebase/services';
+import { queryKeys } from '@/lib/queryKeys';
+import type { Friend, GroupClient, InvitationClient } from '@/lib/types';
+
+// Groups the user belongs to, sorted by name
+export const useGroups = (uid: string | null) => {
+  const query = useQuery({
+    queryKey: queryKeys.groups.forUser(uid ?? ''),
+    queryFn: () => getGroupsForUser(uid!),
+    enabled: !!uid,
+  });
+  return { groups: query.data ?? [], isLoading: query.isLoading, error: query.error ? query.error.message : null };
+};
+
+// Applies `update` to the group in every cached group list and returns the previous lists for rollback.
+const updateCachedGroup = (queryClient: QueryClient, groupId: string, update: (group: GroupClient) => GroupClient | null) => {
+  const snapshot = queryClient.getQueriesData<GroupClient[]>({ queryKey: queryKeys.groups.all });
+  queryClient.setQueriesData<GroupClient[]>({ queryKey: queryKeys.groups.all }, cached =>
+    cached?.flatMap(group => {
+      if (group.id !== groupId) return [group];
+      const updated = update(group);
+      return updated ? [updated] : [];
+    })
+  );
+  return snapshot;
+};
+
+// Shared by the group mutations: optimistic cache update, rollback on failure, refetch afterwards
+const useGroupMutation = <TVariables extends { groupId: string }>(
+  mutationFn: (variables: TVariables) => Promise<void>,
+  optimisticUpdate: (group: GroupClient, variables: TVariables) => GroupClient | null
+) => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn,
+    onMutate: async (variables: TVariables) => {
+      await queryClient.cancelQueries({ queryKey: queryKeys.groups.all });
+      return { snapshot: updateCachedGroup(queryClient, variables.groupId, group => optimisticUpdate(group, variables)) };
+    },
+    onError: (_error, _variables, context) => {
+      context?.snapshot.forEach(([queryKey, data]) => queryClient.setQueryData(queryKey, data));
+    },
+    onSettled: () => queryClient.invalidateQueries({ queryKey: queryKeys.groups.all }),
+  });
+};
+
+export const useCreateGroupMutation = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ owner, name, description }: { owner: Friend; name: string; description: string | null }) =>
+      createGroup(owner, name, description),
+    onSettled: () => queryClient.invalidateQueries({ queryKey: queryKeys.groups.all }),
+  });
+};
+
+export const useUpdateGroupMutation = () =>
+  useGroupMutation(
+    ({ groupId, name, description }: { groupId: string; name: string; description: string | null }) => updateGroup(groupId, { name, description }),
+    (group, { name, description }) => ({ ...group, name, description })
+  );
+
+export const useAddGroupMembersMutation = () =>
+  useGroupMutation(
+    ({ groupId, people }: { groupId: string; people: Friend[] }) => addGroupMembers(groupId, people),
+    (group, { people }) => ({
+      ...group,
+      memberIds: Array.from(new Set([...group.memberIds, ...people.map(person => person.uid)])),
+      members: { ...group.members, ...Object.fromEntries(people.map(person => [person.uid, { ...person, invitationId: null }])) },
+    })
+  );
+
+// Removing oneself means leaving; the group then disappears from the user's list
+export const useRemoveGroupMemberMutation = () =>
+  useGroupMutation(
+    ({ groupId, uid }: { groupId: string; uid: string; currentUserId: string }) => removeGroupMember(groupId, uid),
+    (group, { uid, currentUserId }) => {
+      if (uid === currentUserId) return null;
+      const members = { ...group.members };
+      delete members[uid];
+      return { ...group, members, memberIds: group.memberIds.filter(id => id !== uid), adminIds: group.adminIds.filter(id => id !== uid) };
+    }
+  );
+
+export const useSetGroupAdminMutation = () =>
+  useGroupMutation(
+    ({ groupId, uid, isAdmin }: { groupId: string; uid: string; isAdmin: boolean }) => setGroupAdmin(groupId, uid, isAdmin),
+    (group, { uid, isAdmin }) => ({
+      ...group,
+      adminIds: isAdmin ? Array.from(new Set([...group.adminIds, uid])) : group.adminIds.filter(id => id !== uid),
+    })
+  );
+
+export const useDeleteGroupMutation = () =>
+  useGroupMutation(
+    ({ groupId }: { groupId: string }) => deleteGroup(groupId),
+    () => null
+  );
+
+export const useJoinGroupMutation = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ user, invitation }: { user: Friend; invitation: InvitationClient }) => joinGroupWithInvitation(user, invitation),
+    onSettled: () => queryClient.invalidateQueries({ queryKey: queryKeys.groups.all }),
+  });
+};
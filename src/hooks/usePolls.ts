@@ -0,0 +1,126 @@
+// src/hooks/usePolls.ts
+import { useEffect } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import {
+  createPoll,
+  deletePoll,
+  finalizePoll,
+  getPoll,
+  getPollsForUser,
+  subscribeToPoll,
+  subscribeToPollsForUser,
+  votePoll,
+} from '@/lib/firebase/services';
+import { queryKeys } from '@/lib/queryKeys';
+import type { CreatePollData, Friend, PollAnswer, PollClient } from '@/lib/types';
+
+// Live list of the polls the user created or was asked to vote in, open ones first
+export const usePolls = (uid: string | null) => {
+  const queryClient = useQueryClient();
+  const query = useQuery({
+    queryKey: queryKeys.polls.forUser(uid ?? ''),
+    queryFn: () => getPollsForUser(uid!),
+    enabled: !!uid,
+  });
+
+  useEffect(() => {
+    if (!uid) return;
+    try {
+      return subscribeToPollsForUser(
+        uid,
+        polls => queryClient.setQueryData(queryKeys.polls.forUser(uid), polls),
+        err => console.error("usePolls: Live updates stopped:", err)
+      );
+    } catch (err) {
+      console.error("usePolls: Could not listen for live updates:", err);
+    }
+  }, [uid, queryClient]);
+
+  return { polls: query.data ?? [], isLoading: query.isLoading, error: query.error ? query.error.message : null };
+};
+
+// Live poll document, so the tally updates as friends vote; `poll` is null while loading and when it does not exist.
+export const usePoll = (pollId: string | null) => {
+  const queryClient = useQueryClient();
+  const query = useQuery({
+    queryKey: queryKeys.polls.detail(pollId ?? ''),
+    queryFn: () => getPoll(pollId!),
+    enabled: !!pollId,
+  });
+
+  useEffect(() => {
+    if (!pollId) return;
+    try {
+      return subscribeToPoll(
+        pollId,
+        poll => queryClient.setQueryData(queryKeys.polls.detail(pollId), poll),
+        err => console.error("usePoll: Live updates stopped:", err)
+      );
+    } catch (err) {
+      console.error("usePoll: Could not listen for live updates:", err);
+    }
+  }, [pollId, queryClient]);
+
+  return { poll: query.data ?? null, isLoading: query.isLoading, error: query.error ? query.error.message : null };
+};
+
+export const useCreatePollMutation = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (pollData: CreatePollData) => createPoll(pollData),
+    onSettled: () => queryClient.invalidateQueries({ queryKey: queryKeys.polls.all }),
+  });
+};
+
+interface VotePollVariables {
+  pollId: string;
+  voter: Friend;
+  answers: Record<string, PollAnswer>;
+}
+
+// The vote shows up in the tally right away and is rolled back on failure
+export const useVotePollMutation = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ pollId, voter, answers }: VotePollVariables) => votePoll(pollId, voter, answers),
+    onMutate: async ({ pollId, voter, answers }) => {
+      const detailKey = queryKeys.polls.detail(pollId);
+      await queryClient.cancelQueries({ queryKey: detailKey });
+      const previous = queryClient.getQueryData<PollClient | null>(detailKey);
+      if (previous) {
+        queryClient.setQueryData<PollClient>(detailKey, {
+          ...previous,
+          votes: {
+            ...previous.votes,
+            [voter.uid]: { uid: voter.uid, name: voter.displayName, photoURL: voter.photoURL, answers, votedAt: new Date().toISOString() },
+          },
+        });
+      }
+      return { detailKey, previous };
+    },
+    onError: (_error, _variables, context) => {
+      if (context) queryClient.setQueryData(context.detailKey, context.previous);
+    },
+    onSettled: () => queryClient.invalidateQueries({ queryKey: queryKeys.polls.all }),
+  });
+};
+
+// Creates the activity for the chosen slot; resolves with its id
+export const useFinalizePollMutation = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ poll, slotId }: { poll: PollClient; slotId: string }) => finalizePoll(poll, slotId),
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.polls.all });
+      queryClient.invalidateQueries({ queryKey: queryKeys.activities.all });
+    },
+  });
+};
+
+export const useDeletePollMutation = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (pollId: string) => deletePoll(pollId),
+    onSettled: () => queryClient.invalidateQueries({ queryKey: queryKeys.polls.all }),
+  });
+};
@@ -0,0 +1,37 @@
+// src/hooks/useUserProfile.ts
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { fetchUserProfileForClient, updateUserProfile } from '@/lib/firebase/services';
+import { queryKeys } from '@/lib/queryKeys';
+import type { UserProfile, UserProfileClient } from '@/lib/types';
+
+export const useUserProfile = (uid: string | null) => {
+  const query = useQuery({
+    queryKey: queryKeys.userProfile(uid ?? ''),
+    queryFn: () => fetchUserProfileForClient(uid!),
+    enabled: !!uid,
+  });
+  return { userProfile: query.data ?? null, isLoading: query.isLoading, error: query.error };
+};
+
+type ProfileUpdate = Partial<Omit<UserProfile, 'createdAt' | 'uid' | 'email'>>;
+
+// Saves profile changes and applies them to the cached profile (and thereby AuthContext) immediately.
+export const useUpdateUserProfileMutation = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ uid, data }: { uid: string; data: ProfileUpdate }) => updateUserProfile(uid, data),
+    onMutate: async ({ uid, data }) => {
+      const profileKey = queryKeys.userProfile(uid);
+      await queryClient.cancelQueries({ queryKey: profileKey });
+      const previous = queryClient.getQueryData<UserProfileClient | null>(profileKey);
+      if (previous) {
+        queryClient.setQueryData<UserProfileClient>(profileKey, { ...previous, ...data });
+      }
+      return { profileKey, previous };
+    },
+    onError: (_error, _variables, context) => {
+      if (context?.previous) queryClient.setQueryData(context.profileKey, context.previous);
+    },
+    onSettled: (_data, _error, { uid }) => queryClient.invalidateQueries({ queryKey: queryKeys.userProfile(uid) }),
+  });
+};
@@ -0,0 +1,47 @@
+// src/lib/activityDetails.ts
+// Labels and formatting for the structured details of an activity (age range, cost, setting, what to bring).
+import type { ActivityClient, ActivitySetting, AgeRange } from '@/lib/types';
+
+export const MAX_DESCRIPTION_LENGTH = 2000;
+export const MAX_WHAT_TO_BRING_ITEMS = 20;
+export const MAX_WHAT_TO_BRING_ITEM_LENGTH = 80;
+export const MAX_CHILD_AGE = 18;
+
+export const SETTING_OPTIONS: { value: ActivitySetting; label: string }[] = [
+  { value: 'indoor', label: 'Indoor' },
+  { value: 'outdoor', label: 'Outdoor' },
+  { value: 'mixed', label: 'Indoor & outdoor' },
+];
+
+export const getSettingLabel = (setting: ActivitySetting): string =>
+  SETTING_OPTIONS.find(option => option.value === setting)?.label ?? setting;
+
+// e.g. "Ages 3–6", "Ages 4+", "Up to 5 years"; null when no bound is set
+export const formatAgeRange = (ageRange: AgeRange | null | undefined): string | null => {
+  if (!ageRange) return null;
+  const { min, max } = ageRange;
+  if (min != null && max != null) return min === max ? `Age ${min}` : `Ages ${min}–${max}`;
+  if (min != null) return `Ages ${min}+`;
+  if (max != null) return `Up to ${max} years`;
+  return null;
+};
+
+const euroFormatter = new Intl.NumberFormat('de-DE', { style: 'currency', currency: 'EUR' });
+
+// e.g. "Free", "5,50 € per child"; null when no cost is stated
+export const formatCostPerChild = (cost: number | null | undefined): string | null => {
+  if (cost == null) return null;
+  return cost === 0 ? 'Free' : `${euroFormatter.format(cost)} per child`;
+};
+
+// One item per line in the form; blank lines and surrounding spaces are dropped
+export const parseWhatToBring = (text: string): string[] =>
+  text.split('\n').map(item => item.trim()).filter(Boolean);
+
+// Short facts for cards and exports, in display order
+export const summarizeActivityDetails = (activity: Pick<ActivityClient, 'ageRange' | 'costPerChild' | 'setting'>): string[] =>
+  [
+    formatAgeRange(activity.ageRange),
+    formatCostPerChild(activity.costPerChild),
+    activity.setting ? getSettingLabel(activity.setting) : null,
+  ].filter((fact): fact is string => !!fact);
@@ -0,0 +1,57 @@
+// src/lib/calendar.ts
+import { addDays, addMinutes, endOfMonth, endOfWeek, format, startOfDay, startOfMonth, startOfWeek } from 'date-fns';
+import { de } from 'date-fns/locale';
+import type { ActivityClient } from '@/lib/types';
+
+export type CalendarViewMode = 'month' | 'week' | 'agenda';
+
+// Weeks start on Monday throughout the app (see ActivityForm's date picker)
+export const WEEK_STARTS_ON = 1;
+
+// Assumed length of an activity without an end time, e.g. when drawing it on the week timeline
+export const DEFAULT_ACTIVITY_DURATION_MINUTES = 60;
+// Activities end on the day they start, so none lasts a full day
+export const MAX_ACTIVITY_DURATION_MINUTES = 24 * 60 - 1;
+
+type ActivityTiming = Pick<ActivityClient, 'date' | 'durationMinutes'>;
+
+export const getActivityEnd = (activity: ActivityTiming): Date =>
+  addMinutes(new Date(activity.date), activity.durationMinutes ?? DEFAULT_ACTIVITY_DURATION_MINUTES);
+
+// Activities that have not ended yet, including those in progress
+export const isActivityCurrent = (activity: ActivityTiming, now: Date): boolean => getActivityEnd(activity) > now;
+
+// e.g. "14:00–17:00", or just "14:00" when no end time was given
+export const formatActivityTime = (activity: ActivityTiming): string => {
+  const start = format(new Date(activity.date), 'HH:mm', { locale: de });
+  return activity.durationMinutes ? `${start}–${format(getActivityEnd(activity), 'HH:mm', { locale: de })}` : start;
+};
+
+export const toDayKey = (date: Date): string => format(date, 'yyyy-MM-dd');
+
+// The [start, end) range of dates that has to be loaded to render a view around `cursor`.
+// The month view includes the leading and trailing days of neighbouring months shown in the grid.
+export const getViewRange = (mode: CalendarViewMode, cursor: Date): { start: Date; end: Date } => {
+  if (mode === 'week') {
+    const start = startOfWeek(cursor, { weekStartsOn: WEEK_STARTS_ON });
+    return { start, end: addDays(start, 7) };
+  }
+  if (mode === 'month') {
+    const start = startOfWeek(startOfMonth(cursor), { weekStartsOn: WEEK_STARTS_ON });
+    const end = addDays(startOfDay(endOfWeek(endOfMonth(cursor), { weekStartsOn: WEEK_STARTS_ON })), 1);
+    return { start, end };
+  }
+  return { start: startOfMonth(cursor), end: addDays(startOfDay(endOfMonth(cursor)), 1) };
+};
+
+// Groups activities by local calendar day, keeping each day's activities sorted by start time.
+export const groupActivitiesByDay = (activities: ActivityClient[]): Map<string, ActivityClient[]> => {
+  const groups = new Map<string, ActivityClient[]>();
+  [...activities]
+    .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime())
+    .forEach(activity => {
+      const key = toDayKey(new Date(activity.date));
+      groups.set(key, [...(groups.get(key) ?? []), activity]);
+    });
+  return groups;
+};
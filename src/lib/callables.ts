@@ -0,0 +1,45 @@
+// src/lib/callables.ts
+// Payloads of the callable Cloud Functions in functions/src, shared by the app and the functions.
+// Operations that write to documents the caller does not own (another user's friends list, an activity
+// someone else created, a group joined by invite) run there, so the rules can keep those fields read-only.
+import type { JoinActivityResult, RsvpStatus } from '@/lib/types';
+
+// Sent as the error's `details.reason` when the UI reacts to a specific failure (e.g. 'already-friends')
+export type CallableErrorReason =
+  | 'already-friends'
+  | 'cannot-add-self'
+  | 'no-friend-request'
+  | 'invite-invalid'
+  | 'invite-expired'
+  | 'invite-used-up';
+
+export interface CallableErrorDetails {
+  reason: CallableErrorReason;
+}
+
+export interface AcceptInvitationRequest {
+  invitationId: string;
+}
+
+export interface AcceptInvitationResponse {
+  kind: 'friend' | 'group';
+}
+
+// Accepts the other user's pending request, or completes one they accepted before requests were answered server-side
+export interface AcceptFriendRequestRequest {
+  otherUid: string;
+}
+
+export interface RemoveFriendRequest {
+  friendId: string;
+}
+
+export interface SetRsvpRequest {
+  activityId: string;
+  status: RsvpStatus;
+  childIds: string[]; // Children from the caller's profile who come along; names are read from the profile
+}
+
+export interface SetRsvpResponse {
+  result: JoinActivityResult | null; // Join outcome for "going", null otherwise
+}
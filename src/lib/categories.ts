@@ -0,0 +1,54 @@
+// src/lib/categories.ts
+// Activity categories and free-form tags, and the filters built from them on the dashboard and calendar.
+import type { ActivityCategory, ActivityClient } from '@/lib/types';
+
+export const MAX_TAGS = 10;
+export const MAX_TAG_LENGTH = 30;
+
+export const CATEGORY_OPTIONS: { value: ActivityCategory; label: string }[] = [
+  { value: 'playground', label: 'Playground' },
+  { value: 'sports', label: 'Sports' },
+  { value: 'museum', label: 'Museum' },
+  { value: 'birthday', label: 'Birthday' },
+  { value: 'playdate', label: 'Playdate' },
+  { value: 'outdoor', label: 'Outdoors' },
+  { value: 'crafts', label: 'Crafts' },
+  { value: 'other', label: 'Other' },
+];
+
+export const getCategoryLabel = (category: ActivityCategory): string =>
+  CATEGORY_OPTIONS.find(option => option.value === category)?.label ?? category;
+
+// Tags are compared case-insensitively and may be typed with a leading '#'
+export const normalizeTag = (tag: string): string =>
+  tag.trim().replace(/^#+/, '').replace(/\s+/g, ' ').toLowerCase();
+
+// Comma-separated in the form; duplicates and empty entries are dropped
+export const parseTags = (text: string): string[] =>
+  Array.from(new Set(text.split(',').map(normalizeTag).filter(Boolean)));
+
+export interface ActivityFilter {
+  categories: ActivityCategory[];
+  tags: string[];
+}
+
+export const EMPTY_ACTIVITY_FILTER: ActivityFilter = { categories: [], tags: [] };
+
+export const isFilterActive = (filter: ActivityFilter): boolean =>
+  filter.categories.length > 0 || filter.tags.length > 0;
+
+// Categories and tags that occur in the loaded activities, for offering only filters that match something
+export const collectFilterOptions = (activities: ActivityClient[]): ActivityFilter => ({
+  categories: CATEGORY_OPTIONS
+    .map(option => option.value)
+    .filter(category => activities.some(activity => activity.category === category)),
+  tags: Array.from(new Set(activities.flatMap(activity => activity.tags ?? []))).sort((a, b) => a.localeCompare(b)),
+});
+
+// An activity matches when it has one of the chosen categories (if any are chosen) and one of the chosen
+// tags (if any are chosen). Activities without a category only match while no category is chosen.
+export const filterActivities = (activities: ActivityClient[], filter: ActivityFilter): ActivityClient[] =>
+  activities.filter(activity =>
+    (filter.categories.length === 0 || (!!activity.category && filter.categories.includes(activity.category))) &&
+    (filter.tags.length === 0 || (activity.tags ?? []).some(tag => filter.tags.includes(tag)))
+  );
@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import type { ActivityClient, ActivityParticipant } from '@/lib/types';
+import { activitiesOverlap, findConflicts } from '@/lib/conflicts';
+
+const UID = 'parent-1';
+const me: ActivityParticipant = { uid: UID, name: 'Me' };
+
+const activity = (overrides: Partial<ActivityClient>): ActivityClient => ({
+  id: 'activity',
+  title: 'Playground',
+  date: '2024-06-01T14:00:00.000Z',
+  durationMinutes: 60,
+  location: null,
+  creatorId: 'someone-else',
+  creatorName: 'Someone',
+  participants: [],
+  participantUids: [],
+  waitlist: [],
+  rsvps: {},
+  invitees: {},
+  createdAt: '2024-05-01T00:00:00.000Z',
+  ...overrides,
+});
+
+describe('activitiesOverlap', () => {
+  it('does not count windows that only touch as overlapping', () => {
+    const first = { date: '2024-06-01T14:00:00.000Z', durationMinutes: 60 };
+    const second = { date: '2024-06-01T15:00:00.000Z', durationMinutes: 30 };
+    expect(activitiesOverlap(first, second)).toBe(false);
+    expect(activitiesOverlap(second, first)).toBe(false);
+  });
+
+  it('detects windows that share at least a minute', () => {
+    const first = { date: '2024-06-01T14:00:00.000Z', durationMinutes: 61 };
+    const second = { date: '2024-06-01T15:00:00.000Z', durationMinutes: 30 };
+    expect(activitiesOverlap(first, second)).toBe(true);
+  });
+
+  it('assumes the default length for activities without an end time', () => {
+    const openEnded = { date: '2024-06-01T14:00:00.000Z', durationMinutes: null };
+    expect(activitiesOverlap(openEnded, { date: '2024-06-01T14:59:00.000Z', durationMinutes: 30 })).toBe(true);
+    expect(activitiesOverlap(openEnded, { date: '2024-06-01T15:00:00.000Z', durationMinutes: 30 })).toBe(false);
+    expect(activitiesOverlap({ date: '2024-06-01T13:30:00.000Z' }, openEnded)).toBe(true);
+  });
+});
+
+describe('findConflicts', () => {
+  const candidate = { date: '2024-06-01T14:30:00.000Z', durationMinutes: 60 };
+
+  it('returns overlapping activities the user created or joined, sorted by start', () => {
+    const joined = activity({ id: 'joined', date: '2024-06-01T15:00:00.000Z', participants: [me], participantUids: [UID] });
+    const own = activity({ id: 'own', date: '2024-06-01T14:00:00.000Z', creatorId: UID });
+    expect(findConflicts(candidate, [joined, own], UID).map(a => a.id)).toEqual(['own', 'joined']);
+  });
+
+  it('excludes the activity being edited', () => {
+    const edited = activity({ id: 'edited', date: '2024-06-01T14:00:00.000Z', creatorId: UID });
+    expect(findConflicts({ ...candidate, id: 'edited' }, [edited], UID)).toEqual([]);
+    expect(findConflicts(candidate, [edited], UID).map(a => a.id)).toEqual(['edited']);
+  });
+
+  it('ignores activities the user is only waitlisted for', () => {
+    const waitlisted = activity({ id: 'waitlisted', waitlist: [me], maxParticipants: 1, participants: [{ uid: 'other', name: 'Other' }] });
+    expect(findConflicts(candidate, [waitlisted], UID)).toEqual([]);
+  });
+
+  it('ignores activities the user declined', () => {
+    const declined = activity({
+      id: 'declined',
+      rsvps: { [UID]: { uid: UID, name: 'Me', status: 'declined', respondedAt: '2024-05-02T00:00:00.000Z' } },
+    });
+    expect(findConflicts(candidate, [declined], UID)).toEqual([]);
+  });
+});
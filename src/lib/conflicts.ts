@@ -0,0 +1,33 @@
+// src/lib/conflicts.ts
+// Overlap checks between a planned activity and the activities a user has already committed to.
+import { subMinutes } from 'date-fns';
+import type { ActivityClient } from '@/lib/types';
+import { getActivityEnd, MAX_ACTIVITY_DURATION_MINUTES } from '@/lib/calendar';
+
+// The time window being planned: a new activity (no id yet), an edited one or one the user is about to join
+export type ConflictCandidate = Pick<ActivityClient, 'date' | 'durationMinutes'> & { id?: string };
+
+// Activities the user created or is going to (waitlist places do not count, the family may never get a spot)
+export const isCommittedTo = (activity: ActivityClient, uid: string): boolean =>
+  activity.creatorId === uid
+  || (activity.participantUids ?? []).includes(uid)
+  || activity.participants.some(participant => participant.uid === uid);
+
+// Half-open windows, so an activity ending at 15:00 does not clash with one starting at 15:00
+export const activitiesOverlap = (a: Pick<ActivityClient, 'date' | 'durationMinutes'>, b: Pick<ActivityClient, 'date' | 'durationMinutes'>): boolean =>
+  new Date(a.date) < getActivityEnd(b) && new Date(b.date) < getActivityEnd(a);
+
+// The [start, end) range of start dates that can overlap the candidate, for loading activities to check against
+export const getConflictSearchRange = (candidate: ConflictCandidate): { start: Date; end: Date } => ({
+  start: subMinutes(new Date(candidate.date), MAX_ACTIVITY_DURATION_MINUTES),
+  end: getActivityEnd(candidate),
+});
+
+/**
+ * The user's other activities that overlap the candidate, sorted by start time. Activities without an end
+ * time are assumed to last DEFAULT_ACTIVITY_DURATION_MINUTES.
+ */
+export const findConflicts = (candidate: ConflictCandidate, activities: ActivityClient[], uid: string): ActivityClient[] =>
+  activities
+    .filter(activity => activity.id !== candidate.id && isCommittedTo(activity, uid) && activitiesOverlap(candidate, activity))
+    .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
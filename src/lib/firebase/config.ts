@@ -1,7 +1,11 @@
 // src/lib/firebase/config.ts
 import { initializeApp, getApps, getApp, type FirebaseApp } from "firebase/app";
 import { getAuth, type Auth } from "firebase/auth";
-import { getFirestore, type Firestore } from "firebase/firestore";
+import { connectFirestoreEmulator, getFirestore, type Firestore } from "firebase/firestore";
+import { connectFunctionsEmulator, getFunctions, type Functions } from "firebase/functions";
+
+// Set NEXT_PUBLIC_USE_FIREBASE_EMULATORS=true to talk to `firebase emulators:start` instead of the real project
+const useEmulators = process.env.NEXT_PUBLIC_USE_FIREBASE_EMULATORS === 'true';
 
 const firebaseConfig = {
   apiKey: process.env.NEXT_PUBLIC_FIREBASE_API_KEY,
@@ -16,6 +20,7 @@ const firebaseConfig = {
 let app: FirebaseApp | null = null; // Initialize as null
 let auth: Auth | null = null;
 let db: Firestore | null = null;
+let functions: Functions | null = null;
 let firebaseInitializationError: Error | null = null;
 
 function isFirebaseConfiguredCorrectly(): boolean {
@@ -57,6 +62,21 @@ if (!getApps().length) {
         firebaseInitializationError = new Error(`Firebase Firestore Initialization Failed: ${errorMessage}`);
         db = null; // Ensure db is null on error
       }
+
+      try {
+        functions = getFunctions(app);
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        console.error("Firebase: getFunctions() failed:", errorMessage, error);
+        firebaseInitializationError = new Error(`Firebase Functions Initialization Failed: ${errorMessage}`);
+        functions = null; // Ensure functions is null on error
+      }
+
+      // Emulators can only be connected once per app, so this is skipped when an existing app is reused below
+      if (useEmulators) {
+        if (db) connectFirestoreEmulator(db, 'localhost', 8080);
+        if (functions) connectFunctionsEmulator(functions, 'localhost', 5001);
+      }
     }
   } else {
     const errorMessage =
@@ -96,6 +116,16 @@ if (!getApps().length) {
             db = null;
         }
      }
+     if (app && !functions) { // Check if functions is not already initialized
+        try {
+            functions = getFunctions(app);
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            console.warn("Firebase: getFunctions() on existing app failed:", errorMessage, error);
+             if (!firebaseInitializationError) firebaseInitializationError = new Error(`Firebase Functions Get on Existing App Failed: ${errorMessage}`);
+            functions = null;
+        }
+     }
   } else if (!firebaseInitializationError) {
     // Existing app, but current config is bad, and no prior error was set
     const errorMessage =
@@ -104,7 +134,8 @@ if (!getApps().length) {
     firebaseInitializationError = new Error(errorMessage);
     auth = null; // Ensure services are nulled out if config is bad now
     db = null;
+    functions = null;
   }
 }
 
-export { app, auth, db, firebaseInitializationError, isFirebaseConfiguredCorrectly as isFirebaseConfigured };
+export { app, auth, db, functions, firebaseInitializationError, isFirebaseConfiguredCorrectly as isFirebaseConfigured };
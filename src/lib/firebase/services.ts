@@ -6,28 +6,51 @@ import {
   updateDoc,
   deleteDoc,
   collection,
+  collectionGroup,
   query,
   where,
   getDocs,
   serverTimestamp,
   Timestamp,
   writeBatch,
+  runTransaction,
+  orderBy,
+  deleteField,
+  increment,
   arrayUnion,
   arrayRemove,
-  orderBy,
+  onSnapshot,
+  type Unsubscribe,
+  type Query,
+  type QueryConstraint,
   type QuerySnapshot,
   type DocumentData,
 } from "firebase/firestore";
+import { FirebaseError } from "firebase/app";
 import { signOut } from "firebase/auth";
-import { db, auth } from "./config";
+import { httpsCallable, type FunctionsError } from "firebase/functions";
+import { subMinutes } from "date-fns";
+import { db, auth, functions } from "./config";
 import type {
   UserProfile, UserProfileClient,
-  Activity, ActivityClient,
-  Friend,
-  Invitation, InvitationClient,
-  CreateActivityData, UpdateActivityData,
+  Activity, ActivityClient, ActivityParticipant, ActivityVisibility, JoinActivityResult,
+  ActivityRsvp, ActivityRsvpClient, RsvpStatus,
+  ActivityInvitee, ActivityInviteeClient,
+  Friend, FriendRequest, FriendRequestClient, FriendRequestStatus,
+  Invitation, InvitationClient, InvitationState,
+  Group, GroupClient, GroupMember,
+  CalendarFeed, CalendarFeedClient,
+  Poll, PollAnswer, PollClient, PollVote,
+  CreateActivityData, CreatePollData, UpdateActivityData, SeriesEditScope,
 } from "@/lib/types";
-import { v4 as uuidv4 } from 'uuid';
+import type {
+  AcceptFriendRequestRequest, AcceptInvitationRequest, AcceptInvitationResponse, CallableErrorDetails,
+  RemoveFriendRequest, SetRsvpRequest, SetRsvpResponse,
+} from "@/lib/callables";
+import { readChildren } from "@/lib/profile";
+import { expandRecurrence, shiftOccurrence } from "@/lib/recurrence";
+import { DEFAULT_VISIBILITY } from "@/lib/visibility";
+import { isActivityCurrent, MAX_ACTIVITY_DURATION_MINUTES } from "@/lib/calendar";
 
 
 // --- Helper to transform Firestore doc to Client types ---
@@ -39,23 +62,54 @@ const toUserProfileClient = (profile: UserProfile): UserProfileClient => {
         email: profile.email ?? null,
         displayName: profile.displayName ?? null,
         photoURL: profile.photoURL ?? null,
-        childNickname: profile.childNickname ?? null,
+        children: profile.children ?? [],
         createdAt: createdAtTimestamp ? createdAtTimestamp.toDate().toISOString() : new Date(0).toISOString(),
     };
 };
 
+const toActivityRsvpClient = (rsvp: ActivityRsvp): ActivityRsvpClient => ({
+    ...rsvp,
+    photoURL: rsvp.photoURL ?? null,
+    respondedAt: rsvp.respondedAt instanceof Timestamp ? rsvp.respondedAt.toDate().toISOString() : new Date(0).toISOString(),
+});
+
+const toActivityInviteeClient = (invitee: ActivityInvitee): ActivityInviteeClient => ({
+    ...invitee,
+    photoURL: invitee.photoURL ?? null,
+    invitedAt: invitee.invitedAt instanceof Timestamp ? invitee.invitedAt.toDate().toISOString() : new Date().toISOString(),
+    respondedAt: invitee.respondedAt instanceof Timestamp ? invitee.respondedAt.toDate().toISOString() : null,
+});
+
 const toActivityClient = (activity: Activity): ActivityClient => {
     const dateTimestamp = activity.date instanceof Timestamp ? activity.date : null;
     const createdAtTimestamp = activity.createdAt instanceof Timestamp ? activity.createdAt : null;
     return {
         ...activity,
+        rsvps: Object.fromEntries(
+            Object.entries(activity.rsvps ?? {}).map(([uid, rsvp]) => [uid, toActivityRsvpClient(rsvp)])
+        ),
+        invitees: Object.fromEntries(
+            Object.entries(activity.invitees ?? {}).map(([uid, invitee]) => [uid, toActivityInviteeClient(invitee)])
+        ),
         // Ensure location is explicitly null if undefined from Firestore
         location: activity.location === undefined ? null : activity.location,
+        maxParticipants: activity.maxParticipants ?? null,
+        waitlist: activity.waitlist ?? [],
         date: dateTimestamp ? dateTimestamp.toDate().toISOString() : new Date(0).toISOString(),
         createdAt: createdAtTimestamp ? createdAtTimestamp.toDate().toISOString() : new Date(0).toISOString(),
     };
 };
 
+const toGroupClient = (id: string, group: Group): GroupClient => ({
+    ...group,
+    id,
+    description: group.description ?? null,
+    adminIds: group.adminIds ?? [],
+    memberIds: group.memberIds ?? [],
+    members: group.members ?? {},
+    createdAt: group.createdAt instanceof Timestamp ? group.createdAt.toDate().toISOString() : new Date(0).toISOString(),
+});
+
 const toInvitationClient = (invitation: Invitation): InvitationClient => {
     const createdAtTimestamp = invitation.createdAt instanceof Timestamp ? invitation.createdAt : null;
     const expiresAtTimestamp = invitation.expiresAt instanceof Timestamp ? invitation.expiresAt : null;
@@ -63,6 +117,14 @@ const toInvitationClient = (invitation: Invitation): InvitationClient => {
         ...invitation,
         createdAt: createdAtTimestamp ? createdAtTimestamp.toDate().toISOString() : new Date(0).toISOString(),
         expiresAt: expiresAtTimestamp ? expiresAtTimestamp.toDate().toISOString() : undefined,
+        maxUses: invitation.maxUses === undefined ? 1 : invitation.maxUses,
+        useCount: invitation.useCount ?? 0,
+        redemptions: Object.fromEntries(
+            Object.entries(invitation.redemptions ?? {}).map(([uid, redemption]) => [uid, {
+                ...redemption,
+                redeemedAt: redemption.redeemedAt instanceof Timestamp ? redemption.redeemedAt.toDate().toISOString() : new Date().toISOString(),
+            }])
+        ),
     };
 };
 
@@ -87,7 +149,7 @@ export const getUserProfile = async (uid: string): Promise<UserProfile | null> =
           email: data.email ?? null,
           displayName: data.displayName ?? null,
           photoURL: data.photoURL ?? null,
-          childNickname: data.childNickname ?? null,
+          children: readChildren(data),
           createdAt: data.createdAt as Timestamp, // Assuming createdAt is always a Timestamp
       };
     } else {
@@ -109,6 +171,7 @@ export const fetchUserProfileForClient = async (uid: string): Promise<UserProfil
 };
 
 
+// Copies of the name and photo in friends lists, groups and activities are updated by the syncProfileCopies function
 export const updateUserProfile = async (uid: string, data: Partial<Omit<UserProfile, 'createdAt' | 'uid' | 'email'>>): Promise<void> => {
    if (!db) {
       console.error("Firestore (db) is not initialized. Cannot update profile.");
@@ -118,7 +181,10 @@ export const updateUserProfile = async (uid: string, data: Partial<Omit<UserProf
   const updateData: { [key: string]: any } = {};
   if (data.displayName !== undefined) updateData.displayName = data.displayName;
   if (data.photoURL !== undefined) updateData.photoURL = data.photoURL;
-  if (data.childNickname !== undefined) updateData.childNickname = data.childNickname;
+  if (data.children !== undefined) {
+    updateData.children = data.children;
+    updateData.childNickname = deleteField(); // Drop the legacy single-child field once children are saved
+  }
 
   if (Object.keys(updateData).length > 0) {
     try {
@@ -141,7 +207,7 @@ export const createUserProfile = async (userData: Omit<UserProfile, 'createdAt'>
         email: userData.email ?? null,
         displayName: userData.displayName ?? null,
         photoURL: userData.photoURL ?? null,
-        childNickname: userData.childNickname ?? null,
+        children: userData.children ?? [],
         createdAt: serverTimestamp() as Timestamp,
     };
     try {
@@ -170,28 +236,109 @@ export const handleSignOut = async (): Promise<void> => {
 
 
 // --- Activities ---
+
+// Firestore rejects batches with more than 500 writes
+const MAX_BATCH_WRITES = 500;
+
+// Builds the document(s) for a new activity. Recurring activities are materialized: every occurrence is its own
+// document sharing a seriesId (the id of the first one), so joining, editing and querying work per occurrence
+// without special casing.
+const buildActivityDocs = (firestore: NonNullable<typeof db>, activityData: CreateActivityData) => {
+  const location = activityData.location === "" ? null : activityData.location; // Ensure location is null if empty string
+  const creatorRsvp: ActivityRsvp = {
+    uid: activityData.creatorId,
+    name: activityData.creatorName,
+    photoURL: activityData.creatorPhotoURL ?? null,
+    status: 'going',
+    respondedAt: serverTimestamp() as Timestamp,
+  };
+  const occurrenceDates = activityData.recurrence
+    ? expandRecurrence(activityData.date.toDate(), activityData.recurrence)
+    : [activityData.date.toDate()];
+  const refs = occurrenceDates.map(() => doc(collection(firestore, "activities")));
+  const seriesId = activityData.recurrence ? refs[0].id : null;
+  const audienceUids = Array.from(new Set([activityData.creatorId, ...(activityData.audienceUids ?? [])]));
+  return occurrenceDates.map((occurrenceDate, index) => {
+    const data: Activity = {
+      ...activityData,
+      id: refs[index].id,
+      location,
+      visibility: activityData.visibility ?? DEFAULT_VISIBILITY,
+      audienceUids,
+      audienceGroupIds: activityData.audienceGroupIds ?? [],
+      date: Timestamp.fromDate(occurrenceDate),
+      recurrence: activityData.recurrence ?? null,
+      seriesId,
+      sequence: 0,
+      rsvps: { [activityData.creatorId]: creatorRsvp },
+      createdAt: serverTimestamp() as Timestamp,
+      // participantUids should be part of CreateActivityData
+    };
+    return { ref: refs[index], data };
+  });
+};
+
+// Returns the id of the new activity, or the seriesId for a recurring activity.
 export const createActivity = async (activityData: CreateActivityData): Promise<string> => {
    if (!db) {
        console.error("Firestore (db) is not initialized. Cannot create activity.");
        throw new Error("Database service unavailable for createActivity.");
    }
-  const newActivityRef = doc(collection(db, "activities"));
-  const newActivityForDb: Activity = {
-    ...activityData,
-    id: newActivityRef.id,
-    location: activityData.location === "" ? null : activityData.location, // Ensure location is null if empty string
-    createdAt: serverTimestamp() as Timestamp,
-    // participantUids should be part of CreateActivityData
-  };
+  const activityDocs = buildActivityDocs(db, activityData);
+
+  if (activityData.recurrence) {
+    const batch = writeBatch(db);
+    activityDocs.forEach(({ ref, data }) => batch.set(ref, data));
+    try {
+      await batch.commit();
+      return activityDocs[0].ref.id;
+    } catch (error) {
+      console.error("Error creating recurring activity:", error);
+      throw new Error(`Failed to create recurring activity: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
   try {
-    await setDoc(newActivityRef, newActivityForDb);
-    return newActivityRef.id;
+    await setDoc(activityDocs[0].ref, activityDocs[0].data);
+    return activityDocs[0].ref.id;
   } catch (error) {
     console.error("Error creating activity:", error);
     throw new Error(`Failed to create activity: ${error instanceof Error ? error.message : String(error)}`);
   }
 };
 
+// Creates many activities at once (e.g. from an imported calendar file) using as few batched writes as possible.
+// A series is never split across batches. Returns the ids in input order, like createActivity.
+export const createActivities = async (activitiesData: CreateActivityData[]): Promise<string[]> => {
+   if (!db) {
+       console.error("Firestore (db) is not initialized. Cannot create activities.");
+       throw new Error("Database service unavailable for createActivities.");
+   }
+  const firestore = db;
+  const docsPerActivity = activitiesData.map(activityData => buildActivityDocs(firestore, activityData));
+
+  const batches = [writeBatch(firestore)];
+  let writesInBatch = 0;
+  docsPerActivity.forEach(activityDocs => {
+    if (writesInBatch + activityDocs.length > MAX_BATCH_WRITES) {
+      batches.push(writeBatch(firestore));
+      writesInBatch = 0;
+    }
+    activityDocs.forEach(({ ref, data }) => batches[batches.length - 1].set(ref, data));
+    writesInBatch += activityDocs.length;
+  });
+
+  try {
+    for (const batch of batches) {
+      await batch.commit();
+    }
+    return docsPerActivity.map(activityDocs => activityDocs[0].ref.id);
+  } catch (error) {
+    console.error("Error creating activities:", error);
+    throw new Error(`Failed to create activities: ${error instanceof Error ? error.message : String(error)}`);
+  }
+};
+
 export const getActivity = async (activityId: string): Promise<ActivityClient | null> => {
     if (!db) {
         console.error("Firestore (db) is not initialized. Cannot get activity.");
@@ -212,19 +359,39 @@ export const getActivity = async (activityId: string): Promise<ActivityClient |
     }
 };
 
+// Live variant of getActivity. `onChange` receives null when the activity does not exist (anymore).
+export const subscribeToActivity = (
+    activityId: string,
+    onChange: (activity: ActivityClient | null) => void,
+    onError: (error: Error) => void
+): Unsubscribe => {
+    if (!db) {
+        console.error("Firestore (db) is not initialized. Cannot subscribe to activity.");
+        throw new Error("Database service unavailable for subscribeToActivity.");
+    }
+    return onSnapshot(
+        doc(db, "activities", activityId),
+        snapshot => onChange(snapshot.exists() ? toActivityClient(snapshot.data() as Activity) : null),
+        error => {
+            console.error(`Error listening to activity ${activityId}:`, error);
+            onError(new Error(`Failed to listen to activity: ${error.message}`));
+        }
+    );
+};
+
 export const updateActivity = async (activityId: string, data: UpdateActivityData): Promise<void> => {
     if (!db) {
         console.error("Firestore (db) is not initialized. Cannot update activity.");
         throw new Error("Database service unavailable for updateActivity.");
     }
     const activityDocRef = doc(db, "activities", activityId);
-    const updateData: { [key: string]: any } = { ...data };
+    const updateData: { [key: string]: any } = { ...data, sequence: increment(1) };
     if (data.location !== undefined) {
         updateData.location = data.location === "" ? null : data.location;
     }
 
-
     try {
+        // Raising the capacity promotes waitlisted families in the promoteWaitlist function
         await updateDoc(activityDocRef, updateData);
     } catch (error) {
         console.error(`Error updating activity ${activityId}:`, error);
@@ -232,6 +399,65 @@ export const updateActivity = async (activityId: string, data: UpdateActivityDat
     }
 };
 
+// Applies an edit made to one occurrence to the chosen part of its series.
+// A date/time change is applied as the same day offset and new time of day to every affected occurrence.
+export const updateActivitySeries = async (activity: ActivityClient, data: UpdateActivityData, scope: SeriesEditScope): Promise<void> => {
+    if (!db) {
+        console.error("Firestore (db) is not initialized. Cannot update activity series.");
+        throw new Error("Database service unavailable for updateActivitySeries.");
+    }
+    if (scope === 'this' || !activity.seriesId) {
+        return updateActivity(activity.id, data);
+    }
+
+    const editedFrom = new Date(activity.date);
+    const editedTo = data.date ? data.date.toDate() : null;
+    const seriesQuery = query(
+        collection(db, "activities"),
+        where("creatorId", "==", activity.creatorId),
+        where("seriesId", "==", activity.seriesId)
+    );
+
+    try {
+        const seriesSnapshot = await getDocs(seriesQuery);
+        const batch = writeBatch(db);
+        seriesSnapshot.docs.forEach(docSnap => {
+            const occurrence = docSnap.data() as Activity;
+            const occurrenceDate = occurrence.date.toDate();
+            if (scope === 'following' && occurrenceDate < editedFrom) return;
+
+            const updateData: { [key: string]: any } = { ...data, sequence: increment(1) };
+            if (data.location !== undefined) {
+                updateData.location = data.location === "" ? null : data.location;
+            }
+            if (editedTo) {
+                updateData.date = Timestamp.fromDate(shiftOccurrence(occurrenceDate, editedFrom, editedTo));
+            }
+            batch.update(docSnap.ref, updateData);
+        });
+        await batch.commit();
+    } catch (error) {
+        console.error(`Error updating activity series ${activity.seriesId}:`, error);
+        throw new Error(`Failed to update activity series: ${error instanceof Error ? error.message : String(error)}`);
+    }
+};
+
+// All occurrences of a recurring activity the user can see, in chronological order.
+export const getActivitySeries = async (activity: ActivityClient, uid: string): Promise<ActivityClient[]> => {
+    if (!db) {
+        console.error("Firestore (db) is not initialized. Cannot get activity series.");
+        throw new Error("Database service unavailable for getActivitySeries.");
+    }
+    const seriesQueries = readableActivityQueries(db, uid, [activity.creatorId], [where("seriesId", "==", activity.seriesId)]);
+    try {
+        const seriesSnapshots = await Promise.all(seriesQueries.map(seriesQuery => getDocs(seriesQuery)));
+        return mergeActivitySnapshots(seriesSnapshots);
+    } catch (error) {
+        console.error(`Error fetching activity series ${activity.seriesId}:`, error);
+        throw new Error(`Failed to fetch activity series: ${error instanceof Error ? error.message : String(error)}`);
+    }
+};
+
 export const deleteActivity = async (activityId: string): Promise<void> => {
     if (!db) {
         console.error("Firestore (db) is not initialized. Cannot delete activity.");
@@ -247,159 +473,389 @@ export const deleteActivity = async (activityId: string): Promise<void> => {
 };
 
 
-export const getDashboardActivities = async (uid: string): Promise<ActivityClient[]> => {
+// Firestore allows at most 30 disjunctions per query; the friends query combines creatorId `in` with two visibility values
+const FRIENDS_QUERY_CHUNK_SIZE = 15;
+const FRIENDS_VISIBILITIES: ActivityVisibility[] = ['friends', 'public'];
+
+/**
+ * Queries for the activities matching `constraints` that the user may read. Firestore rejects queries that could
+ * return documents the rules deny, so each one follows a branch of the activities read rule in firestore.rules:
+ * own activities, activities shared with, joined by or explicitly invited to by the user, and activities of `creatorIds` that are
+ * visible to all friends.
+ */
+const readableActivityQueries = (
+    firestore: NonNullable<typeof db>,
+    uid: string,
+    creatorIds: string[],
+    constraints: QueryConstraint[]
+): Query<DocumentData>[] => {
+    const activitiesRef = collection(firestore, "activities");
+    const queries = [
+        query(activitiesRef, where("creatorId", "==", uid), ...constraints),
+        query(activitiesRef, where("audienceUids", "array-contains", uid), ...constraints),
+        query(activitiesRef, where("participantUids", "array-contains", uid), ...constraints),
+        query(activitiesRef, where("inviteeUids", "array-contains", uid), ...constraints),
+    ];
+    const otherCreatorIds = creatorIds.filter(creatorId => creatorId !== uid);
+    for (let i = 0; i < otherCreatorIds.length; i += FRIENDS_QUERY_CHUNK_SIZE) {
+        queries.push(query(
+            activitiesRef,
+            where("creatorId", "in", otherCreatorIds.slice(i, i + FRIENDS_QUERY_CHUNK_SIZE)),
+            where("visibility", "in", FRIENDS_VISIBILITIES),
+            ...constraints
+        ));
+    }
+    return queries;
+};
+
+// The same activity can be returned by several of the queries above
+const mergeActivitySnapshots = (snapshots: QuerySnapshot<DocumentData>[]): ActivityClient[] => {
+    const activities = snapshots.flatMap(snapshot => snapshot.docs.map(docSnap => toActivityClient(docSnap.data() as Activity)));
+    const uniqueActivities = Array.from(new Map(activities.map(act => [act.id, act])).values());
+    return uniqueActivities.sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+};
+
+// Activities are queried by start date, so the dashboard looks back by the longest possible duration to also
+// find activities that are still in progress, then drops those that have already ended.
+const dashboardRangeStart = (now: Date): Date => subMinutes(now, MAX_ACTIVITY_DURATION_MINUTES);
+
+export const getDashboardActivities = async (uid: string, now: Date = new Date()): Promise<ActivityClient[]> => {
+    const activities = await getActivitiesInRange(uid, dashboardRangeStart(now), null);
+    return activities.filter(activity => isActivityCurrent(activity, now));
+};
+
+// Activities the user can see (own, shared with them, joined, or shared with all friends by a friend) with a start
+// date in [start, end). An open end (null) returns everything from `start` onwards.
+export const getActivitiesInRange = async (uid: string, start: Date, end: Date | null): Promise<ActivityClient[]> => {
     if (!db) {
-        console.error("Firestore (db) is not initialized. Cannot get dashboard activities.");
-        throw new Error("Database service unavailable for dashboard activities.");
+        console.error("Firestore (db) is not initialized. Cannot get activities.");
+        throw new Error("Database service unavailable for activities in range.");
     }
 
-    let userAndFriendIds: string[];
+    let friendIds: string[];
     try {
         const friends = await getFriends(uid);
-        const friendIds = friends.map(f => f.uid);
-        userAndFriendIds = Array.from(new Set([uid, ...friendIds]));
+        friendIds = friends.map(f => f.uid);
     } catch (error) {
-        console.error("getDashboardActivities: Failed to get friends list. Proceeding with user's activities only.", error);
-        userAndFriendIds = [uid];
+        console.error("getActivitiesInRange: Failed to get friends list. Proceeding without friends' activities.", error);
+        friendIds = [];
     }
 
-    if (userAndFriendIds.length === 0) {
-        console.warn("getDashboardActivities: No user or friend IDs to query for.");
-        return [];
-    }
+    const rangeConstraints = [
+        where("date", ">=", Timestamp.fromDate(start)),
+        ...(end ? [where("date", "<", Timestamp.fromDate(end))] : []),
+    ];
 
-    const activitiesRef = collection(db, "activities");
-    const now = Timestamp.now();
-    
-    const activityPromises: Promise<QuerySnapshot<DocumentData>>[] = [];
-    const participantActivityPromises: Promise<QuerySnapshot<DocumentData> | null>[] = [];
+    try {
+        const querySnapshots = await Promise.all(
+            readableActivityQueries(db, uid, friendIds, rangeConstraints).map(activityQuery => getDocs(activityQuery))
+        );
+        return mergeActivitySnapshots(querySnapshots);
+    } catch (error) {
+        console.error("getActivitiesInRange: Error fetching activities:", error);
+        throw new Error(`Failed to fetch activities: ${error instanceof Error ? error.message : String(error)}`);
+    }
+};
 
-    const chunkSize = 30; // Firestore 'in' query limit, also for 'array-contains-any'
-    for (let i = 0; i < userAndFriendIds.length; i += chunkSize) {
-        const chunk = userAndFriendIds.slice(i, i + chunkSize);
-        if (chunk.length === 0) continue;
+// Live variant of getActivitiesInRange. Listens to the friends list as well, so activities of new friends appear
+// without reloading. `onChange` is first called once every query has delivered its initial snapshot.
+export const subscribeToActivitiesInRange = (
+    uid: string,
+    start: Date,
+    end: Date | null,
+    onChange: (activities: ActivityClient[]) => void,
+    onError: (error: Error) => void
+): Unsubscribe => {
+    if (!db) {
+        console.error("Firestore (db) is not initialized. Cannot subscribe to activities.");
+        throw new Error("Database service unavailable for subscribeToActivitiesInRange.");
+    }
+    const firestore = db;
+    const rangeConstraints = [
+        where("date", ">=", Timestamp.fromDate(start)),
+        ...(end ? [where("date", "<", Timestamp.fromDate(end))] : []),
+    ];
 
-        // Activities created by users in the chunk
-        const qCreator = query(
-            activitiesRef,
-            where("creatorId", "in", chunk),
-            where("date", ">=", now)
-            // orderBy("date", "asc") // Cannot have inequality on 'date' and 'in' on 'creatorId' with orderBy on 'date' without composite index
-        );
-        activityPromises.push(getDocs(qCreator));
-    }
-    
-    // Activities where the current user `uid` is a participant
-    // This must be done separately if participantUids is used with array-contains
-    const qParticipant = query(
-        activitiesRef,
-        where("participantUids", "array-contains", uid),
-        where("date", ">=", now)
-        // orderBy("date", "asc") // Cannot have inequality on 'date' and array-contains with orderBy on 'date' without composite index
-    );
-    participantActivityPromises.push(getDocs(qParticipant).catch(err => {
-        console.error("getDashboardActivities: Error fetching activities where user is participant (array-contains):", err);
-        return null; // Allow other queries to proceed
-    }));
+    let activityUnsubscribes: Unsubscribe[] = [];
+    let currentFriendKey: string | null = null;
 
+    // (Re)creates one listener per query of readableActivityQueries
+    const listenToActivities = (friendIds: string[]) => {
+        activityUnsubscribes.forEach(unsubscribe => unsubscribe());
 
-    const querySnapshots = await Promise.all(activityPromises);
-    const participantQuerySnapshots = (await Promise.all(participantActivityPromises)).filter(s => s !== null) as QuerySnapshot<DocumentData>[];
+        const queries = readableActivityQueries(firestore, uid, friendIds, rangeConstraints);
+        const snapshotsPerQuery: (QuerySnapshot<DocumentData> | undefined)[] = queries.map(() => undefined);
+        const emitMerged = () => {
+            if (snapshotsPerQuery.some(snapshot => snapshot === undefined)) return;
+            onChange(mergeActivitySnapshots(snapshotsPerQuery as QuerySnapshot<DocumentData>[]));
+        };
 
+        activityUnsubscribes = queries.map((activityQuery, index) => onSnapshot(
+            activityQuery,
+            snapshot => {
+                snapshotsPerQuery[index] = snapshot;
+                emitMerged();
+            },
+            error => {
+                console.error("subscribeToActivitiesInRange: Error listening to activities:", error);
+                onError(new Error(`Failed to listen to activities: ${error.message}`));
+            }
+        ));
+    };
 
-    const activities = querySnapshots.flatMap(snapshot =>
-        snapshot.docs.map(doc => toActivityClient(doc.data() as Activity))
+    const unsubscribeFriends = onSnapshot(
+        collection(firestore, `users/${uid}/friends`),
+        snapshot => {
+            const friendIds = Array.from(new Set(snapshot.docs.map(docSnap => docSnap.data().uid as string))).sort();
+            const friendKey = friendIds.join(',');
+            if (friendKey === currentFriendKey) return; // e.g. only a friend's display name changed
+            currentFriendKey = friendKey;
+            listenToActivities(friendIds);
+        },
+        error => {
+            console.error("subscribeToActivitiesInRange: Failed to listen to friends list. Proceeding without friends' activities.", error);
+            if (currentFriendKey === null) {
+                currentFriendKey = '';
+                listenToActivities([]);
+            }
+        }
     );
-    
-    participantQuerySnapshots.forEach(snapshot => {
-        snapshot.docs.forEach(doc => activities.push(toActivityClient(doc.data() as Activity)));
-    });
 
-    const uniqueActivities = Array.from(new Map(activities.map(act => [act.id, act])).values());
-    uniqueActivities.sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+    return () => {
+        unsubscribeFriends();
+        activityUnsubscribes.forEach(unsubscribe => unsubscribe());
+    };
+};
 
-    return uniqueActivities;
+export const subscribeToDashboardActivities = (
+    uid: string,
+    now: Date,
+    onChange: (activities: ActivityClient[]) => void,
+    onError: (error: Error) => void
+): Unsubscribe => subscribeToActivitiesInRange(
+    uid,
+    dashboardRangeStart(now),
+    null,
+    activities => onChange(activities.filter(activity => isActivityCurrent(activity, now))),
+    onError
+);
+
+/**
+ * Records the user's RSVP on an activity through the setRsvp function, which also answers the user's invite
+ * and keeps the spots and the waitlist consistent (see applyRsvpToSpots). Name, photo and children are read
+ * from the user's profile there; only the ids of the children who come along are sent.
+ * Returns the join outcome for "going" and null otherwise.
+ */
+export const setRsvp = async (activityId: string, user: ActivityParticipant, status: RsvpStatus): Promise<JoinActivityResult | null> => {
+  const { result } = await callFunction<SetRsvpRequest, SetRsvpResponse>("setRsvp", {
+      activityId,
+      status,
+      childIds: (user.children ?? []).map(child => child.id),
+  }, "Failed to update RSVP");
+  return result;
 };
 
-export const joinActivity = async (activityId: string, user: { uid: string; name: string | null, photoURL?: string | null }): Promise<void> => {
-   if (!db) {
-       console.error("Firestore (db) is not initialized. Cannot join activity.");
-       throw new Error("Database service unavailable for joinActivity.");
-   }
-  const activityDocRef = doc(db, "activities", activityId);
-  const participantData = {
-      uid: user.uid,
-      name: user.name ?? null,
-      photoURL: user.photoURL ?? null,
-  };
-  try {
-    await updateDoc(activityDocRef, {
-      participants: arrayUnion(participantData),
-      participantUids: arrayUnion(user.uid)
-    });
-  } catch (error) {
-    console.error(`Error joining activity ${activityId}:`, error);
-    throw new Error(`Failed to join activity: ${error instanceof Error ? error.message : String(error)}`);
-  }
+export const joinActivity = async (activityId: string, user: ActivityParticipant): Promise<JoinActivityResult> => {
+  return (await setRsvp(activityId, user, 'going')) ?? 'joined';
 };
 
-export const leaveActivity = async (activityId: string, user: { uid: string; name: string | null, photoURL?: string | null }): Promise<void> => {
-   if (!db) {
-       console.error("Firestore (db) is not initialized. Cannot leave activity.");
-       throw new Error("Database service unavailable for leaveActivity.");
-   }
-  const activityDocRef = doc(db, "activities", activityId);
-   const participantData = {
-      uid: user.uid,
-      name: user.name ?? null,
-      photoURL: user.photoURL ?? null,
-  };
-  try {
-    await updateDoc(activityDocRef, {
-      participants: arrayRemove(participantData),
-      participantUids: arrayRemove(user.uid)
+// Leaving releases the spot or waitlist place and records the user as "can't make it".
+export const leaveActivity = async (activityId: string, user: ActivityParticipant): Promise<void> => {
+  await setRsvp(activityId, user, 'declined');
+};
+
+// --- Activity Invites ---
+
+// Invites friends to a single activity. Friends who were invited before keep their entry and answer.
+export const inviteToActivity = async (activity: ActivityClient, invitedBy: Friend, friends: Friend[]): Promise<void> => {
+    if (!db) {
+        console.error("Firestore (db) is not initialized. Cannot invite to activity.");
+        throw new Error("Database service unavailable for inviteToActivity.");
+    }
+    const newInvitees = friends.filter(friend => !activity.invitees[friend.uid]);
+    if (newInvitees.length === 0) return;
+    const updateData: { [key: string]: any } = {
+        inviteeUids: arrayUnion(...newInvitees.map(friend => friend.uid)),
+    };
+    newInvitees.forEach(friend => {
+        const invitee: ActivityInvitee = {
+            uid: friend.uid,
+            name: friend.displayName,
+            photoURL: friend.photoURL,
+            invitedById: invitedBy.uid,
+            invitedByName: invitedBy.displayName,
+            status: 'pending',
+            invitedAt: serverTimestamp() as Timestamp,
+            respondedAt: null,
+        };
+        updateData[`invitees.${friend.uid}`] = invitee;
     });
-  } catch (error) {
-    console.error(`Error leaving activity ${activityId}:`, error);
-    throw new Error(`Failed to leave activity: ${error instanceof Error ? error.message : String(error)}`);
-  }
+    try {
+        await updateDoc(doc(db, "activities", activity.id), updateData);
+    } catch (error) {
+        console.error(`Error inviting friends to activity ${activity.id}:`, error);
+        throw new Error(`Failed to invite friends: ${error instanceof Error ? error.message : String(error)}`);
+    }
+};
+
+export const withdrawActivityInvite = async (activityId: string, uid: string): Promise<void> => {
+    if (!db) {
+        console.error("Firestore (db) is not initialized. Cannot withdraw invite.");
+        throw new Error("Database service unavailable for withdrawActivityInvite.");
+    }
+    try {
+        await updateDoc(doc(db, "activities", activityId), {
+            [`invitees.${uid}`]: deleteField(),
+            inviteeUids: arrayRemove(uid),
+        });
+    } catch (error) {
+        console.error(`Error withdrawing invite of ${uid} to activity ${activityId}:`, error);
+        throw new Error(`Failed to withdraw invite: ${error instanceof Error ? error.message : String(error)}`);
+    }
+};
+
+// Upcoming activities the user was invited to, answered or not
+export const getActivityInvites = async (uid: string): Promise<ActivityClient[]> => {
+    if (!db) {
+        console.error("Firestore (db) is not initialized. Cannot get activity invites.");
+        throw new Error("Database service unavailable for getActivityInvites.");
+    }
+    const invitesQuery = query(
+        collection(db, "activities"),
+        where("inviteeUids", "array-contains", uid),
+        where("date", ">=", Timestamp.fromDate(new Date()))
+    );
+    try {
+        return mergeActivitySnapshots([await getDocs(invitesQuery)]);
+    } catch (error) {
+        console.error(`Error fetching activity invites for ${uid}:`, error);
+        throw new Error(`Failed to fetch activity invites: ${error instanceof Error ? error.message : String(error)}`);
+    }
+};
+
+// Live variant of getActivityInvites; `start` is fixed for the lifetime of the listener.
+export const subscribeToActivityInvites = (
+    uid: string,
+    start: Date,
+    onChange: (activities: ActivityClient[]) => void,
+    onError: (error: Error) => void
+): Unsubscribe => {
+    if (!db) {
+        console.error("Firestore (db) is not initialized. Cannot subscribe to activity invites.");
+        throw new Error("Database service unavailable for subscribeToActivityInvites.");
+    }
+    const invitesQuery = query(
+        collection(db, "activities"),
+        where("inviteeUids", "array-contains", uid),
+        where("date", ">=", Timestamp.fromDate(start))
+    );
+    return onSnapshot(
+        invitesQuery,
+        snapshot => onChange(mergeActivitySnapshots([snapshot])),
+        error => {
+            console.error(`Error listening to activity invites for ${uid}:`, error);
+            onError(new Error(`Failed to listen to activity invites: ${error.message}`));
+        }
+    );
 };
 
 // --- Friends ---
 
-export const generateInviteCode = async (inviterId: string, inviterName: string | null): Promise<string> => {
+export interface InviteLinkOptions {
+    group?: Pick<GroupClient, 'id' | 'name'>; // Creates an invite to join that group (only its admins can do so)
+    maxUses?: number | null; // Defaults to a single use; null allows unlimited uses until the link expires
+    expiresInDays?: number; // Defaults to 7 days
+}
+
+export interface CreatedInviteLink {
+    code: string; // Only known to the inviter's app right after creating the link
+    invitationId: string;
+}
+
+// 16 random bytes (128 bits) as URL-safe base64; long enough that codes cannot be guessed
+const generateInviteSecret = (): string => {
+    const bytes = new Uint8Array(16);
+    crypto.getRandomValues(bytes);
+    return btoa(Array.from(bytes, byte => String.fromCharCode(byte)).join(''))
+        .replace(/\+/g, '-')
+        .replace(/\//g, '_')
+        .replace(/=+$/, '');
+};
+
+// Invitations are stored under the SHA-256 hash of their code, so reading the database does not reveal usable codes
+export const getInvitationId = async (code: string): Promise<string> => {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(code));
+    return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+// Friend invite by default; see InviteLinkOptions for group invites, usage limits and expiry.
+export const generateInviteCode = async (inviterId: string, inviterName: string | null, options: InviteLinkOptions = {}): Promise<CreatedInviteLink> => {
     if (!db) {
         console.error("Firestore (db) is not initialized. Cannot generate invite code.");
         throw new Error("Database service unavailable for generateInviteCode.");
     }
-    const code = uuidv4().substring(0, 8);
-    const inviteDocRef = doc(db, "invitations", code);
+    const code = generateInviteSecret();
+    const invitationId = await getInvitationId(code);
+    const inviteDocRef = doc(db, "invitations", invitationId);
+    const expiresInDays = options.expiresInDays ?? 7;
 
     const newInvitationForDb: Invitation = {
-        code: code,
+        id: invitationId,
         inviterId: inviterId,
         inviterName: inviterName ?? null,
+        groupId: options.group?.id ?? null,
+        groupName: options.group?.name ?? null,
+        maxUses: options.maxUses === undefined ? 1 : options.maxUses,
+        useCount: 0,
+        redemptions: {},
         createdAt: serverTimestamp() as Timestamp,
-        expiresAt: Timestamp.fromDate(new Date(Date.now() + 7 * 24 * 60 * 60 * 1000))
+        expiresAt: Timestamp.fromDate(new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000))
     };
     try {
         await setDoc(inviteDocRef, newInvitationForDb);
-        return code;
+        return { code, invitationId };
     } catch (error) {
         console.error("Error generating invite code:", error);
         throw new Error(`Failed to generate invite code: ${error instanceof Error ? error.message : String(error)}`);
     }
 };
 
+export const getInvitationState = (invitation: InvitationClient): InvitationState => {
+    if (invitation.expiresAt && new Date(invitation.expiresAt) < new Date()) return 'expired';
+    if (invitation.maxUses != null && invitation.useCount >= invitation.maxUses) return 'used-up';
+    return 'active';
+};
+
+// All invite links the user created (friend and group invites), newest first
+export const getInviteLinks = async (inviterId: string): Promise<InvitationClient[]> => {
+    if (!db) {
+        console.error("Firestore (db) is not initialized. Cannot get invite links.");
+        throw new Error("Database service unavailable for getInviteLinks.");
+    }
+    const linksQuery = query(collection(db, "invitations"), where("inviterId", "==", inviterId));
+    try {
+        const linksSnapshot = await getDocs(linksQuery);
+        return linksSnapshot.docs
+            .map(docSnap => toInvitationClient(docSnap.data() as Invitation))
+            .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+    } catch (error) {
+        console.error(`Error fetching invite links of ${inviterId}:`, error);
+        throw new Error(`Failed to fetch invite links: ${error instanceof Error ? error.message : String(error)}`);
+    }
+};
 
+// The rules deny reading missing and expired invitations alike (except to the inviter)
+const isPermissionDenied = (error: unknown): boolean =>
+    error instanceof FirebaseError && error.code === 'permission-denied';
+
+// Looks up an invitation by the code from an invite link. Unknown and expired codes resolve to null.
 export const getInvitation = async (code: string): Promise<InvitationClient | null> => {
     if (!db) {
         console.error("Firestore (db) is not initialized. Cannot get invitation.");
         throw new Error("Database service unavailable for getInvitation.");
     }
-    const inviteDocRef = doc(db, "invitations", code);
     try {
-        const inviteDocSnap = await getDoc(inviteDocRef);
+        const inviteDocSnap = await getDoc(doc(db, "invitations", await getInvitationId(code)));
         if (inviteDocSnap.exists()) {
             const data = inviteDocSnap.data() as Invitation;
             return toInvitationClient(data);
@@ -407,158 +863,76 @@ export const getInvitation = async (code: string): Promise<InvitationClient | nu
             return null;
         }
     } catch (error) {
-        console.error(`Error fetching invitation ${code}:`, error);
+        if (isPermissionDenied(error)) {
+            return null;
+        }
+        console.error("Error fetching invitation:", error);
         throw new Error(`Failed to fetch invitation: ${error instanceof Error ? error.message : String(error)}`);
     }
 }
 
-export const deleteInvitation = async (code: string): Promise<void> => {
+export const deleteInvitation = async (invitationId: string): Promise<void> => {
     if (!db) {
         console.error("Firestore (db) is not initialized. Cannot delete invitation.");
         throw new Error("Database service unavailable for deleteInvitation.");
     }
-    const inviteDocRef = doc(db, "invitations", code);
+    const inviteDocRef = doc(db, "invitations", invitationId);
     try {
         await deleteDoc(inviteDocRef);
     } catch (error) {
-        console.error(`Error deleting invitation ${code}:`, error);
+        console.error(`Error deleting invitation ${invitationId}:`, error);
         throw new Error(`Failed to delete invitation: ${error instanceof Error ? error.message : String(error)}`);
     }
 }
 
 
-export const addFriend = async (userId: string, friendId: string): Promise<void> => {
-    console.log(`[addFriend] Attempting to add friend. Current User (userId): ${userId}, Prospective Friend (friendId): ${friendId}`);
+// Error with a `code` the UI can react to (e.g. 'already-friends'), as thrown by the friend functions below
+const friendError = (message: string, code: string): Error => {
+    const error = new Error(message);
+    (error as any).code = code;
+    return error;
+};
 
-    if (!db) {
-        console.error("[addFriend] Firestore (db) is not initialized.");
-        throw new Error("Database service unavailable for addFriend.");
-    }
-    if (!userId || !friendId) {
-        console.error(`[addFriend] Invalid parameters. userId: ${userId}, friendId: ${friendId}`);
-        throw new Error("User ID and Friend ID must be provided.");
-    }
-    if (userId === friendId) {
-        console.warn("[addFriend] User tried to add themselves as a friend.");
-        const selfAddError = new Error("You cannot add yourself as a friend.");
-        (selfAddError as any).code = 'cannot-add-self';
-        throw selfAddError;
+// Calls one of the Cloud Functions in functions/src. Failures with a reason (see CallableErrorReason) keep it as
+// the error's `code`, like friendError; other failures are wrapped with the given message.
+const callFunction = async <Request, Response>(name: string, data: Request, failureMessage: string): Promise<Response> => {
+    if (!functions) {
+        console.error(`Cloud Functions are not initialized. Cannot call ${name}.`);
+        throw new Error(`Functions service unavailable for ${name}.`);
     }
-
-    const userFriendRef = doc(db, `users/${userId}/friends/${friendId}`);
-    const friendUserRef = doc(db, `users/${friendId}/friends/${userId}`);
-
-    const batch = writeBatch(db);
-    let operationsCount = 0;
-
     try {
-        console.log(`[addFriend] Fetching profile for current user: ${userId}`);
-        const userProfileData = await getUserProfile(userId); // This calls the logged getUserProfile
-        if (!userProfileData) {
-            console.error(`[addFriend] Current user profile not found for UID: ${userId}.`);
-            throw new Error(`Current user profile (UID: ${userId}) not found.`);
-        }
-        console.log(`[addFriend] Successfully fetched profile for current user: ${userId}`, { uid: userProfileData.uid, displayName: userProfileData.displayName });
-
-        console.log(`[addFriend] Fetching profile for prospective friend: ${friendId}`);
-        const friendProfileData = await getUserProfile(friendId); // This calls the logged getUserProfile
-        if (!friendProfileData) {
-            console.error(`[addFriend] Friend profile not found for UID: ${friendId}.`);
-            throw new Error(`Friend profile (UID: ${friendId}) not found.`);
-        }
-        console.log(`[addFriend] Successfully fetched profile for prospective friend: ${friendId}`, { uid: friendProfileData.uid, displayName: friendProfileData.displayName });
-
-        console.log(`[addFriend] Checking existing friendship status for ${userId} towards ${friendId}`);
-        const userFriendSnap = await getDoc(userFriendRef);
-        
-        if (userFriendSnap.exists()) {
-            console.log(`[addFriend] User ${userId} already has ${friendId} as a friend (path: users/${userId}/friends/${friendId} exists).`);
-             // To prevent partial states, also check if the other side exists.
-             // If not, this might be a good place to complete the friendship if one side exists.
-             // However, the primary error is often the write itself.
-             // For now, if user's side exists, assume "already-friends".
-            const err = new Error("You are already connected with this user.");
-            (err as any).code = 'already-friends';
-            throw err;
-        }
-
-        // Operation 1: Current user (userId) adds inviter (friendId) to their own friends list
-        console.log(`[addFriend] Preparing to set users/${userId}/friends/${friendId}`);
-        const friendDataForUser: Friend = {
-            uid: friendProfileData.uid,
-            displayName: friendProfileData.displayName ?? null,
-            photoURL: friendProfileData.photoURL ?? null,
-        };
-        console.log(`[addFriend] Data for users/${userId}/friends/${friendId}:`, friendDataForUser);
-        batch.set(userFriendRef, friendDataForUser);
-        operationsCount++;
-
-        // Operation 2: Current user (userId) attempts to add themselves to inviter's (friendId) friends list
-        // This operation requires friendId to be the authenticated user or rules allowing this.
-        console.log(`[addFriend] Preparing to set users/${friendId}/friends/${userId}`);
-        const currentUserAsFriendData: Friend = {
-            uid: userProfileData.uid,
-            displayName: userProfileData.displayName ?? null,
-            photoURL: userProfileData.photoURL ?? null,
-        };
-        console.log(`[addFriend] Data for users/${friendId}/friends/${userId}:`, currentUserAsFriendData);
-        batch.set(friendUserRef, currentUserAsFriendData);
-        operationsCount++;
-        
-        if (operationsCount > 0) {
-            console.log(`[addFriend] Committing batch with ${operationsCount} operations for ${userId} and ${friendId}.`);
-            await batch.commit();
-            console.log(`[addFriend] Batch commit successful for ${userId} and ${friendId}. Friendship established.`);
-        } else {
-            // This case should ideally not be reached if not already friends.
-            console.warn(`[addFriend] No operations to commit for ${userId} and ${friendId}. This might indicate they were already friends or an issue in logic.`);
-        }
-
-    } catch (error: any) {
-        console.error(`[addFriend] Error in addFriend operation between ${userId} and ${friendId}:`, error);
-        // console.error(`[addFriend] Error name: ${error.name}, message: ${error.message}, code: ${error.code}, stack: ${error.stack ? error.stack.substring(0, 500) + '...' : 'No stack'}`);
-        
-        // More detailed logging for Firebase specific errors
-        if (error.name === 'FirebaseError') {
-             console.error(`[addFriend] FirebaseError details: code=${error.code}, message=${error.message}`);
+        const result = await httpsCallable<Request, Response>(functions, name)(data);
+        return result.data;
+    } catch (error) {
+        console.error(`Error calling function ${name}:`, error);
+        const details = error instanceof FirebaseError ? (error as FunctionsError).details as CallableErrorDetails | undefined : undefined;
+        if (error instanceof FirebaseError && details?.reason) {
+            throw friendError(error.message, details.reason);
         }
+        throw new Error(`${failureMessage}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+};
 
-
-        if (error.code === 'already-friends' || error.code === 'cannot-add-self') {
-            throw error; 
-        }
-        if (error.message.includes("profile not found")) { // Specific errors from our checks
-            throw error;
-        }
-        
-        // Default error for other cases, including actual permission issues from batch.commit()
-        // Firestore permission errors from batch.commit() will typically have name: 'FirebaseError' and code: 'permission-denied'
-        const defaultErrorMessage = `Failed to establish friend connection. Original error: ${error.message || String(error)}`;
-        if (error.name === 'FirebaseError' && (error.code === 'permission-denied' || (error.message && error.message.toLowerCase().includes('permission')))) {
-             console.error(`[addFriend] Firestore permission error during batch commit. This likely means one of the batched writes was denied by security rules (e.g., writing to users/${friendId}/friends/${userId} by user ${userId}).`);
-             throw new Error(`Friendship could not be fully established due to a permission issue. One part of the connection might have failed. Check Firestore rules. Original error: ${error.message}`);
-        }
-        throw new Error(defaultErrorMessage);
+const assertNotFriends = async (firestore: NonNullable<typeof db>, userId: string, otherId: string): Promise<void> => {
+    if (userId === otherId) {
+        throw friendError("You cannot add yourself as a friend.", 'cannot-add-self');
+    }
+    const existingFriendSnap = await getDoc(doc(firestore, `users/${userId}/friends/${otherId}`));
+    if (existingFriendSnap.exists()) {
+        throw friendError("You are already connected with this user.", 'already-friends');
     }
 };
 
+// Accepts a friend invite link. The acceptInvitation function adds both users to each other's friends lists.
+export const acceptInvitation = async (user: Friend, invitation: InvitationClient): Promise<void> => {
+    await callFunction<AcceptInvitationRequest, AcceptInvitationResponse>("acceptInvitation", {
+        invitationId: invitation.id,
+    }, "Failed to accept invitation");
+};
 
+// Removes the friendship for both users (see removeFriend in functions/src/friends.ts)
 export const removeFriend = async (userId: string, friendId: string): Promise<void> => {
-    if (!db) {
-        console.error("Firestore (db) is not initialized. Cannot remove friend.");
-        throw new Error("Database service unavailable for removeFriend.");
-    }
-    const batch = writeBatch(db);
-    const userFriendRef = doc(db, `users/${userId}/friends/${friendId}`);
-    const friendUserRef = doc(db, `users/${friendId}/friends/${userId}`);
-    batch.delete(userFriendRef);
-    batch.delete(friendUserRef);
-    try {
-        await batch.commit();
-    } catch (error) {
-        console.error(`Error removing friend connection between ${userId} and ${friendId}:`, error);
-        throw new Error(`Failed to remove friend: ${error instanceof Error ? error.message : String(error)}`);
-    }
+    await callFunction<RemoveFriendRequest, void>("removeFriend", { friendId }, "Failed to remove friend");
 };
 
 export const getFriends = async (userId: string): Promise<Friend[]> => {
@@ -582,4 +956,645 @@ export const getFriends = async (userId: string): Promise<Friend[]> => {
       console.error(`Firebase error fetching friends for ${userId}:`, error);
       throw new Error(`Failed to fetch friends: ${error instanceof Error ? error.message : String(error)}`);
   }
-};
\ No newline at end of file
+};
+
+
+// --- Friend Requests ---
+
+const friendRequestParties = (from: Friend, to: Friend) => ({
+    fromUid: from.uid,
+    fromName: from.displayName ?? null,
+    fromPhotoURL: from.photoURL ?? null,
+    toUid: to.uid,
+    toName: to.displayName ?? null,
+    toPhotoURL: to.photoURL ?? null,
+});
+
+// Pending server timestamps read as null locally; those writes are the newest ones
+const updatedAtMillis = (request: FriendRequest): number =>
+    request.updatedAt instanceof Timestamp ? request.updatedAt.toMillis() : Date.now();
+
+// Merges the sender's and the recipient's copies of each request (see FriendRequest in types.ts)
+const toFriendRequestClients = (copies: { ownerUid: string; request: FriendRequest }[]): FriendRequestClient[] => {
+    const pairs = new Map<string, { senderCopy?: FriendRequest; recipientCopy?: FriendRequest }>();
+    copies.forEach(({ ownerUid, request }) => {
+        const id = `${request.fromUid}_${request.toUid}`;
+        const pair = pairs.get(id) ?? {};
+        if (ownerUid === request.fromUid) pair.senderCopy = request;
+        else if (ownerUid === request.toUid) pair.recipientCopy = request;
+        pairs.set(id, pair);
+    });
+
+    return Array.from(pairs.entries()).map(([id, { senderCopy, recipientCopy }]) => {
+        const recipientAnswered = !!recipientCopy && (!senderCopy || updatedAtMillis(recipientCopy) >= updatedAtMillis(senderCopy));
+        const latest = recipientAnswered ? recipientCopy! : senderCopy!;
+        return {
+            ...latest,
+            id,
+            invitationId: latest.invitationId ?? null,
+            updatedAt: new Date(updatedAtMillis(latest)).toISOString(),
+            // Only requests accepted before friendships were written by the acceptFriendRequest function
+            awaitingCompletion: recipientAnswered && recipientCopy!.status === 'accepted'
+                && (senderCopy?.status === 'pending' || (!!recipientCopy!.invitationId && senderCopy?.status !== 'accepted')),
+        };
+    }).sort((a, b) => new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime());
+};
+
+const toFriendRequestCopies = (snapshots: QuerySnapshot<DocumentData>[]) =>
+    snapshots.flatMap(snapshot => snapshot.docs.map(docSnap => ({
+        ownerUid: docSnap.ref.parent.parent!.id,
+        request: docSnap.data() as FriendRequest,
+    })));
+
+// Both copies of every request the user sent or received, found with collection group queries
+const friendRequestQueries = (firestore: NonNullable<typeof db>, uid: string): Query<DocumentData>[] => [
+    query(collectionGroup(firestore, "friendRequests"), where("fromUid", "==", uid)),
+    query(collectionGroup(firestore, "friendRequests"), where("toUid", "==", uid)),
+];
+
+export const getFriendRequests = async (uid: string): Promise<FriendRequestClient[]> => {
+    if (!db) {
+        console.error("Firestore (db) is not initialized. Cannot get friend requests.");
+        throw new Error("Database service unavailable for getFriendRequests.");
+    }
+    try {
+        const snapshots = await Promise.all(friendRequestQueries(db, uid).map(requestQuery => getDocs(requestQuery)));
+        return toFriendRequestClients(toFriendRequestCopies(snapshots));
+    } catch (error) {
+        console.error(`Error fetching friend requests for ${uid}:`, error);
+        throw new Error(`Failed to fetch friend requests: ${error instanceof Error ? error.message : String(error)}`);
+    }
+};
+
+export const subscribeToFriendRequests = (
+    uid: string,
+    onChange: (requests: FriendRequestClient[]) => void,
+    onError: (error: Error) => void
+): Unsubscribe => {
+    if (!db) {
+        console.error("Firestore (db) is not initialized. Cannot subscribe to friend requests.");
+        throw new Error("Database service unavailable for subscribeToFriendRequests.");
+    }
+    const snapshots: (QuerySnapshot<DocumentData> | undefined)[] = [undefined, undefined];
+    const unsubscribes = friendRequestQueries(db, uid).map((requestQuery, index) => onSnapshot(
+        requestQuery,
+        snapshot => {
+            snapshots[index] = snapshot;
+            if (snapshots.every(Boolean)) {
+                onChange(toFriendRequestClients(toFriendRequestCopies(snapshots as QuerySnapshot<DocumentData>[])));
+            }
+        },
+        error => {
+            console.error("subscribeToFriendRequests: Error listening to friend requests:", error);
+            onError(new Error(`Failed to listen to friend requests: ${error.message}`));
+        }
+    ));
+    return () => unsubscribes.forEach(unsubscribe => unsubscribe());
+};
+
+// Sends a request, or accepts right away when the other user already asked to connect. Returns the resulting status.
+export const sendFriendRequest = async (from: Friend, to: Friend): Promise<FriendRequestStatus> => {
+    if (!db) {
+        console.error("Firestore (db) is not initialized. Cannot send friend request.");
+        throw new Error("Database service unavailable for sendFriendRequest.");
+    }
+    const firestore = db;
+    await assertNotFriends(firestore, from.uid, to.uid);
+
+    try {
+        const [theirCopySnap, ownCopySnap] = await Promise.all([
+            getDoc(doc(firestore, `users/${to.uid}/friendRequests/${from.uid}`)),
+            getDoc(doc(firestore, `users/${from.uid}/friendRequests/${to.uid}`)),
+        ]);
+        const theirCopy = theirCopySnap.exists() ? theirCopySnap.data() as FriendRequest : null;
+        const ownCopy = ownCopySnap.exists() ? ownCopySnap.data() as FriendRequest : null;
+        const hasIncomingRequest = theirCopy?.fromUid === to.uid && theirCopy.status === 'pending'
+            && (!ownCopy || updatedAtMillis(theirCopy) > updatedAtMillis(ownCopy));
+        if (hasIncomingRequest) {
+            const [incoming] = toFriendRequestClients([{ ownerUid: to.uid, request: theirCopy }]);
+            await respondToFriendRequest(incoming, 'accepted');
+            return 'accepted';
+        }
+
+        const request: FriendRequest = {
+            ...friendRequestParties(from, to),
+            status: 'pending',
+            invitationId: null,
+            updatedAt: serverTimestamp() as Timestamp,
+        };
+        await setDoc(doc(firestore, `users/${from.uid}/friendRequests/${to.uid}`), request);
+        return 'pending';
+    } catch (error) {
+        console.error(`Error sending friend request from ${from.uid} to ${to.uid}:`, error);
+        throw new Error(`Failed to send friend request: ${error instanceof Error ? error.message : String(error)}`);
+    }
+};
+
+// Called by the recipient. Accepting goes through the acceptFriendRequest function, which befriends both users;
+// declining only updates the recipient's own copy.
+export const respondToFriendRequest = async (request: FriendRequestClient, response: 'accepted' | 'declined'): Promise<void> => {
+    if (response === 'accepted') {
+        await callFunction<AcceptFriendRequestRequest, void>("acceptFriendRequest", {
+            otherUid: request.fromUid,
+        }, "Failed to respond to friend request");
+        return;
+    }
+    if (!db) {
+        console.error("Firestore (db) is not initialized. Cannot respond to friend request.");
+        throw new Error("Database service unavailable for respondToFriendRequest.");
+    }
+    const answer: FriendRequest = {
+        fromUid: request.fromUid,
+        fromName: request.fromName,
+        fromPhotoURL: request.fromPhotoURL,
+        toUid: request.toUid,
+        toName: request.toName,
+        toPhotoURL: request.toPhotoURL,
+        status: response,
+        invitationId: null,
+        updatedAt: serverTimestamp() as Timestamp,
+    };
+    try {
+        await setDoc(doc(db, `users/${request.toUid}/friendRequests/${request.fromUid}`), answer);
+    } catch (error) {
+        console.error(`Error responding to friend request ${request.id}:`, error);
+        throw new Error(`Failed to respond to friend request: ${error instanceof Error ? error.message : String(error)}`);
+    }
+};
+
+// Called by the sender while the request is still pending
+export const cancelFriendRequest = async (request: FriendRequestClient): Promise<void> => {
+    if (!db) {
+        console.error("Firestore (db) is not initialized. Cannot cancel friend request.");
+        throw new Error("Database service unavailable for cancelFriendRequest.");
+    }
+    try {
+        await updateDoc(doc(db, `users/${request.fromUid}/friendRequests/${request.toUid}`), {
+            status: 'cancelled',
+            updatedAt: serverTimestamp(),
+        });
+    } catch (error) {
+        console.error(`Error cancelling friend request ${request.id}:`, error);
+        throw new Error(`Failed to cancel friend request: ${error instanceof Error ? error.message : String(error)}`);
+    }
+};
+
+// Called by the sender for requests the recipient accepted before friendships were written server-side
+// (awaitingCompletion): the acceptFriendRequest function adds the recipient to the sender's friends list.
+export const completeFriendRequest = async (request: FriendRequestClient): Promise<void> => {
+    await callFunction<AcceptFriendRequestRequest, void>("acceptFriendRequest", {
+        otherUid: request.toUid,
+    }, "Failed to complete friend request");
+};
+
+
+// --- Groups ---
+
+// Owner and co-admins may change the group; see the groups rules in firestore.rules
+export const isGroupAdmin = (group: GroupClient, uid: string): boolean =>
+    group.ownerId === uid || group.adminIds.includes(uid);
+
+const toGroupMember = (person: Friend, invitationId: string | null = null): GroupMember => ({
+    uid: person.uid,
+    displayName: person.displayName ?? null,
+    photoURL: person.photoURL ?? null,
+    invitationId,
+});
+
+export const createGroup = async (owner: Friend, name: string, description: string | null): Promise<string> => {
+    if (!db) {
+        console.error("Firestore (db) is not initialized. Cannot create group.");
+        throw new Error("Database service unavailable for createGroup.");
+    }
+    const groupRef = doc(collection(db, "groups"));
+    const newGroup: Group = {
+        id: groupRef.id,
+        name,
+        description,
+        ownerId: owner.uid,
+        adminIds: [],
+        memberIds: [owner.uid],
+        members: { [owner.uid]: toGroupMember(owner) },
+        createdAt: serverTimestamp() as Timestamp,
+    };
+    try {
+        await setDoc(groupRef, newGroup);
+        return groupRef.id;
+    } catch (error) {
+        console.error("Error creating group:", error);
+        throw new Error(`Failed to create group: ${error instanceof Error ? error.message : String(error)}`);
+    }
+};
+
+export const getGroupsForUser = async (uid: string): Promise<GroupClient[]> => {
+    if (!db) {
+        console.error("Firestore (db) is not initialized. Cannot get groups.");
+        throw new Error("Database service unavailable for getGroupsForUser.");
+    }
+    try {
+        const snapshot = await getDocs(query(collection(db, "groups"), where("memberIds", "array-contains", uid)));
+        return snapshot.docs
+            .map(docSnap => toGroupClient(docSnap.id, docSnap.data() as Group))
+            .sort((a, b) => a.name.localeCompare(b.name));
+    } catch (error) {
+        console.error(`Error fetching groups for ${uid}:`, error);
+        throw new Error(`Failed to fetch groups: ${error instanceof Error ? error.message : String(error)}`);
+    }
+};
+
+export const updateGroup = async (groupId: string, data: Partial<Pick<Group, 'name' | 'description'>>): Promise<void> => {
+    if (!db) {
+        console.error("Firestore (db) is not initialized. Cannot update group.");
+        throw new Error("Database service unavailable for updateGroup.");
+    }
+    try {
+        await updateDoc(doc(db, "groups", groupId), data);
+    } catch (error) {
+        console.error(`Error updating group ${groupId}:`, error);
+        throw new Error(`Failed to update group: ${error instanceof Error ? error.message : String(error)}`);
+    }
+};
+
+// Admins add members directly, e.g. from their friends list
+export const addGroupMembers = async (groupId: string, people: Friend[]): Promise<void> => {
+    if (!db) {
+        console.error("Firestore (db) is not initialized. Cannot add group members.");
+        throw new Error("Database service unavailable for addGroupMembers.");
+    }
+    if (people.length === 0) return;
+    const memberUpdates = Object.fromEntries(people.map(person => [`members.${person.uid}`, toGroupMember(person)]));
+    try {
+        await updateDoc(doc(db, "groups", groupId), {
+            ...memberUpdates,
+            memberIds: arrayUnion(...people.map(person => person.uid)),
+        });
+    } catch (error) {
+        console.error(`Error adding members to group ${groupId}:`, error);
+        throw new Error(`Failed to add group members: ${error instanceof Error ? error.message : String(error)}`);
+    }
+};
+
+// Used by admins to remove someone and by members to leave. The owner cannot leave their own group.
+export const removeGroupMember = async (groupId: string, uid: string): Promise<void> => {
+    if (!db) {
+        console.error("Firestore (db) is not initialized. Cannot remove group member.");
+        throw new Error("Database service unavailable for removeGroupMember.");
+    }
+    try {
+        await updateDoc(doc(db, "groups", groupId), {
+            [`members.${uid}`]: deleteField(),
+            memberIds: arrayRemove(uid),
+            adminIds: arrayRemove(uid),
+        });
+    } catch (error) {
+        console.error(`Error removing ${uid} from group ${groupId}:`, error);
+        throw new Error(`Failed to remove group member: ${error instanceof Error ? error.message : String(error)}`);
+    }
+};
+
+// Only the owner appoints or removes co-admins
+export const setGroupAdmin = async (groupId: string, uid: string, isAdmin: boolean): Promise<void> => {
+    if (!db) {
+        console.error("Firestore (db) is not initialized. Cannot change group admins.");
+        throw new Error("Database service unavailable for setGroupAdmin.");
+    }
+    try {
+        await updateDoc(doc(db, "groups", groupId), { adminIds: isAdmin ? arrayUnion(uid) : arrayRemove(uid) });
+    } catch (error) {
+        console.error(`Error changing admin ${uid} of group ${groupId}:`, error);
+        throw new Error(`Failed to change group admins: ${error instanceof Error ? error.message : String(error)}`);
+    }
+};
+
+export const deleteGroup = async (groupId: string): Promise<void> => {
+    if (!db) {
+        console.error("Firestore (db) is not initialized. Cannot delete group.");
+        throw new Error("Database service unavailable for deleteGroup.");
+    }
+    try {
+        await deleteDoc(doc(db, "groups", groupId));
+    } catch (error) {
+        console.error(`Error deleting group ${groupId}:`, error);
+        throw new Error(`Failed to delete group: ${error instanceof Error ? error.message : String(error)}`);
+    }
+};
+
+// Joins the group of a group invite through the acceptInvitation function, which records the invitation id on the member entry
+export const joinGroupWithInvitation = async (user: Friend, invitation: InvitationClient): Promise<void> => {
+    if (!invitation.groupId) {
+        throw new Error("This invitation is not for a group.");
+    }
+    await callFunction<AcceptInvitationRequest, AcceptInvitationResponse>("acceptInvitation", {
+        invitationId: invitation.id,
+    }, "Failed to join group");
+};
+
+
+// --- Calendar Feed ---
+
+// 24 random bytes as hex; the token alone grants read access to the feed, so it must not be guessable
+const generateFeedToken = (): string => {
+    const bytes = new Uint8Array(24);
+    crypto.getRandomValues(bytes);
+    return Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+export const getCalendarFeed = async (uid: string): Promise<CalendarFeedClient | null> => {
+    if (!db) {
+        console.error("Firestore (db) is not initialized. Cannot get calendar feed.");
+        throw new Error("Database service unavailable for getCalendarFeed.");
+    }
+    const feedDocRef = doc(db, "users", uid, "private", "calendarFeed");
+    try {
+        const feedDocSnap = await getDoc(feedDocRef);
+        if (!feedDocSnap.exists()) {
+            return null;
+        }
+        const data = feedDocSnap.data() as CalendarFeed;
+        return {
+            token: data.token,
+            createdAt: data.createdAt instanceof Timestamp ? data.createdAt.toDate().toISOString() : new Date(0).toISOString(),
+        };
+    } catch (error) {
+        console.error(`Error fetching calendar feed for ${uid}:`, error);
+        throw new Error(`Failed to fetch calendar feed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+};
+
+// Creates a feed token, replacing (and thereby revoking) the previous one if there is one.
+export const rotateCalendarFeed = async (uid: string): Promise<CalendarFeedClient> => {
+    if (!db) {
+        console.error("Firestore (db) is not initialized. Cannot rotate calendar feed.");
+        throw new Error("Database service unavailable for rotateCalendarFeed.");
+    }
+    try {
+        const previousFeed = await getCalendarFeed(uid);
+        const token = generateFeedToken();
+        const batch = writeBatch(db);
+        if (previousFeed) {
+            batch.delete(doc(db, "calendarFeeds", previousFeed.token));
+        }
+        batch.set(doc(db, "calendarFeeds", token), { uid, createdAt: serverTimestamp() });
+        batch.set(doc(db, "users", uid, "private", "calendarFeed"), { token, createdAt: serverTimestamp() });
+        await batch.commit();
+        return { token, createdAt: new Date().toISOString() };
+    } catch (error) {
+        console.error(`Error rotating calendar feed for ${uid}:`, error);
+        throw new Error(`Failed to rotate calendar feed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+};
+
+export const revokeCalendarFeed = async (uid: string): Promise<void> => {
+    if (!db) {
+        console.error("Firestore (db) is not initialized. Cannot revoke calendar feed.");
+        throw new Error("Database service unavailable for revokeCalendarFeed.");
+    }
+    try {
+        const feed = await getCalendarFeed(uid);
+        if (!feed) return;
+        const batch = writeBatch(db);
+        batch.delete(doc(db, "calendarFeeds", feed.token));
+        batch.delete(doc(db, "users", uid, "private", "calendarFeed"));
+        await batch.commit();
+    } catch (error) {
+        console.error(`Error revoking calendar feed for ${uid}:`, error);
+        throw new Error(`Failed to revoke calendar feed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+};
+
+// --- Date Polls ---
+
+const toPollClient = (id: string, poll: Poll): PollClient => ({
+    ...poll,
+    id,
+    location: poll.location ?? null,
+    description: poll.description ?? null,
+    invitees: poll.invitees ?? {},
+    inviteeUids: poll.inviteeUids ?? [],
+    finalizedSlotId: poll.finalizedSlotId ?? null,
+    activityId: poll.activityId ?? null,
+    slots: (poll.slots ?? []).map(slot => ({
+        ...slot,
+        durationMinutes: slot.durationMinutes ?? null,
+        date: slot.date instanceof Timestamp ? slot.date.toDate().toISOString() : new Date(0).toISOString(),
+    })),
+    votes: Object.fromEntries(
+        Object.entries(poll.votes ?? {}).map(([uid, vote]) => [uid, {
+            ...vote,
+            votedAt: vote.votedAt instanceof Timestamp ? vote.votedAt.toDate().toISOString() : new Date().toISOString(),
+        }])
+    ),
+    createdAt: poll.createdAt instanceof Timestamp ? poll.createdAt.toDate().toISOString() : new Date(0).toISOString(),
+});
+
+// Open polls first, then the newest
+const sortPolls = (polls: PollClient[]): PollClient[] =>
+    [...polls].sort((a, b) =>
+        Number(a.status !== 'open') - Number(b.status !== 'open') || new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
+    );
+
+const mergePollSnapshots = (snapshots: QuerySnapshot<DocumentData>[]): PollClient[] => {
+    const polls = new Map<string, PollClient>();
+    snapshots.forEach(snapshot => snapshot.docs.forEach(docSnap => polls.set(docSnap.id, toPollClient(docSnap.id, docSnap.data() as Poll))));
+    return sortPolls(Array.from(polls.values()));
+};
+
+// Polls the user created or was asked to vote in
+const pollQueries = (firestore: NonNullable<typeof db>, uid: string): Query<DocumentData>[] => [
+    query(collection(firestore, "polls"), where("creatorId", "==", uid)),
+    query(collection(firestore, "polls"), where("inviteeUids", "array-contains", uid)),
+];
+
+export const createPoll = async (pollData: CreatePollData): Promise<string> => {
+    if (!db) {
+        console.error("Firestore (db) is not initialized. Cannot create poll.");
+        throw new Error("Database service unavailable for createPoll.");
+    }
+    const pollRef = doc(collection(db, "polls"));
+    const newPoll: Poll = {
+        ...pollData,
+        id: pollRef.id,
+        status: 'open',
+        finalizedSlotId: null,
+        activityId: null,
+        votes: {},
+        createdAt: serverTimestamp() as Timestamp,
+    };
+    try {
+        await setDoc(pollRef, newPoll);
+        return pollRef.id;
+    } catch (error) {
+        console.error("Error creating poll:", error);
+        throw new Error(`Failed to create poll: ${error instanceof Error ? error.message : String(error)}`);
+    }
+};
+
+export const getPollsForUser = async (uid: string): Promise<PollClient[]> => {
+    if (!db) {
+        console.error("Firestore (db) is not initialized. Cannot get polls.");
+        throw new Error("Database service unavailable for getPollsForUser.");
+    }
+    try {
+        return mergePollSnapshots(await Promise.all(pollQueries(db, uid).map(pollQuery => getDocs(pollQuery))));
+    } catch (error) {
+        console.error(`Error fetching polls for ${uid}:`, error);
+        throw new Error(`Failed to fetch polls: ${error instanceof Error ? error.message : String(error)}`);
+    }
+};
+
+// Live variant of getPollsForUser; `onChange` is first called once both queries have delivered a snapshot.
+export const subscribeToPollsForUser = (
+    uid: string,
+    onChange: (polls: PollClient[]) => void,
+    onError: (error: Error) => void
+): Unsubscribe => {
+    if (!db) {
+        console.error("Firestore (db) is not initialized. Cannot subscribe to polls.");
+        throw new Error("Database service unavailable for subscribeToPollsForUser.");
+    }
+    const queries = pollQueries(db, uid);
+    const snapshotsPerQuery: (QuerySnapshot<DocumentData> | undefined)[] = queries.map(() => undefined);
+    const unsubscribes = queries.map((pollQuery, index) => onSnapshot(
+        pollQuery,
+        snapshot => {
+            snapshotsPerQuery[index] = snapshot;
+            if (snapshotsPerQuery.every(Boolean)) onChange(mergePollSnapshots(snapshotsPerQuery as QuerySnapshot<DocumentData>[]));
+        },
+        error => {
+            console.error(`Error listening to polls for ${uid}:`, error);
+            onError(new Error(`Failed to listen to polls: ${error.message}`));
+        }
+    ));
+    return () => unsubscribes.forEach(unsubscribe => unsubscribe());
+};
+
+export const getPoll = async (pollId: string): Promise<PollClient | null> => {
+    if (!db) {
+        console.error("Firestore (db) is not initialized. Cannot get poll.");
+        throw new Error("Database service unavailable for getPoll.");
+    }
+    try {
+        const pollDocSnap = await getDoc(doc(db, "polls", pollId));
+        return pollDocSnap.exists() ? toPollClient(pollDocSnap.id, pollDocSnap.data() as Poll) : null;
+    } catch (error) {
+        console.error(`Error fetching poll ${pollId}:`, error);
+        throw new Error(`Failed to fetch poll: ${error instanceof Error ? error.message : String(error)}`);
+    }
+};
+
+// Live variant of getPoll. `onChange` receives null when the poll does not exist (anymore).
+export const subscribeToPoll = (
+    pollId: string,
+    onChange: (poll: PollClient | null) => void,
+    onError: (error: Error) => void
+): Unsubscribe => {
+    if (!db) {
+        console.error("Firestore (db) is not initialized. Cannot subscribe to poll.");
+        throw new Error("Database service unavailable for subscribeToPoll.");
+    }
+    return onSnapshot(
+        doc(db, "polls", pollId),
+        snapshot => onChange(snapshot.exists() ? toPollClient(snapshot.id, snapshot.data() as Poll) : null),
+        error => {
+            console.error(`Error listening to poll ${pollId}:`, error);
+            onError(new Error(`Failed to listen to poll: ${error.message}`));
+        }
+    );
+};
+
+// Replaces the voter's answers; like RSVPs, each voter only writes their own entry
+export const votePoll = async (pollId: string, voter: Friend, answers: Record<string, PollAnswer>): Promise<void> => {
+    if (!db) {
+        console.error("Firestore (db) is not initialized. Cannot vote.");
+        throw new Error("Database service unavailable for votePoll.");
+    }
+    const vote: PollVote = {
+        uid: voter.uid,
+        name: voter.displayName,
+        photoURL: voter.photoURL,
+        answers,
+        votedAt: serverTimestamp() as Timestamp,
+    };
+    try {
+        await updateDoc(doc(db, "polls", pollId), { [`votes.${voter.uid}`]: vote });
+    } catch (error) {
+        console.error(`Error voting in poll ${pollId}:`, error);
+        throw new Error(`Failed to save your vote: ${error instanceof Error ? error.message : String(error)}`);
+    }
+};
+
+/**
+ * Turns the chosen slot into a private activity and invites everyone who was asked to vote, so the date shows up
+ * in their inbox. The activity and closing the poll are written in one transaction that first checks the poll is
+ * still open, so finalizing twice (e.g. from two tabs) cannot create a second activity.
+ * Returns the id of the new activity.
+ */
+export const finalizePoll = async (poll: PollClient, slotId: string): Promise<string> => {
+    if (!db) {
+        console.error("Firestore (db) is not initialized. Cannot finalize poll.");
+        throw new Error("Database service unavailable for finalizePoll.");
+    }
+    const firestore = db;
+    const slot = poll.slots.find(s => s.id === slotId);
+    if (!slot) {
+        throw new Error("Failed to finalize poll: The chosen date is not part of this poll.");
+    }
+    const [{ ref: activityRef, data: activity }] = buildActivityDocs(firestore, {
+        title: poll.title,
+        date: Timestamp.fromDate(new Date(slot.date)),
+        durationMinutes: slot.durationMinutes ?? null,
+        location: poll.location ?? null,
+        description: poll.description ?? null,
+        maxParticipants: null,
+        visibility: 'private',
+        audienceUids: [poll.creatorId],
+        audienceGroupIds: [],
+        waitlist: [],
+        creatorId: poll.creatorId,
+        creatorName: poll.creatorName,
+        creatorPhotoURL: poll.creatorPhotoURL ?? null,
+        participants: [{ uid: poll.creatorId, name: poll.creatorName, photoURL: poll.creatorPhotoURL ?? null }],
+        participantUids: [poll.creatorId],
+    });
+    const voters = Object.values(poll.invitees).filter(invitee => invitee.uid !== poll.creatorId);
+    activity.inviteeUids = voters.map(voter => voter.uid);
+    activity.invitees = Object.fromEntries(voters.map(voter => [voter.uid, {
+        uid: voter.uid,
+        name: voter.name,
+        photoURL: voter.photoURL ?? null,
+        invitedById: poll.creatorId,
+        invitedByName: poll.creatorName,
+        status: 'pending',
+        invitedAt: serverTimestamp() as Timestamp,
+        respondedAt: null,
+    } satisfies ActivityInvitee]));
+
+    const pollRef = doc(firestore, "polls", poll.id);
+    try {
+        await runTransaction(firestore, async transaction => {
+            const pollSnap = await transaction.get(pollRef);
+            if (!pollSnap.exists() || (pollSnap.data() as Poll).status !== 'open') {
+                throw new Error("This poll has already been finalized.");
+            }
+            transaction.set(activityRef, activity);
+            transaction.update(pollRef, { status: 'finalized', finalizedSlotId: slotId, activityId: activityRef.id });
+        });
+        return activityRef.id;
+    } catch (error) {
+        console.error(`Error finalizing poll ${poll.id}:`, error);
+        throw new Error(`Failed to finalize poll: ${error instanceof Error ? error.message : String(error)}`);
+    }
+};
+
+export const deletePoll = async (pollId: string): Promise<void> => {
+    if (!db) {
+        console.error("Firestore (db) is not initialized. Cannot delete poll.");
+        throw new Error("Database service unavailable for deletePoll.");
+    }
+    try {
+        await deleteDoc(doc(db, "polls", pollId));
+    } catch (error) {
+        console.error(`Error deleting poll ${pollId}:`, error);
+        throw new Error(`Failed to delete poll: ${error instanceof Error ? error.message : String(error)}`);
+    }
+};
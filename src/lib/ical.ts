@@ -0,0 +1,351 @@
+// src/lib/ical.ts
+// Minimal RFC 5545 (iCalendar) writer and reader for exchanging activities with phone and desktop calendars.
+import { differenceInMinutes, getDay, isSameDay } from 'date-fns';
+import type { ActivityClient, RecurrenceFrequency, RecurrenceRule, RsvpStatus } from '@/lib/types';
+import { describeRecurrence, getWeekdayOrdinal, MAX_RECURRENCE_OCCURRENCES } from '@/lib/recurrence';
+import { getActivityEnd, MAX_ACTIVITY_DURATION_MINUTES } from '@/lib/calendar';
+import { summarizeActivityDetails } from '@/lib/activityDetails';
+import { markdownToPlainText } from '@/lib/markdown';
+
+const PRODUCT_ID = '-//Parent Activity Hub//Activities//EN';
+const UID_DOMAIN = 'parent-activity-hub';
+const CRLF = '\r\n';
+const MAX_LINE_OCTETS = 75;
+
+export type ICalPartStat = 'ACCEPTED' | 'TENTATIVE' | 'DECLINED' | 'NEEDS-ACTION';
+export type ICalEventStatus = 'CONFIRMED' | 'TENTATIVE' | 'CANCELLED';
+
+export interface ICalPerson {
+  name: string | null;
+  uri: string; // cal-address, e.g. a mailto: or urn: URI
+}
+
+export interface ICalAttendee extends ICalPerson {
+  partstat: ICalPartStat;
+}
+
+export interface ICalEvent {
+  uid: string;
+  start: Date;
+  end: Date;
+  summary: string;
+  description?: string | null;
+  location?: string | null;
+  url?: string | null;
+  organizer?: ICalPerson | null;
+  attendees?: ICalAttendee[];
+  sequence?: number;
+  status?: ICalEventStatus;
+  relatedTo?: string | null; // UID of a related event, e.g. the series an occurrence belongs to
+  lastModified?: Date | null;
+}
+
+// Escapes TEXT values (RFC 5545, 3.3.11)
+const escapeText = (value: string): string =>
+  value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+
+// Parameter values containing ':', ';' or ',' must be quoted; quotes themselves are not allowed
+const quoteParam = (value: string): string => `"${value.replace(/"/g, "'")}"`;
+
+const pad = (value: number): string => String(value).padStart(2, '0');
+
+// Formats a date as UTC DATE-TIME, e.g. 20240601T080000Z
+export const formatICalDate = (date: Date): string =>
+  `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}T${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`;
+
+// Folds content lines longer than 75 octets without splitting multi-byte characters (RFC 5545, 3.1)
+const foldLine = (line: string): string => {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = '';
+  let currentOctets = 0;
+  for (const char of line) {
+    const charOctets = encoder.encode(char).length;
+    // Continuation lines start with a space, which counts towards their length
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (currentOctets + charOctets > limit) {
+      parts.push(current);
+      current = '';
+      currentOctets = 0;
+    }
+    current += char;
+    currentOctets += charOctets;
+  }
+  parts.push(current);
+  return parts.join(`${CRLF} `);
+};
+
+const personParams = (person: ICalPerson): string => (person.name ? `;CN=${quoteParam(person.name)}` : '');
+
+const serializeEvent = (event: ICalEvent, stamp: Date): string[] => {
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${event.uid}`,
+    `DTSTAMP:${formatICalDate(stamp)}`,
+    `DTSTART:${formatICalDate(event.start)}`,
+    `DTEND:${formatICalDate(event.end)}`,
+    `SEQUENCE:${event.sequence ?? 0}`,
+    `SUMMARY:${escapeText(event.summary)}`,
+  ];
+  if (event.status) lines.push(`STATUS:${event.status}`);
+  if (event.location) lines.push(`LOCATION:${escapeText(event.location)}`);
+  if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+  if (event.url) lines.push(`URL:${event.url}`);
+  if (event.relatedTo) lines.push(`RELATED-TO;RELTYPE=SIBLING:${event.relatedTo}`);
+  if (event.lastModified) lines.push(`LAST-MODIFIED:${formatICalDate(event.lastModified)}`);
+  if (event.organizer) lines.push(`ORGANIZER${personParams(event.organizer)}:${event.organizer.uri}`);
+  (event.attendees ?? []).forEach(attendee => {
+    lines.push(`ATTENDEE${personParams(attendee)};ROLE=REQ-PARTICIPANT;PARTSTAT=${attendee.partstat}:${attendee.uri}`);
+  });
+  lines.push('END:VEVENT');
+  return lines;
+};
+
+/**
+ * Serializes events into a complete VCALENDAR document with CRLF line endings and folded lines.
+ * `calendarName` is shown by most clients when the file is subscribed to or imported as a new calendar.
+ */
+export const buildICalendar = (events: ICalEvent[], options: { calendarName?: string; stamp?: Date } = {}): string => {
+  const stamp = options.stamp ?? new Date();
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+  ];
+  if (options.calendarName) lines.push(`X-WR-CALNAME:${escapeText(options.calendarName)}`);
+  events.forEach(event => lines.push(...serializeEvent(event, stamp)));
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join(CRLF) + CRLF;
+};
+
+// Participants have no shared e-mail address, so people are identified by a stable URN of their uid
+const userUri = (uid: string): string => `urn:${UID_DOMAIN}:user:${uid}`;
+
+const RSVP_PARTSTAT: Record<RsvpStatus, ICalPartStat> = {
+  going: 'ACCEPTED',
+  maybe: 'TENTATIVE',
+  declined: 'DECLINED',
+};
+
+/**
+ * Maps an activity to a VEVENT. The UID is derived from the activity id so re-importing an updated
+ * export replaces the earlier event instead of duplicating it; SEQUENCE tells clients which version is newer.
+ * Occurrences of a recurring activity are stored as separate documents and are therefore exported as
+ * separate events that reference their series, rather than as one RRULE that could not express per-occurrence edits.
+ * Activities have no status of their own; when exported for `viewerUid`, one they can't make it to is CANCELLED
+ * for them, so subscribed calendars strike it through. Otherwise no STATUS is written.
+ */
+export const activityToICalEvent = (activity: ActivityClient, options: { baseUrl?: string; viewerUid?: string } = {}): ICalEvent => {
+  const start = new Date(activity.date);
+  const attendees: ICalAttendee[] = activity.participants.map(participant => ({
+    name: participant.name,
+    uri: userUri(participant.uid),
+    partstat: 'ACCEPTED',
+  }));
+  Object.values(activity.rsvps ?? {})
+    .filter(rsvp => rsvp.status !== 'going')
+    .forEach(rsvp => attendees.push({ name: rsvp.name, uri: userUri(rsvp.uid), partstat: RSVP_PARTSTAT[rsvp.status] }));
+
+  const descriptionLines: string[] = [];
+  if (activity.description) {
+    descriptionLines.push(markdownToPlainText(activity.description), '');
+  }
+  const facts = summarizeActivityDetails(activity);
+  if (facts.length > 0) descriptionLines.push(facts.join(' · '));
+  if (activity.whatToBring?.length) {
+    descriptionLines.push(`Bring: ${activity.whatToBring.join(', ')}`);
+  }
+  if (activity.recurrence) {
+    descriptionLines.push(`Repeats: ${describeRecurrence(activity.recurrence, start)}`);
+  }
+  if (activity.maxParticipants != null) {
+    descriptionLines.push(`${activity.participants.length} of ${activity.maxParticipants} spots taken`);
+  }
+  const url = options.baseUrl ? `${options.baseUrl}/activities/details?id=${activity.id}` : null;
+  if (url) descriptionLines.push(url);
+
+  return {
+    uid: `${activity.id}@${UID_DOMAIN}`,
+    start,
+    end: getActivityEnd(activity),
+    summary: activity.title,
+    description: descriptionLines.join('\n').trim() || null,
+    location: activity.location,
+    url,
+    organizer: { name: activity.creatorName, uri: userUri(activity.creatorId) },
+    attendees,
+    sequence: activity.sequence ?? 0,
+    status: options.viewerUid && activity.rsvps?.[options.viewerUid]?.status === 'declined' ? 'CANCELLED' : undefined,
+    relatedTo: activity.seriesId ? `series-${activity.seriesId}@${UID_DOMAIN}` : null,
+  };
+};
+
+// --- Parsing ---
+
+export interface ParsedICalEvent {
+  uid: string | null;
+  summary: string;
+  start: Date;
+  end: Date | null;
+  allDay: boolean; // DTSTART was a DATE without a time; `start` is local midnight
+  location: string | null;
+  description: string | null;
+  status: ICalEventStatus | null;
+  rrule: string | null; // Raw RRULE value, see recurrenceFromRRule
+}
+
+interface ContentLine {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+const unescapeText = (value: string): string =>
+  value.replace(/\\([\\;,nN])/g, (_, char: string) => (char === 'n' || char === 'N' ? '\n' : char));
+
+// Splits at separators outside of double quotes (parameter values may contain ':' and ';' when quoted)
+const splitOutsideQuotes = (value: string, separator: string, limit = Infinity): string[] => {
+  const parts: string[] = [];
+  let current = '';
+  let inQuotes = false;
+  for (const char of value) {
+    if (char === '"') inQuotes = !inQuotes;
+    if (char === separator && !inQuotes && parts.length < limit - 1) {
+      parts.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current);
+  return parts;
+};
+
+const parseContentLine = (line: string): ContentLine | null => {
+  const [head, ...valueParts] = splitOutsideQuotes(line, ':', 2);
+  if (valueParts.length === 0) return null;
+  const [name, ...paramParts] = splitOutsideQuotes(head, ';');
+  const params: Record<string, string> = {};
+  paramParts.forEach(param => {
+    const separatorIndex = param.indexOf('=');
+    if (separatorIndex === -1) return;
+    params[param.slice(0, separatorIndex).toUpperCase()] = param.slice(separatorIndex + 1).replace(/^"|"$/g, '');
+  });
+  return { name: name.toUpperCase(), params, value: valueParts[0] };
+};
+
+// Parses DATE (20240601) and DATE-TIME (20240601T080000, optionally with a trailing Z for UTC) values.
+// Times with a TZID are interpreted in the browser's time zone, which matches the common case of
+// files from local institutions being imported by people living in the same time zone.
+const parseICalDate = (value: string): { date: Date; allDay: boolean } | null => {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?(Z)?)?$/.exec(value.trim());
+  if (!match) return null;
+  const [, year, month, day, hours, minutes, seconds, utc] = match;
+  if (hours === undefined) {
+    return { date: new Date(Number(year), Number(month) - 1, Number(day)), allDay: true };
+  }
+  const [y, m, d, h, min, sec] = [year, month, day, hours, minutes, seconds ?? '0'].map(Number);
+  return { date: utc ? new Date(Date.UTC(y, m - 1, d, h, min, sec)) : new Date(y, m - 1, d, h, min, sec), allDay: false };
+};
+
+const EVENT_STATUSES: ICalEventStatus[] = ['CONFIRMED', 'TENTATIVE', 'CANCELLED'];
+
+/**
+ * Extracts the VEVENTs of an iCalendar document. Properties of nested components (e.g. VALARM reminders)
+ * are ignored, as are events without a valid DTSTART.
+ */
+export const parseICalendar = (content: string): ParsedICalEvent[] => {
+  const lines = content.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+  const events: ParsedICalEvent[] = [];
+  const componentStack: string[] = [];
+  let properties: ContentLine[] = [];
+
+  lines.forEach(rawLine => {
+    const line = parseContentLine(rawLine);
+    if (!line) return;
+    if (line.name === 'BEGIN') {
+      componentStack.push(line.value.toUpperCase());
+      if (line.value.toUpperCase() === 'VEVENT') properties = [];
+      return;
+    }
+    if (line.name === 'END') {
+      const component = componentStack.pop();
+      if (component !== 'VEVENT') return;
+      const get = (name: string) => properties.find(property => property.name === name);
+      const start = get('DTSTART') ? parseICalDate(get('DTSTART')!.value) : null;
+      if (!start) return;
+      const end = get('DTEND') ? parseICalDate(get('DTEND')!.value) : null;
+      const status = get('STATUS')?.value.toUpperCase() as ICalEventStatus | undefined;
+      events.push({
+        uid: get('UID')?.value ?? null,
+        summary: unescapeText(get('SUMMARY')?.value ?? '').trim(),
+        start: start.date,
+        end: end?.date ?? null,
+        allDay: start.allDay,
+        location: get('LOCATION') ? unescapeText(get('LOCATION')!.value).trim() || null : null,
+        description: get('DESCRIPTION') ? unescapeText(get('DESCRIPTION')!.value).trim() || null : null,
+        status: status && EVENT_STATUSES.includes(status) ? status : null,
+        rrule: get('RRULE')?.value ?? null,
+      });
+      return;
+    }
+    if (componentStack[componentStack.length - 1] === 'VEVENT') {
+      properties.push(line);
+    }
+  });
+  return events;
+};
+
+const RRULE_FREQUENCIES: Record<string, RecurrenceFrequency> = { DAILY: 'daily', WEEKLY: 'weekly', MONTHLY: 'monthly' };
+const RRULE_WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+// Length of a timed event in minutes, or null when it has no end or does not end on the day it starts
+export const durationFromICalEvent = (event: ParsedICalEvent): number | null => {
+  if (event.allDay || !event.end || !isSameDay(event.start, event.end)) return null;
+  const minutes = differenceInMinutes(event.end, event.start);
+  return minutes >= 1 && minutes <= MAX_ACTIVITY_DURATION_MINUTES ? minutes : null;
+};
+
+/**
+ * Maps an RRULE onto the app's recurrence model, or returns null when the rule cannot be represented
+ * (e.g. several weekdays per week, or monthly on a day of the month instead of a weekday).
+ */
+export const recurrenceFromRRule = (rrule: string, start: Date): RecurrenceRule | null => {
+  const parts = Object.fromEntries(
+    rrule.split(';').map(part => {
+      const [key, value = ''] = part.split('=');
+      return [key.toUpperCase(), value.toUpperCase()];
+    })
+  );
+  const frequency = RRULE_FREQUENCIES[parts.FREQ];
+  if (!frequency) return null;
+  const supportedKeys = ['FREQ', 'INTERVAL', 'COUNT', 'UNTIL', 'BYDAY', 'WKST'];
+  if (Object.keys(parts).some(key => !supportedKeys.includes(key))) return null;
+
+  const startWeekday = RRULE_WEEKDAYS[getDay(start)];
+  if (parts.BYDAY) {
+    const byDay = /^([+-]?\d)?([A-Z]{2})$/.exec(parts.BYDAY);
+    if (!byDay || byDay[2] !== startWeekday || frequency === 'daily') return null;
+    if (frequency === 'weekly' && byDay[1]) return null;
+    if (frequency === 'monthly' && (!byDay[1] || Number(byDay[1]) !== getWeekdayOrdinal(start))) return null;
+  } else if (frequency === 'monthly') {
+    return null; // Without BYDAY a monthly rule repeats on the day of the month
+  }
+
+  const interval = parts.INTERVAL ? Number(parts.INTERVAL) : 1;
+  const count = parts.COUNT ? Math.min(Number(parts.COUNT), MAX_RECURRENCE_OCCURRENCES) : null;
+  const untilMatch = parts.UNTIL ? /^(\d{4})(\d{2})(\d{2})/.exec(parts.UNTIL) : null;
+  if (!Number.isInteger(interval) || interval < 1 || (count !== null && !(count >= 1))) return null;
+  return {
+    frequency,
+    interval,
+    until: untilMatch ? `${untilMatch[1]}-${untilMatch[2]}-${untilMatch[3]}` : null,
+    count,
+  };
+};
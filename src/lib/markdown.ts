@@ -0,0 +1,108 @@
+// src/lib/markdown.ts
+// The small Markdown subset allowed in activity descriptions: paragraphs, bulleted and numbered lists,
+// **bold**, *italic* and links. Text is parsed into nodes that are rendered as React elements, never as
+// HTML, so descriptions cannot inject markup; links are limited to web and mail addresses.
+
+export type MarkdownInline =
+  | { type: 'text'; text: string }
+  | { type: 'strong'; children: MarkdownInline[] }
+  | { type: 'emphasis'; children: MarkdownInline[] }
+  | { type: 'link'; href: string; children: MarkdownInline[] }
+  | { type: 'break' };
+
+export type MarkdownBlock =
+  | { type: 'paragraph'; children: MarkdownInline[] }
+  | { type: 'list'; ordered: boolean; items: MarkdownInline[][] };
+
+const SAFE_LINK_PATTERN = /^(https?:\/\/|mailto:)/i;
+const BULLET_PATTERN = /^\s*[-*+]\s+(.*)$/;
+const NUMBERED_PATTERN = /^\s*\d{1,3}[.)]\s+(.*)$/;
+// **bold**, *italic*, [text](url) and bare web addresses, in order of precedence at the same position.
+// Underscores are left alone so names like summer_camp_2025 stay intact.
+const INLINE_PATTERN = /\*\*(.+?)\*\*|\*(?!\s)(.+?)\*|\[([^\]]+)\]\(([^)\s]+)\)|(https?:\/\/[^\s<>()]+[^\s<>().,;:!?'"])/;
+
+// Only http(s) and mailto links are kept; anything else (e.g. javascript:) is shown as plain text
+export const getSafeHref = (href: string): string | null => {
+  const trimmed = href.trim();
+  return SAFE_LINK_PATTERN.test(trimmed) ? trimmed : null;
+};
+
+export const parseInline = (text: string): MarkdownInline[] => {
+  const nodes: MarkdownInline[] = [];
+  let rest = text;
+  while (rest) {
+    const match = INLINE_PATTERN.exec(rest);
+    if (!match) {
+      nodes.push({ type: 'text', text: rest });
+      break;
+    }
+    if (match.index > 0) nodes.push({ type: 'text', text: rest.slice(0, match.index) });
+    const [whole, strong, emphasis, linkText, linkHref, bareUrl] = match;
+    if (strong) {
+      nodes.push({ type: 'strong', children: parseInline(strong) });
+    } else if (emphasis) {
+      nodes.push({ type: 'emphasis', children: parseInline(emphasis) });
+    } else if (linkText) {
+      const href = getSafeHref(linkHref);
+      nodes.push(href ? { type: 'link', href, children: parseInline(linkText) } : { type: 'text', text: whole });
+    } else {
+      nodes.push({ type: 'link', href: bareUrl, children: [{ type: 'text', text: bareUrl }] });
+    }
+    rest = rest.slice(match.index + whole.length);
+  }
+  return nodes;
+};
+
+// Lines of one paragraph keep their line breaks, as people type descriptions like short messages
+const parseLines = (lines: string[]): MarkdownInline[] =>
+  lines.flatMap((line, index) => index === 0 ? parseInline(line) : [{ type: 'break' } as MarkdownInline, ...parseInline(line)]);
+
+export const parseMarkdown = (source: string): MarkdownBlock[] => {
+  const blocks: MarkdownBlock[] = [];
+  let paragraph: string[] = [];
+  let list: { ordered: boolean; items: string[] } | null = null;
+
+  const flush = () => {
+    if (paragraph.length > 0) blocks.push({ type: 'paragraph', children: parseLines(paragraph) });
+    if (list) blocks.push({ type: 'list', ordered: list.ordered, items: list.items.map(parseInline) });
+    paragraph = [];
+    list = null;
+  };
+
+  source.replace(/\r\n?/g, '\n').split('\n').forEach(line => {
+    const bullet = BULLET_PATTERN.exec(line);
+    const numbered = bullet ? null : NUMBERED_PATTERN.exec(line);
+    const item = bullet ?? numbered;
+    if (!line.trim()) {
+      flush();
+    } else if (item) {
+      const ordered = !!numbered;
+      if (paragraph.length > 0 || (list && list.ordered !== ordered)) flush();
+      if (!list) list = { ordered, items: [] };
+      list.items.push(item[1]);
+    } else if (list && /^\s+/.test(line)) {
+      // Indented lines continue the previous list item
+      list.items[list.items.length - 1] += ` ${line.trim()}`;
+    } else {
+      if (list) flush();
+      paragraph.push(line.trim());
+    }
+  });
+  flush();
+  return blocks;
+};
+
+const inlineToText = (nodes: MarkdownInline[]): string =>
+  nodes.map(node => {
+    if (node.type === 'text') return node.text;
+    if (node.type === 'break') return '\n';
+    const text = inlineToText(node.children);
+    return node.type === 'link' && text !== node.href ? `${text} (${node.href.replace(/^mailto:/i, '')})` : text;
+  }).join('');
+
+// The description without formatting, e.g. for previews and calendar exports. Links keep their address.
+export const markdownToPlainText = (source: string): string =>
+  parseMarkdown(source).map(block => block.type === 'paragraph'
+    ? inlineToText(block.children)
+    : block.items.map((item, index) => `${block.ordered ? `${index + 1}.` : '-'} ${inlineToText(item)}`).join('\n')
+  ).join('\n\n');
@@ -0,0 +1,62 @@
+// src/lib/participation.ts
+// Spot and waitlist bookkeeping for RSVPs, shared by the setRsvp function and the app's optimistic updates.
+import type { ActivityInviteStatus, ActivityParticipant, JoinActivityResult, RsvpStatus } from '@/lib/types';
+
+export const RSVP_STATUSES: RsvpStatus[] = ['going', 'maybe', 'declined'];
+
+// Going and maybe accept an invite, can't declines it
+export const inviteStatusForRsvp = (status: RsvpStatus): ActivityInviteStatus =>
+  status === 'declined' ? 'declined' : 'accepted';
+
+interface ActivitySpots {
+  participants: ActivityParticipant[];
+  waitlist: ActivityParticipant[];
+  maxParticipants?: number | null;
+}
+
+// Moves waitlisted users into free spots, in waitlist order. Returns the updated lists.
+export const promoteFromWaitlist = ({ participants, waitlist, maxParticipants }: ActivitySpots): ActivitySpots => {
+  const promotedParticipants = [...participants];
+  const remainingWaitlist = [...waitlist];
+  while (remainingWaitlist.length > 0 && (maxParticipants == null || promotedParticipants.length < maxParticipants)) {
+    promotedParticipants.push(remainingWaitlist.shift()!);
+  }
+  return { participants: promotedParticipants, waitlist: remainingWaitlist, maxParticipants };
+};
+
+/**
+ * Where the user ends up after answering. "going" takes a spot (or a waitlist place when the activity is full);
+ * "maybe" and "declined" release any spot or waitlist place, promoting the first waitlisted user.
+ * The result is the join outcome for "going" and null otherwise.
+ */
+export const applyRsvpToSpots = (
+  spots: ActivitySpots,
+  participant: ActivityParticipant,
+  status: RsvpStatus
+): ActivitySpots & { result: JoinActivityResult | null } => {
+  const { participants, waitlist, maxParticipants } = spots;
+  if (status === 'going') {
+    // Answering "going" again replaces the entry, e.g. with a different set of children. Spots are counted per
+    // family, so this never changes whether the activity is full.
+    const replaceEntry = (entry: ActivityParticipant) => (entry.uid === participant.uid ? participant : entry);
+    if (participants.some(p => p.uid === participant.uid)) {
+      return { ...spots, participants: participants.map(replaceEntry), result: 'joined' };
+    }
+    if (waitlist.some(p => p.uid === participant.uid)) {
+      return { ...spots, waitlist: waitlist.map(replaceEntry), result: 'waitlisted' };
+    }
+    const isFull = maxParticipants != null && participants.length >= maxParticipants;
+    return isFull
+      ? { ...spots, waitlist: [...waitlist, participant], result: 'waitlisted' }
+      : { ...spots, participants: [...participants, participant], result: 'joined' };
+  }
+
+  // Entries are matched by uid, so a changed display name or photo does not prevent leaving.
+  const remainingParticipants = participants.filter(p => p.uid !== participant.uid);
+  const remainingWaitlist = waitlist.filter(p => p.uid !== participant.uid);
+  const released = { participants: remainingParticipants, waitlist: remainingWaitlist, maxParticipants };
+  return {
+    ...(remainingParticipants.length < participants.length ? promoteFromWaitlist(released) : released),
+    result: null,
+  };
+};
@@ -0,0 +1,60 @@
+// src/lib/polls.ts
+// Date polls: the creator proposes a few slots, invited friends answer yes / if needed / no per slot, and the
+// creator finalizes one slot, which becomes a regular activity.
+import type { PollAnswer, PollClient, PollInvitee } from '@/lib/types';
+
+export const MIN_POLL_SLOTS = 2;
+export const MAX_POLL_SLOTS = 10;
+export const MAX_POLL_INVITEES = 50;
+
+export const POLL_ANSWER_OPTIONS: { value: PollAnswer; label: string }[] = [
+  { value: 'yes', label: 'Yes' },
+  { value: 'ifNeeded', label: 'If needed' },
+  { value: 'no', label: 'No' },
+];
+
+export const getPollAnswerLabel = (answer: PollAnswer): string =>
+  POLL_ANSWER_OPTIONS.find(option => option.value === answer)?.label ?? answer;
+
+export interface PollSlotTally {
+  slotId: string;
+  yes: number;
+  ifNeeded: number;
+  no: number;
+  unanswered: number;
+}
+
+// Everyone asked to vote: the creator first, then the invitees by name
+export const getPollVoters = (poll: PollClient): PollInvitee[] => [
+  { uid: poll.creatorId, name: poll.creatorName, photoURL: poll.creatorPhotoURL ?? null },
+  ...Object.values(poll.invitees)
+    .filter(invitee => invitee.uid !== poll.creatorId)
+    .sort((a, b) => (a.name ?? '').localeCompare(b.name ?? '')),
+];
+
+// Answer counts per slot, in slot order
+export const tallyPoll = (poll: PollClient): PollSlotTally[] => {
+  const voters = getPollVoters(poll);
+  return poll.slots.map(slot => {
+    const tally: PollSlotTally = { slotId: slot.id, yes: 0, ifNeeded: 0, no: 0, unanswered: 0 };
+    voters.forEach(voter => {
+      const answer = poll.votes[voter.uid]?.answers[slot.id];
+      if (answer) tally[answer] += 1;
+      else tally.unanswered += 1;
+    });
+    return tally;
+  });
+};
+
+// "Yes" counts double, so a slot everyone can make beats one that many could only make if needed
+const slotScore = (tally: PollSlotTally): number => tally.yes * 2 + tally.ifNeeded;
+
+// The slots with the highest score; empty while nobody has said yes or if needed anywhere
+export const getBestSlotIds = (tallies: PollSlotTally[]): string[] => {
+  const best = Math.max(0, ...tallies.map(slotScore));
+  return best > 0 ? tallies.filter(tally => slotScore(tally) === best).map(tally => tally.slotId) : [];
+};
+
+// Whether the user still has to answer at least one slot of an open poll
+export const isAwaitingVote = (poll: PollClient, uid: string): boolean =>
+  poll.status === 'open' && poll.slots.some(slot => !poll.votes[uid]?.answers[slot.id]);
@@ -0,0 +1,13 @@
+// src/lib/profile.ts
+import type { ChildProfile } from '@/lib/types';
+
+// Profiles created before multi-child support stored a single `childNickname` string.
+export const readChildren = (data: { children?: unknown; childNickname?: unknown }): ChildProfile[] => {
+  if (Array.isArray(data.children)) {
+    return data.children as ChildProfile[];
+  }
+  if (typeof data.childNickname === 'string' && data.childNickname.trim() !== '') {
+    return [{ id: 'legacy-child', nickname: data.childNickname, birthYear: null, notes: null }];
+  }
+  return [];
+};
@@ -0,0 +1,416 @@
+// src/lib/qrcode.ts
+// Minimal QR code encoder (ISO/IEC 18004, byte mode) so invite links can be shown as a QR code without a network connection.
+// The tables and the matrix layout are shared with the decoder in qrdecode.ts.
+
+export type QrErrorCorrectionLevel = 'L' | 'M' | 'Q' | 'H';
+
+export interface QrCode {
+  version: number; // 1-40, picked as the smallest version the text fits into
+  size: number; // Modules per side, without the quiet zone
+  modules: boolean[][]; // [row][column], true for dark modules
+}
+
+const MIN_VERSION = 1;
+const MAX_VERSION = 40;
+
+// Index 0 is unused so the tables can be read with the version number
+export const ECC_CODEWORDS_PER_BLOCK: Record<QrErrorCorrectionLevel, number[]> = {
+  L: [-1, 7, 10, 15, 20, 26, 18, 20, 24, 30, 18, 20, 24, 26, 30, 22, 24, 28, 30, 28, 28, 28, 28, 30, 30, 26, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+  M: [-1, 10, 16, 26, 18, 24, 16, 18, 22, 22, 26, 30, 22, 22, 24, 24, 28, 28, 26, 26, 26, 26, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28],
+  Q: [-1, 13, 22, 18, 26, 18, 24, 18, 22, 20, 24, 28, 26, 24, 20, 30, 24, 28, 28, 26, 30, 28, 30, 30, 30, 30, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+  H: [-1, 17, 28, 22, 16, 22, 28, 26, 26, 24, 28, 24, 28, 22, 24, 24, 30, 28, 28, 26, 28, 30, 24, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+};
+
+export const ERROR_CORRECTION_BLOCKS: Record<QrErrorCorrectionLevel, number[]> = {
+  L: [-1, 1, 1, 1, 1, 1, 2, 2, 2, 2, 4, 4, 4, 4, 4, 6, 6, 6, 6, 7, 8, 8, 9, 9, 10, 12, 12, 12, 13, 14, 15, 16, 17, 18, 19, 19, 20, 21, 22, 24, 25],
+  M: [-1, 1, 1, 1, 2, 2, 4, 4, 4, 5, 5, 5, 8, 9, 9, 10, 10, 11, 13, 14, 16, 17, 17, 18, 20, 21, 23, 25, 26, 28, 29, 31, 33, 35, 37, 38, 40, 43, 45, 47, 49],
+  Q: [-1, 1, 1, 2, 2, 4, 4, 6, 6, 8, 8, 8, 10, 12, 16, 12, 17, 16, 18, 21, 20, 23, 23, 25, 27, 29, 34, 34, 35, 38, 40, 43, 45, 48, 51, 53, 56, 59, 62, 65, 68],
+  H: [-1, 1, 1, 2, 4, 4, 4, 5, 6, 8, 8, 11, 11, 16, 16, 18, 16, 19, 21, 25, 25, 25, 34, 30, 32, 35, 37, 40, 42, 45, 48, 51, 54, 57, 60, 63, 66, 70, 74, 77, 81],
+};
+
+// Two bit indicator of the level inside the format information
+const FORMAT_BITS: Record<QrErrorCorrectionLevel, number> = { L: 1, M: 0, Q: 3, H: 2 };
+
+const BYTE_MODE_INDICATOR = 0x4;
+const PAD_CODEWORDS = [0xec, 0x11];
+
+const getBit = (value: number, index: number): boolean => ((value >>> index) & 1) !== 0;
+
+// Number of modules left for data and error correction codewords once all function patterns are placed
+export const getRawDataModules = (version: number): number => {
+  let result = (16 * version + 128) * version + 64;
+  if (version >= 2) {
+    const alignmentCount = Math.floor(version / 7) + 2;
+    result -= (25 * alignmentCount - 10) * alignmentCount - 55;
+    if (version >= 7) result -= 36;
+  }
+  return result;
+};
+
+const getDataCodewords = (version: number, level: QrErrorCorrectionLevel): number =>
+  Math.floor(getRawDataModules(version) / 8) - ECC_CODEWORDS_PER_BLOCK[level][version] * ERROR_CORRECTION_BLOCKS[level][version];
+
+const getCharCountBits = (version: number): number => (version <= 9 ? 8 : 16);
+
+// 15 bit format information: level and mask, BCH error correction and the fixed XOR mask
+export const getFormatBits = (level: QrErrorCorrectionLevel, mask: number): number => {
+  const data = (FORMAT_BITS[level] << 3) | mask;
+  let remainder = data;
+  for (let i = 0; i < 10; i++) {
+    remainder = (remainder << 1) ^ ((remainder >>> 9) * 0x537);
+  }
+  return ((data << 10) | remainder) ^ 0x5412;
+};
+
+// 18 bit version information, only present from version 7
+export const getVersionBits = (version: number): number => {
+  let remainder = version;
+  for (let i = 0; i < 12; i++) {
+    remainder = (remainder << 1) ^ ((remainder >>> 11) * 0x1f25);
+  }
+  return (version << 12) | remainder;
+};
+
+const getAlignmentPositions = (version: number): number[] => {
+  if (version === 1) return [];
+  const count = Math.floor(version / 7) + 2;
+  const size = version * 4 + 17;
+  const step = version === 32 ? 26 : Math.ceil((version * 4 + 4) / (count * 2 - 2)) * 2;
+  const positions = [6];
+  for (let position = size - 7; positions.length < count; position -= step) {
+    positions.splice(1, 0, position);
+  }
+  return positions;
+};
+
+// --- Reed-Solomon over GF(2^8) with the polynomial x^8 + x^4 + x^3 + x^2 + 1 ---
+
+const gfMultiply = (x: number, y: number): number => {
+  let product = 0;
+  for (let i = 7; i >= 0; i--) {
+    product = (product << 1) ^ ((product >>> 7) * 0x11d);
+    product ^= ((y >>> i) & 1) * x;
+  }
+  return product;
+};
+
+// Coefficients of the generator polynomial, highest power first, without the leading 1
+const getReedSolomonDivisor = (degree: number): number[] => {
+  const divisor: number[] = new Array(degree).fill(0);
+  divisor[degree - 1] = 1;
+  let root = 1;
+  for (let i = 0; i < degree; i++) {
+    for (let j = 0; j < degree; j++) {
+      divisor[j] = gfMultiply(divisor[j], root);
+      if (j + 1 < degree) divisor[j] ^= divisor[j + 1];
+    }
+    root = gfMultiply(root, 0x02);
+  }
+  return divisor;
+};
+
+const getReedSolomonRemainder = (data: number[], divisor: number[]): number[] => {
+  const remainder: number[] = new Array(divisor.length).fill(0);
+  data.forEach(byte => {
+    const factor = byte ^ (remainder.shift() as number);
+    remainder.push(0);
+    divisor.forEach((coefficient, i) => {
+      remainder[i] ^= gfMultiply(coefficient, factor);
+    });
+  });
+  return remainder;
+};
+
+// --- Codewords ---
+
+const encodeDataCodewords = (bytes: Uint8Array, version: number, level: QrErrorCorrectionLevel): number[] => {
+  const bits: number[] = [];
+  const appendBits = (value: number, length: number) => {
+    for (let i = length - 1; i >= 0; i--) bits.push((value >>> i) & 1);
+  };
+
+  appendBits(BYTE_MODE_INDICATOR, 4);
+  appendBits(bytes.length, getCharCountBits(version));
+  bytes.forEach(byte => appendBits(byte, 8));
+
+  const capacityBits = getDataCodewords(version, level) * 8;
+  appendBits(0, Math.min(4, capacityBits - bits.length)); // Terminator
+  appendBits(0, (8 - (bits.length % 8)) % 8);
+
+  const codewords: number[] = [];
+  for (let i = 0; i < bits.length; i += 8) {
+    codewords.push(bits.slice(i, i + 8).reduce((byte, bit) => (byte << 1) | bit, 0));
+  }
+  for (let i = 0; codewords.length < capacityBits / 8; i++) {
+    codewords.push(PAD_CODEWORDS[i % 2]);
+  }
+  return codewords;
+};
+
+// Splits the data into blocks, appends the error correction codewords of each block and interleaves the result
+const addErrorCorrection = (data: number[], version: number, level: QrErrorCorrectionLevel): number[] => {
+  const blockCount = ERROR_CORRECTION_BLOCKS[level][version];
+  const eccLength = ECC_CODEWORDS_PER_BLOCK[level][version];
+  const rawCodewords = Math.floor(getRawDataModules(version) / 8);
+  const shortBlockCount = blockCount - (rawCodewords % blockCount);
+  const shortBlockDataLength = Math.floor(rawCodewords / blockCount) - eccLength;
+  const divisor = getReedSolomonDivisor(eccLength);
+
+  const dataBlocks: number[][] = [];
+  const eccBlocks: number[][] = [];
+  let offset = 0;
+  for (let i = 0; i < blockCount; i++) {
+    const length = shortBlockDataLength + (i < shortBlockCount ? 0 : 1);
+    const block = data.slice(offset, offset + length);
+    offset += length;
+    dataBlocks.push(block);
+    eccBlocks.push(getReedSolomonRemainder(block, divisor));
+  }
+
+  const result: number[] = [];
+  for (let i = 0; i <= shortBlockDataLength; i++) {
+    dataBlocks.forEach(block => {
+      if (i < block.length) result.push(block[i]);
+    });
+  }
+  for (let i = 0; i < eccLength; i++) {
+    eccBlocks.forEach(block => result.push(block[i]));
+  }
+  return result;
+};
+
+// --- Matrix ---
+
+const MASK_PATTERNS: ((x: number, y: number) => boolean)[] = [
+  (x, y) => (x + y) % 2 === 0,
+  (x, y) => y % 2 === 0,
+  (x) => x % 3 === 0,
+  (x, y) => (x + y) % 3 === 0,
+  (x, y) => (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0,
+  (x, y) => ((x * y) % 2) + ((x * y) % 3) === 0,
+  (x, y) => (((x * y) % 2) + ((x * y) % 3)) % 2 === 0,
+  (x, y) => (((x + y) % 2) + ((x * y) % 3)) % 2 === 0,
+];
+
+const countOccurrences = (text: string, search: string): number => {
+  let count = 0;
+  for (let index = text.indexOf(search); index !== -1; index = text.indexOf(search, index + 1)) {
+    count++;
+  }
+  return count;
+};
+
+export class QrMatrix {
+  readonly size: number;
+  readonly modules: boolean[][];
+  readonly isFunction: boolean[][];
+
+  constructor(readonly version: number) {
+    this.size = version * 4 + 17;
+    this.modules = Array.from({ length: this.size }, () => new Array(this.size).fill(false));
+    this.isFunction = Array.from({ length: this.size }, () => new Array(this.size).fill(false));
+  }
+
+  setFunctionModule(x: number, y: number, dark: boolean) {
+    this.modules[y][x] = dark;
+    this.isFunction[y][x] = true;
+  }
+
+  drawFunctionPatterns() {
+    for (let i = 0; i < this.size; i++) {
+      this.setFunctionModule(6, i, i % 2 === 0);
+      this.setFunctionModule(i, 6, i % 2 === 0);
+    }
+
+    this.drawFinderPattern(3, 3);
+    this.drawFinderPattern(this.size - 4, 3);
+    this.drawFinderPattern(3, this.size - 4);
+
+    const positions = getAlignmentPositions(this.version);
+    const last = positions.length - 1;
+    positions.forEach((x, i) => {
+      positions.forEach((y, j) => {
+        const overlapsFinder = (i === 0 && j === 0) || (i === 0 && j === last) || (i === last && j === 0);
+        if (!overlapsFinder) this.drawAlignmentPattern(x, y);
+      });
+    });
+
+    this.drawFormatBits('L', 0); // Reserves the area, the real bits are drawn once the mask is known
+    this.drawVersionBits();
+  }
+
+  // Finder pattern with its light separator, centered on (x, y)
+  drawFinderPattern(x: number, y: number) {
+    for (let dy = -4; dy <= 4; dy++) {
+      for (let dx = -4; dx <= 4; dx++) {
+        const column = x + dx;
+        const row = y + dy;
+        if (column < 0 || column >= this.size || row < 0 || row >= this.size) continue;
+        const distance = Math.max(Math.abs(dx), Math.abs(dy));
+        this.setFunctionModule(column, row, distance !== 2 && distance !== 4);
+      }
+    }
+  }
+
+  drawAlignmentPattern(x: number, y: number) {
+    for (let dy = -2; dy <= 2; dy++) {
+      for (let dx = -2; dx <= 2; dx++) {
+        this.setFunctionModule(x + dx, y + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1);
+      }
+    }
+  }
+
+  drawFormatBits(level: QrErrorCorrectionLevel, mask: number) {
+    const bits = getFormatBits(level, mask);
+
+    // Copy around the top left finder
+    for (let i = 0; i <= 5; i++) this.setFunctionModule(8, i, getBit(bits, i));
+    this.setFunctionModule(8, 7, getBit(bits, 6));
+    this.setFunctionModule(8, 8, getBit(bits, 7));
+    this.setFunctionModule(7, 8, getBit(bits, 8));
+    for (let i = 9; i < 15; i++) this.setFunctionModule(14 - i, 8, getBit(bits, i));
+
+    // Copy split between the top right and bottom left finders
+    for (let i = 0; i < 8; i++) this.setFunctionModule(this.size - 1 - i, 8, getBit(bits, i));
+    for (let i = 8; i < 15; i++) this.setFunctionModule(8, this.size - 15 + i, getBit(bits, i));
+    this.setFunctionModule(8, this.size - 8, true); // Always dark
+  }
+
+  drawVersionBits() {
+    if (this.version < 7) return;
+    const bits = getVersionBits(this.version);
+    for (let i = 0; i < 18; i++) {
+      const a = this.size - 11 + (i % 3);
+      const b = Math.floor(i / 3);
+      this.setFunctionModule(a, b, getBit(bits, i));
+      this.setFunctionModule(b, a, getBit(bits, i));
+    }
+  }
+
+  // Places the codewords in the zigzag order, two columns at a time from the bottom right corner
+  drawCodewords(codewords: number[]) {
+    let bitIndex = 0;
+    for (let right = this.size - 1; right >= 1; right -= 2) {
+      if (right === 6) right = 5; // Skips the vertical timing pattern
+      const upward = ((right + 1) & 2) === 0;
+      for (let vertical = 0; vertical < this.size; vertical++) {
+        const y = upward ? this.size - 1 - vertical : vertical;
+        for (let j = 0; j < 2; j++) {
+          const x = right - j;
+          if (this.isFunction[y][x] || bitIndex >= codewords.length * 8) continue;
+          this.modules[y][x] = getBit(codewords[bitIndex >>> 3], 7 - (bitIndex & 7));
+          bitIndex++;
+        }
+      }
+    }
+  }
+
+  // Reverse of drawCodewords, reads every codeword that fits into the data area
+  readCodewords(): number[] {
+    const codewords: number[] = new Array(Math.floor(getRawDataModules(this.version) / 8)).fill(0);
+    let bitIndex = 0;
+    for (let right = this.size - 1; right >= 1; right -= 2) {
+      if (right === 6) right = 5;
+      const upward = ((right + 1) & 2) === 0;
+      for (let vertical = 0; vertical < this.size; vertical++) {
+        const y = upward ? this.size - 1 - vertical : vertical;
+        for (let j = 0; j < 2; j++) {
+          const x = right - j;
+          if (this.isFunction[y][x] || bitIndex >= codewords.length * 8) continue;
+          if (this.modules[y][x]) codewords[bitIndex >>> 3] |= 1 << (7 - (bitIndex & 7));
+          bitIndex++;
+        }
+      }
+    }
+    return codewords;
+  }
+
+  // Applying the same mask twice undoes it
+  applyMask(mask: number) {
+    for (let y = 0; y < this.size; y++) {
+      for (let x = 0; x < this.size; x++) {
+        if (!this.isFunction[y][x] && MASK_PATTERNS[mask](x, y)) {
+          this.modules[y][x] = !this.modules[y][x];
+        }
+      }
+    }
+  }
+
+  getPenaltyScore(): number {
+    let penalty = 0;
+    const lines: boolean[][] = [
+      ...this.modules,
+      ...this.modules.map((_, x) => this.modules.map(row => row[x])),
+    ];
+
+    lines.forEach(line => {
+      // Runs of five or more modules of the same color
+      let runLength = 1;
+      for (let i = 1; i <= line.length; i++) {
+        if (i < line.length && line[i] === line[i - 1]) {
+          runLength++;
+          continue;
+        }
+        if (runLength >= 5) penalty += 3 + (runLength - 5);
+        runLength = 1;
+      }
+      // Patterns that look like a finder
+      const pattern = line.map(dark => (dark ? '1' : '0')).join('');
+      penalty += 40 * (countOccurrences(pattern, '10111010000') + countOccurrences(pattern, '00001011101'));
+    });
+
+    // 2x2 blocks of the same color
+    for (let y = 0; y < this.size - 1; y++) {
+      for (let x = 0; x < this.size - 1; x++) {
+        const color = this.modules[y][x];
+        if (color === this.modules[y][x + 1] && color === this.modules[y + 1][x] && color === this.modules[y + 1][x + 1]) {
+          penalty += 3;
+        }
+      }
+    }
+
+    // Imbalance between dark and light modules
+    const darkCount = this.modules.reduce((sum, row) => sum + row.filter(Boolean).length, 0);
+    const darkPercent = (darkCount * 100) / (this.size * this.size);
+    penalty += Math.floor(Math.abs(darkPercent - 50) / 5) * 10;
+
+    return penalty;
+  }
+}
+
+/**
+ * Encodes text (UTF-8, byte mode) as a QR code, using the smallest version that fits and the mask with the
+ * lowest penalty score. Throws when the text does not fit into version 40 at the given level.
+ */
+export const encodeQrCode = (text: string, level: QrErrorCorrectionLevel = 'M'): QrCode => {
+  const bytes = new TextEncoder().encode(text);
+  let version = MIN_VERSION;
+  while (4 + getCharCountBits(version) + bytes.length * 8 > getDataCodewords(version, level) * 8) {
+    if (version === MAX_VERSION) {
+      throw new Error(`Text is too long for a QR code (${bytes.length} bytes).`);
+    }
+    version++;
+  }
+
+  const codewords = addErrorCorrection(encodeDataCodewords(bytes, version, level), version, level);
+  const matrix = new QrMatrix(version);
+  matrix.drawFunctionPatterns();
+  matrix.drawCodewords(codewords);
+
+  let bestMask = 0;
+  let bestPenalty = Infinity;
+  for (let mask = 0; mask < MASK_PATTERNS.length; mask++) {
+    matrix.applyMask(mask);
+    matrix.drawFormatBits(level, mask);
+    const penalty = matrix.getPenaltyScore();
+    if (penalty < bestPenalty) {
+      bestMask = mask;
+      bestPenalty = penalty;
+    }
+    matrix.applyMask(mask);
+  }
+  matrix.applyMask(bestMask);
+  matrix.drawFormatBits(level, bestMask);
+
+  return { version, size: matrix.size, modules: matrix.modules };
+};
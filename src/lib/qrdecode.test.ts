@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { encodeQrCode } from '@/lib/qrcode';
+import { decodeQrCode, type QrImage } from '@/lib/qrdecode';
+
+const INVITE_URL = 'https://parent-activity-hub.web.app/invite?code=Xk3_9fQpL2mZ';
+
+// Draws the modules with a four module quiet zone, the way InviteQrCode shows them
+const render = (modules: boolean[][], scale = 4): QrImage => {
+  const quietZone = 4;
+  const width = (modules.length + quietZone * 2) * scale;
+  const data = new Uint8ClampedArray(width * width * 4).fill(255);
+  for (let y = 0; y < width; y++) {
+    for (let x = 0; x < width; x++) {
+      const row = Math.floor(y / scale) - quietZone;
+      const column = Math.floor(x / scale) - quietZone;
+      if (modules[row]?.[column]) data.fill(0, (y * width + x) * 4, (y * width + x) * 4 + 3);
+    }
+  }
+  return { data, width, height: width };
+};
+
+describe('decodeQrCode', () => {
+  it('reads back what the encoder wrote', () => {
+    expect(decodeQrCode(render(encodeQrCode(INVITE_URL).modules))).toBe(INVITE_URL);
+    expect(decodeQrCode(render(encodeQrCode('Playdate 🛝', 'H').modules, 3))).toBe('Playdate 🛝');
+  });
+
+  it('reads larger versions that carry version information', () => {
+    const text = INVITE_URL.repeat(4);
+    const qrCode = encodeQrCode(text, 'Q');
+    expect(qrCode.version).toBeGreaterThanOrEqual(7);
+    expect(decodeQrCode(render(qrCode.modules))).toBe(text);
+  });
+
+  it('reads codes held upside down or sideways', () => {
+    const { modules } = encodeQrCode(INVITE_URL);
+    const rotated = modules.map((_, y) => modules.map(row => row[y]).reverse());
+    const upsideDown = [...modules].reverse().map(row => [...row].reverse());
+    expect(decodeQrCode(render(rotated))).toBe(INVITE_URL);
+    expect(decodeQrCode(render(upsideDown))).toBe(INVITE_URL);
+  });
+
+  it('corrects damaged modules', () => {
+    const { modules, size } = encodeQrCode(INVITE_URL);
+    const damaged = modules.map(row => [...row]);
+    [[size - 1, size - 1], [size - 2, size - 4], [size - 10, size - 3], [12, 20]].forEach(([y, x]) => {
+      damaged[y][x] = !damaged[y][x];
+    });
+    expect(decodeQrCode(render(damaged))).toBe(INVITE_URL);
+  });
+
+  it('returns null when there is no code in the image', () => {
+    expect(decodeQrCode(render([[false]], 100))).toBeNull();
+  });
+});
@@ -0,0 +1,595 @@
+// src/lib/qrdecode.ts
+// Minimal QR code decoder for camera frames, used by the invite scanner in browsers without the Barcode Detection API.
+// Reads codes in numeric, alphanumeric and byte mode; codes are located by their three finder patterns and, from
+// version 2, the bottom right alignment pattern to correct the perspective.
+import {
+  ECC_CODEWORDS_PER_BLOCK,
+  ERROR_CORRECTION_BLOCKS,
+  QrMatrix,
+  getFormatBits,
+  getRawDataModules,
+  getVersionBits,
+  type QrErrorCorrectionLevel,
+} from '@/lib/qrcode';
+
+// Same shape as the browser's ImageData (RGBA, four bytes per pixel), so frames can be passed in directly
+export interface QrImage {
+  data: Uint8ClampedArray;
+  width: number;
+  height: number;
+}
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+interface FinderPattern extends Point {
+  moduleSize: number;
+  count: number; // How many scan lines found this pattern
+}
+
+const MAX_FINDER_CANDIDATES = 8;
+const MAX_ATTEMPTS = 3;
+const ALIGNMENT_SEARCH_MODULES = 6;
+const MAX_CORRECTABLE_BIT_ERRORS = 3;
+
+const LEVELS: QrErrorCorrectionLevel[] = ['L', 'M', 'Q', 'H'];
+const ALPHANUMERIC_CHARS = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ $%*+-./:';
+
+const MODE_TERMINATOR = 0x0;
+const MODE_NUMERIC = 0x1;
+const MODE_ALPHANUMERIC = 0x2;
+const MODE_BYTE = 0x4;
+const MODE_ECI = 0x7;
+
+// --- Binarization ---
+
+class BitImage {
+  constructor(readonly width: number, readonly height: number, private readonly dark: Uint8Array) {}
+
+  contains(x: number, y: number): boolean {
+    return x >= 0 && y >= 0 && x < this.width && y < this.height;
+  }
+
+  isDark(x: number, y: number): boolean {
+    return this.contains(x, y) && this.dark[y * this.width + x] === 1;
+  }
+}
+
+// Compares each pixel with the mean of its neighbourhood, which copes with uneven lighting across the frame
+const binarize = ({ data, width, height }: QrImage): BitImage => {
+  const luminance = new Uint8Array(width * height);
+  for (let i = 0; i < luminance.length; i++) {
+    luminance[i] = (data[i * 4] * 77 + data[i * 4 + 1] * 150 + data[i * 4 + 2] * 29) >> 8;
+  }
+
+  const stride = width + 1;
+  const integral = new Float64Array(stride * (height + 1));
+  for (let y = 0; y < height; y++) {
+    let rowSum = 0;
+    for (let x = 0; x < width; x++) {
+      rowSum += luminance[y * width + x];
+      integral[(y + 1) * stride + x + 1] = integral[y * stride + x + 1] + rowSum;
+    }
+  }
+
+  const radius = Math.max(4, Math.floor(Math.min(width, height) / 16));
+  const dark = new Uint8Array(width * height);
+  for (let y = 0; y < height; y++) {
+    const top = Math.max(0, y - radius);
+    const bottom = Math.min(height, y + radius + 1);
+    for (let x = 0; x < width; x++) {
+      const left = Math.max(0, x - radius);
+      const right = Math.min(width, x + radius + 1);
+      const sum = integral[bottom * stride + right] - integral[top * stride + right]
+        - integral[bottom * stride + left] + integral[top * stride + left];
+      const area = (bottom - top) * (right - left);
+      dark[y * width + x] = luminance[y * width + x] * area <= sum * 0.9 ? 1 : 0;
+    }
+  }
+  return new BitImage(width, height, dark);
+};
+
+// --- Locating the code ---
+
+const distance = (a: Point, b: Point): number => Math.hypot(a.x - b.x, a.y - b.y);
+
+// Every run may be off by half a module, scaled with the run's expected length
+const matchesModules = (runs: number[], ratios: number[], moduleSize: number): boolean =>
+  runs.every((run, i) => Math.abs(run - ratios[i] * moduleSize) < (ratios[i] * moduleSize) / 2);
+
+// Lengths of `count` alternating runs from (x, y) along (dx, dy), starting with the dark run (x, y) is in.
+// Returns null when the image ends before the last run does.
+const measureRuns = (image: BitImage, x: number, y: number, dx: number, dy: number, count: number): number[] | null => {
+  const runs: number[] = [];
+  let dark = true;
+  let length = 0;
+  for (; image.contains(x, y); x += dx, y += dy) {
+    if (image.isDark(x, y) === dark) {
+      length++;
+      continue;
+    }
+    runs.push(length);
+    if (runs.length === count) return runs;
+    dark = !dark;
+    length = 1;
+  }
+  return null;
+};
+
+// Re-measures a pattern across its center in the other direction and returns the refined center along that line
+const crossCheck = (
+  image: BitImage,
+  center: Point,
+  vertical: boolean,
+  ratios: number[],
+  moduleSize: number | null,
+): { position: number; total: number } | null => {
+  const x = Math.floor(center.x);
+  const y = Math.floor(center.y);
+  if (!image.isDark(x, y)) return null;
+  const [dx, dy] = vertical ? [0, 1] : [1, 0];
+  const sideRuns = (ratios.length + 1) / 2;
+  const forward = measureRuns(image, x, y, dx, dy, sideRuns);
+  const backward = measureRuns(image, x, y, -dx, -dy, sideRuns);
+  if (!forward || !backward) return null;
+
+  const runs = [...backward.slice(1).reverse(), backward[0] + forward[0] - 1, ...forward.slice(1)];
+  const total = runs.reduce((sum, run) => sum + run, 0);
+  const ratioTotal = ratios.reduce((sum, ratio) => sum + ratio, 0);
+  if (!matchesModules(runs, ratios, moduleSize ?? total / ratioTotal)) return null;
+
+  const start = vertical ? y : x;
+  return { position: start + (forward[0] - backward[0]) / 2 + 0.5, total };
+};
+
+const getRowRuns = (image: BitImage, y: number, fromX: number, toX: number): { start: number; length: number; dark: boolean }[] => {
+  const runs: { start: number; length: number; dark: boolean }[] = [];
+  for (let x = fromX; x < toX; x++) {
+    const dark = image.isDark(x, y);
+    const last = runs[runs.length - 1];
+    if (last && last.dark === dark) last.length++;
+    else runs.push({ start: x, length: 1, dark });
+  }
+  return runs;
+};
+
+const FINDER_RATIOS = [1, 1, 3, 1, 1];
+
+// Looks for the 1:1:3:1:1 dark/light pattern through the center of a finder in every row, confirmed in both directions
+const findFinderPatterns = (image: BitImage): FinderPattern[] => {
+  const patterns: FinderPattern[] = [];
+  for (let y = 0; y < image.height; y++) {
+    const runs = getRowRuns(image, y, 0, image.width);
+    for (let i = 0; i + 4 < runs.length; i++) {
+      if (!runs[i].dark) continue;
+      const lengths = runs.slice(i, i + 5).map(run => run.length);
+      const rowTotal = lengths.reduce((sum, length) => sum + length, 0);
+      if (!matchesModules(lengths, FINDER_RATIOS, rowTotal / 7)) continue;
+
+      const middle = runs[i + 2];
+      const vertical = crossCheck(image, { x: middle.start + middle.length / 2, y: y + 0.5 }, true, FINDER_RATIOS, null);
+      if (!vertical || Math.abs(vertical.total - rowTotal) > rowTotal * 0.4) continue;
+      const horizontal = crossCheck(image, { x: middle.start + middle.length / 2, y: vertical.position }, false, FINDER_RATIOS, null);
+      if (!horizontal) continue;
+
+      const found = { x: horizontal.position, y: vertical.position, moduleSize: (vertical.total + horizontal.total) / 14 };
+      const existing = patterns.find(pattern =>
+        distance(pattern, found) <= pattern.moduleSize * 1.5 && Math.abs(pattern.moduleSize - found.moduleSize) <= pattern.moduleSize / 2);
+      if (existing) {
+        const weight = existing.count + 1;
+        existing.x = (existing.x * existing.count + found.x) / weight;
+        existing.y = (existing.y * existing.count + found.y) / weight;
+        existing.moduleSize = (existing.moduleSize * existing.count + found.moduleSize) / weight;
+        existing.count = weight;
+      } else {
+        patterns.push({ ...found, count: 1 });
+      }
+    }
+  }
+  return patterns;
+};
+
+// Triples of finder patterns ordered by how close they come to the corners of a square: two equal sides at a right angle
+const rankFinderTriples = (patterns: FinderPattern[]): FinderPattern[][] => {
+  const candidates = [...patterns].sort((a, b) => b.count - a.count).slice(0, MAX_FINDER_CANDIDATES);
+  const triples: { patterns: FinderPattern[]; score: number }[] = [];
+  for (let i = 0; i < candidates.length; i++) {
+    for (let j = i + 1; j < candidates.length; j++) {
+      for (let k = j + 1; k < candidates.length; k++) {
+        const triple = [candidates[i], candidates[j], candidates[k]];
+        const sizes = triple.map(pattern => pattern.moduleSize);
+        if (Math.max(...sizes) > Math.min(...sizes) * 1.5) continue;
+        const [a, b, c] = [distance(triple[0], triple[1]), distance(triple[1], triple[2]), distance(triple[0], triple[2])]
+          .sort((first, second) => first - second);
+        const score = (b - a) / b + Math.abs(c * c - a * a - b * b) / (c * c);
+        triples.push({ patterns: triple, score });
+      }
+    }
+  }
+  return triples.sort((a, b) => a.score - b.score).slice(0, MAX_ATTEMPTS).map(triple => triple.patterns);
+};
+
+// The top left pattern sits opposite the longest side; the other two follow from the direction of the turn
+const orderFinderPatterns = ([a, b, c]: FinderPattern[]): { topLeft: FinderPattern; topRight: FinderPattern; bottomLeft: FinderPattern } => {
+  const ab = distance(a, b);
+  const bc = distance(b, c);
+  const ac = distance(a, c);
+  const [topLeft, first, second] = bc >= ab && bc >= ac ? [a, b, c] : ac >= ab ? [b, a, c] : [c, a, b];
+  // Image coordinates point down, so the turn from top right to bottom left is clockwise
+  const cross = (first.x - topLeft.x) * (second.y - topLeft.y) - (first.y - topLeft.y) * (second.x - topLeft.x);
+  return cross < 0 ? { topLeft, topRight: second, bottomLeft: first } : { topLeft, topRight: first, bottomLeft: second };
+};
+
+const ALIGNMENT_RATIOS = [1, 1, 1];
+
+// Looks for the light/dark/light center of the alignment pattern close to where it is expected
+const findAlignmentPattern = (image: BitImage, expected: Point, moduleSize: number): Point | null => {
+  const radius = Math.ceil(moduleSize * ALIGNMENT_SEARCH_MODULES);
+  const fromX = Math.max(0, Math.floor(expected.x) - radius);
+  const toX = Math.min(image.width, Math.floor(expected.x) + radius);
+  let best: Point | null = null;
+  for (let y = Math.max(0, Math.floor(expected.y) - radius); y < Math.min(image.height, Math.floor(expected.y) + radius); y++) {
+    const runs = getRowRuns(image, y, fromX, toX);
+    for (let i = 0; i + 2 < runs.length; i++) {
+      if (runs[i].dark) continue;
+      const lengths = runs.slice(i, i + 3).map(run => run.length);
+      if (!matchesModules(lengths, ALIGNMENT_RATIOS, moduleSize)) continue;
+
+      const middle = runs[i + 1];
+      const x = middle.start + middle.length / 2;
+      const vertical = crossCheck(image, { x, y: y + 0.5 }, true, ALIGNMENT_RATIOS, moduleSize);
+      if (!vertical) continue;
+      const found = { x, y: vertical.position };
+      if (!best || distance(found, expected) < distance(best, expected)) best = found;
+    }
+  }
+  return best;
+};
+
+// --- Perspective transform ---
+
+type Matrix3 = number[][];
+
+const multiply = (a: Matrix3, b: Matrix3): Matrix3 =>
+  a.map(row => [0, 1, 2].map(column => row[0] * b[0][column] + row[1] * b[1][column] + row[2] * b[2][column]));
+
+// Inverse up to a scale factor, which a projective transform does not care about
+const adjugate = ([[a, b, c], [d, e, f], [g, h, i]]: Matrix3): Matrix3 => [
+  [e * i - f * h, c * h - b * i, b * f - c * e],
+  [f * g - d * i, a * i - c * g, c * d - a * f],
+  [d * h - e * g, b * g - a * h, a * e - b * d],
+];
+
+// Maps the unit square (0,0), (1,0), (1,1), (0,1) onto the four corners in the same order
+const squareToQuad = ([p0, p1, p2, p3]: Point[]): Matrix3 => {
+  const dx3 = p0.x - p1.x + p2.x - p3.x;
+  const dy3 = p0.y - p1.y + p2.y - p3.y;
+  if (dx3 === 0 && dy3 === 0) {
+    return [[p1.x - p0.x, p2.x - p1.x, p0.x], [p1.y - p0.y, p2.y - p1.y, p0.y], [0, 0, 1]];
+  }
+  const dx1 = p1.x - p2.x;
+  const dx2 = p3.x - p2.x;
+  const dy1 = p1.y - p2.y;
+  const dy2 = p3.y - p2.y;
+  const denominator = dx1 * dy2 - dx2 * dy1;
+  const g = (dx3 * dy2 - dx2 * dy3) / denominator;
+  const h = (dx1 * dy3 - dx3 * dy1) / denominator;
+  return [
+    [p1.x - p0.x + g * p1.x, p3.x - p0.x + h * p3.x, p0.x],
+    [p1.y - p0.y + g * p1.y, p3.y - p0.y + h * p3.y, p0.y],
+    [g, h, 1],
+  ];
+};
+
+const transformPoint = (matrix: Matrix3, x: number, y: number): Point => {
+  const w = matrix[2][0] * x + matrix[2][1] * y + matrix[2][2];
+  return {
+    x: (matrix[0][0] * x + matrix[0][1] * y + matrix[0][2]) / w,
+    y: (matrix[1][0] * x + matrix[1][1] * y + matrix[1][2]) / w,
+  };
+};
+
+// Reads the module grid of the code whose finder patterns are given, or null when it does not fit into the image
+const sampleGrid = (image: BitImage, finders: FinderPattern[]): boolean[][] | null => {
+  const { topLeft, topRight, bottomLeft } = orderFinderPatterns(finders);
+  const moduleSize = (topLeft.moduleSize + topRight.moduleSize + bottomLeft.moduleSize) / 3;
+  let size = Math.round((distance(topLeft, topRight) + distance(topLeft, bottomLeft)) / 2 / moduleSize) + 7;
+  // Sizes are always 4 * version + 17
+  if (size % 4 === 0) size++;
+  else if (size % 4 === 2) size--;
+  else if (size % 4 === 3) return null;
+  if (size < 21 || size > 177) return null;
+
+  // Finder centers sit 3.5 modules in from the corners, the bottom right alignment pattern 6.5 modules
+  let bottomRight: Point = { x: topRight.x + bottomLeft.x - topLeft.x, y: topRight.y + bottomLeft.y - topLeft.y };
+  let bottomRightModule = size - 3.5;
+  if (size > 21) {
+    const offset = (size - 10) / (size - 7);
+    const expected = {
+      x: topLeft.x + offset * (topRight.x - topLeft.x + bottomLeft.x - topLeft.x),
+      y: topLeft.y + offset * (topRight.y - topLeft.y + bottomLeft.y - topLeft.y),
+    };
+    bottomRight = findAlignmentPattern(image, expected, moduleSize) ?? expected;
+    bottomRightModule = size - 6.5;
+  }
+
+  const fromModules = adjugate(squareToQuad([
+    { x: 3.5, y: 3.5 },
+    { x: size - 3.5, y: 3.5 },
+    { x: bottomRightModule, y: bottomRightModule },
+    { x: 3.5, y: size - 3.5 },
+  ]));
+  const transform = multiply(squareToQuad([topLeft, topRight, bottomRight, bottomLeft]), fromModules);
+
+  const grid: boolean[][] = [];
+  for (let row = 0; row < size; row++) {
+    grid.push([]);
+    for (let column = 0; column < size; column++) {
+      const point = transformPoint(transform, column + 0.5, row + 0.5);
+      const x = Math.floor(point.x);
+      const y = Math.floor(point.y);
+      if (!image.contains(x, y)) return null;
+      grid[row].push(image.isDark(x, y));
+    }
+  }
+  return grid;
+};
+
+// --- Reed-Solomon error correction over GF(2^8), matching the encoder in qrcode.ts ---
+
+const GF_EXP = new Uint8Array(512);
+const GF_LOG = new Uint8Array(256);
+for (let i = 0, value = 1; i < 255; i++) {
+  GF_EXP[i] = value;
+  GF_LOG[value] = i;
+  value = (value << 1) ^ (value & 0x80 ? 0x11d : 0);
+}
+for (let i = 255; i < 512; i++) GF_EXP[i] = GF_EXP[i - 255];
+
+const gfMultiply = (x: number, y: number): number => (x === 0 || y === 0 ? 0 : GF_EXP[GF_LOG[x] + GF_LOG[y]]);
+const gfDivide = (x: number, y: number): number => (x === 0 ? 0 : GF_EXP[GF_LOG[x] + 255 - GF_LOG[y]]);
+const gfInverse = (x: number): number => GF_EXP[255 - GF_LOG[x]];
+
+// Polynomials in this section are lowest power first
+const evaluate = (polynomial: number[], x: number): number =>
+  polynomial.reduceRight((result, coefficient) => gfMultiply(result, x) ^ coefficient, 0);
+
+// Corrects a block (data then error correction codewords) in place; false when it has more errors than it can fix
+const correctBlock = (block: number[], eccLength: number): boolean => {
+  // The generator's roots are 2^0 ... 2^(eccLength - 1), and block[0] is the highest power
+  const syndromes = Array.from({ length: eccLength }, (_, i) =>
+    block.reduce((result, codeword) => gfMultiply(result, GF_EXP[i]) ^ codeword, 0));
+  if (syndromes.every(syndrome => syndrome === 0)) return true;
+
+  // Berlekamp-Massey finds the error locator polynomial
+  let locator = [1];
+  let previous = [1];
+  let errorCount = 0;
+  let shift = 1;
+  let previousDiscrepancy = 1;
+  for (let k = 0; k < eccLength; k++) {
+    let discrepancy = syndromes[k];
+    for (let i = 1; i <= errorCount; i++) discrepancy ^= gfMultiply(locator[i] ?? 0, syndromes[k - i]);
+    if (discrepancy === 0) {
+      shift++;
+      continue;
+    }
+    const factor = gfDivide(discrepancy, previousDiscrepancy);
+    const updated = [...locator];
+    previous.forEach((coefficient, i) => {
+      updated[i + shift] = (updated[i + shift] ?? 0) ^ gfMultiply(factor, coefficient);
+    });
+    if (2 * errorCount <= k) {
+      previous = locator;
+      errorCount = k + 1 - errorCount;
+      previousDiscrepancy = discrepancy;
+      shift = 1;
+    } else {
+      shift++;
+    }
+    locator = updated;
+  }
+  if (2 * errorCount > eccLength) return false;
+
+  // Forney's formula gives the error values, with the evaluator polynomial S(x) * locator(x) mod x^eccLength
+  const evaluator = syndromes.map((_, i) =>
+    locator.slice(0, i + 1).reduce((sum, coefficient, j) => sum ^ gfMultiply(coefficient, syndromes[i - j]), 0));
+  const derivative = locator.map((coefficient, i) => (i % 2 === 1 ? coefficient : 0)).slice(1);
+  let fixed = 0;
+  for (let position = 0; position < block.length; position++) {
+    const locatorValue = GF_EXP[block.length - 1 - position];
+    const inverse = gfInverse(locatorValue);
+    if (evaluate(locator, inverse) !== 0) continue;
+    const denominator = evaluate(derivative, inverse);
+    if (denominator === 0) return false;
+    block[position] ^= gfMultiply(locatorValue, gfDivide(evaluate(evaluator, inverse), denominator));
+    fixed++;
+  }
+  return fixed === errorCount;
+};
+
+// --- Reading the grid ---
+
+const countBitErrors = (a: number, b: number): number => {
+  let count = 0;
+  for (let value = a ^ b; value; value &= value - 1) count++;
+  return count;
+};
+
+const readFormat = (grid: boolean[][]): { level: QrErrorCorrectionLevel; mask: number } | null => {
+  const size = grid.length;
+  const readBits = (positions: [number, number][]) =>
+    positions.reduce((bits, [x, y], i) => bits | (grid[y][x] ? 1 << i : 0), 0);
+  // Same positions as QrMatrix.drawFormatBits
+  const copies = [
+    readBits([
+      ...[0, 1, 2, 3, 4, 5, 7, 8].map((y): [number, number] => [8, y]),
+      [7, 8],
+      ...[5, 4, 3, 2, 1, 0].map((x): [number, number] => [x, 8]),
+    ]),
+    readBits([
+      ...Array.from({ length: 8 }, (_, i): [number, number] => [size - 1 - i, 8]),
+      ...Array.from({ length: 7 }, (_, i): [number, number] => [8, size - 7 + i]),
+    ]),
+  ];
+
+  let best: { level: QrErrorCorrectionLevel; mask: number; errors: number } | null = null;
+  for (const level of LEVELS) {
+    for (let mask = 0; mask < 8; mask++) {
+      const expected = getFormatBits(level, mask);
+      const errors = Math.min(...copies.map(bits => countBitErrors(bits, expected)));
+      if (!best || errors < best.errors) best = { level, mask, errors };
+    }
+  }
+  return best && best.errors <= MAX_CORRECTABLE_BIT_ERRORS ? best : null;
+};
+
+// From version 7 the version is also stored in the code; false when it disagrees with the size that was sampled
+const checkVersion = (grid: boolean[][], version: number): boolean => {
+  if (version < 7) return true;
+  const size = grid.length;
+  let below = 0;
+  let right = 0;
+  for (let i = 0; i < 18; i++) {
+    const a = size - 11 + (i % 3);
+    const b = Math.floor(i / 3);
+    if (grid[b][a]) below |= 1 << i;
+    if (grid[a][b]) right |= 1 << i;
+  }
+  const expected = getVersionBits(version);
+  return Math.min(countBitErrors(below, expected), countBitErrors(right, expected)) <= MAX_CORRECTABLE_BIT_ERRORS;
+};
+
+// Undoes the interleaving of addErrorCorrection in qrcode.ts and corrects each block
+const getDataCodewords = (codewords: number[], version: number, level: QrErrorCorrectionLevel): number[] | null => {
+  const blockCount = ERROR_CORRECTION_BLOCKS[level][version];
+  const eccLength = ECC_CODEWORDS_PER_BLOCK[level][version];
+  const rawCodewords = Math.floor(getRawDataModules(version) / 8);
+  const shortBlockCount = blockCount - (rawCodewords % blockCount);
+  const shortBlockDataLength = Math.floor(rawCodewords / blockCount) - eccLength;
+
+  const dataBlocks = Array.from({ length: blockCount }, (_, i): number[] => new Array(shortBlockDataLength + (i < shortBlockCount ? 0 : 1)));
+  const eccBlocks = Array.from({ length: blockCount }, (): number[] => new Array(eccLength));
+  let offset = 0;
+  for (let i = 0; i <= shortBlockDataLength; i++) {
+    dataBlocks.forEach(block => {
+      if (i < block.length) block[i] = codewords[offset++];
+    });
+  }
+  for (let i = 0; i < eccLength; i++) {
+    eccBlocks.forEach(block => {
+      block[i] = codewords[offset++];
+    });
+  }
+
+  const data: number[] = [];
+  for (let i = 0; i < blockCount; i++) {
+    const block = [...dataBlocks[i], ...eccBlocks[i]];
+    if (!correctBlock(block, eccLength)) return null;
+    data.push(...block.slice(0, dataBlocks[i].length));
+  }
+  return data;
+};
+
+const getCharCountBits = (mode: number, version: number): number => {
+  const range = version <= 9 ? 0 : version <= 26 ? 1 : 2;
+  if (mode === MODE_NUMERIC) return [10, 12, 14][range];
+  if (mode === MODE_ALPHANUMERIC) return [9, 11, 13][range];
+  return [8, 16, 16][range];
+};
+
+// Reads the segments of the data codewords; byte segments are read as UTF-8
+const decodeSegments = (data: number[], version: number): string | null => {
+  let bitIndex = 0;
+  const bitsLeft = () => data.length * 8 - bitIndex;
+  const readBits = (length: number): number => {
+    let value = 0;
+    for (let i = 0; i < length; i++, bitIndex++) {
+      value = (value << 1) | ((data[bitIndex >>> 3] >>> (7 - (bitIndex & 7))) & 1);
+    }
+    return value;
+  };
+
+  let text = '';
+  const bytes: number[] = [];
+  const flushBytes = () => {
+    text += new TextDecoder().decode(new Uint8Array(bytes));
+    bytes.length = 0;
+  };
+
+  while (bitsLeft() >= 4) {
+    const mode = readBits(4);
+    if (mode === MODE_TERMINATOR) break;
+    if (mode === MODE_ECI) {
+      // The designator is skipped, the text is assumed to be UTF-8 either way
+      const first = readBits(8);
+      if (first & 0x80) readBits(first & 0x40 ? 16 : 8);
+      continue;
+    }
+    if (mode !== MODE_NUMERIC && mode !== MODE_ALPHANUMERIC && mode !== MODE_BYTE) return null;
+
+    const countBits = getCharCountBits(mode, version);
+    if (bitsLeft() < countBits) return null;
+    let count = readBits(countBits);
+    if (mode === MODE_BYTE) {
+      if (bitsLeft() < count * 8) return null;
+      for (; count > 0; count--) bytes.push(readBits(8));
+      continue;
+    }
+
+    flushBytes();
+    if (mode === MODE_NUMERIC) {
+      for (; count > 0; count -= 3) {
+        const digits = Math.min(3, count);
+        const bits = [0, 4, 7, 10][digits];
+        if (bitsLeft() < bits) return null;
+        text += readBits(bits).toString().padStart(digits, '0');
+      }
+    } else {
+      for (; count > 0; count -= 2) {
+        const pair = count >= 2;
+        if (bitsLeft() < (pair ? 11 : 6)) return null;
+        if (pair) {
+          const value = readBits(11);
+          text += ALPHANUMERIC_CHARS[Math.floor(value / 45)] + ALPHANUMERIC_CHARS[value % 45];
+        } else {
+          text += ALPHANUMERIC_CHARS[readBits(6)];
+        }
+      }
+    }
+  }
+  flushBytes();
+  return text;
+};
+
+const decodeGrid = (grid: boolean[][]): string | null => {
+  const version = (grid.length - 17) / 4;
+  const format = readFormat(grid);
+  if (!format || !checkVersion(grid, version)) return null;
+
+  const matrix = new QrMatrix(version);
+  matrix.drawFunctionPatterns();
+  grid.forEach((row, y) => row.forEach((dark, x) => {
+    if (!matrix.isFunction[y][x]) matrix.modules[y][x] = dark;
+  }));
+  matrix.applyMask(format.mask);
+
+  const data = getDataCodewords(matrix.readCodewords(), version, format.level);
+  return data ? decodeSegments(data, version) : null;
+};
+
+/**
+ * Finds and decodes a QR code in an image, for example a camera frame drawn onto a canvas.
+ * Returns null when no code is found or it cannot be read, so callers can simply try the next frame.
+ */
+export const decodeQrCode = (image: QrImage): string | null => {
+  const bitImage = binarize(image);
+  for (const finders of rankFinderTriples(findFinderPatterns(bitImage))) {
+    const grid = sampleGrid(bitImage, finders);
+    const text = grid ? decodeGrid(grid) : null;
+    if (text !== null) return text;
+  }
+  return null;
+};
@@ -0,0 +1,28 @@
+// src/lib/queryKeys.ts
+// TanStack Query keys for all cached service data. Keys are hierarchical, so invalidating
+// e.g. queryKeys.activities.all refreshes every activity list and detail at once.
+export const queryKeys = {
+  activities: {
+    all: ['activities'] as const,
+    detail: (activityId: string) => ['activities', 'detail', activityId] as const,
+    dashboard: (uid: string) => ['activities', 'dashboard', uid] as const,
+    invites: (uid: string) => ['activities', 'invites', uid] as const,
+    range: (uid: string, start: Date, end: Date | null) => ['activities', 'range', uid, start.toISOString(), end?.toISOString() ?? null] as const,
+  },
+  calendarFeed: (uid: string) => ['calendarFeeds', uid] as const,
+  friends: (uid: string) => ['friends', uid] as const,
+  friendRequests: (uid: string) => ['friendRequests', uid] as const,
+  groups: {
+    all: ['groups'] as const,
+    forUser: (uid: string) => ['groups', uid] as const,
+  },
+  invitations: ['invitations'] as const,
+  invitation: (code: string) => ['invitations', code] as const,
+  polls: {
+    all: ['polls'] as const,
+    detail: (pollId: string) => ['polls', 'detail', pollId] as const,
+    forUser: (uid: string) => ['polls', 'user', uid] as const,
+  },
+  inviteLinks: (uid: string) => ['inviteLinks', uid] as const,
+  userProfile: (uid: string) => ['userProfiles', uid] as const,
+};
@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest';
+import { expandRecurrence } from '@/lib/recurrence';
+
+describe('expandRecurrence', () => {
+  it('repeats monthly on the last weekday at the exact start time', () => {
+    // Friday 31 January 2025 is the last Friday of the month
+    const start = new Date(2025, 0, 31, 10, 0);
+    const dates = expandRecurrence(start, { frequency: 'monthly', interval: 1, count: 3 });
+    expect(dates).toEqual([
+      new Date(2025, 0, 31, 10, 0),
+      new Date(2025, 1, 28, 10, 0),
+      new Date(2025, 2, 28, 10, 0),
+    ]);
+  });
+
+  it('repeats monthly on the nth weekday', () => {
+    // Saturday 8 March 2025 is the second Saturday of the month
+    const start = new Date(2025, 2, 8, 9, 30);
+    const dates = expandRecurrence(start, { frequency: 'monthly', interval: 1, count: 3 });
+    expect(dates).toEqual([
+      new Date(2025, 2, 8, 9, 30),
+      new Date(2025, 3, 12, 9, 30),
+      new Date(2025, 4, 10, 9, 30),
+    ]);
+  });
+});
@@ -0,0 +1,106 @@
+// src/lib/recurrence.ts
+import { addDays, addWeeks, addMonths, startOfMonth, endOfMonth, getDay, setDate, isAfter, differenceInCalendarDays, setHours, setMinutes, parseISO, endOfDay, startOfDay } from 'date-fns';
+import type { RecurrenceRule } from '@/lib/types';
+
+// Hard cap on the number of occurrences a single series can materialize.
+// Keeps a single batched write well below Firestore's 500 operation limit.
+export const MAX_RECURRENCE_OCCURRENCES = 104;
+
+// Returns which weekday of the month the date is (1 = first, 2 = second, ..., -1 = last).
+// A 5th weekday is treated as "last" so the series keeps a match in every month.
+export const getWeekdayOrdinal = (date: Date): number => {
+  const ordinal = Math.ceil(date.getDate() / 7);
+  return ordinal >= 5 ? -1 : ordinal;
+};
+
+// Finds the nth (or last, for -1) given weekday in the month of `monthDate`, keeping the time of `timeSource`.
+const getNthWeekdayOfMonth = (monthDate: Date, weekday: number, ordinal: number, timeSource: Date): Date => {
+  let candidate: Date;
+  if (ordinal === -1) {
+    candidate = startOfDay(endOfMonth(monthDate));
+    while (getDay(candidate) !== weekday) {
+      candidate = addDays(candidate, -1);
+    }
+  } else {
+    candidate = startOfMonth(monthDate);
+    while (getDay(candidate) !== weekday) {
+      candidate = addDays(candidate, 1);
+    }
+    candidate = addWeeks(candidate, ordinal - 1);
+  }
+  return setMinutes(setHours(candidate, timeSource.getHours()), timeSource.getMinutes());
+};
+
+/**
+ * Expands a recurrence rule into the concrete start dates of every occurrence, starting with `start` itself.
+ * The series ends at `rule.until` (inclusive, whole day) or after `rule.count` occurrences,
+ * and never exceeds MAX_RECURRENCE_OCCURRENCES.
+ */
+export const expandRecurrence = (start: Date, rule: RecurrenceRule): Date[] => {
+  const interval = Math.max(1, Math.floor(rule.interval || 1));
+  const until = rule.until ? endOfDay(parseISO(rule.until)) : null;
+  const maxCount = Math.min(rule.count ?? MAX_RECURRENCE_OCCURRENCES, MAX_RECURRENCE_OCCURRENCES);
+
+  const weekday = getDay(start);
+  const ordinal = getWeekdayOrdinal(start);
+
+  const dates: Date[] = [];
+  for (let i = 0; dates.length < maxCount; i++) {
+    let occurrence: Date;
+    switch (rule.frequency) {
+      case 'daily':
+        occurrence = addDays(start, i * interval);
+        break;
+      case 'weekly':
+        occurrence = addWeeks(start, i * interval);
+        break;
+      case 'monthly':
+        occurrence = i === 0 ? start : getNthWeekdayOfMonth(addMonths(setDate(start, 1), i * interval), weekday, ordinal, start);
+        break;
+      default:
+        return [start];
+    }
+    if (until && isAfter(occurrence, until)) break;
+    dates.push(occurrence);
+  }
+  return dates;
+};
+
+/**
+ * Moves an occurrence by the same calendar-day offset as an edited occurrence and applies the new time of day.
+ * Used when a date/time change is applied to several occurrences of a series at once.
+ */
+export const shiftOccurrence = (occurrence: Date, editedFrom: Date, editedTo: Date): Date => {
+  const dayOffset = differenceInCalendarDays(editedTo, editedFrom);
+  const shifted = addDays(occurrence, dayOffset);
+  return setMinutes(setHours(shifted, editedTo.getHours()), editedTo.getMinutes());
+};
+
+const ORDINAL_LABELS: Record<number, string> = { 1: 'first', 2: 'second', 3: 'third', 4: 'fourth', [-1]: 'last' };
+const WEEKDAY_LABELS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+// Human readable summary, e.g. "Every 2 weeks on Tuesday" or "Monthly on the first Saturday".
+export const describeRecurrence = (rule: RecurrenceRule, start: Date): string => {
+  const interval = Math.max(1, rule.interval || 1);
+  const weekdayLabel = WEEKDAY_LABELS[getDay(start)];
+  let description: string;
+  switch (rule.frequency) {
+    case 'daily':
+      description = interval === 1 ? 'Daily' : `Every ${interval} days`;
+      break;
+    case 'weekly':
+      description = interval === 1 ? `Weekly on ${weekdayLabel}` : `Every ${interval} weeks on ${weekdayLabel}`;
+      break;
+    case 'monthly':
+      description = `${interval === 1 ? 'Monthly' : `Every ${interval} months`} on the ${ORDINAL_LABELS[getWeekdayOrdinal(start)]} ${weekdayLabel}`;
+      break;
+    default:
+      description = 'Repeats';
+  }
+  if (rule.until) {
+    description += ` until ${rule.until}`;
+  } else if (rule.count) {
+    description += `, ${rule.count} times`;
+  }
+  return description;
+};
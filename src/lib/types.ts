@@ -2,28 +2,196 @@
 import type { Timestamp } from "firebase/firestore";
 
 // --- Base types for re-use ---
+export interface ChildProfile {
+  id: string; // Stable id so activity participations can reference the child
+  nickname: string;
+  birthYear?: number | null;
+  notes?: string | null; // Allergies or other notes for other parents
+}
+
 interface BaseUserProfile {
   uid: string;
   email: string | null;
   displayName: string | null;
   photoURL?: string | null;
-  childNickname: string | null;
+  children: ChildProfile[];
+}
+
+export type RecurrenceFrequency = 'daily' | 'weekly' | 'monthly';
+
+// Weekly and monthly series repeat on the weekday of the first occurrence;
+// monthly series use the same position in the month (e.g. "second Tuesday").
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  interval: number; // Repeat every N days/weeks/months
+  until?: string | null; // Inclusive end date as 'yyyy-MM-dd'
+  count?: number | null; // Total number of occurrences
+}
+
+export interface ActivityParticipant {
+  uid: string;
+  name: string | null;
+  photoURL?: string | null;
+  children?: Pick<ChildProfile, 'id' | 'nickname'>[]; // Children the parent brings along
+}
+
+export type RsvpStatus = 'going' | 'maybe' | 'declined';
+
+interface BaseRsvp {
+  uid: string;
+  name: string | null;
+  photoURL?: string | null;
+  status: RsvpStatus;
 }
 
+export type ActivityInviteStatus = 'pending' | 'accepted' | 'declined';
+
+// A friend the creator explicitly invited. Answering the invite is an RSVP: going or maybe accepts it.
+interface BaseActivityInvitee {
+  uid: string;
+  name: string | null;
+  photoURL?: string | null;
+  invitedById: string;
+  invitedByName: string | null;
+  status: ActivityInviteStatus;
+}
+
+export type ActivitySetting = 'indoor' | 'outdoor' | 'mixed';
+
+// What kind of activity it is; shown as an icon and used to filter lists (see src/lib/categories.ts)
+export type ActivityCategory = 'playground' | 'sports' | 'museum' | 'birthday' | 'playdate' | 'outdoor' | 'crafts' | 'other';
+
+// Ages of the children an activity suits; either bound may be open
+export interface AgeRange {
+  min: number | null;
+  max: number | null;
+}
+
+// Who can see an activity besides its creator and the families taking part (see src/lib/visibility.ts)
+export type ActivityVisibility = 'private' | 'selectedFriends' | 'groups' | 'friends' | 'public';
+
 interface BaseActivity {
   id: string;
   title: string;
   location?: string | null;
+  durationMinutes?: number | null; // Time from `date` to the end; null/undefined means no end time was given
+  description?: string | null; // Lightweight Markdown, see src/lib/markdown.ts
+  ageRange?: AgeRange | null;
+  costPerChild?: number | null; // In euros; 0 means free, null means not stated
+  setting?: ActivitySetting | null;
+  whatToBring?: string[];
+  category?: ActivityCategory | null; // Missing on activities created before categories
+  tags?: string[]; // Free-form, normalized by normalizeTag
   creatorId: string;
   creatorName: string;
   creatorPhotoURL?: string | null;
-  participants: { uid: string; name: string | null, photoURL?: string | null }[];
+  participants: ActivityParticipant[];
+  maxParticipants?: number | null; // Optional capacity (including the creator); null/undefined means unlimited
+  waitlist?: ActivityParticipant[]; // Ordered, first entry is promoted when a spot opens up
+  seriesId?: string | null; // Shared by all materialized occurrences of a recurring activity
+  recurrence?: RecurrenceRule | null;
+  sequence?: number; // Revision counter, bumped on every edit so exported calendar events can be updated
+  externalUid?: string | null; // UID of the iCalendar event this activity was imported from
+  visibility?: ActivityVisibility; // Missing on activities created before visibility settings; treated as 'friends'
+  audienceUids?: string[]; // Creator plus the chosen friends or group members, resolved when saving
+  audienceGroupIds?: string[]; // Groups chosen for 'groups' visibility
+  inviteeUids?: string[]; // Keys of `invitees`, for querying a user's invites
 }
 
 interface BaseInvitation {
-  code: string;
+  id: string; // SHA-256 hash (hex) of the invite code, also the document id; the code itself is never stored
   inviterId: string;
   inviterName: string | null;
+  groupId?: string | null; // Set on group invites: accepting joins the group instead of befriending the inviter
+  groupName?: string | null;
+  maxUses?: number | null; // null means unlimited; missing on links created before usage limits, which count as single-use
+  useCount?: number;
+}
+
+// Someone who accepted an invite link
+interface BaseInvitationRedemption {
+  uid: string;
+  displayName: string | null;
+  photoURL: string | null;
+}
+
+// Whether an invite link can still be accepted
+export type InvitationState = 'active' | 'expired' | 'used-up';
+
+export interface GroupMember {
+  uid: string;
+  displayName: string | null;
+  photoURL: string | null;
+  invitationId?: string | null; // Invitation a member joined through (set by the acceptInvitation function)
+}
+
+interface BaseGroup {
+  id: string;
+  name: string;
+  description?: string | null;
+  ownerId: string;
+  adminIds: string[]; // Co-admins; the owner is always an admin and not listed here
+  memberIds: string[]; // Includes the owner and admins; used for array-contains queries
+  members: Record<string, GroupMember>; // Keyed by uid
+}
+
+export type FriendRequestStatus = 'pending' | 'accepted' | 'declined' | 'cancelled';
+
+// Each side of a request lives under its owner's users/{uid}/friendRequests/{otherUid}: the sender's copy says
+// pending or cancelled, the recipient's copy holds the answer. Accepting (done by the acceptFriendRequest and
+// acceptInvitation functions) marks both copies as accepted. Both copies carry the same from/to fields.
+interface BaseFriendRequest {
+  fromUid: string;
+  fromName: string | null;
+  fromPhotoURL: string | null;
+  toUid: string;
+  toName: string | null;
+  toPhotoURL: string | null;
+  status: FriendRequestStatus;
+  invitationId?: string | null; // Set on requests accepted through an invite link; the invitation stands in for the inviter's request
+}
+
+export type PollAnswer = 'yes' | 'ifNeeded' | 'no';
+
+// Open polls collect votes; finalizing one turns the chosen slot into an activity (see src/lib/polls.ts)
+export type PollStatus = 'open' | 'finalized';
+
+interface BasePollSlot {
+  id: string; // Stable within the poll, so votes keep pointing at the right slot
+  durationMinutes?: number | null; // Like Activity.durationMinutes
+}
+
+// A friend asked to vote
+export interface PollInvitee {
+  uid: string;
+  name: string | null;
+  photoURL?: string | null;
+}
+
+interface BasePollVote {
+  uid: string;
+  name: string | null;
+  photoURL?: string | null;
+  answers: Record<string, PollAnswer>; // Keyed by slot id; slots without an answer count as not voted
+}
+
+interface BasePoll {
+  id: string;
+  title: string;
+  location?: string | null;
+  description?: string | null; // Lightweight Markdown, carried over to the activity
+  creatorId: string;
+  creatorName: string;
+  creatorPhotoURL?: string | null;
+  invitees: Record<string, PollInvitee>; // Keyed by uid
+  inviteeUids: string[]; // Keys of `invitees`, for querying a user's polls
+  status: PollStatus;
+  finalizedSlotId?: string | null;
+  activityId?: string | null; // The activity created when the poll was finalized
+}
+
+interface BaseCalendarFeed {
+  token: string; // Secret part of the subscription URL; also the id of its calendarFeeds document
 }
 
 // --- Types for data as stored in/retrieved from Firestore ---
@@ -31,18 +199,60 @@ interface BaseInvitation {
 export interface UserProfile extends BaseUserProfile {
   createdAt: Timestamp;
   photoURL: string | null;
-  childNickname: string | null;
+}
+
+export interface ActivityRsvp extends BaseRsvp {
+  respondedAt: Timestamp;
+}
+
+export interface ActivityInvitee extends BaseActivityInvitee {
+  invitedAt: Timestamp;
+  respondedAt?: Timestamp | null;
 }
 
 export interface Activity extends BaseActivity {
   date: Timestamp;
   createdAt: Timestamp;
-  participantUids?: string[]; // Array of UIDs for efficient querying of participation
+  participantUids?: string[]; // Array of UIDs for efficient querying of participation ("going" only)
+  rsvps?: Record<string, ActivityRsvp>; // Keyed by uid so each user only ever touches their own entry
+  invitees?: Record<string, ActivityInvitee>; // Keyed by uid, like rsvps
+}
+
+export interface InvitationRedemption extends BaseInvitationRedemption {
+  redeemedAt: Timestamp;
 }
 
 export interface Invitation extends BaseInvitation {
   createdAt: Timestamp;
   expiresAt?: Timestamp;
+  redemptions?: Record<string, InvitationRedemption>; // Keyed by uid, so each user can only redeem a link once
+}
+
+export interface FriendRequest extends BaseFriendRequest {
+  updatedAt: Timestamp;
+}
+
+export interface Group extends BaseGroup {
+  createdAt: Timestamp;
+}
+
+export interface PollSlot extends BasePollSlot {
+  date: Timestamp;
+}
+
+export interface PollVote extends BasePollVote {
+  votedAt: Timestamp;
+}
+
+export interface Poll extends BasePoll {
+  slots: PollSlot[];
+  votes: Record<string, PollVote>; // Keyed by uid so each voter only ever touches their own entry
+  createdAt: Timestamp;
+}
+
+// Stored in users/{uid}/private/calendarFeed, readable only by the owner
+export interface CalendarFeed extends BaseCalendarFeed {
+  createdAt: Timestamp;
 }
 
 // --- Types for data prepared for client-side consumption (Timestamps are ISO strings) ---
@@ -50,7 +260,15 @@ export interface Invitation extends BaseInvitation {
 export interface UserProfileClient extends BaseUserProfile {
   createdAt: string; // ISO Date string
   photoURL: string | null;
-  childNickname: string | null;
+}
+
+export interface ActivityRsvpClient extends BaseRsvp {
+  respondedAt: string; // ISO Date string
+}
+
+export interface ActivityInviteeClient extends BaseActivityInvitee {
+  invitedAt: string; // ISO Date string
+  respondedAt: string | null; // ISO Date string
 }
 
 export interface ActivityClient extends BaseActivity {
@@ -58,23 +276,71 @@ export interface ActivityClient extends BaseActivity {
   createdAt: string; // ISO Date string
   location: string | null;
   participantUids?: string[];
+  rsvps: Record<string, ActivityRsvpClient>;
+  invitees: Record<string, ActivityInviteeClient>;
+}
+
+export interface InvitationRedemptionClient extends BaseInvitationRedemption {
+  redeemedAt: string; // ISO Date string
 }
 
 export interface InvitationClient extends BaseInvitation {
   createdAt: string; // ISO Date string
   expiresAt?: string; // ISO Date string or undefined
+  maxUses: number | null;
+  useCount: number;
+  redemptions: Record<string, InvitationRedemptionClient>;
+}
+
+export interface GroupClient extends BaseGroup {
+  createdAt: string; // ISO Date string
+}
+
+// Both copies of a request merged into one state; the later write wins
+export interface FriendRequestClient extends BaseFriendRequest {
+  id: string; // `${fromUid}_${toUid}`
+  updatedAt: string; // ISO Date string
+  // The recipient accepted but the sender has not added them to their own friends list yet
+  awaitingCompletion: boolean;
+}
+
+export interface PollSlotClient extends BasePollSlot {
+  date: string; // ISO Date string
+}
+
+export interface PollVoteClient extends BasePollVote {
+  votedAt: string; // ISO Date string
+}
+
+export interface PollClient extends BasePoll {
+  slots: PollSlotClient[];
+  votes: Record<string, PollVoteClient>;
+  createdAt: string; // ISO Date string
+}
+
+export interface CalendarFeedClient extends BaseCalendarFeed {
+  createdAt: string; // ISO Date string
 }
 
 // --- Data Transfer Object types for service functions ---
 
 // Data for creating an activity, expects date to be a Timestamp
 // participantUids should be initialized with creatorId
-export type CreateActivityData = Omit<Activity, 'id' | 'createdAt'> & { participantUids: string[] };
+export type CreateActivityData = Omit<Activity, 'id' | 'createdAt' | 'rsvps' | 'invitees' | 'inviteeUids'> & { participantUids: string[] };
 
 
 // Data for updating, date should be Timestamp if provided
-// Participants and participantUids are typically updated via join/leave specific functions
-export type UpdateActivityData = Partial<Omit<Activity, 'id' | 'createdAt' | 'creatorId' | 'creatorName' | 'creatorPhotoURL' | 'participants' | 'participantUids'>>;
+// Participants and participantUids are typically updated via join/leave specific functions, invitees via the invite functions
+export type UpdateActivityData = Partial<Omit<Activity, 'id' | 'createdAt' | 'creatorId' | 'creatorName' | 'creatorPhotoURL' | 'participants' | 'participantUids' | 'waitlist' | 'rsvps' | 'invitees' | 'inviteeUids' | 'seriesId' | 'recurrence' | 'sequence'>>;
+
+// Data for creating a poll; it starts open and without votes
+export type CreatePollData = Omit<Poll, 'id' | 'createdAt' | 'votes' | 'status' | 'finalizedSlotId' | 'activityId'>;
+
+// Outcome of joinActivity: a spot was taken, or the activity was full and the user was put on the waitlist
+export type JoinActivityResult = 'joined' | 'waitlisted';
+
+// Which occurrences of a recurring activity an edit applies to
+export type SeriesEditScope = 'this' | 'following' | 'all';
 
 
 // --- Other types ---
@@ -0,0 +1,47 @@
+// src/lib/visibility.ts
+import type { ActivityClient, ActivityVisibility, GroupClient } from '@/lib/types';
+
+// Activities saved before visibility settings existed were shown to all friends of the creator
+export const DEFAULT_VISIBILITY: ActivityVisibility = 'friends';
+
+export const VISIBILITY_OPTIONS: { value: ActivityVisibility; label: string; description: string }[] = [
+  { value: 'private', label: 'Private', description: 'Only you, the friends you invite and the families taking part.' },
+  { value: 'selectedFriends', label: 'Specific friends', description: 'Only the friends you pick below.' },
+  { value: 'groups', label: 'Specific groups', description: 'Everyone in the groups you pick below.' },
+  { value: 'friends', label: 'All friends', description: 'All your friends, including friends you add later.' },
+  { value: 'public', label: 'Public link', description: 'All your friends, plus anyone signed in who has the link.' },
+];
+
+export const getVisibility = (activity: Pick<ActivityClient, 'visibility'>): ActivityVisibility =>
+  activity.visibility ?? DEFAULT_VISIBILITY;
+
+export const getVisibilityLabel = (visibility: ActivityVisibility): string =>
+  VISIBILITY_OPTIONS.find(option => option.value === visibility)?.label ?? visibility;
+
+/**
+ * Resolves the audienceUids stored on an activity: the creator plus the picked friends or the members of the
+ * picked groups at the time of saving. 'friends' and 'public' need no list, because the rules check the
+ * creator's friends list directly.
+ */
+export const resolveAudienceUids = (
+  creatorId: string,
+  visibility: ActivityVisibility,
+  selection: { friendIds: string[]; groups: Pick<GroupClient, 'memberIds'>[] }
+): string[] => {
+  const audience = new Set([creatorId]);
+  if (visibility === 'selectedFriends') {
+    selection.friendIds.forEach(uid => audience.add(uid));
+  } else if (visibility === 'groups') {
+    selection.groups.forEach(group => group.memberIds.forEach(uid => audience.add(uid)));
+  }
+  return Array.from(audience);
+};
+
+// Mirrors the read rule for activities in firestore.rules, for readers that bypass the rules (the calendar feed).
+export const canViewActivity = (activity: ActivityClient, uid: string, friendIds: string[]): boolean => {
+  if (activity.creatorId === uid) return true;
+  if (activity.audienceUids?.includes(uid)) return true;
+  if (activity.participantUids?.includes(uid) || activity.rsvps[uid] || activity.invitees[uid]) return true;
+  const visibility = getVisibility(activity);
+  return visibility === 'public' || (visibility === 'friends' && friendIds.includes(activity.creatorId));
+};
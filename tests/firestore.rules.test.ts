@@ -0,0 +1,515 @@
+// tests/firestore.rules.test.ts
+// Checks firestore.rules against the Firestore emulator, one describe block per collection, with the writes and
+// queries the app makes in src/lib/firebase/services.ts. Run with `npm run test:rules`, which starts the emulator
+// and sets FIRESTORE_EMULATOR_HOST; `npm test` does not include this suite.
+import { readFileSync } from 'node:fs';
+import { afterAll, beforeAll, beforeEach, describe, it } from 'vitest';
+import {
+  assertFails,
+  assertSucceeds,
+  initializeTestEnvironment,
+  type RulesTestEnvironment,
+} from '@firebase/rules-unit-testing';
+import {
+  arrayRemove,
+  arrayUnion,
+  collection,
+  collectionGroup,
+  deleteDoc,
+  deleteField,
+  doc,
+  getDoc,
+  getDocs,
+  increment,
+  orderBy,
+  query,
+  runTransaction,
+  serverTimestamp,
+  setDoc,
+  Timestamp,
+  updateDoc,
+  where,
+  writeBatch,
+  type DocumentData,
+  type Firestore,
+} from 'firebase/firestore';
+
+const PROJECT_ID = 'demo-parent-activity-planner';
+const NEXT_YEAR = new Date().getFullYear() + 1;
+const INVITATION_ID = 'a'.repeat(64); // Shaped like the SHA-256 hex of an invite code (see getInvitationId)
+const FEED_TOKEN = 'f'.repeat(48);
+
+let testEnv: RulesTestEnvironment;
+
+// rules-unit-testing hands out compat instances, which the modular functions accept
+const as = (uid: string): Firestore =>
+  testEnv.authenticatedContext(uid, { email: `${uid}@example.com` }).firestore() as unknown as Firestore;
+const signedOut = (): Firestore => testEnv.unauthenticatedContext().firestore() as unknown as Firestore;
+
+const seed = (path: string, data: DocumentData) =>
+  testEnv.withSecurityRulesDisabled(context => setDoc(doc(context.firestore() as unknown as Firestore, path), data));
+
+const profile = (uid: string, overrides: DocumentData = {}) => ({
+  uid,
+  email: `${uid}@example.com`,
+  displayName: uid,
+  photoURL: null,
+  children: [],
+  createdAt: serverTimestamp(),
+  ...overrides,
+});
+
+// Mirrors buildActivityDocs in services.ts
+const activity = (id: string, creatorId: string, overrides: DocumentData = {}) => ({
+  id,
+  title: 'Playground',
+  date: Timestamp.fromDate(new Date(`${NEXT_YEAR}-06-01T14:00:00Z`)),
+  durationMinutes: 60,
+  location: null,
+  description: null,
+  maxParticipants: null,
+  creatorId,
+  creatorName: creatorId,
+  creatorPhotoURL: null,
+  participants: [{ uid: creatorId, name: creatorId, photoURL: null }],
+  participantUids: [creatorId],
+  waitlist: [],
+  visibility: 'friends',
+  audienceUids: [creatorId],
+  audienceGroupIds: [],
+  recurrence: null,
+  seriesId: null,
+  sequence: 0,
+  rsvps: { [creatorId]: { uid: creatorId, name: creatorId, photoURL: null, status: 'going', respondedAt: serverTimestamp() } },
+  createdAt: serverTimestamp(),
+  ...overrides,
+});
+
+const invitee = (uid: string, invitedById: string) => ({
+  uid,
+  name: uid,
+  photoURL: null,
+  invitedById,
+  invitedByName: invitedById,
+  status: 'pending',
+  invitedAt: serverTimestamp(),
+  respondedAt: null,
+});
+
+const groupMember = (uid: string) => ({ uid, displayName: uid, photoURL: null, invitationId: null });
+
+// Mirrors createPoll in services.ts
+const poll = (id: string, creatorId: string, inviteeUids: string[], overrides: DocumentData = {}) => ({
+  id,
+  title: 'Zoo trip',
+  location: null,
+  description: null,
+  creatorId,
+  creatorName: creatorId,
+  creatorPhotoURL: null,
+  invitees: Object.fromEntries(inviteeUids.map(uid => [uid, { uid, name: uid, photoURL: null }])),
+  inviteeUids,
+  slots: [
+    { id: 's1', date: Timestamp.fromDate(new Date(`${NEXT_YEAR}-07-01T10:00:00Z`)), durationMinutes: 120 },
+    { id: 's2', date: Timestamp.fromDate(new Date(`${NEXT_YEAR}-07-02T10:00:00Z`)), durationMinutes: null },
+  ],
+  status: 'open',
+  finalizedSlotId: null,
+  activityId: null,
+  votes: {},
+  createdAt: serverTimestamp(),
+  ...overrides,
+});
+
+const vote = (uid: string) => ({ uid, name: uid, photoURL: null, answers: { s1: 'yes', s2: 'no' }, votedAt: serverTimestamp() });
+
+// Mirrors generateInviteCode in services.ts
+const invitation = (id: string, inviterId: string, overrides: DocumentData = {}) => ({
+  id,
+  inviterId,
+  inviterName: inviterId,
+  groupId: null,
+  groupName: null,
+  maxUses: 1,
+  useCount: 0,
+  redemptions: {},
+  createdAt: serverTimestamp(),
+  expiresAt: Timestamp.fromDate(new Date(Date.now() + 7 * 24 * 60 * 60 * 1000)),
+  ...overrides,
+});
+
+const friendRequest = (fromUid: string, toUid: string, status: string) => ({
+  fromUid,
+  fromName: fromUid,
+  fromPhotoURL: null,
+  toUid,
+  toName: toUid,
+  toPhotoURL: null,
+  status,
+  invitationId: null,
+  updatedAt: serverTimestamp(),
+});
+
+describe('firestore.rules', () => {
+  beforeAll(async () => {
+    if (!process.env.FIRESTORE_EMULATOR_HOST) {
+      throw new Error('The rules tests need the Firestore emulator. Run them with `npm run test:rules`.');
+    }
+    testEnv = await initializeTestEnvironment({
+      projectId: PROJECT_ID,
+      firestore: { rules: readFileSync('firestore.rules', 'utf8') },
+    });
+  });
+
+  afterAll(async () => {
+    await testEnv?.cleanup();
+  });
+
+  // alice and bob are friends, carol is a stranger to both
+  beforeEach(async () => {
+    await testEnv.clearFirestore();
+    await seed('users/alice', profile('alice', { childNickname: 'Mia' }));
+    await seed('users/bob', profile('bob'));
+    await seed('users/alice/friends/bob', { uid: 'bob', displayName: 'bob', photoURL: null });
+    await seed('users/bob/friends/alice', { uid: 'alice', displayName: 'alice', photoURL: null });
+  });
+
+  describe('users', () => {
+    it('lets signed-in users read profiles', async () => {
+      await assertSucceeds(getDoc(doc(as('carol'), 'users/alice')));
+      await assertFails(getDoc(doc(signedOut(), 'users/alice')));
+    });
+
+    it('creates a profile only at the own uid with the own e-mail', async () => {
+      await assertSucceeds(setDoc(doc(as('carol'), 'users/carol'), profile('carol')));
+      await assertFails(setDoc(doc(as('carol'), 'users/dave'), profile('dave')));
+      await assertFails(setDoc(doc(as('dave'), 'users/dave'), profile('dave', { email: 'someone@example.com' })));
+      await assertFails(setDoc(doc(as('dave'), 'users/dave'), profile('dave', { isAdmin: true })));
+    });
+
+    it('lets owners update their name, photo and children and drop the legacy nickname', async () => {
+      await assertSucceeds(updateDoc(doc(as('alice'), 'users/alice'), {
+        displayName: 'Alice',
+        photoURL: 'https://example.com/alice.png',
+        children: [{ id: 'c1', nickname: 'Mia' }],
+        childNickname: deleteField(),
+      }));
+    });
+
+    it('rejects updates to other profiles, fixed fields and invalid values', async () => {
+      await assertFails(updateDoc(doc(as('bob'), 'users/alice'), { displayName: 'Bob was here' }));
+      await assertFails(updateDoc(doc(as('alice'), 'users/alice'), { email: 'other@example.com' }));
+      await assertFails(updateDoc(doc(as('bob'), 'users/bob'), { childNickname: 'Leo' }));
+      await assertFails(updateDoc(doc(as('alice'), 'users/alice'), { displayName: 'x'.repeat(101) }));
+    });
+  });
+
+  describe('friends', () => {
+    it('lets users list only their own friends', async () => {
+      await assertSucceeds(getDocs(query(collection(as('alice'), 'users/alice/friends'), orderBy('displayName', 'asc'))));
+      await assertFails(getDocs(collection(as('carol'), 'users/alice/friends')));
+    });
+
+    it('leaves writing friendships to the functions', async () => {
+      await assertFails(setDoc(doc(as('carol'), 'users/carol/friends/alice'), { uid: 'alice', displayName: 'alice', photoURL: null }));
+      await assertFails(deleteDoc(doc(as('alice'), 'users/alice/friends/bob')));
+    });
+  });
+
+  describe('friendRequests', () => {
+    it('lets the sender write a pending request into their own copy only', async () => {
+      await assertSucceeds(setDoc(doc(as('carol'), 'users/carol/friendRequests/alice'), friendRequest('carol', 'alice', 'pending')));
+      await assertFails(setDoc(doc(as('carol'), 'users/alice/friendRequests/carol'), friendRequest('carol', 'alice', 'pending')));
+      await assertFails(setDoc(doc(as('carol'), 'users/carol/friendRequests/alice'), friendRequest('carol', 'alice', 'accepted')));
+    });
+
+    it('lets the sender cancel and the recipient decline, but not accept', async () => {
+      await seed('users/carol/friendRequests/alice', friendRequest('carol', 'alice', 'pending'));
+      await assertSucceeds(updateDoc(doc(as('carol'), 'users/carol/friendRequests/alice'), { status: 'cancelled', updatedAt: serverTimestamp() }));
+      await assertSucceeds(setDoc(doc(as('alice'), 'users/alice/friendRequests/carol'), friendRequest('carol', 'alice', 'declined')));
+      await assertFails(setDoc(doc(as('alice'), 'users/alice/friendRequests/carol'), friendRequest('carol', 'alice', 'accepted')));
+    });
+
+    it('lets both parties read either copy, including a missing one', async () => {
+      await assertSucceeds(getDoc(doc(as('alice'), 'users/carol/friendRequests/alice')));
+      await seed('users/carol/friendRequests/alice', friendRequest('carol', 'alice', 'pending'));
+      await assertSucceeds(getDoc(doc(as('alice'), 'users/carol/friendRequests/alice')));
+      await assertFails(getDoc(doc(as('bob'), 'users/carol/friendRequests/alice')));
+    });
+
+    it('allows collection group queries for the own incoming and outgoing requests', async () => {
+      await seed('users/carol/friendRequests/alice', friendRequest('carol', 'alice', 'pending'));
+      await assertSucceeds(getDocs(query(collectionGroup(as('alice'), 'friendRequests'), where('toUid', '==', 'alice'))));
+      await assertSucceeds(getDocs(query(collectionGroup(as('carol'), 'friendRequests'), where('fromUid', '==', 'carol'))));
+      await assertFails(getDocs(query(collectionGroup(as('bob'), 'friendRequests'), where('toUid', '==', 'alice'))));
+    });
+  });
+
+  describe('calendarFeeds', () => {
+    it('lets users rotate their own feed token', async () => {
+      const db = as('alice');
+      const batch = writeBatch(db);
+      batch.set(doc(db, 'calendarFeeds', FEED_TOKEN), { uid: 'alice', createdAt: serverTimestamp() });
+      batch.set(doc(db, 'users/alice/private/calendarFeed'), { token: FEED_TOKEN, createdAt: serverTimestamp() });
+      await assertSucceeds(batch.commit());
+      await assertSucceeds(getDoc(doc(db, 'users/alice/private/calendarFeed')));
+    });
+
+    it('keeps tokens secret and owned', async () => {
+      await seed(`calendarFeeds/${FEED_TOKEN}`, { uid: 'alice', createdAt: serverTimestamp() });
+      await seed('users/alice/private/calendarFeed', { token: FEED_TOKEN, createdAt: serverTimestamp() });
+      await assertFails(getDoc(doc(as('alice'), 'calendarFeeds', FEED_TOKEN)));
+      await assertFails(getDoc(doc(as('bob'), 'users/alice/private/calendarFeed')));
+      await assertFails(setDoc(doc(as('bob'), 'calendarFeeds', 'b'.repeat(48)), { uid: 'alice', createdAt: serverTimestamp() }));
+      await assertFails(deleteDoc(doc(as('bob'), 'calendarFeeds', FEED_TOKEN)));
+      await assertSucceeds(deleteDoc(doc(as('alice'), 'calendarFeeds', FEED_TOKEN)));
+    });
+  });
+
+  describe('activities', () => {
+    it('lets users create activities with just themselves going', async () => {
+      await assertSucceeds(setDoc(doc(as('alice'), 'activities/a1'), activity('a1', 'alice')));
+    });
+
+    it('accepts invites on new activities, as when a poll is finalized', async () => {
+      await assertSucceeds(setDoc(doc(as('alice'), 'activities/a1'), activity('a1', 'alice', {
+        invitees: { bob: invitee('bob', 'alice') },
+        inviteeUids: ['bob'],
+      })));
+      await assertFails(setDoc(doc(as('alice'), 'activities/a2'), activity('a2', 'alice', {
+        invitees: { bob: invitee('bob', 'alice') },
+        inviteeUids: [],
+      })));
+    });
+
+    it('rejects new activities for others, with other families or with invalid fields', async () => {
+      await assertFails(setDoc(doc(as('bob'), 'activities/a1'), activity('a1', 'alice')));
+      await assertFails(setDoc(doc(as('alice'), 'activities/a1'), activity('a1', 'alice', {
+        participants: [{ uid: 'alice', name: 'alice' }, { uid: 'bob', name: 'bob' }],
+        participantUids: ['alice', 'bob'],
+      })));
+      await assertFails(setDoc(doc(as('alice'), 'activities/a1'), activity('a1', 'alice', { waitlist: [{ uid: 'bob', name: 'bob' }] })));
+      await assertFails(setDoc(doc(as('alice'), 'activities/a1'), activity('a1', 'alice', {
+        rsvps: { bob: { uid: 'bob', name: 'bob', photoURL: null, status: 'going', respondedAt: serverTimestamp() } },
+      })));
+      await assertFails(setDoc(doc(as('alice'), 'activities/a1'), activity('a1', 'alice', { title: 'x'.repeat(101) })));
+    });
+
+    it('shows activities according to their visibility', async () => {
+      await seed('activities/friends', activity('friends', 'alice'));
+      const legacy: DocumentData = activity('legacy', 'alice');
+      delete legacy.visibility; // Saved before visibility settings existed
+      await seed('activities/legacy', legacy);
+      await seed('activities/private', activity('private', 'alice', { visibility: 'private', inviteeUids: ['carol'], invitees: { carol: invitee('carol', 'alice') } }));
+      await seed('activities/selected', activity('selected', 'alice', { visibility: 'selectedFriends', audienceUids: ['alice', 'carol'] }));
+      await seed('activities/public', activity('public', 'alice', { visibility: 'public' }));
+
+      await assertSucceeds(getDoc(doc(as('alice'), 'activities/private')));
+      await assertSucceeds(getDoc(doc(as('bob'), 'activities/friends')));
+      await assertSucceeds(getDoc(doc(as('bob'), 'activities/legacy')));
+      await assertFails(getDoc(doc(as('carol'), 'activities/friends')));
+      await assertFails(getDoc(doc(as('bob'), 'activities/private')));
+      await assertSucceeds(getDoc(doc(as('carol'), 'activities/private')));
+      await assertFails(getDoc(doc(as('bob'), 'activities/selected')));
+      await assertSucceeds(getDoc(doc(as('carol'), 'activities/selected')));
+      await assertSucceeds(getDoc(doc(as('carol'), 'activities/public')));
+      await assertFails(getDoc(doc(signedOut(), 'activities/public')));
+    });
+
+    it('allows the queries of readableActivityQueries and rejects unfiltered ones', async () => {
+      await seed('activities/a1', activity('a1', 'alice'));
+      const since = where('date', '>=', Timestamp.fromDate(new Date()));
+      const activities = (uid: string) => collection(as(uid), 'activities');
+      await assertSucceeds(getDocs(query(activities('alice'), where('creatorId', '==', 'alice'), since)));
+      await assertSucceeds(getDocs(query(activities('bob'), where('audienceUids', 'array-contains', 'bob'), since)));
+      await assertSucceeds(getDocs(query(activities('bob'), where('participantUids', 'array-contains', 'bob'), since)));
+      await assertSucceeds(getDocs(query(activities('bob'), where('inviteeUids', 'array-contains', 'bob'), since)));
+      await assertSucceeds(getDocs(query(activities('bob'), where('creatorId', 'in', ['alice']), where('visibility', 'in', ['friends', 'public']), since)));
+      await assertFails(getDocs(query(activities('carol'), where('creatorId', 'in', ['alice']), where('visibility', 'in', ['friends', 'public']), since)));
+      await assertFails(getDocs(query(activities('carol'), since)));
+    });
+
+    it('lets only the creator edit and delete an activity', async () => {
+      await seed('activities/a1', activity('a1', 'alice'));
+      await assertSucceeds(updateDoc(doc(as('alice'), 'activities/a1'), { title: 'Zoo', location: 'Zoo', sequence: increment(1) }));
+      await assertFails(updateDoc(doc(as('bob'), 'activities/a1'), { title: 'Mine now', sequence: increment(1) }));
+      await assertFails(deleteDoc(doc(as('bob'), 'activities/a1')));
+      await assertSucceeds(deleteDoc(doc(as('alice'), 'activities/a1')));
+    });
+
+    it('leaves participants, the waitlist and RSVPs to the functions', async () => {
+      await seed('activities/a1', activity('a1', 'alice'));
+      const ref = doc(as('alice'), 'activities/a1');
+      await assertFails(updateDoc(ref, { participants: arrayUnion({ uid: 'bob', name: 'bob' }), participantUids: arrayUnion('bob') }));
+      await assertFails(updateDoc(ref, { waitlist: [{ uid: 'bob', name: 'bob' }] }));
+      await assertFails(updateDoc(ref, { 'rsvps.bob': { uid: 'bob', name: 'bob', photoURL: null, status: 'going', respondedAt: serverTimestamp() } }));
+      await assertFails(updateDoc(doc(as('bob'), 'activities/a1'), { 'rsvps.bob': { uid: 'bob', name: 'bob', photoURL: null, status: 'going', respondedAt: serverTimestamp() } }));
+    });
+
+    it('lets the creator add and withdraw invites but not answer them', async () => {
+      await seed('activities/a1', activity('a1', 'alice', { visibility: 'private', inviteeUids: ['carol'], invitees: { carol: invitee('carol', 'alice') } }));
+      const ref = doc(as('alice'), 'activities/a1');
+      await assertSucceeds(updateDoc(ref, { inviteeUids: arrayUnion('bob'), 'invitees.bob': invitee('bob', 'alice') }));
+      await assertFails(updateDoc(ref, { 'invitees.carol.status': 'accepted' }));
+      await assertFails(updateDoc(doc(as('carol'), 'activities/a1'), { 'invitees.carol.status': 'accepted' }));
+      await assertSucceeds(updateDoc(ref, { 'invitees.carol': deleteField(), inviteeUids: arrayRemove('carol') }));
+    });
+  });
+
+  describe('groups', () => {
+    // alice owns the group, bob is a co-admin, carol a member
+    beforeEach(async () => {
+      await seed('groups/g1', {
+        id: 'g1',
+        name: 'Kita friends',
+        description: null,
+        ownerId: 'alice',
+        adminIds: ['bob'],
+        memberIds: ['alice', 'bob', 'carol'],
+        members: { alice: groupMember('alice'), bob: groupMember('bob'), carol: groupMember('carol') },
+        createdAt: serverTimestamp(),
+      });
+    });
+
+    it('lets users create groups they own alone', async () => {
+      const group = { id: 'g2', name: 'Football', description: null, ownerId: 'dave', adminIds: [], memberIds: ['dave'], members: { dave: groupMember('dave') }, createdAt: serverTimestamp() };
+      await assertSucceeds(setDoc(doc(as('dave'), 'groups/g2'), group));
+      await assertFails(setDoc(doc(as('dave'), 'groups/g3'), { ...group, id: 'g3', adminIds: ['alice'] }));
+      await assertFails(setDoc(doc(as('dave'), 'groups/g4'), { ...group, id: 'g4', ownerId: 'alice' }));
+    });
+
+    it('lets only members read the group', async () => {
+      await assertSucceeds(getDoc(doc(as('carol'), 'groups/g1')));
+      await assertSucceeds(getDocs(query(collection(as('carol'), 'groups'), where('memberIds', 'array-contains', 'carol'))));
+      await assertFails(getDoc(doc(as('dave'), 'groups/g1')));
+      await assertFails(getDocs(query(collection(as('dave'), 'groups'), where('memberIds', 'array-contains', 'carol'))));
+    });
+
+    it('lets the owner and co-admins rename the group and add members', async () => {
+      await assertSucceeds(updateDoc(doc(as('alice'), 'groups/g1'), { name: 'Kita' }));
+      await assertSucceeds(updateDoc(doc(as('bob'), 'groups/g1'), { 'members.dave': groupMember('dave'), memberIds: arrayUnion('dave') }));
+      await assertFails(updateDoc(doc(as('carol'), 'groups/g1'), { name: 'Carol\'s group' }));
+      await assertFails(updateDoc(doc(as('carol'), 'groups/g1'), { 'members.dave': groupMember('dave'), memberIds: arrayUnion('dave') }));
+    });
+
+    it('lets members leave but not remove others, and keeps the owner in', async () => {
+      const removal = (uid: string) => ({ [`members.${uid}`]: deleteField(), memberIds: arrayRemove(uid), adminIds: arrayRemove(uid) });
+      await assertFails(updateDoc(doc(as('carol'), 'groups/g1'), removal('bob')));
+      await assertFails(updateDoc(doc(as('bob'), 'groups/g1'), removal('alice')));
+      await assertFails(updateDoc(doc(as('alice'), 'groups/g1'), removal('alice')));
+      await assertSucceeds(updateDoc(doc(as('carol'), 'groups/g1'), removal('carol')));
+    });
+
+    it('lets only the owner appoint co-admins and delete the group', async () => {
+      await assertFails(updateDoc(doc(as('bob'), 'groups/g1'), { adminIds: arrayUnion('carol') }));
+      await assertSucceeds(updateDoc(doc(as('alice'), 'groups/g1'), { adminIds: arrayUnion('carol') }));
+      await assertFails(deleteDoc(doc(as('bob'), 'groups/g1')));
+      await assertSucceeds(deleteDoc(doc(as('alice'), 'groups/g1')));
+    });
+  });
+
+  describe('polls', () => {
+    it('lets users create open polls for friends to vote in', async () => {
+      await assertSucceeds(setDoc(doc(as('alice'), 'polls/p1'), poll('p1', 'alice', ['bob'])));
+      await assertFails(setDoc(doc(as('alice'), 'polls/p2'), poll('p2', 'alice', ['alice', 'bob'])));
+      await assertFails(setDoc(doc(as('alice'), 'polls/p3'), poll('p3', 'alice', ['bob'], { votes: { bob: vote('bob') } })));
+      await assertFails(setDoc(doc(as('bob'), 'polls/p4'), poll('p4', 'alice', ['bob'])));
+    });
+
+    it('shows polls to the creator and the friends asked', async () => {
+      await seed('polls/p1', poll('p1', 'alice', ['bob']));
+      await assertSucceeds(getDoc(doc(as('bob'), 'polls/p1')));
+      await assertSucceeds(getDocs(query(collection(as('alice'), 'polls'), where('creatorId', '==', 'alice'))));
+      await assertSucceeds(getDocs(query(collection(as('bob'), 'polls'), where('inviteeUids', 'array-contains', 'bob'))));
+      await assertFails(getDoc(doc(as('carol'), 'polls/p1')));
+      await assertFails(getDocs(collection(as('carol'), 'polls')));
+    });
+
+    it('lets everyone asked write only their own vote while the poll is open', async () => {
+      await seed('polls/p1', poll('p1', 'alice', ['bob', 'carol']));
+      await assertSucceeds(updateDoc(doc(as('bob'), 'polls/p1'), { 'votes.bob': vote('bob') }));
+      await assertSucceeds(updateDoc(doc(as('alice'), 'polls/p1'), { 'votes.alice': vote('alice') }));
+      await assertFails(updateDoc(doc(as('bob'), 'polls/p1'), { 'votes.carol': vote('carol') }));
+      await assertFails(updateDoc(doc(as('dave'), 'polls/p1'), { 'votes.dave': vote('dave') }));
+      await assertFails(updateDoc(doc(as('bob'), 'polls/p1'), { 'votes.bob': vote('bob'), title: 'Renamed' }));
+
+      await seed('polls/p2', poll('p2', 'alice', ['bob'], { status: 'finalized', finalizedSlotId: 's1', activityId: 'a1' }));
+      await assertFails(updateDoc(doc(as('bob'), 'polls/p2'), { 'votes.bob': vote('bob') }));
+    });
+
+    it('lets the creator finalize an open poll together with its activity', async () => {
+      await seed('polls/p1', poll('p1', 'alice', ['bob']));
+      const db = as('alice');
+      await assertSucceeds(runTransaction(db, async transaction => {
+        await transaction.get(doc(db, 'polls/p1'));
+        transaction.set(doc(db, 'activities/a1'), activity('a1', 'alice', {
+          visibility: 'private',
+          invitees: { bob: invitee('bob', 'alice') },
+          inviteeUids: ['bob'],
+        }));
+        transaction.update(doc(db, 'polls/p1'), { status: 'finalized', finalizedSlotId: 's1', activityId: 'a1' });
+      }));
+      // Closed polls stay closed
+      await assertFails(updateDoc(doc(db, 'polls/p1'), { status: 'finalized', finalizedSlotId: 's2', activityId: 'a1' }));
+    });
+
+    it('rejects finalizing without the activity or by someone else', async () => {
+      await seed('polls/p1', poll('p1', 'alice', ['bob']));
+      await assertFails(updateDoc(doc(as('alice'), 'polls/p1'), { status: 'finalized', finalizedSlotId: 's1', activityId: 'missing' }));
+      await seed('activities/a1', activity('a1', 'bob'));
+      await assertFails(updateDoc(doc(as('bob'), 'polls/p1'), { status: 'finalized', finalizedSlotId: 's1', activityId: 'a1' }));
+    });
+
+    it('lets only the creator delete a poll', async () => {
+      await seed('polls/p1', poll('p1', 'alice', ['bob']));
+      await assertFails(deleteDoc(doc(as('bob'), 'polls/p1')));
+      await assertSucceeds(deleteDoc(doc(as('alice'), 'polls/p1')));
+    });
+  });
+
+  describe('invitations', () => {
+    it('lets users create invites stored under a hashed id without the code', async () => {
+      await assertSucceeds(setDoc(doc(as('alice'), 'invitations', INVITATION_ID), invitation(INVITATION_ID, 'alice')));
+      await assertFails(setDoc(doc(as('alice'), 'invitations/ABC123'), invitation('ABC123', 'alice')));
+      await assertFails(setDoc(doc(as('alice'), 'invitations', INVITATION_ID), invitation('b'.repeat(64), 'alice')));
+      await assertFails(setDoc(doc(as('alice'), 'invitations', INVITATION_ID), invitation(INVITATION_ID, 'alice', { code: 'ABC123' })));
+      await assertFails(setDoc(doc(as('alice'), 'invitations', INVITATION_ID), invitation(INVITATION_ID, 'alice', { useCount: 3 })));
+      await assertFails(setDoc(doc(as('bob'), 'invitations', INVITATION_ID), invitation(INVITATION_ID, 'alice')));
+    });
+
+    it('lets only group owners and co-admins create group invites', async () => {
+      await seed('groups/g1', { id: 'g1', name: 'Kita', ownerId: 'alice', adminIds: ['bob'], memberIds: ['alice', 'bob', 'carol'], members: {} });
+      const groupInvite = (inviterId: string) => invitation(INVITATION_ID, inviterId, { groupId: 'g1', groupName: 'Kita' });
+      await assertFails(setDoc(doc(as('carol'), 'invitations', INVITATION_ID), groupInvite('carol')));
+      await assertSucceeds(setDoc(doc(as('bob'), 'invitations', INVITATION_ID), groupInvite('bob')));
+    });
+
+    it('lets anyone with the code read an invite until it expires', async () => {
+      await seed(`invitations/${INVITATION_ID}`, invitation(INVITATION_ID, 'alice'));
+      const expiredId = 'c'.repeat(64);
+      await seed(`invitations/${expiredId}`, invitation(expiredId, 'alice', { expiresAt: Timestamp.fromDate(new Date(Date.now() - 60 * 1000)) }));
+      await seed('invitations/ABC123', invitation('ABC123', 'alice'));
+
+      await assertSucceeds(getDoc(doc(as('carol'), 'invitations', INVITATION_ID)));
+      await assertFails(getDoc(doc(as('carol'), 'invitations', expiredId)));
+      await assertFails(getDoc(doc(as('carol'), 'invitations/ABC123')));
+      await assertSucceeds(getDoc(doc(as('alice'), 'invitations', expiredId)));
+      await assertFails(getDoc(doc(signedOut(), 'invitations', INVITATION_ID)));
+    });
+
+    it('lets only the inviter list and revoke their invites', async () => {
+      await seed(`invitations/${INVITATION_ID}`, invitation(INVITATION_ID, 'alice'));
+      await assertSucceeds(getDocs(query(collection(as('alice'), 'invitations'), where('inviterId', '==', 'alice'))));
+      await assertFails(getDocs(query(collection(as('carol'), 'invitations'), where('inviterId', '==', 'alice'))));
+      await assertFails(getDocs(collection(as('carol'), 'invitations')));
+      await assertFails(deleteDoc(doc(as('carol'), 'invitations', INVITATION_ID)));
+      await assertSucceeds(deleteDoc(doc(as('alice'), 'invitations', INVITATION_ID)));
+    });
+
+    it('leaves counting uses to the acceptInvitation function', async () => {
+      await seed(`invitations/${INVITATION_ID}`, invitation(INVITATION_ID, 'alice'));
+      await assertFails(updateDoc(doc(as('carol'), 'invitations', INVITATION_ID), { useCount: increment(1) }));
+      await assertFails(updateDoc(doc(as('alice'), 'invitations', INVITATION_ID), { maxUses: null }));
+    });
+  });
+});